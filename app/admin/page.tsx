@@ -11,8 +11,15 @@ interface User {
   email: string
   role: string
   createdAt: string
+  storageQuota?: {
+    limitBytes: number
+    usedBytes: number
+    isCustomLimit: boolean
+  }
 }
 
+const formatGB = (bytes: number) => `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`
+
 interface AuditLog {
   id: string
   action: string
@@ -81,6 +88,28 @@ export default function AdminPanel() {
     }
   }
 
+  const updateUserQuota = async (user: User) => {
+    const current = user.storageQuota ? (user.storageQuota.limitBytes / (1024 * 1024 * 1024)).toString() : ''
+    const input = prompt('Storage quota in GB (leave empty for the role default):', current)
+    if (input === null) return
+
+    const quotaBytes = input.trim() === '' ? null : Math.round(parseFloat(input) * 1024 * 1024 * 1024)
+    if (quotaBytes !== null && !Number.isFinite(quotaBytes)) return
+
+    try {
+      const response = await fetch('/api/admin/users', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId: user.id, quotaBytes })
+      })
+      if (response.ok) {
+        fetchUsers()
+      }
+    } catch (error) {
+      console.error('Failed to update user quota:', error)
+    }
+  }
+
   if (!session || session.user.role !== 'admin') {
     return (
       <div className="min-h-screen bg-background text-foreground flex items-center justify-center">
@@ -146,6 +175,7 @@ export default function AdminPanel() {
                     <th className="text-left py-2">Name</th>
                     <th className="text-left py-2">Email</th>
                     <th className="text-left py-2">Role</th>
+                    <th className="text-left py-2">Storage</th>
                     <th className="text-left py-2">Joined</th>
                     <th className="text-left py-2">Actions</th>
                   </tr>
@@ -165,6 +195,18 @@ export default function AdminPanel() {
                           <option value="admin">Admin</option>
                         </select>
                       </td>
+                      <td className="py-2">
+                        {user.storageQuota && (
+                          <button
+                            onClick={() => updateUserQuota(user)}
+                            className="text-left hover:underline"
+                            title="Change quota"
+                          >
+                            {formatGB(user.storageQuota.usedBytes)} / {formatGB(user.storageQuota.limitBytes)}
+                            {user.storageQuota.isCustomLimit && ' *'}
+                          </button>
+                        )}
+                      </td>
                       <td className="py-2">{new Date(user.createdAt).toLocaleDateString()}</td>
                       <td className="py-2">
                         <button className="text-red-600 hover:text-red-800 text-sm">
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { getAuthOptions } from '@/lib/auth'
+import { logAuditEvent, AuditAction, AuditSeverity } from '@/lib/audit'
+import { processDueRetries } from '@/lib/deliveries'
+
+export async function POST(request: NextRequest) {
+  try {
+    const authOptions = await getAuthOptions()
+    const session = await getServerSession(authOptions)
+
+    if (!session || session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+    }
+
+    const { action } = await request.json()
+
+    if (action !== 'retry') {
+      return NextResponse.json({ error: "Invalid action. Must be 'retry'" }, { status: 400 })
+    }
+
+    // Failed deliveries whose next attempt is due, including ones a restart left waiting
+    const result = await processDueRetries()
+
+    await logAuditEvent({
+      userId: session.user.id,
+      action: AuditAction.ADMIN_ACTION,
+      resource: 'delivery',
+      details: { action: 'retry', ...result },
+      severity: AuditSeverity.LOW
+    })
+
+    return NextResponse.json({ success: true, action, ...result })
+  } catch (error) {
+    console.error('Delivery retry failed:', error)
+    return NextResponse.json({
+      error: 'Delivery retry failed',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { getAuthOptions } from '@/lib/auth'
+import { logAuditEvent, AuditAction, AuditSeverity } from '@/lib/audit'
+import { getKeyStatus, migratePlaintextKeys, rotateWrappedKeys } from '@/lib/key-management'
+
+export async function GET() {
+  try {
+    const authOptions = await getAuthOptions()
+    const session = await getServerSession(authOptions)
+
+    if (!session || session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+    }
+
+    return NextResponse.json(await getKeyStatus())
+  } catch (error) {
+    console.error('Failed to fetch key status:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const authOptions = await getAuthOptions()
+    const session = await getServerSession(authOptions)
+
+    if (!session || session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+    }
+
+    const { action, force } = await request.json()
+
+    let result
+    if (action === 'migrate') {
+      // Wrap plaintext File.encryptionKey values left by earlier releases
+      result = await migratePlaintextKeys()
+    } else if (action === 'rotate') {
+      // Re-wrap master-wrapped keys under the first key in FILE_MASTER_KEYS
+      result = await rotateWrappedKeys({ force: force === true })
+    } else {
+      return NextResponse.json({ error: "Invalid action. Must be 'migrate' or 'rotate'" }, { status: 400 })
+    }
+
+    await logAuditEvent({
+      userId: session.user.id,
+      action: AuditAction.ADMIN_ACTION,
+      resource: 'encryption_keys',
+      details: { action: `key_${action}`, ...result },
+      severity: AuditSeverity.HIGH
+    })
+
+    return NextResponse.json({ success: true, action, ...result })
+  } catch (error) {
+    console.error('Key management action failed:', error)
+    return NextResponse.json({
+      error: 'Key management action failed',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { getAuthOptions } from '@/lib/auth'
+import { logAuditEvent, AuditAction, AuditSeverity } from '@/lib/audit'
+import { backfillScans, isScanningEnabled, pingScanner } from '@/lib/malware-scan'
+
+export async function POST(request: NextRequest) {
+  try {
+    const authOptions = await getAuthOptions()
+    const session = await getServerSession(authOptions)
+
+    if (!session || session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+    }
+
+    const { action, userId, retryFailed } = await request.json()
+
+    if (action !== 'scan' && action !== 'status') {
+      return NextResponse.json({ error: "Invalid action. Must be 'scan' or 'status'" }, { status: 400 })
+    }
+
+    if (!isScanningEnabled()) {
+      return NextResponse.json({ error: 'Malware scanning is not configured (set CLAMAV_SOCKET or CLAMAV_HOST)' }, { status: 400 })
+    }
+
+    if (action === 'status') {
+      return NextResponse.json({ success: true, action, reachable: await pingScanner() })
+    }
+
+    // Scan files uploaded before scanning was enabled or left pending by a restart
+    const result = await backfillScans({
+      userId: typeof userId === 'string' ? userId : undefined,
+      retryFailed: retryFailed === true
+    })
+
+    await logAuditEvent({
+      userId: session.user.id,
+      action: AuditAction.ADMIN_ACTION,
+      resource: 'malware_scan',
+      details: { action: 'scan', userId: userId || null, retryFailed: retryFailed === true, ...result },
+      severity: AuditSeverity.MEDIUM
+    })
+
+    return NextResponse.json({ success: true, action, ...result })
+  } catch (error) {
+    console.error('Malware scan failed:', error)
+    return NextResponse.json({
+      error: 'Malware scan failed',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { getAuthOptions } from '@/lib/auth'
+import { logAuditEvent, AuditAction, AuditSeverity } from '@/lib/audit'
+import { reindexFileContents } from '@/lib/search'
+
+export async function POST(request: NextRequest) {
+  try {
+    const authOptions = await getAuthOptions()
+    const session = await getServerSession(authOptions)
+
+    if (!session || session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+    }
+
+    const { action, userId } = await request.json()
+
+    if (action !== 'reindex') {
+      return NextResponse.json({ error: "Invalid action. Must be 'reindex'" }, { status: 400 })
+    }
+
+    // Extract text for files uploaded before search existed, or after extraction improves
+    const result = await reindexFileContents({ userId: typeof userId === 'string' ? userId : undefined })
+
+    await logAuditEvent({
+      userId: session.user.id,
+      action: AuditAction.ADMIN_ACTION,
+      resource: 'search_index',
+      details: { action: 'reindex', userId: userId || null, ...result },
+      severity: AuditSeverity.MEDIUM
+    })
+
+    return NextResponse.json({ success: true, action, ...result })
+  } catch (error) {
+    console.error('Search reindex failed:', error)
+    return NextResponse.json({
+      error: 'Search reindex failed',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
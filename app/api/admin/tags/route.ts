@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { getAuthOptions } from '@/lib/auth'
+import { logAuditEvent, AuditAction, AuditSeverity } from '@/lib/audit'
+import { retagFiles } from '@/lib/file-tags'
+
+export async function POST(request: NextRequest) {
+  try {
+    const authOptions = await getAuthOptions()
+    const session = await getServerSession(authOptions)
+
+    if (!session || session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+    }
+
+    const { action, userId } = await request.json()
+
+    if (action !== 'retag') {
+      return NextResponse.json({ error: "Invalid action. Must be 'retag'" }, { status: 400 })
+    }
+
+    // Recompute auto tags for files uploaded before tagging, or after tagging rules change
+    const result = await retagFiles({ userId: typeof userId === 'string' ? userId : undefined })
+
+    await logAuditEvent({
+      userId: session.user.id,
+      action: AuditAction.ADMIN_ACTION,
+      resource: 'file_tags',
+      details: { action: 'retag', userId: userId || null, ...result },
+      severity: AuditSeverity.MEDIUM
+    })
+
+    return NextResponse.json({ success: true, action, ...result })
+  } catch (error) {
+    console.error('Re-tag failed:', error)
+    return NextResponse.json({
+      error: 'Re-tag failed',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { getAuthOptions } from '@/lib/auth'
+import { logAuditEvent, AuditAction, AuditSeverity } from '@/lib/audit'
+import { backfillThumbnails } from '@/lib/thumbnails'
+
+export async function POST(request: NextRequest) {
+  try {
+    const authOptions = await getAuthOptions()
+    const session = await getServerSession(authOptions)
+
+    if (!session || session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+    }
+
+    const { action, userId, retryFailed } = await request.json()
+
+    if (action !== 'generate') {
+      return NextResponse.json({ error: "Invalid action. Must be 'generate'" }, { status: 400 })
+    }
+
+    // Generate thumbnails for files uploaded before thumbnails existed or left pending by a restart
+    const result = await backfillThumbnails({
+      userId: typeof userId === 'string' ? userId : undefined,
+      retryFailed: retryFailed === true
+    })
+
+    await logAuditEvent({
+      userId: session.user.id,
+      action: AuditAction.ADMIN_ACTION,
+      resource: 'thumbnails',
+      details: { action: 'generate', userId: userId || null, retryFailed: retryFailed === true, ...result },
+      severity: AuditSeverity.MEDIUM
+    })
+
+    return NextResponse.json({ success: true, action, ...result })
+  } catch (error) {
+    console.error('Thumbnail generation failed:', error)
+    return NextResponse.json({
+      error: 'Thumbnail generation failed',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { getAuthOptions } from '@/lib/auth'
+import { logAuditEvent, AuditAction, AuditSeverity } from '@/lib/audit'
+import { getTrashRetentionDays, purgeExpiredTrash } from '@/lib/trash'
+
+export async function POST(request: NextRequest) {
+  try {
+    const authOptions = await getAuthOptions()
+    const session = await getServerSession(authOptions)
+
+    if (!session || session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+    }
+
+    const { action, userId } = await request.json()
+
+    if (action !== 'purge') {
+      return NextResponse.json({ error: "Invalid action. Must be 'purge'" }, { status: 400 })
+    }
+
+    // Permanently delete files that have been in the trash longer than TRASH_RETENTION_DAYS
+    const result = await purgeExpiredTrash({ userId: typeof userId === 'string' ? userId : undefined })
+
+    await logAuditEvent({
+      userId: session.user.id,
+      action: AuditAction.ADMIN_ACTION,
+      resource: 'trash',
+      details: { action: 'purge', userId: userId || null, retentionDays: getTrashRetentionDays(), ...result },
+      severity: AuditSeverity.MEDIUM
+    })
+
+    return NextResponse.json({ success: true, action, ...result })
+  } catch (error) {
+    console.error('Trash purge failed:', error)
+    return NextResponse.json({
+      error: 'Trash purge failed',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -3,6 +3,14 @@ import { getServerSession } from 'next-auth'
 import { getAuthOptions } from '@/lib/auth'
 import { getPrismaClient } from '@/lib/prisma'
 import { logAuditEvent, AuditAction, AuditSeverity } from '@/lib/audit'
+import { AppError } from '@/lib/error-handling'
+import {
+  getStorageQuota,
+  recalculateStorageUsage,
+  setStorageQuotaLimit,
+  toQuotaInfo,
+  StorageQuotaInfo
+} from '@/lib/storage-quota'
 
 export async function GET() {
   try {
@@ -21,6 +29,7 @@ export async function GET() {
         email: true,
         role: true,
         emailVerified: true,
+        storageQuota: { select: { limitBytes: true, usedBytes: true } },
         _count: {
           select: {
             files: true,
@@ -31,6 +40,15 @@ export async function GET() {
       orderBy: { emailVerified: 'desc' }
     })
 
+    // Quota rows are created on first use; users without one are measured now
+    const usersWithQuota = []
+    for (const { storageQuota, ...user } of users) {
+      const quota: StorageQuotaInfo = storageQuota
+        ? toQuotaInfo(user.id, user.role, storageQuota)
+        : await getStorageQuota(user.id)
+      usersWithQuota.push({ ...user, storageQuota: quota })
+    }
+
     await logAuditEvent({
       userId: session.user.id,
       action: AuditAction.ADMIN_ACTION,
@@ -39,7 +57,7 @@ export async function GET() {
       severity: AuditSeverity.LOW
     })
 
-    return NextResponse.json(users)
+    return NextResponse.json(usersWithQuota)
   } catch (error) {
     console.error('Failed to fetch users:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
@@ -56,19 +74,23 @@ export async function PATCH(request: NextRequest) {
     }
 
     const prisma = await getPrismaClient()
-    const { userId, role } = await request.json()
+    const { userId, role, quotaBytes, recalculateUsage } = await request.json()
 
-    if (!userId || !role) {
+    // quotaBytes: a byte limit, or null to return to the role default
+    if (!userId || (!role && quotaBytes === undefined && !recalculateUsage)) {
       return NextResponse.json({ error: 'Missing required fields' }, { status: 400 })
     }
 
-    if (!['user', 'admin'].includes(role)) {
+    if (role && !['user', 'admin'].includes(role)) {
       return NextResponse.json({ error: 'Invalid role' }, { status: 400 })
     }
 
-    const updatedUser = await prisma.user.update({
+    if (quotaBytes !== undefined && quotaBytes !== null && typeof quotaBytes !== 'number') {
+      return NextResponse.json({ error: 'Invalid quota' }, { status: 400 })
+    }
+
+    const updatedUser = await prisma.user.findUnique({
       where: { id: userId },
-      data: { role },
       select: {
         id: true,
         name: true,
@@ -77,18 +99,52 @@ export async function PATCH(request: NextRequest) {
       }
     })
 
-    await logAuditEvent({
-      userId: session.user.id,
-      action: AuditAction.ADMIN_ACTION,
-      resource: 'users',
-      resourceId: userId,
-      details: { action: 'update_role', newRole: role },
-      severity: AuditSeverity.MEDIUM
-    })
+    if (!updatedUser) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
 
-    return NextResponse.json(updatedUser)
+    if (role && role !== updatedUser.role) {
+      await prisma.user.update({ where: { id: userId }, data: { role } })
+      updatedUser.role = role
+
+      await logAuditEvent({
+        userId: session.user.id,
+        action: AuditAction.ADMIN_ACTION,
+        resource: 'users',
+        resourceId: userId,
+        details: { action: 'update_role', newRole: role },
+        severity: AuditSeverity.MEDIUM
+      })
+    }
+
+    let storageQuota = quotaBytes !== undefined
+      ? await setStorageQuotaLimit(userId, quotaBytes)
+      : null
+
+    if (quotaBytes !== undefined) {
+      await logAuditEvent({
+        userId: session.user.id,
+        action: AuditAction.ADMIN_ACTION,
+        resource: 'users',
+        resourceId: userId,
+        details: { action: 'update_quota', quotaBytes, effectiveLimitBytes: storageQuota?.limitBytes },
+        severity: AuditSeverity.MEDIUM
+      })
+    }
+
+    if (recalculateUsage) {
+      storageQuota = await recalculateStorageUsage(userId)
+    }
+
+    return NextResponse.json({
+      ...updatedUser,
+      storageQuota: storageQuota || await getStorageQuota(userId)
+    })
   } catch (error) {
     console.error('Failed to update user:', error)
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode })
+    }
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
 }
\ No newline at end of file
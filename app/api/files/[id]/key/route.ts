@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { getAuthOptions } from "@/lib/auth"
+import { getPrismaClient } from "@/lib/prisma"
+import { checkFileAccess, Permission } from "@/lib/permissions"
+import { isEndToEndEncrypted } from "@/lib/key-management"
+import { isShareUnlocked } from "@/lib/share-links"
+import {
+  handleApiError,
+  createAuthenticationError,
+  createAuthorizationError,
+  createNotFoundError,
+  createValidationError
+} from "@/lib/error-handling"
+
+// Returns the caller's copy of an end-to-end encrypted file's data key, wrapped for their
+// public key. Only the browser holding the matching private key can unwrap it.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authOptions = await getAuthOptions()
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      throw createAuthenticationError()
+    }
+
+    const { id: fileId } = await params
+    const access = await checkFileAccess(session.user.id, fileId, [Permission.DOWNLOAD], {
+      isShareUnlocked: (share) => isShareUnlocked(share, request)
+    })
+    if (!access.hasAccess) {
+      if (access.reason === 'File not found') {
+        throw createNotFoundError('File')
+      }
+      throw createAuthorizationError(access.reason)
+    }
+
+    const prisma = await getPrismaClient()
+    const file = await prisma.file.findUnique({
+      where: { id: fileId },
+      select: { userId: true, wrappedKey: true }
+    })
+
+    if (!file) {
+      throw createNotFoundError('File')
+    }
+
+    if (!isEndToEndEncrypted(file)) {
+      throw createValidationError('File is not end-to-end encrypted')
+    }
+
+    if (file.userId === session.user.id) {
+      return NextResponse.json({ wrappedKey: file.wrappedKey })
+    }
+
+    const share = await prisma.fileShare.findFirst({
+      where: {
+        fileId,
+        revoked: false,
+        wrappedKey: { not: null },
+        OR: [
+          { userId: session.user.id },
+          { sharedWithEmail: session.user.email?.toLowerCase() }
+        ],
+        AND: {
+          OR: [
+            { expiresAt: null },
+            { expiresAt: { gt: new Date() } }
+          ]
+        }
+      },
+      select: { wrappedKey: true },
+      orderBy: { createdAt: 'desc' }
+    })
+
+    if (!share) {
+      throw createAuthorizationError('This file was not shared with your encryption key')
+    }
+
+    return NextResponse.json({ wrappedKey: share.wrappedKey })
+  } catch (error) {
+    const { error: appError, response } = await handleApiError(error, 'Get file key')
+    return NextResponse.json(response, { status: appError.statusCode })
+  }
+}
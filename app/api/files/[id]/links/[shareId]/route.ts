@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { getAuthOptions } from "@/lib/auth"
+import { getPrismaClient } from "@/lib/prisma"
+import { logAuditEvent, AuditAction, AuditSeverity } from "@/lib/audit"
+import {
+  handleApiError,
+  createAuthenticationError,
+  createAuthorizationError,
+  createNotFoundError
+} from "@/lib/error-handling"
+
+// DELETE: revoke a public link. The row is kept so its access log stays attached.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; shareId: string }> }
+) {
+  try {
+    const authOptions = await getAuthOptions()
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      throw createAuthenticationError()
+    }
+
+    const { id: fileId, shareId } = await params
+    const prisma = await getPrismaClient()
+    const link = await prisma.fileShare.findFirst({
+      where: { id: shareId, fileId, shareType: 'PUBLIC' },
+      select: { id: true, revoked: true, file: { select: { userId: true, name: true } } }
+    })
+
+    if (!link) {
+      throw createNotFoundError('Public link')
+    }
+    if (link.file.userId !== session.user.id) {
+      throw createAuthorizationError('Only the file owner can revoke public links')
+    }
+
+    if (!link.revoked) {
+      await prisma.fileShare.update({
+        where: { id: shareId },
+        data: { revoked: true }
+      })
+
+      await logAuditEvent({
+        userId: session.user.id,
+        action: AuditAction.FILE_SHARE,
+        resource: 'file',
+        resourceId: fileId,
+        details: { action: 'revoke_public_link', shareId, fileName: link.file.name },
+        ipAddress: request.headers.get('x-forwarded-for') || undefined,
+        userAgent: request.headers.get('user-agent') || undefined,
+        severity: AuditSeverity.MEDIUM
+      })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    const { error: appError, response } = await handleApiError(error, 'Revoke public link')
+    return NextResponse.json(response, { status: appError.statusCode })
+  }
+}
@@ -0,0 +1,173 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { getAuthOptions } from "@/lib/auth"
+import { getPrismaClient } from "@/lib/prisma"
+import { logAuditEvent, AuditAction, AuditSeverity } from "@/lib/audit"
+import { generateShareToken, buildShareLinkUrl, hashSharePassword, isServerReadable } from "@/lib/share-links"
+import { assertFileClean } from "@/lib/malware-scan"
+import {
+  handleApiError,
+  createAuthenticationError,
+  createAuthorizationError,
+  createNotFoundError,
+  createValidationError
+} from "@/lib/error-handling"
+
+const MAX_LINK_LIFETIME_DAYS = 365
+
+const linkSelect = {
+  id: true,
+  token: true,
+  permissions: true,
+  password: true,
+  expiresAt: true,
+  maxAccessCount: true,
+  accessCount: true,
+  viewCount: true,
+  downloadCount: true,
+  lastAccessedAt: true,
+  revoked: true,
+  createdAt: true
+}
+
+interface LinkRow {
+  id: string
+  token: string
+  password: string | null
+  [field: string]: unknown
+}
+
+// Never return the password hash; only whether one is set
+function toLinkResponse(link: LinkRow, origin: string) {
+  const { password, ...rest } = link
+  return { ...rest, hasPassword: !!password, url: buildShareLinkUrl(link.token, origin) }
+}
+
+async function authorizeOwner(fileId: string) {
+  const authOptions = await getAuthOptions()
+  const session = await getServerSession(authOptions)
+  if (!session?.user?.id) {
+    throw createAuthenticationError()
+  }
+
+  const prisma = await getPrismaClient()
+  const file = await prisma.file.findUnique({
+    where: { id: fileId },
+    select: { id: true, name: true, userId: true, encrypted: true, wrappedKey: true, encryptionKey: true, scanStatus: true }
+  })
+
+  if (!file) {
+    throw createNotFoundError('File')
+  }
+  if (file.userId !== session.user.id) {
+    throw createAuthorizationError('Only the file owner can manage public links')
+  }
+
+  return { session, file, prisma }
+}
+
+// GET: the file's public links
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: fileId } = await params
+    const { prisma } = await authorizeOwner(fileId)
+
+    const links = await prisma.fileShare.findMany({
+      where: { fileId, shareType: 'PUBLIC' },
+      select: linkSelect,
+      orderBy: { createdAt: 'desc' }
+    })
+
+    const origin = new URL(request.url).origin
+    return NextResponse.json({ links: links.map((link: LinkRow) => toLinkResponse(link, origin)) })
+  } catch (error) {
+    const { error: appError, response } = await handleApiError(error, 'List public links')
+    return NextResponse.json(response, { status: appError.statusCode })
+  }
+}
+
+// POST: create a public link. Body: { password?, expiresAt?, maxAccessCount?, allowDownload? }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: fileId } = await params
+    const { session, file, prisma } = await authorizeOwner(fileId)
+
+    let body
+    try {
+      body = await request.json()
+    } catch {
+      throw createValidationError("Request body must be valid JSON")
+    }
+
+    // Anonymous visitors cannot supply a passphrase or private key
+    if (!isServerReadable(file)) {
+      throw createValidationError("Files encrypted with a passphrase or end-to-end cannot be shared by public link")
+    }
+    assertFileClean(file)
+
+    let expiresAt: Date | null = null
+    if (body.expiresAt) {
+      expiresAt = new Date(body.expiresAt)
+      const latest = Date.now() + MAX_LINK_LIFETIME_DAYS * 24 * 60 * 60 * 1000
+      if (isNaN(expiresAt.getTime()) || expiresAt.getTime() <= Date.now() || expiresAt.getTime() > latest) {
+        throw createValidationError(`Expiry must be a future date within ${MAX_LINK_LIFETIME_DAYS} days`)
+      }
+    }
+
+    let maxAccessCount: number | null = null
+    if (body.maxAccessCount !== undefined && body.maxAccessCount !== null) {
+      maxAccessCount = Number(body.maxAccessCount)
+      if (!Number.isInteger(maxAccessCount) || maxAccessCount < 1 || maxAccessCount > 10000) {
+        throw createValidationError("Access limit must be a whole number between 1 and 10000")
+      }
+    }
+
+    const password = body.password ? await hashSharePassword(body.password) : null
+    const permissions = body.allowDownload === false ? ['VIEW'] : ['VIEW', 'DOWNLOAD']
+
+    const link = await prisma.fileShare.create({
+      data: {
+        fileId,
+        shareType: 'PUBLIC',
+        status: 'ACCEPTED',
+        token: generateShareToken(),
+        permissions: JSON.stringify(permissions),
+        password,
+        expiresAt,
+        maxAccessCount,
+        createdBy: session.user.id
+      },
+      select: linkSelect
+    })
+
+    await logAuditEvent({
+      userId: session.user.id,
+      action: AuditAction.FILE_SHARE,
+      resource: 'file',
+      resourceId: fileId,
+      details: {
+        action: 'create_public_link',
+        shareId: link.id,
+        fileName: file.name,
+        hasPassword: !!password,
+        expiresAt,
+        maxAccessCount,
+        permissions
+      },
+      ipAddress: request.headers.get('x-forwarded-for') || undefined,
+      userAgent: request.headers.get('user-agent') || undefined,
+      severity: AuditSeverity.MEDIUM
+    })
+
+    return NextResponse.json(toLinkResponse(link, new URL(request.url).origin), { status: 201 })
+  } catch (error) {
+    const { error: appError, response } = await handleApiError(error, 'Create public link')
+    return NextResponse.json(response, { status: appError.statusCode })
+  }
+}
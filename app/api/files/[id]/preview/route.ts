@@ -0,0 +1,200 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { getAuthOptions } from "@/lib/auth"
+import { getPrismaClient } from "@/lib/prisma"
+import { checkFileAccess, Permission } from "@/lib/permissions"
+import { isShareUnlocked } from "@/lib/share-links"
+import { openStoredFileDecryptStream } from "@/lib/encryption"
+import { resolveFileSecret } from "@/lib/key-management"
+import { openStoredObject } from "@/lib/storage"
+import { logAccessEvent, AccessEventType } from "@/lib/access-tracking"
+import { assertFileClean } from "@/lib/malware-scan"
+import {
+  getPreviewKind,
+  getPreviewEncryption,
+  findPreviewShare,
+  isPreviewLogged,
+  recordPreviewDuration,
+  MAX_TEXT_PREVIEW_BYTES
+} from "@/lib/file-preview"
+import {
+  handleApiError,
+  createAuthenticationError,
+  createAuthorizationError,
+  createNotFoundError,
+  createValidationError
+} from "@/lib/error-handling"
+import { Readable } from 'stream'
+
+async function requireSession() {
+  const authOptions = await getAuthOptions()
+  const session = await getServerSession(authOptions)
+  if (!session?.user?.id) {
+    throw createAuthenticationError()
+  }
+  return session
+}
+
+// GET: file content for the viewer. Unencrypted files support ranges so media can seek;
+// passphrase-protected files need the passphrase in the x-decryption-key header, and
+// end-to-end encrypted files are sent as ciphertext for the browser to decrypt.
+// ?session= groups a viewer's requests so the preview is logged once.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await requireSession()
+    const { id: fileId } = await params
+
+    const access = await checkFileAccess(session.user.id, fileId, [Permission.VIEW], {
+      isShareUnlocked: (share) => isShareUnlocked(share, request)
+    })
+    if (!access.hasAccess) {
+      if (access.passwordRequiredShareId) {
+        return NextResponse.json({
+          error: "Share password required",
+          passwordRequired: true,
+          shareId: access.passwordRequiredShareId
+        }, { status: 403 })
+      }
+      if (access.reason === 'File not found') {
+        throw createNotFoundError('File')
+      }
+      throw createAuthorizationError(access.reason)
+    }
+
+    const prisma = await getPrismaClient()
+    const file = await prisma.file.findUnique({ where: { id: fileId } })
+    if (!file) {
+      throw createNotFoundError('File')
+    }
+    assertFileClean(file)
+
+    const kind = getPreviewKind(file.type, file.name)
+    if (!kind) {
+      throw createValidationError('This file type cannot be previewed')
+    }
+    if ((kind === 'text' || kind === 'code') && file.size > MAX_TEXT_PREVIEW_BYTES) {
+      throw createValidationError('File is too large to preview as text')
+    }
+
+    const encryption = getPreviewEncryption(file)
+    const decryptionKey = request.headers.get('x-decryption-key')
+    if (encryption === 'passphrase' && !decryptionKey) {
+      throw createValidationError('Decryption key required for encrypted file')
+    }
+
+    // Ranges are only offered on plaintext at rest, like downloads
+    const rangeHeader = encryption === 'none' ? request.headers.get('range') : null
+    let range: { start: number; end: number } | undefined
+    if (rangeHeader) {
+      const rangeMatch = rangeHeader.match(/bytes=(\d+)-(\d*)/)
+      if (rangeMatch) {
+        const start = parseInt(rangeMatch[1])
+        const end = rangeMatch[2] ? Math.min(parseInt(rangeMatch[2]), file.size - 1) : file.size - 1
+        if (start >= file.size || start > end) {
+          return NextResponse.json({ error: "Invalid range" }, {
+            status: 416,
+            headers: { 'Content-Range': `bytes */${file.size}` }
+          })
+        }
+        range = { start, end }
+      }
+    }
+
+    const stored = await openStoredObject(file, range)
+
+    let body: Readable
+    let contentLength: number
+    if (encryption === 'server' || encryption === 'passphrase') {
+      try {
+        const secret = await resolveFileSecret(file, decryptionKey)
+        body = await openStoredFileDecryptStream(stored.stream, secret)
+        contentLength = file.size
+      } catch (error) {
+        stored.stream.destroy()
+        console.error('Preview decryption error:', error)
+        throw createValidationError('Failed to decrypt file. Please check your decryption key.')
+      }
+    } else {
+      body = stored.stream
+      contentLength = stored.size
+    }
+
+    const fileName = file.originalName || file.name
+    const headers: Record<string, string> = {
+      'Content-Type': encryption === 'e2e'
+        ? 'application/octet-stream'
+        : kind === 'text' || kind === 'code' ? 'text/plain; charset=utf-8' : file.type,
+      'Content-Disposition': `inline; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+      'X-Content-Type-Options': 'nosniff',
+      'Content-Length': contentLength.toString(),
+      'Cache-Control': 'private, no-store'
+    }
+    // Browsers need their built-in PDF viewer, which a sandboxed document cannot load
+    if (kind !== 'pdf') {
+      headers['Content-Security-Policy'] = 'sandbox'
+    }
+    if (encryption === 'none') {
+      headers['Accept-Ranges'] = 'bytes'
+    }
+    if (encryption === 'e2e') {
+      headers['X-Encryption-Mode'] = 'e2e'
+    }
+    if (range) {
+      headers['Content-Range'] = `bytes ${range.start}-${range.end}/${file.size}`
+    }
+
+    // Log the first request of each viewer session against the share that granted access
+    const sessionId = new URL(request.url).searchParams.get('session') || undefined
+    const firstRequest = !range || range.start === 0
+    if (file.userId !== session.user.id && firstRequest &&
+        !(sessionId && await isPreviewLogged(session.user.id, fileId, sessionId))) {
+      const shareId = await findPreviewShare(session.user, fileId)
+      if (shareId) {
+        await logAccessEvent({
+          shareId,
+          userId: session.user.id,
+          fileId,
+          eventType: AccessEventType.PREVIEW,
+          ipAddress: request.headers.get('x-forwarded-for') || undefined,
+          userAgent: request.headers.get('user-agent') || undefined,
+          sessionId,
+          metadata: { kind, encryption }
+        })
+      }
+    }
+
+    return new NextResponse(Readable.toWeb(body) as unknown as ReadableStream<Uint8Array>, {
+      status: range ? 206 : 200,
+      headers
+    })
+  } catch (error) {
+    const { error: appError, response } = await handleApiError(error, 'File preview')
+    return NextResponse.json(response, { status: appError.statusCode })
+  }
+}
+
+// POST: { session, duration } sent by the viewer when it closes; duration is in seconds
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await requireSession()
+    const { id: fileId } = await params
+
+    // Beacons are sent as text/plain, so the body is parsed without relying on the content type
+    const body = await request.text().then(text => JSON.parse(text)).catch(() => ({}))
+    if (typeof body.session !== 'string' || !body.session || typeof body.duration !== 'number' || !Number.isFinite(body.duration)) {
+      throw createValidationError('session and duration are required')
+    }
+
+    const recorded = await recordPreviewDuration(session.user.id, fileId, body.session, body.duration)
+    return NextResponse.json({ success: true, recorded })
+  } catch (error) {
+    const { error: appError, response } = await handleApiError(error, 'Record preview duration')
+    return NextResponse.json(response, { status: appError.statusCode })
+  }
+}
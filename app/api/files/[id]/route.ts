@@ -0,0 +1,218 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { getAuthOptions } from "@/lib/auth"
+import { getPrismaClient } from "@/lib/prisma"
+import { checkFileAccess, Permission } from "@/lib/permissions"
+import { logAuditEvent, AuditAction, AuditSeverity } from "@/lib/audit"
+import { PathSanitizer, InputValidator } from "@/lib/security"
+import {
+  handleApiError,
+  createAuthenticationError,
+  createAuthorizationError,
+  createNotFoundError,
+  createValidationError
+} from "@/lib/error-handling"
+import { isShareUnlocked } from "@/lib/share-links"
+import { getPreviewKind, getPreviewEncryption } from "@/lib/file-preview"
+import { trashFile } from "@/lib/trash"
+
+// Fields safe to return to anyone with VIEW access; never includes encryptionKey
+const fileSelect = {
+  id: true,
+  name: true,
+  originalName: true,
+  size: true,
+  type: true,
+  encrypted: true,
+  fileType: true,
+  userId: true,
+  createdAt: true,
+  updatedAt: true,
+  _count: {
+    select: { versions: true, shares: true }
+  }
+}
+
+async function authorize(request: NextRequest, fileId: string, requiredPermissions: Permission[]) {
+  const authOptions = await getAuthOptions()
+  const session = await getServerSession(authOptions)
+  if (!session?.user?.id) {
+    throw createAuthenticationError()
+  }
+
+  const access = await checkFileAccess(session.user.id, fileId, requiredPermissions, {
+    isShareUnlocked: (share) => isShareUnlocked(share, request)
+  })
+  if (!access.hasAccess) {
+    if (access.reason === 'File not found') {
+      throw createNotFoundError('File')
+    }
+    throw createAuthorizationError(access.reason)
+  }
+
+  return { session, access }
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: fileId } = await params
+    const { session, access } = await authorize(request, fileId, [Permission.VIEW])
+
+    const prisma = await getPrismaClient()
+    const file = await prisma.file.findUnique({
+      where: { id: fileId },
+      select: {
+        ...fileSelect,
+        user: {
+          select: { id: true, name: true, email: true }
+        },
+        wrappedKey: true,
+        encryptionKey: true
+      }
+    })
+
+    if (!file) {
+      throw createNotFoundError('File')
+    }
+
+    // Key material only decides how the viewer gets plaintext and is never returned
+    const { wrappedKey, encryptionKey, ...fileDetails } = file
+    const preview = {
+      kind: getPreviewKind(file.type, file.name),
+      encryption: getPreviewEncryption({ encrypted: file.encrypted, wrappedKey, encryptionKey })
+    }
+
+    const isOwner = file.userId === session.user.id
+    const shares = isOwner
+      ? await prisma.fileShare.findMany({
+          where: { fileId, revoked: false },
+          select: {
+            id: true,
+            sharedWithEmail: true,
+            shareType: true,
+            permissions: true,
+            expiresAt: true,
+            status: true,
+            accessCount: true,
+            createdAt: true
+          },
+          orderBy: { createdAt: 'desc' }
+        })
+      : undefined
+
+    return NextResponse.json({
+      ...fileDetails,
+      preview,
+      isOwner,
+      permissions: access.permissions,
+      shares
+    })
+  } catch (error) {
+    const { error: appError, response } = await handleApiError(error, 'Get file')
+    return NextResponse.json(response, { status: appError.statusCode })
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: fileId } = await params
+    const { session } = await authorize(request, fileId, [Permission.EDIT])
+
+    let body
+    try {
+      body = await request.json()
+    } catch {
+      throw createValidationError("Request body must be valid JSON")
+    }
+
+    const data: { name?: string; fileType?: string | null } = {}
+
+    if (body.name !== undefined) {
+      const name = PathSanitizer.sanitizeFilename(InputValidator.sanitizeString(body.name, 255))
+      if (!name) {
+        throw createValidationError("File name cannot be empty")
+      }
+      data.name = name
+    }
+
+    if (body.fileType !== undefined) {
+      data.fileType = body.fileType === null ? null : InputValidator.sanitizeString(body.fileType, 100)
+    }
+
+    if (Object.keys(data).length === 0) {
+      throw createValidationError("Nothing to update", { allowedFields: ['name', 'fileType'] })
+    }
+
+    const prisma = await getPrismaClient()
+    const previous = await prisma.file.findUnique({
+      where: { id: fileId },
+      select: { name: true, fileType: true }
+    })
+
+    const updatedFile = await prisma.file.update({
+      where: { id: fileId },
+      data,
+      select: fileSelect
+    })
+
+    await logAuditEvent({
+      userId: session.user.id,
+      action: AuditAction.FILE_EDIT,
+      resource: 'file',
+      resourceId: fileId,
+      details: {
+        action: data.name ? 'rename' : 'update_metadata',
+        previous,
+        changes: data
+      },
+      ipAddress: request.headers.get('x-forwarded-for') || undefined,
+      userAgent: request.headers.get('user-agent') || undefined,
+      severity: AuditSeverity.LOW
+    })
+
+    return NextResponse.json(updatedFile)
+  } catch (error) {
+    const { error: appError, response } = await handleApiError(error, 'Update file')
+    return NextResponse.json(response, { status: appError.statusCode })
+  }
+}
+
+// DELETE: move the file to the trash; it is purged after the retention window (see lib/trash.ts)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: fileId } = await params
+    const { session } = await authorize(request, fileId, [Permission.VIEW])
+
+    const trashed = await trashFile(session.user.id, fileId)
+
+    await logAuditEvent({
+      userId: session.user.id,
+      action: AuditAction.FILE_DELETE,
+      resource: 'file',
+      resourceId: fileId,
+      details: {
+        stage: 'trash',
+        fileName: trashed.name,
+        fileSize: trashed.size,
+        purgeAt: trashed.purgeAt.toISOString()
+      },
+      ipAddress: request.headers.get('x-forwarded-for') || undefined,
+      userAgent: request.headers.get('user-agent') || undefined,
+      severity: AuditSeverity.MEDIUM
+    })
+
+    return NextResponse.json({ success: true, id: fileId, deletedAt: trashed.deletedAt, purgeAt: trashed.purgeAt })
+  } catch (error) {
+    const { error: appError, response } = await handleApiError(error, 'Delete file')
+    return NextResponse.json(response, { status: appError.statusCode })
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { getAuthOptions } from "@/lib/auth"
+import { checkFileAccess, Permission } from "@/lib/permissions"
+import { isShareUnlocked } from "@/lib/share-links"
+import { logAuditEvent, AuditAction, AuditSeverity } from "@/lib/audit"
+import { getFileTags, parseTagList, setUserTags } from "@/lib/file-tags"
+import {
+  handleApiError,
+  createAuthenticationError,
+  createAuthorizationError,
+  createNotFoundError
+} from "@/lib/error-handling"
+
+async function authorize(request: NextRequest, fileId: string, permission: Permission) {
+  const authOptions = await getAuthOptions()
+  const session = await getServerSession(authOptions)
+  if (!session?.user?.id) {
+    throw createAuthenticationError()
+  }
+
+  const access = await checkFileAccess(session.user.id, fileId, [permission], {
+    isShareUnlocked: (share) => isShareUnlocked(share, request)
+  })
+  if (!access.hasAccess) {
+    if (access.reason === 'File not found') {
+      throw createNotFoundError('File')
+    }
+    throw createAuthorizationError(access.reason)
+  }
+  return session
+}
+
+// GET: a file's auto and user tags
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: fileId } = await params
+    await authorize(request, fileId, Permission.VIEW)
+    return NextResponse.json({ tags: await getFileTags(fileId) })
+  } catch (error) {
+    const { error: appError, response } = await handleApiError(error, 'Get file tags')
+    return NextResponse.json(response, { status: appError.statusCode })
+  }
+}
+
+// PUT: replace the file's user tags with body.tags; auto tags are left alone
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: fileId } = await params
+    const session = await authorize(request, fileId, Permission.EDIT)
+    const body = await request.json().catch(() => ({}))
+    const tags = await setUserTags(fileId, parseTagList(body.tags))
+
+    await logAuditEvent({
+      userId: session.user.id,
+      action: AuditAction.FILE_EDIT,
+      resource: 'file',
+      resourceId: fileId,
+      details: { action: 'set_tags', tags: tags.filter(tag => tag.source === 'USER').map(tag => tag.tag) },
+      ipAddress: request.headers.get('x-forwarded-for') || undefined,
+      userAgent: request.headers.get('user-agent') || undefined,
+      severity: AuditSeverity.LOW
+    })
+
+    return NextResponse.json({ tags })
+  } catch (error) {
+    const { error: appError, response } = await handleApiError(error, 'Update file tags')
+    return NextResponse.json(response, { status: appError.statusCode })
+  }
+}
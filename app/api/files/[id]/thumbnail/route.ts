@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { getAuthOptions } from "@/lib/auth"
+import { getPrismaClient } from "@/lib/prisma"
+import { checkFileAccess, Permission } from "@/lib/permissions"
+import { isShareUnlocked } from "@/lib/share-links"
+import {
+  readThumbnail,
+  resolveThumbnailSize,
+  scheduleThumbnails,
+  DEFAULT_THUMBNAIL_SIZE
+} from "@/lib/thumbnails"
+import {
+  handleApiError,
+  createAuthenticationError,
+  createAuthorizationError,
+  createNotFoundError,
+  createValidationError
+} from "@/lib/error-handling"
+import { Readable } from 'stream'
+
+// GET: a WebP thumbnail of the file's current content, ?size= its longest edge in pixels
+// (rounded up to a standard size). Responds 202 while the thumbnail is still being generated
+// and 404 for files that have none.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authOptions = await getAuthOptions()
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      throw createAuthenticationError()
+    }
+
+    const { id: fileId } = await params
+    const access = await checkFileAccess(session.user.id, fileId, [Permission.VIEW], {
+      isShareUnlocked: (share) => isShareUnlocked(share, request)
+    })
+    if (!access.hasAccess) {
+      if (access.reason === 'File not found') {
+        throw createNotFoundError('File')
+      }
+      throw createAuthorizationError(access.reason)
+    }
+
+    const sizeParam = request.nextUrl.searchParams.get('size')
+    const requestedSize = sizeParam ? parseInt(sizeParam) : DEFAULT_THUMBNAIL_SIZE
+    if (!Number.isInteger(requestedSize) || requestedSize <= 0) {
+      throw createValidationError('size must be a positive number of pixels')
+    }
+    const size = resolveThumbnailSize(requestedSize)
+
+    const prisma = await getPrismaClient()
+    const file = await prisma.file.findUnique({
+      where: { id: fileId },
+      select: {
+        thumbnailStatus: true,
+        wrappedKey: true,
+        encryptionKey: true,
+        thumbnails: {
+          where: { size },
+          select: { id: true, size: true, encrypted: true, url: true, storageKey: true, storageProvider: true }
+        }
+      }
+    })
+    if (!file) {
+      throw createNotFoundError('File')
+    }
+
+    if (file.thumbnailStatus === 'PENDING') {
+      scheduleThumbnails(fileId)
+      return NextResponse.json({ status: 'PENDING' }, { status: 202, headers: { 'Retry-After': '5' } })
+    }
+
+    const thumbnail = file.thumbnails[0]
+    if (file.thumbnailStatus !== 'READY' || !thumbnail) {
+      throw createNotFoundError('Thumbnail')
+    }
+
+    // A new thumbnail id means new content, so browsers revalidate against it
+    const etag = `"${thumbnail.id}"`
+    const headers = {
+      'ETag': etag,
+      'Cache-Control': 'private, no-cache',
+      'X-Content-Type-Options': 'nosniff'
+    }
+    if (request.headers.get('if-none-match') === etag) {
+      return new NextResponse(null, { status: 304, headers })
+    }
+
+    const stream = await readThumbnail(thumbnail, file)
+    return new NextResponse(Readable.toWeb(stream) as unknown as ReadableStream<Uint8Array>, {
+      headers: { ...headers, 'Content-Type': 'image/webp' }
+    })
+  } catch (error) {
+    const { error: appError, response } = await handleApiError(error, 'Get thumbnail')
+    return NextResponse.json(response, { status: appError.statusCode })
+  }
+}
@@ -3,7 +3,12 @@ import { getServerSession } from "next-auth/next"
 import { getAuthOptions } from "@/lib/auth"
 import { getPrismaClient } from "@/lib/prisma"
 import { logAuditEvent, AuditAction, AuditSeverity } from "@/lib/audit"
-import { emitSocketEvent } from "@/lib/socket"
+import { emitToFile } from "@/lib/socket"
+import { releaseBlob, retainBlob } from "@/lib/blob-store"
+import { applyAutoTags } from "@/lib/file-tags"
+import { scheduleTextExtraction } from "@/lib/search"
+import { invalidateThumbnails } from "@/lib/thumbnails"
+import { invalidateScan } from "@/lib/malware-scan"
 
 export async function POST(
   request: NextRequest,
@@ -64,7 +69,8 @@ export async function POST(
 
     const rollbackVersionNumber = (latestVersion?.versionNumber || 0) + 1
 
-    // Create rollback version record
+    // Create rollback version record; it and the file each hold a reference to shared content
+    await retainBlob(file.blobId)
     const rollbackVersion = await prisma.fileVersion.create({
       data: {
         fileId,
@@ -72,6 +78,10 @@ export async function POST(
         name: `Rollback to Version ${targetVersion.versionNumber}`,
         size: file.size,
         url: file.url,
+        storageProvider: file.storageProvider,
+        storageKey: file.storageKey,
+        contentHash: file.contentHash,
+        blobId: file.blobId,
         changes: {
           type: 'rollback',
           fromVersion: latestVersion?.versionNumber || 0,
@@ -87,10 +97,22 @@ export async function POST(
       where: { id: fileId },
       data: {
         url: targetVersion.url,
+        storageProvider: targetVersion.storageProvider,
+        storageKey: targetVersion.storageKey,
+        contentHash: targetVersion.contentHash,
+        blobId: targetVersion.blobId,
         size: targetVersion.size,
         updatedAt: new Date()
       }
     })
+    await retainBlob(targetVersion.blobId)
+    if (file.blobId) {
+      await releaseBlob(file.blobId)
+    }
+    await applyAutoTags(updatedFile)
+    scheduleTextExtraction(updatedFile.id)
+    await invalidateThumbnails(fileId)
+    await invalidateScan(fileId)
 
     // Audit logging
     await logAuditEvent({
@@ -108,7 +130,7 @@ export async function POST(
     })
 
     // Emit notification
-    emitSocketEvent('file-rolled-back', {
+    await emitToFile(fileId, 'file-rolled-back', {
       fileId,
       fileName: file.name,
       fromVersion: latestVersion?.versionNumber || 0,
@@ -2,9 +2,24 @@ import { NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { getAuthOptions } from "@/lib/auth"
 import { getPrismaClient } from "@/lib/prisma"
-import { put } from '@vercel/blob'
+import { buildStorageKey } from "@/lib/storage"
+import {
+  isContentInVersions,
+  releaseContent,
+  releaseReplacedContent,
+  retainBlob,
+  storeContent
+} from "@/lib/blob-store"
+import { reserveStorage, releaseStorage } from "@/lib/storage-quota"
+import { applyAutoTags } from "@/lib/file-tags"
+import { scheduleTextExtraction } from "@/lib/search"
+import { invalidateThumbnails } from "@/lib/thumbnails"
+import { invalidateScan } from "@/lib/malware-scan"
+import { AppError } from "@/lib/error-handling"
 import { logAuditEvent, AuditAction, AuditSeverity } from "@/lib/audit"
-import { emitSocketEvent } from "@/lib/socket"
+import { emitToFile } from "@/lib/socket"
+import { Readable } from 'stream'
+import type { ReadableStream as NodeReadableStream } from 'stream/web'
 
 export async function GET(
   request: NextRequest,
@@ -110,10 +125,22 @@ export async function POST(
 
     const newVersionNumber = (latestVersion?.versionNumber || 0) + 1
 
-    // Upload the new version to storage
-    const blob = await put(`${file.name}_v${newVersionNumber}`, updatedFile, {
-      access: 'public',
-      contentType: updatedFile.type || 'application/octet-stream'
+    // Versions count against the file owner's quota, whoever uploads them
+    try {
+      await reserveStorage(file.userId, updatedFile.size)
+    } catch (error) {
+      const status = error instanceof AppError ? error.statusCode : 500
+      return NextResponse.json({ error: error instanceof Error ? error.message : "Failed to reserve storage" }, { status })
+    }
+
+    // Upload the new version to storage, reusing identical content already stored
+    const stored = await storeContent(
+      buildStorageKey(session.user.id, file.name, 'versions'),
+      Readable.fromWeb(updatedFile.stream() as unknown as NodeReadableStream),
+      { contentType: updatedFile.type || 'application/octet-stream', dedupe: !file.encrypted }
+    ).catch(async (error: unknown) => {
+      await releaseStorage(file.userId, updatedFile.size)
+      throw error
     })
 
     // Create version record
@@ -123,7 +150,11 @@ export async function POST(
         versionNumber: newVersionNumber,
         name: `Version ${newVersionNumber}`,
         size: updatedFile.size,
-        url: blob.url,
+        url: stored.url,
+        storageProvider: stored.storageProvider,
+        storageKey: stored.storageKey,
+        contentHash: stored.contentHash,
+        blobId: stored.blobId,
         changes: changes ? JSON.parse(changes) : null,
         createdBy: session.user.id
       },
@@ -132,18 +163,42 @@ export async function POST(
           select: { id: true, name: true, email: true }
         }
       }
+    }).catch(async (error: unknown) => {
+      await releaseContent([stored])
+      await releaseStorage(file.userId, updatedFile.size)
+      throw error
     })
 
+    // Content the file already holds takes no extra quota
+    if (stored.blobId && (stored.blobId === file.blobId || await isContentInVersions(fileId, stored, version.id))) {
+      await releaseStorage(file.userId, updatedFile.size)
+    }
+
     // Update the main file record to point to the latest version
+    await retainBlob(stored.blobId)
     await prisma.file.update({
       where: { id: fileId },
       data: {
-        url: blob.url,
+        url: stored.url,
+        storageProvider: stored.storageProvider,
+        storageKey: stored.storageKey,
+        contentHash: stored.contentHash,
+        blobId: stored.blobId,
         size: updatedFile.size,
         updatedAt: new Date()
       }
     })
 
+    // Content the file no longer points at is freed unless an older version still holds it
+    if (await releaseReplacedContent(fileId, file)) {
+      await releaseStorage(file.userId, file.size)
+    }
+
+    await applyAutoTags({ id: fileId, name: file.name, type: file.type, size: updatedFile.size })
+    scheduleTextExtraction(fileId)
+    await invalidateThumbnails(fileId)
+    await invalidateScan(fileId)
+
     // Audit logging
     await logAuditEvent({
       userId: session.user.id,
@@ -160,7 +215,7 @@ export async function POST(
     })
 
     // Emit notification
-    emitSocketEvent('file-version-created', {
+    await emitToFile(fileId, 'file-version-created', {
       fileId,
       fileName: file.name,
       versionId: version.id,
@@ -3,7 +3,10 @@ import { getServerSession } from "next-auth/next"
 import { getAuthOptions } from "@/lib/auth"
 import { getPrismaClient } from "@/lib/prisma"
 import { logAuditEvent, AuditAction, AuditSeverity } from "@/lib/audit"
-import { emitSocketEvent } from "@/lib/socket"
+import { emitToUser } from "@/lib/socket"
+import { isEndToEndEncrypted, isValidPublicKeyWrap } from "@/lib/key-management"
+import { hashOptionalSharePassword } from "@/lib/share-links"
+import { getScanBlockReason } from "@/lib/malware-scan"
 
 export async function POST(request: NextRequest) {
   try {
@@ -14,7 +17,7 @@ export async function POST(request: NextRequest) {
     }
 
     const prisma = await getPrismaClient()
-    const { operation, fileIds, recipients, groups, permissions, expiresAt, password, maxAccessCount } = await request.json()
+    const { operation, fileIds, recipients, groups, permissions, expiresAt, password, maxAccessCount, wrappedKeys } = await request.json()
 
     if (!operation || !['share', 'update_permissions', 'revoke_access'].includes(operation)) {
       return NextResponse.json({ error: "Invalid operation. Must be 'share', 'update_permissions', or 'revoke_access'" }, { status: 400 })
@@ -28,6 +31,7 @@ export async function POST(request: NextRequest) {
     const files = await prisma.file.findMany({
       where: {
         id: { in: fileIds },
+        deletedAt: null,
         OR: [
           { userId: session.user.id },
           {
@@ -40,7 +44,7 @@ export async function POST(request: NextRequest) {
           }
         ]
       },
-      select: { id: true, name: true, userId: true }
+      select: { id: true, name: true, userId: true, wrappedKey: true, scanStatus: true }
     })
 
     if (files.length !== fileIds.length) {
@@ -50,6 +54,16 @@ export async function POST(request: NextRequest) {
       }, { status: 403 })
     }
 
+    // Share passwords are stored as bcrypt hashes
+    let passwordHash: string | null = null
+    if (operation === 'share') {
+      try {
+        passwordHash = await hashOptionalSharePassword(password)
+      } catch (error) {
+        return NextResponse.json({ error: error instanceof Error ? error.message : "Invalid password" }, { status: 400 })
+      }
+    }
+
     const results = []
     let totalSuccess = 0
     let totalFailed = 0
@@ -64,8 +78,9 @@ export async function POST(request: NextRequest) {
           groups,
           permissions,
           expiresAt,
-          password,
-          maxAccessCount
+          passwordHash,
+          maxAccessCount,
+          wrappedKeys || {}
         )
         results.push(...shareResults)
         totalSuccess = shareResults.filter(r => r.success).length
@@ -145,14 +160,23 @@ async function performBulkShare(
   groups: string[],
   permissions: string[],
   expiresAt: string,
-  password: string,
-  maxAccessCount: number
+  password: string | null,
+  maxAccessCount: number,
+  wrappedKeys: Record<string, Record<string, string>>
 ) {
   const results = []
 
   for (const file of files) {
+    const scanBlock = getScanBlockReason(file)
+    if (scanBlock) {
+      results.push({ fileId: file.id, fileName: file.name, success: false, error: scanBlock })
+      continue
+    }
+
     try {
       const fileResults = []
+      // End-to-end encrypted files need the data key wrapped in the browser for each recipient
+      const endToEnd = isEndToEndEncrypted(file)
 
       // Share with individual users
       if (recipients && recipients.length > 0) {
@@ -163,8 +187,12 @@ async function performBulkShare(
             select: { id: true, email: true }
           })
 
-          if (user) {
-            await prisma.fileShare.create({
+          const recipientWrappedKey = wrappedKeys[file.id]?.[normalizedEmail]
+
+          if (user && endToEnd && !isValidPublicKeyWrap(recipientWrappedKey)) {
+            fileResults.push({ email, success: false, error: 'Recipient key required for end-to-end encrypted file' })
+          } else if (user) {
+            const share = await prisma.fileShare.create({
               data: {
                 fileId: file.id,
                 userId: user.id,
@@ -174,16 +202,20 @@ async function performBulkShare(
                 password,
                 expiresAt: expiresAt ? new Date(expiresAt) : null,
                 maxAccessCount,
+                wrappedKey: endToEnd ? recipientWrappedKey : null,
                 createdBy: session.user.id
               }
             })
 
-            emitSocketEvent('file-shared', {
+            emitToUser(user.id, 'file-shared', {
+              shareId: share.id,
               fileId: file.id,
               fileName: file.name,
+              senderId: session.user.id,
+              senderEmail: session.user.email,
               receiverEmail: email,
               permissions: permissions || ['VIEW'],
-              sharedAt: new Date().toISOString()
+              sharedAt: share.createdAt.toISOString()
             })
 
             fileResults.push({ email, success: true })
@@ -201,7 +233,9 @@ async function performBulkShare(
             select: { id: true, name: true }
           })
 
-          if (group) {
+          if (group && endToEnd) {
+            fileResults.push({ groupId, groupName: group.name, success: false, error: 'End-to-end encrypted files cannot be shared with groups' })
+          } else if (group) {
             await prisma.fileShare.create({
               data: {
                 fileId: file.id,
@@ -2,16 +2,39 @@ import { NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { getAuthOptions } from "@/lib/auth"
 import { getPrismaClient } from "@/lib/prisma"
-import { deliveryTracker } from "@/lib/delivery-tracker"
-import { emitSocketEvent } from "@/lib/socket"
+import {
+  advanceDelivery,
+  DeliveryRecord,
+  DeliveryState,
+  getDeliveryAnalytics,
+  getDeliveryForUser,
+  retryDelivery,
+  serializeDelivery,
+  trackDelivery
+} from "@/lib/deliveries"
 import { logAuditEvent, AuditAction, AuditSeverity } from "@/lib/audit"
+import {
+  handleApiError,
+  createAuthenticationError,
+  createAuthorizationError,
+  createNotFoundError,
+  createValidationError
+} from "@/lib/error-handling"
+
+const MARK_ACTIONS: Record<string, { state: DeliveryState; message: string }> = {
+  mark_delivered: { state: 'DELIVERED', message: "Delivery marked as delivered" },
+  mark_viewed: { state: 'VIEWED', message: "Delivery marked as viewed" },
+  mark_downloaded: { state: 'DOWNLOADED', message: "Delivery marked as downloaded" }
+}
 
+// GET: ?shareId= for the deliveries of one of your shares, otherwise analytics of what you
+// sent over ?timeRange=24h|7d|30d
 export async function GET(request: NextRequest) {
   try {
     const authOptions = await getAuthOptions()
     const session = await getServerSession(authOptions)
     if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+      throw createAuthenticationError()
     }
 
     const { searchParams } = new URL(request.url)
@@ -19,10 +42,6 @@ export async function GET(request: NextRequest) {
     const timeRange = searchParams.get('timeRange')
 
     if (shareId) {
-      // Get delivery status for a specific share
-      const deliveries = deliveryTracker.getShareDeliveries(shareId)
-
-      // Get additional data from database
       const prisma = await getPrismaClient()
       const share = await prisma.fileShare.findUnique({
         where: { id: shareId },
@@ -43,6 +62,9 @@ export async function GET(request: NextRequest) {
               email: true
             }
           },
+          deliveries: {
+            orderBy: { createdAt: 'asc' }
+          },
           accessLogs: {
             where: {
               eventType: 'VIEW'
@@ -59,229 +81,104 @@ export async function GET(request: NextRequest) {
       })
 
       if (!share) {
-        return NextResponse.json({ error: "Share not found" }, { status: 404 })
+        throw createNotFoundError('Share')
       }
 
       // Verify user has access to this share
-      const hasAccess = share.createdBy === session.user.id
-      if (!hasAccess) {
-        return NextResponse.json({ error: "Access denied" }, { status: 403 })
+      if (share.createdBy !== session.user.id) {
+        throw createAuthorizationError()
       }
 
       return NextResponse.json({
         shareId,
         file: share.file,
         creator: share.creator,
-        deliveries: deliveries.map(delivery => ({
-          ...delivery,
-          sentAt: delivery.sentAt?.toISOString(),
-          deliveredAt: delivery.deliveredAt?.toISOString(),
-          viewedAt: delivery.viewedAt?.toISOString(),
-          downloadedAt: delivery.downloadedAt?.toISOString(),
-          failedAt: delivery.failedAt?.toISOString(),
-          lastNotificationSent: delivery.lastNotificationSent?.toISOString()
-        })),
+        deliveries: share.deliveries.map((delivery: DeliveryRecord) => serializeDelivery(delivery)),
         accessLogs: share.accessLogs.map((log: any) => ({
           userId: log.userId,
           viewedAt: log.createdAt.toISOString()
         }))
       })
-    } else {
-      // Get delivery analytics
-      let fromDate: Date
-      let toDate: Date
+    }
 
-      switch (timeRange) {
-        case '24h':
-          fromDate = new Date(Date.now() - 24 * 60 * 60 * 1000)
-          toDate = new Date()
-          break
-        case '7d':
-          fromDate = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)
-          toDate = new Date()
-          break
-        case '30d':
-          fromDate = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)
-          toDate = new Date()
-          break
-        default:
-          fromDate = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)
-          toDate = new Date()
-      }
+    // Get delivery analytics
+    const days = timeRange === '24h' ? 1 : timeRange === '30d' ? 30 : 7
+    const toDate = new Date()
+    const fromDate = new Date(toDate.getTime() - days * 24 * 60 * 60 * 1000)
 
-      const analytics = deliveryTracker.getDeliveryAnalytics({ from: fromDate, to: toDate })
+    const analytics = await getDeliveryAnalytics(session.user.id, { from: fromDate, to: toDate })
 
-      return NextResponse.json({
-        analytics: {
-          ...analytics,
-          averageDeliveryTime: Math.round(analytics.averageDeliveryTime / 1000), // Convert to seconds
-          recentFailures: analytics.recentFailures.map(failure => ({
-            ...failure,
-            sentAt: failure.sentAt?.toISOString(),
-            deliveredAt: failure.deliveredAt?.toISOString(),
-            viewedAt: failure.viewedAt?.toISOString(),
-            downloadedAt: failure.downloadedAt?.toISOString(),
-            failedAt: failure.failedAt?.toISOString(),
-            lastNotificationSent: failure.lastNotificationSent?.toISOString()
-          }))
-        },
-        timeRange: {
-          from: fromDate.toISOString(),
-          to: toDate.toISOString()
-        }
-      })
-    }
-
-  } catch (error) {
-    console.error('GET /api/files/delivery error:', error)
     return NextResponse.json({
-      error: "Failed to fetch delivery status",
-      details: error instanceof Error ? error.message : "Unknown error"
-    }, { status: 500 })
+      analytics: {
+        ...analytics,
+        recentFailures: analytics.recentFailures.map(serializeDelivery)
+      },
+      timeRange: {
+        from: fromDate.toISOString(),
+        to: toDate.toISOString()
+      }
+    })
+  } catch (error) {
+    const { error: appError, response } = await handleApiError(error, 'Get delivery status')
+    return NextResponse.json(response, { status: appError.statusCode })
   }
 }
 
+// POST: { action, deliveryId } to mark_delivered, mark_viewed, mark_downloaded or
+// retry_delivery a delivery you sent or receive; { action: 'track_delivery', shareId,
+// recipientEmail } to start tracking one of your shares
 export async function POST(request: NextRequest) {
   try {
     const authOptions = await getAuthOptions()
     const session = await getServerSession(authOptions)
     if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+      throw createAuthenticationError()
     }
 
     const body = await request.json()
     const { action, deliveryId, shareId, recipientEmail } = body
 
     if (!action) {
-      return NextResponse.json({
-        error: "Invalid request",
-        details: "Action is required"
-      }, { status: 400 })
+      throw createValidationError("Action is required")
     }
 
-    switch (action) {
-      case 'mark_delivered':
-        if (!deliveryId) {
-          return NextResponse.json({
-            error: "Invalid request",
-            details: "deliveryId is required for mark_delivered action"
-          }, { status: 400 })
-        }
-
-        deliveryTracker.markAsDelivered(deliveryId)
-
-        // Emit real-time update
-        emitSocketEvent('delivery-status-update', {
-          deliveryId,
-          status: 'delivered',
-          timestamp: new Date().toISOString()
-        })
-
-        // Audit logging
-        await logAuditEvent({
-          userId: session.user.id,
-          action: AuditAction.FILE_ACCESS,
-          resource: 'delivery',
-          resourceId: deliveryId,
-          details: {
-            action: 'mark_delivered',
-            deliveryId
-          },
-          severity: AuditSeverity.LOW
-        })
-
-        return NextResponse.json({
-          success: true,
-          message: "Delivery marked as delivered"
-        })
-
-      case 'mark_viewed':
-        if (!deliveryId) {
-          return NextResponse.json({
-            error: "Invalid request",
-            details: "deliveryId is required for mark_viewed action"
-          }, { status: 400 })
-        }
-
-        deliveryTracker.markAsViewed(deliveryId)
-
-        // Emit real-time update
-        emitSocketEvent('delivery-status-update', {
-          deliveryId,
-          status: 'viewed',
-          timestamp: new Date().toISOString()
-        })
-
-        // Audit logging
-        await logAuditEvent({
-          userId: session.user.id,
-          action: AuditAction.FILE_ACCESS,
-          resource: 'delivery',
-          resourceId: deliveryId,
-          details: {
-            action: 'mark_viewed',
-            deliveryId
-          },
-          severity: AuditSeverity.LOW
-        })
-
-        return NextResponse.json({
-          success: true,
-          message: "Delivery marked as viewed"
-        })
-
-      case 'mark_downloaded':
-        if (!deliveryId) {
-          return NextResponse.json({
-            error: "Invalid request",
-            details: "deliveryId is required for mark_downloaded action"
-          }, { status: 400 })
-        }
-
-        deliveryTracker.markAsDownloaded(deliveryId)
+    if (MARK_ACTIONS[action]) {
+      if (!deliveryId) {
+        throw createValidationError(`deliveryId is required for ${action} action`)
+      }
 
-        // Emit real-time update
-        emitSocketEvent('delivery-status-update', {
+      await getDeliveryForUser(deliveryId, session.user.id)
+      const delivery = await advanceDelivery(deliveryId, MARK_ACTIONS[action].state)
+
+      // Audit logging
+      await logAuditEvent({
+        userId: session.user.id,
+        action: AuditAction.FILE_ACCESS,
+        resource: 'delivery',
+        resourceId: deliveryId,
+        details: {
+          action,
           deliveryId,
-          status: 'downloaded',
-          timestamp: new Date().toISOString()
-        })
-
-        // Audit logging
-        await logAuditEvent({
-          userId: session.user.id,
-          action: AuditAction.FILE_ACCESS,
-          resource: 'delivery',
-          resourceId: deliveryId,
-          details: {
-            action: 'mark_downloaded',
-            deliveryId
-          },
-          severity: AuditSeverity.LOW
-        })
+          status: delivery.status
+        },
+        severity: AuditSeverity.LOW
+      })
 
-        return NextResponse.json({
-          success: true,
-          message: "Delivery marked as downloaded"
-        })
+      return NextResponse.json({
+        success: true,
+        message: MARK_ACTIONS[action].message,
+        delivery: serializeDelivery(delivery)
+      })
+    }
 
-      case 'retry_delivery':
+    switch (action) {
+      case 'retry_delivery': {
         if (!deliveryId) {
-          return NextResponse.json({
-            error: "Invalid request",
-            details: "deliveryId is required for retry_delivery action"
-          }, { status: 400 })
+          throw createValidationError("deliveryId is required for retry_delivery action")
         }
 
-        const retrySuccess = await deliveryTracker.retryDelivery(deliveryId)
-
-        // Emit real-time update
-        emitSocketEvent('delivery-status-update', {
-          deliveryId,
-          status: retrySuccess ? 'sent' : 'failed',
-          timestamp: new Date().toISOString(),
-          action: 'retry'
-        })
+        const delivery = await retryDelivery(deliveryId, session.user.id)
+        const retrySuccess = delivery.status !== 'FAILED'
 
         // Audit logging
         await logAuditEvent({
@@ -292,57 +189,53 @@ export async function POST(request: NextRequest) {
           details: {
             action: 'retry_delivery',
             success: retrySuccess,
-            deliveryId
+            deliveryId,
+            attempts: delivery.deliveryAttempts
           },
           severity: AuditSeverity.MEDIUM
         })
 
         return NextResponse.json({
           success: retrySuccess,
-          message: retrySuccess ? "Delivery retry initiated" : "Delivery retry failed"
+          message: retrySuccess ? "Delivery retry initiated" : "Delivery retry failed",
+          delivery: serializeDelivery(delivery)
         })
+      }
 
-      case 'track_delivery':
+      case 'track_delivery': {
         if (!shareId || !recipientEmail) {
-          return NextResponse.json({
-            error: "Invalid request",
-            details: "shareId and recipientEmail are required for track_delivery action"
-          }, { status: 400 })
+          throw createValidationError("shareId and recipientEmail are required for track_delivery action")
         }
 
-        // Get user info for recipient
         const prisma = await getPrismaClient()
-        const recipientUser = await prisma.user.findUnique({
+        const share: { id: string; fileId: string; createdBy: string; expiresAt: Date | null } | null =
+          await prisma.fileShare.findUnique({
+            where: { id: shareId },
+            select: { id: true, fileId: true, createdBy: true, expiresAt: true }
+          })
+        if (!share) {
+          throw createNotFoundError('Share')
+        }
+        if (share.createdBy !== session.user.id) {
+          throw createAuthorizationError('Only the sender can track deliveries of this share')
+        }
+
+        // Get user info for recipient
+        const recipientUser: { id: string; email: string } | null = await prisma.user.findUnique({
           where: { email: recipientEmail },
-          select: { id: true, name: true, email: true }
+          select: { id: true, email: true }
         })
-
         if (!recipientUser) {
-          return NextResponse.json({
-            error: "Recipient not found",
-            details: "The recipient email is not registered in the system"
-          }, { status: 404 })
+          throw createNotFoundError('Recipient')
         }
 
-        const newDeliveryId = deliveryTracker.trackDelivery({
+        const delivery = await trackDelivery({
           shareId,
+          fileId: share.fileId,
+          senderId: session.user.id,
           recipientId: recipientUser.id,
-          recipientEmail,
-          status: 'pending',
-          notificationChannels: ['email', 'push'],
-          sentAt: new Date(),
-          retryCount: 0,
-          maxRetries: 3
-        })
-
-        // Emit real-time update
-        emitSocketEvent('delivery-status-update', {
-          deliveryId: newDeliveryId,
-          shareId,
-          recipientEmail,
-          status: 'pending',
-          timestamp: new Date().toISOString(),
-          action: 'track'
+          recipientEmail: recipientUser.email,
+          expiresAt: share.expiresAt
         })
 
         // Audit logging
@@ -350,34 +243,28 @@ export async function POST(request: NextRequest) {
           userId: session.user.id,
           action: AuditAction.FILE_SHARE,
           resource: 'delivery',
-          resourceId: newDeliveryId,
+          resourceId: delivery.id,
           details: {
             action: 'track_delivery',
             shareId,
             recipientEmail,
-            deliveryId: newDeliveryId
+            deliveryId: delivery.id
           },
           severity: AuditSeverity.LOW
         })
 
         return NextResponse.json({
           success: true,
-          deliveryId: newDeliveryId,
+          deliveryId: delivery.id,
           message: "Delivery tracking initiated"
         })
+      }
 
       default:
-        return NextResponse.json({
-          error: "Invalid action",
-          details: `Unknown action: ${action}`
-        }, { status: 400 })
+        throw createValidationError(`Unknown action: ${action}`)
     }
-
   } catch (error) {
-    console.error('POST /api/files/delivery error:', error)
-    return NextResponse.json({
-      error: "Delivery operation failed",
-      details: error instanceof Error ? error.message : "Unknown error"
-    }, { status: 500 })
+    const { error: appError, response } = await handleApiError(error, 'Update delivery')
+    return NextResponse.json(response, { status: appError.statusCode })
   }
 }
@@ -2,12 +2,15 @@ import { NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { getAuthOptions } from "@/lib/auth"
 import { getPrismaClient } from "@/lib/prisma"
-import { decryptFile } from "@/lib/crypto"
-import { canPerformAction, recordFileAccess } from "@/lib/permissions"
+import { openStoredFileDecryptStream } from "@/lib/encryption"
+import { resolveFileSecret, requiresPassphrase, isEndToEndEncrypted } from "@/lib/key-management"
+import { checkFileAccess, recordFileAccess, Permission } from "@/lib/permissions"
+import { isShareUnlocked } from "@/lib/share-links"
 import { logAuditEvent, AuditAction, AuditSeverity } from "@/lib/audit"
 import { logDownloadEvent, DownloadAction } from "@/lib/download-tracking"
 import { logAccessEvent, AccessEventType, AccessResult } from "@/lib/access-tracking"
-import { emitSocketEvent } from "@/lib/socket"
+import { advanceDelivery } from "@/lib/deliveries"
+import { assertFileClean } from "@/lib/malware-scan"
 import {
   handleApiError,
   createAuthenticationError,
@@ -21,6 +24,8 @@ import {
   safeFileOperation,
   withRetry
 } from "@/lib/error-handling"
+import { openStoredObject } from "@/lib/storage"
+import { Readable } from 'stream'
 
 export async function GET(
   request: NextRequest,
@@ -45,9 +50,18 @@ export async function GET(
     const resolvedParams = await params
     fileId = resolvedParams.id
 
-    // Check download permission using the new permission system
-    const hasDownloadAccess = await canPerformAction(session.user.id, fileId, 'download')
-    if (!hasDownloadAccess) {
+    // Check download permission using the new permission system; password-protected shares must be unlocked first
+    const access = await checkFileAccess(session.user.id, fileId, [Permission.DOWNLOAD], {
+      isShareUnlocked: (candidate) => isShareUnlocked(candidate, request)
+    })
+    if (!access.hasAccess) {
+      if (access.passwordRequiredShareId) {
+        return NextResponse.json({
+          error: "Share password required",
+          passwordRequired: true,
+          shareId: access.passwordRequiredShareId
+        }, { status: 403 })
+      }
       throw createAuthorizationError("DOWNLOAD permission required")
     }
 
@@ -60,6 +74,7 @@ export async function GET(
     if (!file) {
       throw createNotFoundError('File')
     }
+    assertFileClean(file)
 
     // Find the active share for this user and file
     share = await prisma.fileShare.findFirst({
@@ -80,7 +95,7 @@ export async function GET(
         where: {
           fileId,
           recipientId: session.user.id,
-          status: { in: ['PENDING', 'DELIVERED'] },
+          status: { not: 'FAILED' },
           expiresAt: { gt: new Date() }
         },
         include: {
@@ -197,76 +212,44 @@ export async function GET(
       userAgent
     })
 
-    // Fetch file from blob storage with timeout
-    console.log('Fetching file from storage:', file.url, rangeHeader ? `Range: ${rangeHeader}` : '')
-
-    const controller = new AbortController()
-    const timeoutId = setTimeout(() => controller.abort(), 25000) // 25 second timeout
-
-    let response: Response
-    try {
-      const fetchHeaders: Record<string, string> = {
-        'User-Agent': 'Privora12-Download/1.0'
-      }
-
-      // Add range header to storage request if it's a range request
-      if (isRangeRequest) {
-        fetchHeaders['Range'] = `bytes=${startByte}-${endByte}`
-      }
-
-      response = await fetch(file.url, {
-        signal: controller.signal,
-        headers: fetchHeaders
-      })
-    } catch (fetchError) {
-      clearTimeout(timeoutId)
-      console.error('File fetch error:', fetchError)
-
-      if (fetchError instanceof Error && fetchError.name === 'AbortError') {
-        return NextResponse.json({ error: "Download request timed out. File may be too large or storage is slow." }, { status: 408 })
-      }
-
-      return NextResponse.json({
-        error: "Failed to fetch file from storage",
-        details: fetchError instanceof Error ? fetchError.message : 'Unknown error'
-      }, { status: 500 })
+    // Envelope frames could be seeked individually, but resumable ranges are not offered for encrypted files yet
+    if (file.encrypted && isRangeRequest) {
+      return NextResponse.json({ error: "Range requests not supported for encrypted files" }, { status: 416 })
     }
 
-    clearTimeout(timeoutId)
-
-    console.log('Storage response status:', response.status)
-
-    if (!response.ok && response.status !== 206) { // 206 is Partial Content for range requests
-      const errorText = await response.text().catch(() => 'Unknown error')
-      console.error('Storage response error:', response.status, errorText)
-      return NextResponse.json({
-        error: `Failed to fetch file from storage: ${response.status} ${response.statusText}`,
-        details: errorText
-      }, { status: 502 })
+    // Master-wrapped keys are unwrapped server-side; passphrase-wrapped keys need the user's key
+    if (file.encrypted && !isEndToEndEncrypted(file) && !decryptionKey &&
+        (requiresPassphrase(file) || (!file.wrappedKey && !file.encryptionKey))) {
+      return NextResponse.json({ error: "Decryption key required for encrypted file" }, { status: 400 })
     }
 
-    let fileData: ArrayBuffer
+    // Open the blob from whichever provider stored it
+    console.log('Opening file from storage:', file.storageKey || file.url, rangeHeader ? `Range: ${rangeHeader}` : '')
+    const stored = await openStoredObject(file, isRangeRequest ? { start: startByte, end: endByte } : undefined)
+
+    let fileData: ReadableStream<Uint8Array>
+    let contentLength: number
     let contentType = file.type
     let fileName = file.name
 
     // Handle encrypted vs non-encrypted files differently
-    if (file.encrypted) {
-      if (!decryptionKey) {
-        return NextResponse.json({ error: "Decryption key required for encrypted file" }, { status: 400 })
-      }
-
-      // For encrypted files, we cannot do range requests since the file is encrypted as a whole
-      if (isRangeRequest) {
-        return NextResponse.json({ error: "Range requests not supported for encrypted files" }, { status: 416 })
-      }
-
+    if (file.encrypted && isEndToEndEncrypted(file)) {
+      // The server cannot decrypt these; the browser unwraps its copy of the key from /api/files/[id]/key
+      fileData = Readable.toWeb(stored.stream) as unknown as ReadableStream<Uint8Array>
+      contentLength = stored.size
+      contentType = 'application/octet-stream'
+      fileName = `${file.originalName || file.name}.encrypted`
+    } else if (file.encrypted) {
       try {
-        // For encrypted files, get as text first
-        const encryptedText = await response.text()
-        fileData = decryptFile(encryptedText, decryptionKey)
+        // The key is verified against the envelope header before any plaintext is sent
+        const secret = await resolveFileSecret(file, decryptionKey)
+        const plaintext = await openStoredFileDecryptStream(stored.stream, secret)
+        fileData = Readable.toWeb(plaintext) as unknown as ReadableStream<Uint8Array>
+        contentLength = file.size
         contentType = file.type // Restore original content type
         fileName = file.originalName || file.name
       } catch (error) {
+        stored.stream.destroy()
         console.error('Decryption error:', error)
         return NextResponse.json({
           error: "Failed to decrypt file. Please check your decryption key.",
@@ -274,13 +257,8 @@ export async function GET(
         }, { status: 400 })
       }
     } else {
-      // For non-encrypted files, get as array buffer
-      try {
-        fileData = await response.arrayBuffer()
-      } catch (error) {
-        console.error('File fetch error:', error)
-        return NextResponse.json({ error: "Failed to read file data" }, { status: 500 })
-      }
+      fileData = Readable.toWeb(stored.stream) as unknown as ReadableStream<Uint8Array>
+      contentLength = stored.size
     }
 
     // Prepare response headers
@@ -291,15 +269,18 @@ export async function GET(
       'Cache-Control': 'no-cache'
     }
 
+    if (file.encrypted && isEndToEndEncrypted(file)) {
+      headers['X-Encryption-Mode'] = 'e2e'
+    }
+
     let statusCode = 200
 
     if (isRangeRequest) {
-      const contentLength = fileData.byteLength
       headers['Content-Length'] = contentLength.toString()
       headers['Content-Range'] = `bytes ${startByte}-${startByte + contentLength - 1}/${file.size}`
       statusCode = 206 // Partial Content
     } else {
-      headers['Content-Length'] = fileData.byteLength.toString()
+      headers['Content-Length'] = contentLength.toString()
     }
 
     // Log successful completion
@@ -311,7 +292,7 @@ export async function GET(
       ipAddress,
       userAgent,
       metadata: {
-        fileSize: fileData.byteLength,
+        fileSize: contentLength,
         rangeRequest: !!rangeHeader
       }
     })
@@ -325,7 +306,7 @@ export async function GET(
       result: AccessResult.SUCCESS,
       ipAddress,
       userAgent,
-      bytesTransferred: fileData.byteLength,
+      bytesTransferred: contentLength,
       metadata: {
         rangeRequest: !!rangeHeader,
         encrypted: file.encrypted
@@ -335,28 +316,7 @@ export async function GET(
     // Update LAN delivery status if this was a LAN delivery
     if (share.lanDelivery && share.deliveryRecord) {
       try {
-        const updatedDelivery = await prisma.fileDelivery.update({
-          where: { id: share.deliveryRecord.id },
-          data: {
-            status: 'DELIVERED',
-            recipientIp: ipAddress,
-            deliveredAt: new Date(),
-            deliveryAttempts: { increment: 1 },
-            updatedAt: new Date()
-          }
-        })
-
-        // Emit real-time notification for delivery completion
-        emitSocketEvent('lan-delivery-completed', {
-          deliveryId: updatedDelivery.id,
-          fileId: updatedDelivery.fileId,
-          senderId: updatedDelivery.senderId,
-          recipientId: updatedDelivery.recipientId,
-          status: 'delivered',
-          deliveredAt: updatedDelivery.deliveredAt?.toISOString(),
-          recipientIp: ipAddress
-        })
-
+        const updatedDelivery = await advanceDelivery(share.deliveryRecord.id, 'DOWNLOADED', { recipientIp: ipAddress })
         console.log(`LAN delivery ${updatedDelivery.id} marked as completed`)
       } catch (deliveryUpdateError) {
         console.error('Failed to update LAN delivery status:', deliveryUpdateError)
@@ -0,0 +1,166 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { getAuthOptions } from "@/lib/auth"
+import { getPrismaClient } from "@/lib/prisma"
+import { logAuditEvent, AuditAction, AuditSeverity } from "@/lib/audit"
+import { getStorageProvider, resolveStoredObject, verifyLocalSignature, StorageRange } from "@/lib/storage"
+import { isShareUnlocked } from "@/lib/share-links"
+import { getScanBlockReason, QUARANTINE_PREFIX, ScanStatus } from "@/lib/malware-scan"
+import { Readable } from 'stream'
+
+// Serves blobs written by the local storage provider. Requests either carry a presigned
+// expires/signature pair (see LocalStorageProvider.presign) or come from a signed-in owner or recipient.
+export async function GET(request: NextRequest) {
+  try {
+    const { pathname: url, searchParams } = new URL(request.url)
+    let key: string
+    try {
+      key = resolveStoredObject({ url }).key
+    } catch {
+      return NextResponse.json({ error: "Invalid file path" }, { status: 400 })
+    }
+
+    if (!key) {
+      return NextResponse.json({ error: "Filename required" }, { status: 400 })
+    }
+
+    // Quarantined content is never served, not even through a presigned link
+    if (key.startsWith(`${QUARANTINE_PREFIX}/`)) {
+      return NextResponse.json({ error: "File is quarantined: malware was detected" }, { status: 403 })
+    }
+
+    const prisma = await getPrismaClient()
+    const presigned = searchParams.has('signature')
+    let userId: string | null = null
+    // Deduplicated content is shared between files, so metadata comes from a file this request may see
+    const fileSelect = { id: true, originalName: true, type: true, scanStatus: true }
+    let fileRecord: { id: string; originalName: string | null; type: string; scanStatus: ScanStatus } | null = null
+
+    if (presigned) {
+      if (!verifyLocalSignature(key, searchParams.get('expires'), searchParams.get('signature'))) {
+        return NextResponse.json({ error: "Link expired or invalid" }, { status: 403 })
+      }
+    } else {
+      // Require authentication for file downloads
+      const authOptions = await getAuthOptions()
+      const session = await getServerSession(authOptions)
+      if (!session?.user?.id) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+      }
+      userId = session.user.id
+
+      fileRecord = await prisma.file.findFirst({
+        where: {
+          OR: [{ url }, { storageProvider: 'local', storageKey: key }],
+          userId,
+          deletedAt: null
+        },
+        select: fileSelect
+      })
+
+      if (!fileRecord) {
+        // Check if user has access through shares
+        const shares = await prisma.fileShare.findMany({
+          where: {
+            file: {
+              OR: [{ url }, { storageProvider: 'local', storageKey: key }],
+              deletedAt: null
+            },
+            OR: [
+              { userId },
+              { sharedWithEmail: session.user.email }
+            ],
+            revoked: false,
+            AND: [
+              {
+                OR: [
+                  { expiresAt: null },
+                  { expiresAt: { gt: new Date() } }
+                ]
+              }
+            ]
+          },
+          select: { id: true, password: true, file: { select: fileSelect } }
+        })
+
+        if (shares.length === 0) {
+          return NextResponse.json({ error: "Access denied" }, { status: 403 })
+        }
+
+        const unlockedShare = shares.find((share: { id: string; password: string | null }) => isShareUnlocked(share, request))
+        if (!unlockedShare) {
+          return NextResponse.json({
+            error: "Share password required",
+            passwordRequired: true,
+            shareId: shares[0].id
+          }, { status: 403 })
+        }
+        fileRecord = unlockedShare.file
+      }
+
+      const scanBlock = fileRecord ? getScanBlockReason(fileRecord) : null
+      if (scanBlock) {
+        return NextResponse.json({ error: scanBlock }, { status: fileRecord?.scanStatus === 'PENDING' ? 409 : 403 })
+      }
+    }
+
+    const provider = await getStorageProvider('local')
+    const info = await provider.stat(key)
+    if (!info) {
+      return NextResponse.json({ error: "File not found" }, { status: 404 })
+    }
+
+    // Parse range header for resume functionality
+    let range: StorageRange | undefined
+    const rangeMatch = request.headers.get('range')?.match(/bytes=(\d+)-(\d*)/)
+    if (rangeMatch) {
+      range = { start: parseInt(rangeMatch[1]), end: rangeMatch[2] ? parseInt(rangeMatch[2]) : undefined }
+      if (range.start >= info.size || (range.end !== undefined && range.end < range.start)) {
+        return NextResponse.json({ error: "Invalid range" }, {
+          status: 416,
+          headers: { 'Content-Range': `bytes */${info.size}` }
+        })
+      }
+    }
+
+    // Use original filename from database or fall back to the key's last segment
+    const originalFilename = fileRecord?.originalName || key.split('/').pop()
+
+    const stored = await provider.get(key, { range })
+
+    // Audit logging
+    await logAuditEvent({
+      userId: userId || undefined,
+      action: AuditAction.FILE_DOWNLOAD,
+      resource: 'file',
+      resourceId: fileRecord?.id || 'unknown',
+      details: {
+        fileName: originalFilename,
+        fileSize: stored.size,
+        localDownload: true,
+        presigned
+      },
+      severity: AuditSeverity.LOW
+    })
+
+    const headers: Record<string, string> = {
+      'Content-Type': fileRecord?.type || 'application/octet-stream',
+      'Content-Disposition': `attachment; filename="${originalFilename}"`,
+      'Content-Length': stored.size.toString(),
+      'Accept-Ranges': 'bytes',
+      'Cache-Control': 'private, no-cache',
+    }
+    if (stored.range) {
+      headers['Content-Range'] = `bytes ${stored.range.start}-${stored.range.end}/${stored.totalSize}`
+    }
+
+    return new NextResponse(Readable.toWeb(stored.stream) as unknown as ReadableStream<Uint8Array>, {
+      status: stored.range ? 206 : 200,
+      headers
+    })
+
+  } catch (error) {
+    console.error('Download error:', error)
+    return NextResponse.json({ error: "Download failed" }, { status: 500 })
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { getAuthOptions } from "@/lib/auth"
+import { recordFileAccess } from "@/lib/permissions"
+import { isShareUnlocked } from "@/lib/share-links"
+import { logAuditEvent, AuditAction, AuditSeverity } from "@/lib/audit"
+import { parseExportRequest, planZipExport } from "@/lib/zip-export"
+import { createZipStream } from "@/lib/zip"
+import {
+  handleApiError,
+  createAuthenticationError,
+  createAuthorizationError,
+  createValidationError
+} from "@/lib/error-handling"
+import { Readable } from 'stream'
+
+// Forms let the browser save the archive as it streams; fetch callers send JSON
+async function readExportBody(request: NextRequest) {
+  const contentType = request.headers.get('content-type') || ''
+  try {
+    if (contentType.includes('application/json')) {
+      return await request.json()
+    }
+    const formData = await request.formData()
+    const keys = formData.get('keys')
+    return {
+      fileIds: formData.getAll('fileIds'),
+      keys: typeof keys === 'string' && keys ? JSON.parse(keys) : undefined,
+      key: formData.get('key') || undefined
+    }
+  } catch {
+    throw createValidationError("Request body must be JSON or form data")
+  }
+}
+
+// POST: download several files as one streamed ZIP with a manifest.json of SHA-256 checksums.
+// Body (JSON or form): { fileIds, keys?: { [fileId]: key }, key? }
+export async function POST(request: NextRequest) {
+  try {
+    const authOptions = await getAuthOptions()
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      throw createAuthenticationError()
+    }
+
+    const exportRequest = parseExportRequest(await readExportBody(request))
+    const plan = await planZipExport(session.user.id, exportRequest, {
+      isShareUnlocked: (share) => isShareUnlocked(share, request)
+    })
+    if (plan.files.length === 0) {
+      throw createAuthorizationError(
+        `None of the files can be downloaded: ${plan.skipped.map(file => `${file.name} (${file.reason})`).join(', ')}`
+      )
+    }
+
+    for (const file of plan.files) {
+      await recordFileAccess(session.user.id, file.id, 'download')
+    }
+
+    await logAuditEvent({
+      userId: session.user.id,
+      action: AuditAction.FILE_DOWNLOAD,
+      resource: 'file',
+      details: {
+        action: 'zip_export',
+        fileIds: plan.files.map(file => file.id),
+        totalSize: plan.files.reduce((sum, file) => sum + file.size, 0),
+        skipped: plan.skipped
+      },
+      ipAddress: request.headers.get('x-forwarded-for') || undefined,
+      userAgent: request.headers.get('user-agent') || undefined,
+      severity: AuditSeverity.LOW
+    })
+
+    const fileName = `files-${new Date().toISOString().slice(0, 10)}.zip`
+    return new NextResponse(Readable.toWeb(createZipStream(plan.entries)) as unknown as ReadableStream<Uint8Array>, {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Cache-Control': 'no-cache',
+        'X-Content-Type-Options': 'nosniff'
+      }
+    })
+  } catch (error) {
+    const { error: appError, response } = await handleApiError(error, 'ZIP export')
+    return NextResponse.json(response, { status: appError.statusCode })
+  }
+}
@@ -2,6 +2,11 @@ import { NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { getAuthOptions } from "@/lib/auth"
 import { getPrismaClient } from "@/lib/prisma"
+import { recordFileAccess } from "@/lib/permissions"
+import { isShareUnlocked } from "@/lib/share-links"
+import { parseExportRequest, planZipExport } from "@/lib/zip-export"
+import { createZipStream } from "@/lib/zip"
+import { Readable } from 'stream'
 
 export async function POST(request: NextRequest) {
   try {
@@ -12,7 +17,7 @@ export async function POST(request: NextRequest) {
     }
 
     const prisma = await getPrismaClient()
-    const { operation, shareIds, format = 'json' } = await request.json()
+    const { operation, shareIds, format = 'json', keys, key } = await request.json()
 
     if (!operation || !['accept', 'reject', 'delete', 'export'].includes(operation)) {
       return NextResponse.json({
@@ -30,6 +35,7 @@ export async function POST(request: NextRequest) {
         id: { in: shareIds },
         sharedWithEmail: session.user.email,
         revoked: false,
+        file: { deletedAt: null },
         OR: [
           { expiresAt: null },
           { expiresAt: { gt: new Date() } }
@@ -77,6 +83,27 @@ export async function POST(request: NextRequest) {
         break
 
       case 'export':
+        // format 'zip' exports the files themselves rather than a listing of them
+        if (format === 'zip') {
+          const plan = await planZipExport(
+            session.user.id,
+            parseExportRequest({ fileIds: shares.map((share: { fileId: string }) => share.fileId), keys, key }),
+            { isShareUnlocked: (share) => isShareUnlocked(share, request) }
+          )
+          if (plan.files.length === 0) {
+            return NextResponse.json({ error: "None of the files can be downloaded", skipped: plan.skipped }, { status: 403 })
+          }
+          for (const file of plan.files) {
+            await recordFileAccess(session.user.id, file.id, 'download')
+          }
+          return new NextResponse(Readable.toWeb(createZipStream(plan.entries)) as unknown as ReadableStream<Uint8Array>, {
+            headers: {
+              'Content-Type': 'application/zip',
+              'Content-Disposition': 'attachment; filename="received-files.zip"'
+            }
+          })
+        }
+
         const exportData = await performBulkExport(shares, format)
         return new NextResponse(exportData, {
           headers: {
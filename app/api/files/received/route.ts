@@ -2,8 +2,12 @@ import { NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { getAuthOptions } from "@/lib/auth"
 import { getPrismaClient } from "@/lib/prisma"
-import { deliveryTracker } from "@/lib/delivery-tracker"
+import { advanceShareDelivery, DeliveryRecord, markDelivered } from "@/lib/deliveries"
 import { logAuditEvent, AuditAction, AuditSeverity } from "@/lib/audit"
+import { isEndToEndEncrypted } from "@/lib/key-management"
+import { isShareUnlocked } from "@/lib/share-links"
+import { fileTagFilter, fileTagSelect, parseTagFilter } from "@/lib/file-tags"
+import { parseSharePermissions } from "@/lib/permissions"
 
 export async function GET(request: NextRequest) {
   try {
@@ -19,6 +23,9 @@ export async function GET(request: NextRequest) {
     const page = parseInt(searchParams.get('page') || '1')
     const limit = parseInt(searchParams.get('limit') || '20')
     const offset = (page - 1) * limit
+    // tags=a,b keeps shares whose file carries all of the given tags
+    const tags = parseTagFilter(searchParams.get('tags'))
+    const tagConditions = tags.length > 0 ? [{ file: fileTagFilter(tags) }] : []
 
     // Enhanced file share query with stronger delivery guarantees
     // This ensures users always see files shared with their email, even if there are data inconsistencies
@@ -44,12 +51,14 @@ export async function GET(request: NextRequest) {
             ]
           },
           { revoked: false },
+          { file: { deletedAt: null } },
           {
             OR: [
               { expiresAt: null },
               { expiresAt: { gt: new Date() } }
             ]
-          }
+          },
+          ...tagConditions
         ]
       },
       include: {
@@ -62,9 +71,10 @@ export async function GET(request: NextRequest) {
             type: true,
             url: true,
             encrypted: true,
-            encryptionKey: true,
+            wrappedKey: true,
             fileType: true,
             createdAt: true,
+            tags: fileTagSelect,
           }
         },
         creator: {
@@ -87,6 +97,13 @@ export async function GET(request: NextRequest) {
             name: true,
           }
         },
+        transfer: {
+          select: {
+            id: true,
+            title: true,
+            message: true,
+          }
+        },
         accessLogs: {
           where: {
             userId: session.user.id,
@@ -125,12 +142,14 @@ export async function GET(request: NextRequest) {
             ]
           },
           { revoked: false },
+          { file: { deletedAt: null } },
           {
             OR: [
               { expiresAt: null },
               { expiresAt: { gt: new Date() } }
             ]
-          }
+          },
+          ...tagConditions
         ]
       }
     })
@@ -148,6 +167,8 @@ export async function GET(request: NextRequest) {
     const files = receivedShares.map((share: any) => {
       const hasViewed = share.accessLogs.length > 0
       const lastViewed = hasViewed ? share.accessLogs[0].createdAt : null
+      // Password-protected shares stay listed, but point nowhere until the recipient unlocks them
+      const unlocked = isShareUnlocked(share, request)
 
       return {
         id: share.id, // This is the share ID
@@ -156,13 +177,15 @@ export async function GET(request: NextRequest) {
         originalName: share.file.originalName || share.file.name,
         size: share.file.size,
         type: share.file.type,
-        url: share.file.url,
+        url: unlocked ? share.file.url : null,
         encrypted: share.file.encrypted,
+        endToEnd: isEndToEndEncrypted(share.file),
         fileType: share.file.fileType,
+        tags: share.file.tags,
         senderEmail: share.creator.email,
         senderName: share.creator.name,
         sharedAt: share.createdAt.toISOString(),
-        permissions: share.permissions,
+        permissions: parseSharePermissions(share.permissions),
         expiresAt: share.expiresAt?.toISOString() || null,
         shareType: share.shareType,
         groupName: share.group?.name || null,
@@ -172,28 +195,39 @@ export async function GET(request: NextRequest) {
         viewCount: share.viewCount,
         downloadCount: share.downloadCount,
         maxAccessCount: share.maxAccessCount,
-        password: share.password,
+        passwordProtected: !!share.password,
+        transfer: share.transfer, // Files sent together are shown as one bundle
+        unlocked,
         revoked: share.revoked
       }
     })
 
-    // Get delivery status for each file
-    const filesWithDeliveryStatus = await Promise.all(
-      files.map(async (file: any) => {
-        const deliveryStatus = deliveryTracker.getDeliveryStatus(file.id)
-        return {
-          ...file,
-          deliveryStatus: deliveryStatus ? {
-            status: deliveryStatus.status,
-            deliveredAt: deliveryStatus.deliveredAt?.toISOString(),
-            viewedAt: deliveryStatus.viewedAt?.toISOString(),
-            downloadedAt: deliveryStatus.downloadedAt?.toISOString(),
-            retryCount: deliveryStatus.retryCount,
-            failureReason: deliveryStatus.failureReason
-          } : null
-        }
-      })
-    )
+    // Get delivery status for each file. Listing them here means they reached this user's device
+    const deliveries: DeliveryRecord[] = await prisma.fileDelivery.findMany({
+      where: { recipientId: session.user.id, shareId: { in: files.map((file: { id: string }) => file.id) } }
+    })
+    let current = deliveries
+    try {
+      current = await markDelivered(deliveries)
+    } catch (deliveryError) {
+      console.error('Failed to mark deliveries as delivered:', deliveryError)
+    }
+    const deliveryByShare = new Map(current.map(delivery => [delivery.shareId as string, delivery]))
+
+    const filesWithDeliveryStatus = files.map((file: any) => {
+      const delivery = deliveryByShare.get(file.id)
+      return {
+        ...file,
+        deliveryStatus: delivery ? {
+          status: delivery.status.toLowerCase(),
+          deliveredAt: delivery.deliveredAt?.toISOString(),
+          viewedAt: delivery.viewedAt?.toISOString(),
+          downloadedAt: delivery.downloadedAt?.toISOString(),
+          deliveryAttempts: delivery.deliveryAttempts,
+          failureReason: delivery.failureReason
+        } : null
+      }
+    })
 
     // Audit logging
     await logAuditEvent({
@@ -297,7 +331,7 @@ export async function POST(request: NextRequest) {
             })
 
             // Mark delivery as delivered
-            deliveryTracker.markAsDelivered(shareId)
+            await advanceShareDelivery(shareId, session.user.id, 'DELIVERED')
 
             results.push({
               shareId,
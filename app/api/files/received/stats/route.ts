@@ -50,15 +50,15 @@ async function getReceivedFilesStats(prisma: any, userEmail: string, days: numbe
   ] = await Promise.all([
     // Total received files
     prisma.fileShare.count({
-      where: { sharedWithEmail: userEmail, revoked: false }
+      where: { sharedWithEmail: userEmail, revoked: false, file: { deletedAt: null } }
     }),
 
     // Status counts
     prisma.fileShare.count({
-      where: { sharedWithEmail: userEmail, status: 'ACCEPTED', revoked: false }
+      where: { sharedWithEmail: userEmail, status: 'ACCEPTED', revoked: false, file: { deletedAt: null } }
     }),
     prisma.fileShare.count({
-      where: { sharedWithEmail: userEmail, status: 'REJECTED', revoked: false }
+      where: { sharedWithEmail: userEmail, status: 'REJECTED', revoked: false, file: { deletedAt: null } }
     }),
     prisma.fileShare.count({
       where: {
@@ -70,11 +70,12 @@ async function getReceivedFilesStats(prisma: any, userEmail: string, days: numbe
             status: { not: 'EXPIRED' }
           }
         ],
-        revoked: false
+        revoked: false,
+        file: { deletedAt: null }
       }
     }),
     prisma.fileShare.count({
-      where: { sharedWithEmail: userEmail, status: 'PENDING', revoked: false }
+      where: { sharedWithEmail: userEmail, status: 'PENDING', revoked: false, file: { deletedAt: null } }
     }),
 
     // Recent shares
@@ -82,14 +83,15 @@ async function getReceivedFilesStats(prisma: any, userEmail: string, days: numbe
       where: {
         sharedWithEmail: userEmail,
         createdAt: { gte: startDate },
-        revoked: false
+        revoked: false,
+        file: { deletedAt: null }
       }
     }),
 
     // Top senders
     prisma.fileShare.groupBy({
       by: ['createdBy'],
-      where: { sharedWithEmail: userEmail, revoked: false },
+      where: { sharedWithEmail: userEmail, revoked: false, file: { deletedAt: null } },
       _count: { id: true },
       orderBy: { _count: { id: 'desc' } },
       take: 10
@@ -99,6 +101,7 @@ async function getReceivedFilesStats(prisma: any, userEmail: string, days: numbe
     prisma.file.groupBy({
       by: ['type'],
       where: {
+        deletedAt: null,
         shares: {
           some: {
             sharedWithEmail: userEmail,
@@ -123,6 +126,7 @@ async function getReceivedFilesStats(prisma: any, userEmail: string, days: numbe
     // Total file size received
     prisma.file.aggregate({
       where: {
+        deletedAt: null,
         shares: {
           some: {
             sharedWithEmail: userEmail,
@@ -136,6 +140,7 @@ async function getReceivedFilesStats(prisma: any, userEmail: string, days: numbe
     // Average file size
     prisma.file.aggregate({
       where: {
+        deletedAt: null,
         shares: {
           some: {
             sharedWithEmail: userEmail,
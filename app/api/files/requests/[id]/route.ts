@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { getAuthOptions } from "@/lib/auth"
+import { getPrismaClient } from "@/lib/prisma"
+import { logAuditEvent, AuditAction, AuditSeverity } from "@/lib/audit"
+import {
+  handleApiError,
+  createAuthenticationError,
+  createAuthorizationError,
+  createNotFoundError
+} from "@/lib/error-handling"
+
+// DELETE: close a file request. The row is kept so files uploaded through it stay attributed.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authOptions = await getAuthOptions()
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      throw createAuthenticationError()
+    }
+
+    const { id } = await params
+    const prisma = await getPrismaClient()
+    const fileRequest = await prisma.fileRequest.findUnique({
+      where: { id },
+      select: { id: true, title: true, userId: true, revoked: true, uploadCount: true }
+    })
+
+    if (!fileRequest) {
+      throw createNotFoundError('File request')
+    }
+    if (fileRequest.userId !== session.user.id) {
+      throw createAuthorizationError('Only the requester can close a file request')
+    }
+
+    if (!fileRequest.revoked) {
+      await prisma.fileRequest.update({
+        where: { id },
+        data: { revoked: true }
+      })
+
+      await logAuditEvent({
+        userId: session.user.id,
+        action: AuditAction.FILE_REQUEST,
+        resource: 'file_request',
+        resourceId: id,
+        details: { action: 'close', title: fileRequest.title, uploadCount: fileRequest.uploadCount },
+        ipAddress: request.headers.get('x-forwarded-for') || undefined,
+        userAgent: request.headers.get('user-agent') || undefined,
+        severity: AuditSeverity.MEDIUM
+      })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    const { error: appError, response } = await handleApiError(error, 'Close file request')
+    return NextResponse.json(response, { status: appError.statusCode })
+  }
+}
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { getAuthOptions } from "@/lib/auth"
+import { getPrismaClient } from "@/lib/prisma"
+import { logAuditEvent, AuditAction, AuditSeverity } from "@/lib/audit"
+import { findOwnedFolder } from "@/lib/folders"
+import { hashSharePassword } from "@/lib/share-links"
+import {
+  buildFileRequestUrl,
+  generateFileRequestToken,
+  parseFileRequestSettings
+} from "@/lib/file-requests"
+import { handleApiError, createAuthenticationError, createValidationError } from "@/lib/error-handling"
+
+const requestSelect = {
+  id: true,
+  token: true,
+  title: true,
+  message: true,
+  folderId: true,
+  folder: { select: { name: true } },
+  maxFileSize: true,
+  allowedTypes: true,
+  password: true,
+  expiresAt: true,
+  maxUploads: true,
+  uploadCount: true,
+  revoked: true,
+  createdAt: true
+}
+
+interface RequestRow {
+  token: string
+  password: string | null
+  [field: string]: unknown
+}
+
+// Never return the password hash; only whether one is set
+function toRequestResponse(fileRequest: RequestRow, origin: string) {
+  const { password, ...rest } = fileRequest
+  return { ...rest, hasPassword: !!password, url: buildFileRequestUrl(fileRequest.token, origin) }
+}
+
+async function requireSession() {
+  const authOptions = await getAuthOptions()
+  const session = await getServerSession(authOptions)
+  if (!session?.user?.id) {
+    throw createAuthenticationError()
+  }
+  return session
+}
+
+// GET: the user's file requests, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const session = await requireSession()
+    const prisma = await getPrismaClient()
+
+    const fileRequests = await prisma.fileRequest.findMany({
+      where: { userId: session.user.id },
+      select: requestSelect,
+      orderBy: { createdAt: 'desc' }
+    })
+
+    const origin = new URL(request.url).origin
+    return NextResponse.json({
+      requests: fileRequests.map((fileRequest: RequestRow) => toRequestResponse(fileRequest, origin))
+    })
+  } catch (error) {
+    const { error: appError, response } = await handleApiError(error, 'List file requests')
+    return NextResponse.json(response, { status: appError.statusCode })
+  }
+}
+
+// POST: create a file request.
+// Body: { title, message?, folderId?, maxFileSize?, allowedTypes?, expiresAt?, maxUploads?, password? }
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requireSession()
+
+    let body
+    try {
+      body = await request.json()
+    } catch {
+      throw createValidationError("Request body must be valid JSON")
+    }
+
+    const settings = parseFileRequestSettings(body)
+    const folder = await findOwnedFolder(session.user.id, settings.folderId)
+    const password = body.password ? await hashSharePassword(body.password) : null
+
+    const prisma = await getPrismaClient()
+    const fileRequest = await prisma.fileRequest.create({
+      data: {
+        ...settings,
+        token: generateFileRequestToken(),
+        password,
+        userId: session.user.id
+      },
+      select: requestSelect
+    })
+
+    await logAuditEvent({
+      userId: session.user.id,
+      action: AuditAction.FILE_REQUEST,
+      resource: 'file_request',
+      resourceId: fileRequest.id,
+      details: {
+        action: 'create',
+        title: settings.title,
+        folderName: folder?.name ?? null,
+        hasPassword: !!password,
+        maxFileSize: settings.maxFileSize,
+        allowedTypes: settings.allowedTypes,
+        expiresAt: settings.expiresAt,
+        maxUploads: settings.maxUploads
+      },
+      ipAddress: request.headers.get('x-forwarded-for') || undefined,
+      userAgent: request.headers.get('user-agent') || undefined,
+      severity: AuditSeverity.MEDIUM
+    })
+
+    return NextResponse.json(toRequestResponse(fileRequest, new URL(request.url).origin), { status: 201 })
+  } catch (error) {
+    const { error: appError, response } = await handleApiError(error, 'Create file request')
+    return NextResponse.json(response, { status: appError.statusCode })
+  }
+}
@@ -2,12 +2,23 @@ import { NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { getAuthOptions } from "@/lib/auth"
 import { getPrismaClient } from "@/lib/prisma"
-import { encryptFile } from "@/lib/crypto"
-import { emitSocketEvent, emitToUser } from "@/lib/socket"
+import { encryptStream, isEncryptedEnvelope } from "@/lib/encryption"
+import { createFileKey, isMasterKeyConfigured, isValidPublicKeyWrap } from "@/lib/key-management"
+import { emitToUser } from "@/lib/socket"
 import { logAuditEvent, AuditAction, AuditSeverity } from "@/lib/audit"
-import { deliveryTracker } from "@/lib/delivery-tracker"
+import { advanceShareDelivery, trackDelivery } from "@/lib/deliveries"
 import { PathSanitizer, InputValidator, ContentSecurity, RateLimiter } from "@/lib/security"
-import { createValidationError, createQuotaExceededError, handleApiError } from "@/lib/error-handling"
+import { createValidationError, handleApiError } from "@/lib/error-handling"
+import { buildStorageKey } from "@/lib/storage"
+import { releaseContent, storeContent } from "@/lib/blob-store"
+import { hashOptionalSharePassword } from "@/lib/share-links"
+import { getPhysicalStorageUsage, getStorageQuota, reserveStorage, releaseStorage } from "@/lib/storage-quota"
+import { applyAutoTags, fileTagFilter, fileTagSelect, parseTagFilter } from "@/lib/file-tags"
+import { scheduleTextExtraction } from "@/lib/search"
+import { scheduleThumbnails } from "@/lib/thumbnails"
+import { getScanBlockReason, isScanningEnabled, scanFile, scheduleScan } from "@/lib/malware-scan"
+import { Readable } from 'stream'
+import type { ReadableStream as NodeReadableStream } from 'stream/web'
 
 export async function GET(request: NextRequest) {
   try {
@@ -25,37 +36,50 @@ export async function GET(request: NextRequest) {
     const limit = parseInt(searchParams.get('limit') || '50')
     const includeShares = searchParams.get('includeShares') === 'true'
     const includeStats = searchParams.get('includeStats') === 'true'
+    // folderId=root lists unfiled files, folderId=<id> one folder's files; omitted lists everything
+    const folderParam = searchParams.get('folderId')
+    // tags=a,b lists files carrying all of the given tags
+    const tags = parseTagFilter(searchParams.get('tags'))
 
     const skip = (page - 1) * limit
 
     // Build query
-    const where = { userId: session.user.id }
+    const where = {
+      userId: session.user.id,
+      deletedAt: null,
+      ...(folderParam ? { folderId: folderParam === 'root' ? null : folderParam } : {}),
+      ...fileTagFilter(tags)
+    }
     const orderBy = { createdAt: 'desc' as const }
 
     // Get files with optional includes
     const filesQuery = prisma.file.findMany({
       where,
+      omit: { encryptionKey: true, wrappedKey: true },
       orderBy,
       skip,
       take: limit,
-      include: includeShares ? {
-        shares: {
-          where: { revoked: false },
-          select: {
-            id: true,
-            sharedWithEmail: true,
-            permissions: true,
-            expiresAt: true,
-            status: true,
-            user: {
-              select: {
-                name: true,
-                email: true
+      include: {
+        tags: fileTagSelect,
+        ...(includeShares && {
+          shares: {
+            where: { revoked: false },
+            select: {
+              id: true,
+              sharedWithEmail: true,
+              permissions: true,
+              expiresAt: true,
+              status: true,
+              user: {
+                select: {
+                  name: true,
+                  email: true
+                }
               }
             }
           }
-        }
-      } : undefined
+        })
+      }
     })
 
     // Get total count for pagination
@@ -74,25 +98,28 @@ export async function GET(request: NextRequest) {
         totalSizeResult,
         recentUploads
       ] = await Promise.all([
-        prisma.file.count({ where: { userId: session.user.id } }),
-        prisma.file.count({ where: { userId: session.user.id, encrypted: true } }),
+        prisma.file.count({ where: { userId: session.user.id, deletedAt: null } }),
+        prisma.file.count({ where: { userId: session.user.id, deletedAt: null, encrypted: true } }),
         prisma.fileShare.count({
           where: {
-            file: { userId: session.user.id },
+            file: { userId: session.user.id, deletedAt: null },
             revoked: false
           }
         }),
         prisma.file.aggregate({
-          where: { userId: session.user.id },
+          where: { userId: session.user.id, deletedAt: null },
           _sum: { size: true }
         }),
         prisma.file.count({
           where: {
             userId: session.user.id,
+            deletedAt: null,
             createdAt: { gte: new Date(Date.now() - 24 * 60 * 60 * 1000) }
           }
         })
       ])
+      const quota = await getStorageQuota(session.user.id)
+      const physicalBytes = await getPhysicalStorageUsage(session.user.id)
 
       stats = {
         totalFiles,
@@ -100,8 +127,9 @@ export async function GET(request: NextRequest) {
         encryptedFiles,
         sharedFiles,
         recentUploads,
-        storageUsed: totalSizeResult._sum.size || 0,
-        storageLimit: 5 * 1024 * 1024 * 1024 // 5GB default limit
+        storageUsed: quota.usedBytes, // Includes every version blob
+        storagePhysical: physicalBytes, // Identical content across files stored once
+        storageLimit: quota.limitBytes
       }
     }
 
@@ -131,7 +159,7 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     // Rate limiting check
-    RateLimiter.createMiddleware()(request)
+    await RateLimiter.createMiddleware()(request)
 
     const authOptions = await getAuthOptions()
     const session = await getServerSession(authOptions)
@@ -237,8 +265,8 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Parse password protection
-    password = formData.get('password') as string || null
+    // Parse password protection; only the bcrypt hash is stored
+    password = await hashOptionalSharePassword(formData.get('password'))
 
     // Parse max access count
     const maxAccessCountStr = formData.get('maxAccessCount') as string
@@ -254,6 +282,34 @@ export async function POST(request: NextRequest) {
 
     const shareMode = formData.get('shareMode') as string
 
+    // End-to-end encryption: the file arrives already encrypted by the browser together with its
+    // data key wrapped for the owner and for each recipient (see lib/e2e-crypto.ts)
+    const endToEnd = formData.get('e2e') === 'true'
+    const ownerWrappedKey = formData.get('wrappedKey') as string | null
+    let recipientKeys: Record<string, string> | null = null
+    let plaintextType = file?.type
+    let plaintextSize = file?.size
+    if (endToEnd) {
+      if (!isValidPublicKeyWrap(ownerWrappedKey)) {
+        throw createValidationError("End-to-end encrypted uploads require the data key wrapped for your public key")
+      }
+      if (groups.length > 0) {
+        throw createValidationError("End-to-end encrypted files can only be shared with individual users")
+      }
+      try {
+        recipientKeys = JSON.parse(formData.get('recipientKeys') as string || '{}')
+      } catch {
+        throw createValidationError("Invalid recipientKeys format: expected a JSON object of email to wrapped key")
+      }
+      if (file && !isEncryptedEnvelope(new Uint8Array(await file.slice(0, 4).arrayBuffer()))) {
+        throw createValidationError("End-to-end encrypted uploads must already be encrypted")
+      }
+      // The server only sees ciphertext, so the browser reports the original type and size
+      plaintextType = InputValidator.sanitizeString(formData.get('originalType') as string || 'application/octet-stream', 100)
+      const originalSize = parseInt(formData.get('originalSize') as string)
+      plaintextSize = Number.isInteger(originalSize) && originalSize >= 0 && file && originalSize <= file.size ? originalSize : file?.size
+    }
+
     console.log('=== UPLOAD REQUEST START ===')
     console.log('File provided:', !!file)
     console.log('File name:', file?.name)
@@ -278,40 +334,45 @@ export async function POST(request: NextRequest) {
     }
 
     console.log('Starting file processing...')
-    let fileData = await file.arrayBuffer()
-    console.log('File data loaded, size:', fileData.byteLength)
+    let fileData: Readable = Readable.fromWeb(file.stream() as unknown as NodeReadableStream)
     let finalFileName = file.name
-    let finalEncryptionKey = encryptionKey || ""
     let newFile: any = null
 
-    // Encrypt file if requested
-    if (encrypt && finalEncryptionKey) {
-      try {
-        console.log('Starting encryption...')
-        const encrypted = encryptFile(fileData, finalEncryptionKey)
-        console.log('Encryption completed, encrypted string length:', encrypted.length)
-        fileData = new TextEncoder().encode(encrypted).buffer
-        finalFileName = `${file.name}.encrypted`
-        console.log('Final encrypted buffer size:', fileData.byteLength)
-      } catch (error) {
-        console.error('Encryption error:', error)
-        return NextResponse.json({ error: "Encryption failed" }, { status: 500 })
-      }
+    if (encrypt && !endToEnd && !encryptionKey && !isMasterKeyConfigured()) {
+      throw createValidationError("Encryption key required when encrypt is set")
+    }
+
+    // Only the wrapped data key is persisted; a passphrase wraps it, otherwise the master key does
+    const fileKey = encrypt && !endToEnd ? await createFileKey(encryptionKey || null) : null
+
+    // Encrypt file if requested; the envelope is produced as the blob upload consumes it
+    if (fileKey) {
+      console.log('Streaming encryption enabled')
+      fileData = encryptStream(fileData, fileKey.dataKey)
+      finalFileName = `${file.name}.encrypted`
+    } else if (endToEnd) {
+      console.log('End-to-end encrypted upload, storing ciphertext as received')
+      finalFileName = `${file.name}.encrypted`
     } else {
       console.log('No encryption applied')
     }
 
-    console.log('Starting cloud file storage...')
-    // Upload to Vercel Blob storage
-    const { put } = await import('@vercel/blob')
-    const blob = await put(finalFileName, fileData, {
-      access: 'public',
-      contentType: file.type
-    })
-    console.log('Cloud file storage successful, URL:', blob.url)
+    // Count the upload against the owner's quota before writing anything
+    await reserveStorage(session.user.id, plaintextSize)
 
-    // Use cloud URL for file access
-    const cloudUrl = blob.url
+    console.log('Starting file storage...')
+    let stored
+    try {
+      stored = await storeContent(buildStorageKey(session.user.id, finalFileName), fileData, {
+        contentType: encrypt || endToEnd ? 'application/octet-stream' : file.type,
+        dedupe: !encrypt && !endToEnd
+      })
+    } catch (error) {
+      console.error('Storage upload failed:', error)
+      await releaseStorage(session.user.id, plaintextSize)
+      return NextResponse.json({ error: "Failed to store file" }, { status: 500 })
+    }
+    console.log('File storage successful:', stored.storageProvider, stored.storageKey, stored.deduplicated ? '(deduplicated)' : '')
 
     console.log('Saving to database...')
     const maxRetries = 3
@@ -325,14 +386,20 @@ export async function POST(request: NextRequest) {
           data: {
             name: file.name,
             originalName: file.name,
-            size: file.size,
-            type: file.type,
-            url: cloudUrl,
-            encrypted: encrypt,
-            encryptionKey: encrypt ? finalEncryptionKey : null,
+            size: plaintextSize,
+            type: plaintextType,
+            url: stored.url,
+            storageProvider: stored.storageProvider,
+            storageKey: stored.storageKey,
+            contentHash: stored.contentHash,
+            blobId: stored.blobId,
+            encrypted: encrypt || endToEnd,
+            wrappedKey: endToEnd ? ownerWrappedKey : fileKey?.wrappedKey ?? null,
+            keyId: fileKey?.keyId ?? null,
             fileType: type,
             userId: session.user.id
-          }
+          },
+          omit: { encryptionKey: true, wrappedKey: true, keyId: true }
         })
         console.log('✅ Database save successful, file ID:', newFile.id)
         break // Success, exit retry loop
@@ -342,7 +409,8 @@ export async function POST(request: NextRequest) {
 
         if (attempt === maxRetries) {
           console.error('❌ All database save attempts failed')
-          // Note: Vercel Blob doesn't have a delete API easily accessible
+          await releaseContent([stored])
+          await releaseStorage(session.user.id, plaintextSize)
           return NextResponse.json({
             error: "Failed to save file to database",
             details: "Database operation failed after multiple attempts. Please try again."
@@ -354,11 +422,28 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    await applyAutoTags(newFile)
+    scheduleTextExtraction(newFile.id)
+    scheduleThumbnails(newFile.id)
+
+    // Sharing waits for a clean scan, so an upload shared right away is scanned before replying
+    let scanBlock: string | null = null
+    if (shareMode === 'share' && (recipients.length > 0 || groups.length > 0) && isScanningEnabled()) {
+      scanBlock = getScanBlockReason({ scanStatus: await scanFile(newFile.id) })
+    } else {
+      scheduleScan(newFile.id)
+    }
+
     // Initialize sharing results
     let shareResults: any[] = []
 
-    // Handle sharing if recipients or groups are provided
-    if (shareMode === 'share' && (recipients.length > 0 || groups.length > 0)) {
+    if (scanBlock) {
+      shareResults = [
+        ...recipients.map((email: string) => ({ email, success: false, error: scanBlock, shareType: 'USER' })),
+        ...groups.map((groupId: string) => ({ groupId, success: false, error: scanBlock, shareType: 'GROUP' }))
+      ]
+    } else if (shareMode === 'share' && (recipients.length > 0 || groups.length > 0)) {
+      // Handle sharing if recipients or groups are provided
       console.log('=== ENHANCED SHARING LOGIC START ===')
       console.log('Recipients:', recipients.length, 'Groups:', groups.length)
       console.log('Permissions:', permissions, 'Expires:', expiresAt, 'Password:', !!password)
@@ -374,7 +459,8 @@ export async function POST(request: NextRequest) {
           permissions,
           expiresAt,
           password,
-          maxAccessCount
+          maxAccessCount,
+          recipientKeys
         )
         shareResults.push(...userShareResults)
 
@@ -383,17 +469,15 @@ export async function POST(request: NextRequest) {
         if (successfulUserShares.length > 0) {
           for (const result of successfulUserShares) {
             try {
-              const deliveryId = deliveryTracker.trackDelivery({
+              const delivery = await trackDelivery({
                 shareId: result.share.id,
+                fileId: newFile.id,
+                senderId: session.user.id,
                 recipientId: result.recipientUser.id,
                 recipientEmail: result.email,
-                status: 'pending',
-                notificationChannels: ['email', 'push'], // Default channels
-                sentAt: new Date(),
-                retryCount: 0,
-                maxRetries: 3
+                expiresAt
               })
-              console.log(`📬 Delivery tracking created for ${result.email}: ${deliveryId}`)
+              console.log(`📬 Delivery tracking created for ${result.email}: ${delivery.id}`)
             } catch (deliveryError) {
               console.error(`Failed to track delivery for ${result.email}:`, deliveryError)
               // Don't fail the entire operation for delivery tracking issues
@@ -477,7 +561,7 @@ export async function POST(request: NextRequest) {
         try {
           // Use targeted delivery to specific user
           if (result.recipientUser?.id) {
-            const delivered = emitToUser(result.recipientUser.id, 'file-shared', {
+            const delivered = await emitToUser(result.recipientUser.id, 'file-shared', {
               shareId: result.share.id,
               fileId: newFile.id,
               fileName: newFile.name,
@@ -497,6 +581,7 @@ export async function POST(request: NextRequest) {
             } else {
               console.warn(`Failed to deliver notification for share ${result.share.id} - user not connected`)
             }
+            await advanceShareDelivery(result.share.id, result.recipientUser.id, delivered ? 'DELIVERED' : 'SENT')
           }
         } catch (socketError) {
           console.error(`Failed to emit socket event for share ${result.share.id}:`, socketError)
@@ -596,7 +681,8 @@ async function processUserShares(
   permissions: string[],
   expiresAt: Date | null,
   password: string | null,
-  maxAccessCount: number | null
+  maxAccessCount: number | null,
+  recipientKeys: Record<string, string> | null = null
 ) {
   const results = []
 
@@ -667,6 +753,20 @@ async function processUserShares(
         continue
       }
 
+      // End-to-end encrypted files are only readable by recipients the browser wrapped the key for
+      const recipientWrappedKey = recipientKeys
+        ? recipientKeys[normalizedEmail] ?? recipientKeys[email]
+        : null
+      if (recipientKeys && !isValidPublicKeyWrap(recipientWrappedKey)) {
+        results.push({
+          email,
+          success: false,
+          error: 'Recipient has not set up end-to-end encryption keys',
+          shareType: 'USER'
+        })
+        continue
+      }
+
       // Create share record with enhanced data integrity
       const shareData = {
         fileId,
@@ -678,6 +778,7 @@ async function processUserShares(
         password,
         expiresAt,
         maxAccessCount,
+        wrappedKey: recipientWrappedKey,
         createdBy: creatorId
       }
 
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { getAuthOptions } from "@/lib/auth"
+import { getPrismaClient } from "@/lib/prisma"
+import { logAccessEvent, AccessEventType, AccessResult } from "@/lib/access-tracking"
+import {
+  attemptSharePassword,
+  getShareUnlockCookieName,
+  issueShareUnlockToken,
+  SHARE_UNLOCK_TTL_SECONDS
+} from "@/lib/share-links"
+import {
+  handleApiError,
+  createAuthenticationError,
+  createAuthorizationError,
+  createNotFoundError,
+  createValidationError
+} from "@/lib/error-handling"
+
+// POST: exchange a share password for a short-lived unlock token. Body: { password }
+// The token is set as a cookie for /api/files and returned for clients that send it in x-share-unlock.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authOptions = await getAuthOptions()
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      throw createAuthenticationError()
+    }
+
+    const { id: shareId } = await params
+    const prisma = await getPrismaClient()
+
+    // Only the recipients of a share may try its password
+    const share = await prisma.fileShare.findFirst({
+      where: {
+        id: shareId,
+        revoked: false,
+        file: { deletedAt: null },
+        OR: [
+          { userId: session.user.id },
+          { sharedWithEmail: session.user.email?.toLowerCase() },
+          { group: { members: { some: { id: session.user.id } } } }
+        ],
+        AND: {
+          OR: [
+            { expiresAt: null },
+            { expiresAt: { gt: new Date() } }
+          ]
+        }
+      },
+      select: { id: true, fileId: true, password: true, passwordLockedUntil: true }
+    })
+
+    if (!share) {
+      throw createNotFoundError('Share')
+    }
+
+    if (!share.password) {
+      return NextResponse.json({ success: true, passwordRequired: false })
+    }
+
+    let body
+    try {
+      body = await request.json()
+    } catch {
+      throw createValidationError("Request body must be valid JSON")
+    }
+
+    if (typeof body.password !== 'string' || !body.password) {
+      throw createValidationError("Password is required")
+    }
+
+    const ipAddress = request.headers.get('x-forwarded-for') || undefined
+    const userAgent = request.headers.get('user-agent') || undefined
+
+    if (!(await attemptSharePassword(share, body.password))) {
+      await logAccessEvent({
+        shareId: share.id,
+        userId: session.user.id,
+        fileId: share.fileId,
+        eventType: AccessEventType.ACCESS_DENIED,
+        result: AccessResult.FAILURE,
+        ipAddress,
+        userAgent,
+        errorMessage: 'Incorrect share password',
+        countAccess: false
+      })
+      throw createAuthorizationError('Incorrect password')
+    }
+
+    const unlockToken = issueShareUnlockToken(share.id, share.password)
+    const response = NextResponse.json({
+      success: true,
+      passwordRequired: true,
+      unlockToken,
+      expiresAt: new Date(Date.now() + SHARE_UNLOCK_TTL_SECONDS * 1000).toISOString()
+    })
+    response.cookies.set(getShareUnlockCookieName(share.id), unlockToken, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      path: '/api/files',
+      maxAge: SHARE_UNLOCK_TTL_SECONDS
+    })
+    return response
+  } catch (error) {
+    const { error: appError, response } = await handleApiError(error, 'Unlock share')
+    return NextResponse.json(response, { status: appError.statusCode })
+  }
+}
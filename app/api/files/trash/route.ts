@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { getAuthOptions } from "@/lib/auth"
+import { logAuditEvent, AuditAction, AuditSeverity } from "@/lib/audit"
+import {
+  getTrashRetentionDays,
+  listTrash,
+  parseTrashFileIds,
+  purgeExpiredTrash,
+  purgeTrashedFiles,
+  restoreFiles
+} from "@/lib/trash"
+import { handleApiError, createAuthenticationError, createValidationError } from "@/lib/error-handling"
+
+async function requireSession() {
+  const authOptions = await getAuthOptions()
+  const session = await getServerSession(authOptions)
+  if (!session?.user?.id) {
+    throw createAuthenticationError()
+  }
+  return session
+}
+
+// GET: the user's trashed files with the date each will be purged. Files past the retention
+// window are purged first, so the list never shows them.
+export async function GET() {
+  try {
+    const session = await requireSession()
+    await purgeExpiredTrash({ userId: session.user.id })
+
+    const files = await listTrash(session.user.id)
+    return NextResponse.json({ files, retentionDays: getTrashRetentionDays() })
+  } catch (error) {
+    const { error: appError, response } = await handleApiError(error, 'List trash')
+    return NextResponse.json(response, { status: appError.statusCode })
+  }
+}
+
+// POST: { action: 'restore' | 'purge', fileIds } or { action: 'empty' }
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requireSession()
+    const body = await request.json().catch(() => ({}))
+    const ipAddress = request.headers.get('x-forwarded-for') || undefined
+    const userAgent = request.headers.get('user-agent') || undefined
+
+    if (body.action === 'restore') {
+      const restored = await restoreFiles(session.user.id, parseTrashFileIds(body.fileIds))
+      for (const file of restored) {
+        await logAuditEvent({
+          userId: session.user.id,
+          action: AuditAction.FILE_RESTORE,
+          resource: 'file',
+          resourceId: file.id,
+          details: { fileName: file.name },
+          ipAddress,
+          userAgent,
+          severity: AuditSeverity.LOW
+        })
+      }
+      return NextResponse.json({ success: true, action: 'restore', restored: restored.map(file => file.id) })
+    }
+
+    if (body.action === 'purge' || body.action === 'empty') {
+      const fileIds = body.action === 'empty'
+        ? (await listTrash(session.user.id)).map(file => file.id)
+        : parseTrashFileIds(body.fileIds)
+      const purged = await purgeTrashedFiles(session.user.id, fileIds)
+      for (const result of purged) {
+        await logAuditEvent({
+          userId: session.user.id,
+          action: AuditAction.FILE_PURGE,
+          resource: 'file',
+          resourceId: result.fileId,
+          details: { reason: body.action === 'empty' ? 'trash_emptied' : 'user_request', ...result },
+          ipAddress,
+          userAgent,
+          severity: AuditSeverity.MEDIUM
+        })
+      }
+      return NextResponse.json({
+        success: true,
+        action: body.action,
+        purged: purged.map(result => result.fileId),
+        freedBytes: purged.reduce((total, result) => total + result.freedBytes, 0)
+      })
+    }
+
+    throw createValidationError("Invalid action. Must be 'restore', 'purge' or 'empty'")
+  } catch (error) {
+    const { error: appError, response } = await handleApiError(error, 'Update trash')
+    return NextResponse.json(response, { status: appError.statusCode })
+  }
+}
@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { getAuthOptions } from '@/lib/auth'
+import {
+  findUploadSession,
+  getOrCreateUploadSession,
+  getUploadedChunks,
+  writeChunk,
+  finalizeUploadSession,
+  discardUploadSession,
+  scheduleUploadSessionCleanup,
+  MAX_CHUNK_SIZE
+} from '@/lib/upload-sessions'
+import {
+  handleApiError,
+  createAuthenticationError,
+  createValidationError,
+  createNotFoundError
+} from '@/lib/error-handling'
+
+export async function GET(request: NextRequest) {
+  try {
+    const authOptions = await getAuthOptions()
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      throw createAuthenticationError()
+    }
+
+    const { searchParams } = new URL(request.url)
+    const uploadId = searchParams.get('fileId')
+    if (!uploadId) {
+      throw createValidationError('fileId is required')
+    }
+
+    const uploadSession = await findUploadSession(session.user.id, uploadId)
+    if (!uploadSession) {
+      throw createNotFoundError('Upload session')
+    }
+
+    const uploadedChunks = await getUploadedChunks(uploadSession.id)
+
+    return NextResponse.json({
+      uploadId: uploadSession.uploadId,
+      status: uploadSession.status,
+      uploadedChunks,
+      totalChunks: uploadSession.totalChunks,
+      chunkSize: uploadSession.chunkSize,
+      fileName: uploadSession.fileName,
+      fileSize: uploadSession.fileSize,
+      fileId: uploadSession.fileId,
+      expiresAt: uploadSession.expiresAt.toISOString()
+    })
+  } catch (error) {
+    const { error: appError, response } = await handleApiError(error, 'Chunk upload progress')
+    return NextResponse.json(response, { status: appError.statusCode })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const authOptions = await getAuthOptions()
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      throw createAuthenticationError()
+    }
+
+    scheduleUploadSessionCleanup()
+
+    const formData = await request.formData()
+    const uploadId = formData.get('fileId') as string
+    const chunkIndex = parseInt(formData.get('chunkIndex') as string, 10)
+    const totalChunks = parseInt(formData.get('totalChunks') as string, 10)
+    const fileSize = parseInt(formData.get('fileSize') as string, 10)
+    const chunkSize = parseInt(formData.get('chunkSize') as string, 10)
+    const fileName = formData.get('fileName') as string
+    const fileType = (formData.get('fileType') as string) || undefined
+    const chunkChecksum = (formData.get('checksum') as string) || undefined
+    const fileChecksum = (formData.get('fileChecksum') as string) || undefined
+    const chunk = formData.get('chunk') as Blob | null
+
+    if (!uploadId || !fileName || !chunk) {
+      throw createValidationError('fileId, fileName and chunk are required')
+    }
+
+    if ([chunkIndex, totalChunks, fileSize, chunkSize].some(isNaN)) {
+      throw createValidationError('chunkIndex, totalChunks, fileSize and chunkSize must be integers')
+    }
+
+    if (chunk.size > MAX_CHUNK_SIZE) {
+      throw createValidationError('Chunk exceeds maximum chunk size')
+    }
+
+    const uploadSession = await getOrCreateUploadSession(session.user.id, {
+      uploadId,
+      fileName,
+      fileSize,
+      mimeType: fileType,
+      chunkSize,
+      totalChunks,
+      checksum: fileChecksum
+    })
+
+    const data = Buffer.from(await chunk.arrayBuffer())
+    await writeChunk(uploadSession, chunkIndex, data, chunkChecksum)
+
+    const uploadedChunks = await getUploadedChunks(uploadSession.id)
+    if (uploadedChunks.length < uploadSession.totalChunks) {
+      return NextResponse.json({
+        complete: false,
+        chunkIndex,
+        uploadedChunks: uploadedChunks.length,
+        totalChunks: uploadSession.totalChunks
+      })
+    }
+
+    const newFile = await finalizeUploadSession(uploadSession)
+
+    return NextResponse.json({
+      complete: true,
+      chunkIndex,
+      uploadedChunks: uploadedChunks.length,
+      totalChunks: uploadSession.totalChunks,
+      file: newFile
+    })
+  } catch (error) {
+    const { error: appError, response } = await handleApiError(error, 'Chunk upload')
+    return NextResponse.json(response, { status: appError.statusCode })
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const authOptions = await getAuthOptions()
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      throw createAuthenticationError()
+    }
+
+    const { searchParams } = new URL(request.url)
+    const uploadId = searchParams.get('fileId')
+    if (!uploadId) {
+      throw createValidationError('fileId is required')
+    }
+
+    await discardUploadSession(session.user.id, uploadId)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    const { error: appError, response } = await handleApiError(error, 'Chunk upload cancel')
+    return NextResponse.json(response, { status: appError.statusCode })
+  }
+}
@@ -2,13 +2,21 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { getAuthOptions } from '@/lib/auth'
 import { getPrismaClient } from '@/lib/prisma'
-import { encryptFile } from '@/lib/crypto'
-import { emitSocketEvent } from '@/lib/socket'
+import { encryptStream } from '@/lib/encryption'
+import { createFileKey, isMasterKeyConfigured, FileKey } from '@/lib/key-management'
+import { emitToUser } from '@/lib/socket'
 import { logAuditEvent, AuditAction, AuditSeverity } from '@/lib/audit'
-import { PathSanitizer, ContentSecurity } from '@/lib/security'
-import fs from 'fs/promises'
-import path from 'path'
-import crypto from 'crypto'
+import { ContentSecurity } from '@/lib/security'
+import { buildStorageKey } from '@/lib/storage'
+import { releaseContent, storeContent } from '@/lib/blob-store'
+import { reserveStorage, releaseStorage } from '@/lib/storage-quota'
+import { applyAutoTags } from '@/lib/file-tags'
+import { scheduleTextExtraction } from '@/lib/search'
+import { scheduleThumbnails } from '@/lib/thumbnails'
+import { getScanBlockReason, isScanningEnabled, scanFile, scheduleScan } from '@/lib/malware-scan'
+import { AppError } from '@/lib/error-handling'
+import { Readable } from 'stream'
+import type { ReadableStream as NodeReadableStream } from 'stream/web'
 
 const MAX_FILE_SIZE = 500 * 1024 * 1024 // 500MB
 const ALLOWED_MIME_TYPES = [
@@ -72,75 +80,85 @@ export async function POST(request: NextRequest) {
 
     console.log('Starting secure file upload for:', file.name, 'Size:', file.size)
 
-    // Process file data
-    let fileData: ArrayBuffer
-    let finalFileName = file.name
-
-    try {
-      fileData = await file.arrayBuffer()
-    } catch (error) {
-      console.error('Failed to read file data:', error)
-      return NextResponse.json({ error: 'Failed to process file' }, { status: 500 })
+    // Without a passphrase the data key is wrapped by the server master key instead
+    if (encrypt && !encryptionKey && !isMasterKeyConfigured()) {
+      return NextResponse.json({ error: 'Encryption key required when encrypt is set' }, { status: 400 })
     }
 
-    // Encrypt if requested
-    if (encrypt && encryptionKey) {
-      try {
-        console.log('Encrypting file...')
-        const encrypted = encryptFile(fileData, encryptionKey)
-        fileData = new TextEncoder().encode(encrypted).buffer
-        finalFileName = `${file.name}.encrypted`
-        console.log('Encryption completed')
-      } catch (error) {
-        console.error('Encryption failed:', error)
-        return NextResponse.json({ error: 'Encryption failed' }, { status: 500 })
-      }
-    }
-
-    // Generate secure filename and path
-    const uniqueId = crypto.randomUUID()
-    const sanitizedFileName = PathSanitizer.sanitizeFilename(finalFileName)
-    const secureFileName = PathSanitizer.generateSecureFilename(sanitizedFileName, 'upload')
-    const uploadDir = path.resolve(process.cwd(), 'storage', 'uploads')
-
-    // Ensure upload directory exists
-    await fs.mkdir(uploadDir, { recursive: true, mode: 0o755 })
+    const fileKey: FileKey | null = encrypt ? await createFileKey(encryptionKey || null) : null
 
-    // Write file securely
-    const filePath = path.join(uploadDir, secureFileName)
-    const sanitizedFilePath = PathSanitizer.sanitizeFilePath(filePath, uploadDir)
+    const finalFileName = encrypt ? `${file.name}.encrypted` : file.name
 
+    // Count the upload against the owner's quota before writing anything
     try {
-      await fs.writeFile(sanitizedFilePath, Buffer.from(fileData))
-      console.log('File written successfully to:', sanitizedFilePath)
+      await reserveStorage(session.user.id, file.size)
     } catch (error) {
-      console.error('Failed to write file:', error)
-      return NextResponse.json({ error: 'Failed to save file' }, { status: 500 })
+      const status = error instanceof AppError ? error.statusCode : 500
+      return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to reserve storage' }, { status })
     }
 
-    // Create local URL for access
-    const localUrl = `/api/files/download/local/${secureFileName}`
+    // Stream the upload to the configured storage provider, encrypting frame by frame when requested.
+    // Unencrypted content identical to something already stored is kept once.
+    let stored
+    try {
+      const source = Readable.fromWeb(file.stream() as unknown as NodeReadableStream)
+      const body = fileKey ? encryptStream(source, fileKey.dataKey) : source
+      stored = await storeContent(buildStorageKey(session.user.id, finalFileName), body, {
+        contentType: encrypt ? 'application/octet-stream' : file.type,
+        dedupe: !encrypt
+      })
+      console.log('File stored successfully:', stored.storageProvider, stored.storageKey, encrypt ? '(encrypted)' : '', stored.deduplicated ? '(deduplicated)' : '')
+    } catch (error) {
+      console.error('Failed to store file:', error)
+      await releaseStorage(session.user.id, file.size)
+      return NextResponse.json({ error: encrypt ? 'Encryption failed' : 'Failed to save file' }, { status: 500 })
+    }
 
-    // Save to database
+    // Save to database; without a row the blob and its reservation are given back
     const newFile = await prisma.file.create({
       data: {
         name: file.name,
         originalName: file.name,
         size: file.size,
         type: file.type,
-        url: localUrl,
+        url: stored.url,
+        storageProvider: stored.storageProvider,
+        storageKey: stored.storageKey,
+        contentHash: stored.contentHash,
+        blobId: stored.blobId,
         encrypted: encrypt,
-        encryptionKey: encrypt ? encryptionKey : null,
+        wrappedKey: fileKey?.wrappedKey ?? null,
+        keyId: fileKey?.keyId ?? null,
         userId: session.user.id
-      }
+      },
+      omit: { encryptionKey: true, wrappedKey: true, keyId: true }
+    }).catch(async (error: unknown) => {
+      await releaseContent([stored])
+      await releaseStorage(session.user.id, file.size)
+      throw error
     })
 
     console.log('Database record created:', newFile.id)
+    await applyAutoTags(newFile)
+    scheduleTextExtraction(newFile.id)
+    scheduleThumbnails(newFile.id)
+
+    // Sharing waits for a clean scan, so an upload shared right away is scanned before replying
+    let scanBlock: string | null = null
+    if (recipients.length > 0 && isScanningEnabled()) {
+      scanBlock = getScanBlockReason({ scanStatus: await scanFile(newFile.id) })
+    } else {
+      scheduleScan(newFile.id)
+    }
 
     // Handle sharing if recipients provided
     let shareResults = []
     if (recipients.length > 0) {
       for (const email of recipients) {
+        if (scanBlock) {
+          shareResults.push({ email, success: false, error: scanBlock })
+          continue
+        }
         try {
           const recipientUser = await prisma.user.findUnique({
             where: { email: email.trim().toLowerCase() }
@@ -160,13 +178,15 @@ export async function POST(request: NextRequest) {
             shareResults.push({ email, success: true, shareId: share.id })
 
             // Emit real-time notification
-            emitSocketEvent('file-shared', {
+            emitToUser(recipientUser.id, 'file-shared', {
               shareId: share.id,
               fileId: newFile.id,
               fileName: newFile.name,
+              senderId: session.user.id,
               senderEmail: session.user.email,
               receiverEmail: email,
-              permissions
+              permissions,
+              sharedAt: share.createdAt.toISOString()
             })
           } else {
             shareResults.push({ email, success: false, error: 'User not found' })
@@ -197,7 +217,7 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       success: true,
       file: newFile,
-      localUrl,
+      localUrl: stored.url,
       sharingResults: shareResults
     })
 
@@ -0,0 +1,194 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { getAuthOptions } from "@/lib/auth"
+import { getPrismaClient } from "@/lib/prisma"
+import { logAuditEvent, AuditAction, AuditSeverity } from "@/lib/audit"
+import { checkFolderAccess, Permission } from "@/lib/permissions"
+import {
+  assertFolderNameAvailable,
+  findOwnedFolder,
+  folderListSelect,
+  getFolderPath,
+  validateFolderName
+} from "@/lib/folders"
+import {
+  handleApiError,
+  createAuthenticationError,
+  createAuthorizationError,
+  createConflictError,
+  createNotFoundError
+} from "@/lib/error-handling"
+
+// Fields safe to return to anyone with VIEW access on the folder
+const folderFileSelect = {
+  id: true,
+  name: true,
+  originalName: true,
+  size: true,
+  type: true,
+  encrypted: true,
+  fileType: true,
+  folderId: true,
+  createdAt: true,
+  updatedAt: true
+}
+
+async function requireSession() {
+  const authOptions = await getAuthOptions()
+  const session = await getServerSession(authOptions)
+  if (!session?.user?.id) {
+    throw createAuthenticationError()
+  }
+  return session
+}
+
+// GET: a folder's subfolders and files, for its owner or anyone it is shared with
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: folderId } = await params
+    const session = await requireSession()
+
+    const access = await checkFolderAccess(session.user.id, folderId, [Permission.VIEW])
+    if (!access.hasAccess) {
+      throw access.reason === 'Folder not found'
+        ? createNotFoundError('Folder')
+        : createAuthorizationError(access.reason || 'Access denied')
+    }
+
+    const prisma = await getPrismaClient()
+    const folder = await prisma.folder.findUnique({
+      where: { id: folderId },
+      select: { ...folderListSelect, userId: true, user: { select: { name: true, email: true } } }
+    })
+    if (!folder) {
+      throw createNotFoundError('Folder')
+    }
+
+    let breadcrumbs = await getFolderPath(folderId)
+    const isOwner = folder.userId === session.user.id
+    if (!isOwner) {
+      // Recipients only see the path from the highest folder shared with them
+      const sharedAncestors = await prisma.folderShare.findMany({
+        where: {
+          folderId: { in: breadcrumbs.map(crumb => crumb.id) },
+          revoked: false,
+          OR: [
+            { userId: session.user.id },
+            { group: { members: { some: { id: session.user.id } } } }
+          ]
+        },
+        select: { folderId: true }
+      })
+      const sharedIds = new Set(sharedAncestors.map((share: { folderId: string }) => share.folderId))
+      const firstShared = breadcrumbs.findIndex(crumb => sharedIds.has(crumb.id))
+      breadcrumbs = breadcrumbs.slice(Math.max(firstShared, 0))
+    }
+
+    const [folders, files] = await Promise.all([
+      prisma.folder.findMany({
+        where: { parentId: folderId },
+        select: folderListSelect,
+        orderBy: { name: 'asc' }
+      }),
+      prisma.file.findMany({
+        where: { folderId, deletedAt: null },
+        select: folderFileSelect,
+        orderBy: { name: 'asc' }
+      })
+    ])
+
+    return NextResponse.json({
+      folder,
+      breadcrumbs,
+      permissions: access.permissions,
+      isOwner,
+      folders,
+      files
+    })
+  } catch (error) {
+    const { error: appError, response } = await handleApiError(error, 'Get folder')
+    return NextResponse.json(response, { status: appError.statusCode })
+  }
+}
+
+// PATCH: rename a folder; moving goes through /api/folders/move
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: folderId } = await params
+    const session = await requireSession()
+    const folder = await findOwnedFolder(session.user.id, folderId)
+
+    const body = await request.json().catch(() => ({}))
+    const name = validateFolderName(body.name)
+    await assertFolderNameAvailable(session.user.id, folder.parentId, name, folderId)
+
+    const prisma = await getPrismaClient()
+    const updated = await prisma.folder.update({
+      where: { id: folderId },
+      data: { name }
+    })
+
+    await logAuditEvent({
+      userId: session.user.id,
+      action: AuditAction.FOLDER_UPDATE,
+      resource: 'folder',
+      resourceId: folderId,
+      details: { previousName: folder.name, name },
+      ipAddress: request.headers.get('x-forwarded-for') || undefined,
+      userAgent: request.headers.get('user-agent') || undefined,
+      severity: AuditSeverity.LOW
+    })
+
+    return NextResponse.json(updated)
+  } catch (error) {
+    const { error: appError, response } = await handleApiError(error, 'Update folder')
+    return NextResponse.json(response, { status: appError.statusCode })
+  }
+}
+
+// DELETE: remove an empty folder; files are never deleted along with folders. Trashed files
+// do not keep a folder alive: they are restored at the root.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: folderId } = await params
+    const session = await requireSession()
+    const folder = await findOwnedFolder(session.user.id, folderId)
+
+    const prisma = await getPrismaClient()
+    const [fileCount, childCount] = await Promise.all([
+      prisma.file.count({ where: { folderId, deletedAt: null } }),
+      prisma.folder.count({ where: { parentId: folderId } })
+    ])
+    if (fileCount > 0 || childCount > 0) {
+      throw createConflictError('Move or delete the folder contents first')
+    }
+
+    // Folder shares cascade with the folder row
+    await prisma.folder.delete({ where: { id: folderId } })
+
+    await logAuditEvent({
+      userId: session.user.id,
+      action: AuditAction.FOLDER_DELETE,
+      resource: 'folder',
+      resourceId: folderId,
+      details: { name: folder.name, parentId: folder.parentId },
+      ipAddress: request.headers.get('x-forwarded-for') || undefined,
+      userAgent: request.headers.get('user-agent') || undefined,
+      severity: AuditSeverity.MEDIUM
+    })
+
+    return NextResponse.json({ success: true, id: folderId })
+  } catch (error) {
+    const { error: appError, response } = await handleApiError(error, 'Delete folder')
+    return NextResponse.json(response, { status: appError.statusCode })
+  }
+}
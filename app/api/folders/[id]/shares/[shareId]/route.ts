@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { getAuthOptions } from "@/lib/auth"
+import { getPrismaClient } from "@/lib/prisma"
+import { logAuditEvent, AuditAction, AuditSeverity } from "@/lib/audit"
+import {
+  handleApiError,
+  createAuthenticationError,
+  createAuthorizationError,
+  createNotFoundError
+} from "@/lib/error-handling"
+
+// DELETE: revoke a folder share; access to everything beneath the folder goes with it
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; shareId: string }> }
+) {
+  try {
+    const authOptions = await getAuthOptions()
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      throw createAuthenticationError()
+    }
+
+    const { id: folderId, shareId } = await params
+    const prisma = await getPrismaClient()
+    const share = await prisma.folderShare.findFirst({
+      where: { id: shareId, folderId },
+      select: { id: true, revoked: true, userId: true, groupId: true, folder: { select: { userId: true, name: true } } }
+    })
+
+    if (!share) {
+      throw createNotFoundError('Folder share')
+    }
+    if (share.folder.userId !== session.user.id) {
+      throw createAuthorizationError('Only the folder owner can revoke shares')
+    }
+
+    if (!share.revoked) {
+      await prisma.folderShare.update({
+        where: { id: shareId },
+        data: { revoked: true }
+      })
+
+      await logAuditEvent({
+        userId: session.user.id,
+        action: AuditAction.SHARE_REVOKE,
+        resource: 'folder',
+        resourceId: folderId,
+        details: { shareId, folderName: share.folder.name, userId: share.userId, groupId: share.groupId },
+        ipAddress: request.headers.get('x-forwarded-for') || undefined,
+        userAgent: request.headers.get('user-agent') || undefined,
+        severity: AuditSeverity.MEDIUM
+      })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    const { error: appError, response } = await handleApiError(error, 'Revoke folder share')
+    return NextResponse.json(response, { status: appError.statusCode })
+  }
+}
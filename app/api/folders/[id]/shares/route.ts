@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { getAuthOptions } from "@/lib/auth"
+import { getPrismaClient } from "@/lib/prisma"
+import { logAuditEvent, AuditAction, AuditSeverity } from "@/lib/audit"
+import { emitToUser } from "@/lib/socket"
+import { findOwnedFolder } from "@/lib/folders"
+import { isGroupMember, validatePermissions } from "@/lib/permissions"
+import {
+  handleApiError,
+  createAuthenticationError,
+  createValidationError
+} from "@/lib/error-handling"
+
+const MAX_SHARE_LIFETIME_DAYS = 365
+
+const folderShareSelect = {
+  id: true,
+  permissions: true,
+  expiresAt: true,
+  revoked: true,
+  createdAt: true,
+  user: { select: { id: true, name: true, email: true } },
+  group: { select: { id: true, name: true } }
+}
+
+async function authorizeOwner(folderId: string) {
+  const authOptions = await getAuthOptions()
+  const session = await getServerSession(authOptions)
+  if (!session?.user?.id) {
+    throw createAuthenticationError()
+  }
+  const folder = await findOwnedFolder(session.user.id, folderId)
+  const prisma = await getPrismaClient()
+  return { session, folder, prisma }
+}
+
+// GET: active shares on a folder
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: folderId } = await params
+    const { prisma } = await authorizeOwner(folderId)
+
+    const shares = await prisma.folderShare.findMany({
+      where: { folderId, revoked: false },
+      select: folderShareSelect,
+      orderBy: { createdAt: 'desc' }
+    })
+
+    return NextResponse.json({ shares })
+  } catch (error) {
+    const { error: appError, response } = await handleApiError(error, 'List folder shares')
+    return NextResponse.json(response, { status: appError.statusCode })
+  }
+}
+
+// POST: share a folder and everything beneath it with registered users and groups
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: folderId } = await params
+    const { session, folder, prisma } = await authorizeOwner(folderId)
+    const body = await request.json().catch(() => ({}))
+
+    const recipients: string[] = Array.isArray(body.recipients)
+      ? body.recipients.filter((email: unknown) => typeof email === 'string').map((email: string) => email.trim().toLowerCase())
+      : []
+    const groupIds: string[] = Array.isArray(body.groups)
+      ? body.groups.filter((id: unknown) => typeof id === 'string')
+      : []
+    if (recipients.length === 0 && groupIds.length === 0) {
+      throw createValidationError('Add at least one recipient or group')
+    }
+
+    const permissions = validatePermissions(Array.isArray(body.permissions) ? body.permissions : ['VIEW'])
+    if (permissions.length === 0) {
+      throw createValidationError('Permissions must include VIEW, DOWNLOAD or EDIT')
+    }
+
+    let expiresAt: Date | null = null
+    if (body.expiresAt) {
+      expiresAt = new Date(body.expiresAt)
+      const maxExpiry = Date.now() + MAX_SHARE_LIFETIME_DAYS * 24 * 60 * 60 * 1000
+      if (isNaN(expiresAt.getTime()) || expiresAt.getTime() <= Date.now() || expiresAt.getTime() > maxExpiry) {
+        throw createValidationError(`Expiry must be in the future and within ${MAX_SHARE_LIFETIME_DAYS} days`)
+      }
+    }
+
+    // Folder shares only reach registered users, so unknown emails are reported back
+    const users: { id: string; email: string }[] = recipients.length > 0
+      ? await prisma.user.findMany({
+          where: { email: { in: recipients }, NOT: { id: session.user.id } },
+          select: { id: true, email: true }
+        })
+      : []
+    const unknownRecipients = recipients.filter(email => !users.some(user => user.email.toLowerCase() === email))
+
+    for (const groupId of groupIds) {
+      if (!(await isGroupMember(session.user.id, groupId))) {
+        throw createValidationError('You can only share with groups you belong to')
+      }
+    }
+
+    const shares = []
+    for (const user of users) {
+      shares.push(await prisma.folderShare.create({
+        data: { folderId, userId: user.id, permissions, expiresAt, createdBy: session.user.id },
+        select: folderShareSelect
+      }))
+      emitToUser(user.id, 'folder-shared', {
+        folderId,
+        folderName: folder.name,
+        senderId: session.user.id,
+        senderName: session.user.name,
+        permissions
+      })
+    }
+    for (const groupId of groupIds) {
+      shares.push(await prisma.folderShare.create({
+        data: { folderId, groupId, permissions, expiresAt, createdBy: session.user.id },
+        select: folderShareSelect
+      }))
+    }
+
+    await logAuditEvent({
+      userId: session.user.id,
+      action: AuditAction.FOLDER_SHARE,
+      resource: 'folder',
+      resourceId: folderId,
+      details: {
+        folderName: folder.name,
+        recipients: users.map(user => user.email),
+        groups: groupIds,
+        permissions,
+        expiresAt
+      },
+      ipAddress: request.headers.get('x-forwarded-for') || undefined,
+      userAgent: request.headers.get('user-agent') || undefined,
+      severity: AuditSeverity.MEDIUM
+    })
+
+    return NextResponse.json({ shares, unknownRecipients }, { status: 201 })
+  } catch (error) {
+    const { error: appError, response } = await handleApiError(error, 'Share folder')
+    return NextResponse.json(response, { status: appError.statusCode })
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { getAuthOptions } from "@/lib/auth"
+import { logAuditEvent, AuditAction, AuditSeverity } from "@/lib/audit"
+import { copyItems } from "@/lib/folders"
+import { handleApiError, createAuthenticationError } from "@/lib/error-handling"
+
+// POST: copy { fileIds, folderIds } into targetFolderId, or to the root when it is null.
+// Copies count against the storage quota like new uploads.
+export async function POST(request: NextRequest) {
+  try {
+    const authOptions = await getAuthOptions()
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      throw createAuthenticationError()
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const targetFolderId = body.targetFolderId || null
+    const result = await copyItems(session.user.id, body, targetFolderId)
+
+    await logAuditEvent({
+      userId: session.user.id,
+      action: AuditAction.FILE_COPY,
+      resource: 'folder',
+      resourceId: targetFolderId || undefined,
+      details: { fileIds: body.fileIds, folderIds: body.folderIds, targetFolderId, ...result },
+      ipAddress: request.headers.get('x-forwarded-for') || undefined,
+      userAgent: request.headers.get('user-agent') || undefined,
+      severity: AuditSeverity.LOW
+    })
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    const { error: appError, response } = await handleApiError(error, 'Copy items')
+    return NextResponse.json(response, { status: appError.statusCode })
+  }
+}
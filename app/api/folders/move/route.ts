@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { getAuthOptions } from "@/lib/auth"
+import { logAuditEvent, AuditAction, AuditSeverity } from "@/lib/audit"
+import { moveItems } from "@/lib/folders"
+import { handleApiError, createAuthenticationError } from "@/lib/error-handling"
+
+// POST: move { fileIds, folderIds } into targetFolderId, or to the root when it is null
+export async function POST(request: NextRequest) {
+  try {
+    const authOptions = await getAuthOptions()
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      throw createAuthenticationError()
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const targetFolderId = body.targetFolderId || null
+    const result = await moveItems(session.user.id, body, targetFolderId)
+
+    await logAuditEvent({
+      userId: session.user.id,
+      action: AuditAction.FILE_MOVE,
+      resource: 'folder',
+      resourceId: targetFolderId || undefined,
+      details: { fileIds: body.fileIds, folderIds: body.folderIds, targetFolderId, ...result },
+      ipAddress: request.headers.get('x-forwarded-for') || undefined,
+      userAgent: request.headers.get('user-agent') || undefined,
+      severity: AuditSeverity.LOW
+    })
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    const { error: appError, response } = await handleApiError(error, 'Move items')
+    return NextResponse.json(response, { status: appError.statusCode })
+  }
+}
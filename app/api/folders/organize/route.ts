@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { getAuthOptions } from "@/lib/auth"
+import { logAuditEvent, AuditAction, AuditSeverity } from "@/lib/audit"
+import { applyFolderOrganization, suggestFolderOrganization } from "@/lib/folders"
+import { handleApiError, createAuthenticationError } from "@/lib/error-handling"
+
+async function requireSession() {
+  const authOptions = await getAuthOptions()
+  const session = await getServerSession(authOptions)
+  if (!session?.user?.id) {
+    throw createAuthenticationError()
+  }
+  return session
+}
+
+// GET: suggested folders for the user's unfiled files
+export async function GET() {
+  try {
+    const session = await requireSession()
+    return NextResponse.json(await suggestFolderOrganization(session.user.id))
+  } catch (error) {
+    const { error: appError, response } = await handleApiError(error, 'Suggest organization')
+    return NextResponse.json(response, { status: appError.statusCode })
+  }
+}
+
+// POST: apply a suggestion's fileToFolderMapping, or a fresh suggestion when none is sent
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requireSession()
+    const body = await request.json().catch(() => ({}))
+    const mapping = body.fileToFolderMapping ?? (await suggestFolderOrganization(session.user.id)).fileToFolderMapping
+
+    const result = await applyFolderOrganization(session.user.id, mapping)
+
+    await logAuditEvent({
+      userId: session.user.id,
+      action: AuditAction.FILE_MOVE,
+      resource: 'folder',
+      details: {
+        action: 'apply_organization',
+        folders: result.folders.map(folder => folder.name),
+        movedFiles: result.movedFiles
+      },
+      ipAddress: request.headers.get('x-forwarded-for') || undefined,
+      userAgent: request.headers.get('user-agent') || undefined,
+      severity: AuditSeverity.LOW
+    })
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    const { error: appError, response } = await handleApiError(error, 'Apply organization')
+    return NextResponse.json(response, { status: appError.statusCode })
+  }
+}
@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { getAuthOptions } from "@/lib/auth"
+import { getPrismaClient } from "@/lib/prisma"
+import { logAuditEvent, AuditAction, AuditSeverity } from "@/lib/audit"
+import { createFolder, findOwnedFolder, getFolderPath, folderListSelect } from "@/lib/folders"
+import { handleApiError, createAuthenticationError } from "@/lib/error-handling"
+
+async function requireSession() {
+  const authOptions = await getAuthOptions()
+  const session = await getServerSession(authOptions)
+  if (!session?.user?.id) {
+    throw createAuthenticationError()
+  }
+  return session
+}
+
+// GET: the user's folders inside ?parentId (the root when omitted), every folder with its
+// path for ?all=true, or folders other users shared with them for ?shared=true
+export async function GET(request: NextRequest) {
+  try {
+    const session = await requireSession()
+    const prisma = await getPrismaClient()
+    const { searchParams } = new URL(request.url)
+
+    if (searchParams.get('shared') === 'true') {
+      const shares = await prisma.folderShare.findMany({
+        where: {
+          revoked: false,
+          OR: [
+            { userId: session.user.id },
+            { group: { members: { some: { id: session.user.id } } } }
+          ],
+          AND: {
+            OR: [
+              { expiresAt: null },
+              { expiresAt: { gt: new Date() } }
+            ]
+          },
+          folder: { userId: { not: session.user.id } }
+        },
+        select: {
+          id: true,
+          permissions: true,
+          expiresAt: true,
+          createdAt: true,
+          folder: {
+            select: {
+              ...folderListSelect,
+              user: { select: { name: true, email: true } }
+            }
+          }
+        },
+        orderBy: { createdAt: 'desc' }
+      })
+      return NextResponse.json({ shares })
+    }
+
+    if (searchParams.get('all') === 'true') {
+      const folders: { id: string; name: string; parentId: string | null }[] = await prisma.folder.findMany({
+        where: { userId: session.user.id },
+        select: { id: true, name: true, parentId: true },
+        orderBy: { name: 'asc' }
+      })
+
+      // Build "Parent / Child" paths in memory; the user's whole tree is already loaded
+      const byId = new Map(folders.map(folder => [folder.id, folder]))
+      const pathOf = (folder: { name: string; parentId: string | null }): string => {
+        const names = [folder.name]
+        let parent = folder.parentId ? byId.get(folder.parentId) : undefined
+        while (parent && names.length < folders.length) {
+          names.unshift(parent.name)
+          parent = parent.parentId ? byId.get(parent.parentId) : undefined
+        }
+        return names.join(' / ')
+      }
+
+      return NextResponse.json({
+        folders: folders
+          .map(folder => ({ ...folder, path: pathOf(folder) }))
+          .sort((a, b) => a.path.localeCompare(b.path))
+      })
+    }
+
+    const parentParam = searchParams.get('parentId')
+    const parentId = parentParam && parentParam !== 'root' ? parentParam : null
+    const parent = await findOwnedFolder(session.user.id, parentId)
+
+    const folders = await prisma.folder.findMany({
+      where: { userId: session.user.id, parentId },
+      select: folderListSelect,
+      orderBy: { name: 'asc' }
+    })
+
+    return NextResponse.json({
+      folder: parent,
+      breadcrumbs: parentId ? await getFolderPath(parentId) : [],
+      folders
+    })
+  } catch (error) {
+    const { error: appError, response } = await handleApiError(error, 'List folders')
+    return NextResponse.json(response, { status: appError.statusCode })
+  }
+}
+
+// POST: create a folder from { name, parentId }
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requireSession()
+    const body = await request.json().catch(() => ({}))
+
+    const folder = await createFolder(session.user.id, body.name, body.parentId || null)
+
+    await logAuditEvent({
+      userId: session.user.id,
+      action: AuditAction.FOLDER_CREATE,
+      resource: 'folder',
+      resourceId: folder.id,
+      details: { name: folder.name, parentId: folder.parentId },
+      ipAddress: request.headers.get('x-forwarded-for') || undefined,
+      userAgent: request.headers.get('user-agent') || undefined,
+      severity: AuditSeverity.LOW
+    })
+
+    return NextResponse.json(folder, { status: 201 })
+  } catch (error) {
+    const { error: appError, response } = await handleApiError(error, 'Create folder')
+    return NextResponse.json(response, { status: appError.statusCode })
+  }
+}
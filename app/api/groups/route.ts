@@ -3,7 +3,7 @@ import { getServerSession } from "next-auth/next"
 import { getAuthOptions } from "@/lib/auth"
 import { getPrismaClient } from "@/lib/prisma"
 import { logAuditEvent, AuditAction, AuditSeverity } from "@/lib/audit"
-import { emitSocketEvent } from "@/lib/socket"
+import { emitToUser } from "@/lib/socket"
 
 export async function GET() {
   try {
@@ -116,12 +116,11 @@ export async function POST(request: NextRequest) {
 
     // Emit notification to group members
     for (const member of members) {
-      emitSocketEvent('group-created', {
+      emitToUser(member.id, 'group-created', {
         groupId: group.id,
         groupName: group.name,
         creatorId: session.user.id,
         creatorName: session.user.name,
-        memberId: member.id,
         createdAt: group.createdAt.toISOString()
       })
     }
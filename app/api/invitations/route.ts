@@ -3,7 +3,9 @@ import { getServerSession } from "next-auth/next"
 import { getAuthOptions } from "@/lib/auth"
 import { getPrismaClient } from "@/lib/prisma"
 import { logAuditEvent, AuditAction, AuditSeverity } from "@/lib/audit"
-import { emitSocketEvent } from "@/lib/socket"
+import { emitToUser } from "@/lib/socket"
+import { isEndToEndEncrypted } from "@/lib/key-management"
+import { getScanBlockReason } from "@/lib/malware-scan"
 import nodemailer from 'nodemailer'
 
 // Email transporter (configure with your email service)
@@ -36,6 +38,18 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Either fileId or groupId must be provided" }, { status: 400 })
     }
 
+    // Invitations cannot carry a key wrapped for the invitee, who may not even have a keypair yet
+    if (fileId) {
+      const file = await prisma.file.findUnique({ where: { id: fileId }, select: { wrappedKey: true, scanStatus: true } })
+      if (file && isEndToEndEncrypted(file)) {
+        return NextResponse.json({ error: "End-to-end encrypted files can only be shared with users who have set up encryption keys" }, { status: 400 })
+      }
+      const scanBlock = file ? getScanBlockReason(file) : null
+      if (scanBlock) {
+        return NextResponse.json({ error: scanBlock }, { status: file?.scanStatus === 'PENDING' ? 409 : 403 })
+      }
+    }
+
     const results = []
     let successCount = 0
     let failCount = 0
@@ -179,10 +193,8 @@ export async function POST(request: NextRequest) {
       severity: AuditSeverity.LOW
     })
 
-    // Emit notification
-    emitSocketEvent('invitations-sent', {
-      senderId: session.user.id,
-      senderName: session.user.name,
+    // Emit notification to the sender's other devices
+    emitToUser(session.user.id, 'invitations-sent', {
       emailsCount: emails.length,
       successCount,
       failCount,
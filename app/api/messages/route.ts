@@ -2,39 +2,16 @@ import { NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { getAuthOptions } from "@/lib/auth"
 import { getPrismaClient } from "@/lib/prisma"
+import { RateLimiter } from "@/lib/security"
 
-// Rate limiting store (in production, use Redis)
-const rateLimitStore = new Map<string, { count: number; resetTime: number }>()
+// Per-user rate limit, counted in the shared store so it holds across instances
 const RATE_LIMIT_WINDOW = 60 * 1000 // 1 minute
 const RATE_LIMIT_MAX_REQUESTS = 100 // requests per minute per user
 
-function checkRateLimit(userId: string): boolean {
-  const now = Date.now()
-  const userLimit = rateLimitStore.get(userId)
-
-  if (!userLimit || now > userLimit.resetTime) {
-    rateLimitStore.set(userId, { count: 1, resetTime: now + RATE_LIMIT_WINDOW })
-    return true
-  }
-
-  if (userLimit.count >= RATE_LIMIT_MAX_REQUESTS) {
-    return false
-  }
-
-  userLimit.count++
-  return true
+async function checkRateLimit(userId: string): Promise<boolean> {
+  return RateLimiter.checkLimit(`messages:${userId}`, RATE_LIMIT_MAX_REQUESTS, RATE_LIMIT_WINDOW)
 }
 
-// Clean up old rate limit entries periodically
-setInterval(() => {
-  const now = Date.now()
-  for (const [userId, data] of rateLimitStore.entries()) {
-    if (now > data.resetTime) {
-      rateLimitStore.delete(userId)
-    }
-  }
-}, 60000) // Clean up every minute
-
 export async function GET(request: NextRequest) {
   try {
     const authOptions = await getAuthOptions()
@@ -44,7 +21,7 @@ export async function GET(request: NextRequest) {
     }
 
     // Rate limiting for scalability
-    if (!checkRateLimit(session.user.id)) {
+    if (!(await checkRateLimit(session.user.id))) {
       return NextResponse.json({ error: "Rate limit exceeded" }, { status: 429 })
     }
 
@@ -144,7 +121,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Rate limiting for scalability
-    if (!checkRateLimit(session.user.id)) {
+    if (!(await checkRateLimit(session.user.id))) {
       return NextResponse.json({
         error: "Rate limit exceeded. Please wait before sending more messages.",
         retryAfter: 60
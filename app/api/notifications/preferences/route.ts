@@ -3,6 +3,8 @@ import { getServerSession } from "next-auth/next"
 import { getAuthOptions } from "@/lib/auth"
 import { getPrismaClient } from "@/lib/prisma"
 import { logAuditEvent, AuditAction, AuditSeverity } from "@/lib/audit"
+import { isPushEnabled } from "@/lib/push"
+import { isSmsEnabled, isValidPhoneNumber } from "@/lib/sms"
 
 export async function GET() {
   try {
@@ -19,6 +21,9 @@ export async function GET() {
         emailNotifications: true,
         emailNotificationTypes: true,
         emailUnsubscribed: true,
+        pushNotifications: true,
+        smsNotifications: true,
+        phoneNumber: true,
       },
     })
 
@@ -30,6 +35,11 @@ export async function GET() {
       emailNotifications: user.emailNotifications,
       emailNotificationTypes: user.emailNotificationTypes,
       emailUnsubscribed: user.emailUnsubscribed,
+      pushNotifications: user.pushNotifications,
+      smsNotifications: user.smsNotifications,
+      phoneNumber: user.phoneNumber,
+      // Channels this server can send on
+      channels: { push: isPushEnabled(), sms: isSmsEnabled() },
     })
   } catch (error) {
     console.error('GET /api/notifications/preferences error:', error)
@@ -49,7 +59,10 @@ export async function PUT(request: NextRequest) {
     const {
       emailNotifications,
       emailNotificationTypes,
-      emailUnsubscribed
+      emailUnsubscribed,
+      pushNotifications,
+      smsNotifications,
+      phoneNumber
     } = body
 
     // Validate input
@@ -86,6 +99,20 @@ export async function PUT(request: NextRequest) {
       }, { status: 400 })
     }
 
+    for (const [field, value] of Object.entries({ pushNotifications, smsNotifications })) {
+      if (typeof value !== 'undefined' && typeof value !== 'boolean') {
+        return NextResponse.json({
+          error: `${field} must be a boolean`
+        }, { status: 400 })
+      }
+    }
+
+    if (phoneNumber !== undefined && phoneNumber !== null && phoneNumber !== '' && (typeof phoneNumber !== 'string' || !isValidPhoneNumber(phoneNumber))) {
+      return NextResponse.json({
+        error: "phoneNumber must be in international format, e.g. +14155550100"
+      }, { status: 400 })
+    }
+
     const prisma = await getPrismaClient()
 
     // Get current preferences for audit logging
@@ -95,6 +122,9 @@ export async function PUT(request: NextRequest) {
         emailNotifications: true,
         emailNotificationTypes: true,
         emailUnsubscribed: true,
+        pushNotifications: true,
+        smsNotifications: true,
+        phoneNumber: true,
       },
     })
 
@@ -105,11 +135,17 @@ export async function PUT(request: NextRequest) {
         ...(emailNotifications !== undefined && { emailNotifications }),
         ...(emailNotificationTypes !== undefined && { emailNotificationTypes }),
         ...(emailUnsubscribed !== undefined && { emailUnsubscribed }),
+        ...(pushNotifications !== undefined && { pushNotifications }),
+        ...(smsNotifications !== undefined && { smsNotifications }),
+        ...(phoneNumber !== undefined && { phoneNumber: phoneNumber || null }),
       },
       select: {
         emailNotifications: true,
         emailNotificationTypes: true,
         emailUnsubscribed: true,
+        pushNotifications: true,
+        smsNotifications: true,
+        phoneNumber: true,
       },
     })
 
@@ -155,6 +191,9 @@ export async function DELETE(request: NextRequest) {
         emailNotifications: true,
         emailNotificationTypes: true,
         emailUnsubscribed: true,
+        pushNotifications: true,
+        smsNotifications: true,
+        phoneNumber: true,
       },
     })
 
@@ -165,11 +204,16 @@ export async function DELETE(request: NextRequest) {
         emailNotifications: 'IMMEDIATE',
         emailNotificationTypes: ['NEW_SHARES'],
         emailUnsubscribed: false,
+        pushNotifications: true,
+        smsNotifications: false,
       },
       select: {
         emailNotifications: true,
         emailNotificationTypes: true,
         emailUnsubscribed: true,
+        pushNotifications: true,
+        smsNotifications: true,
+        phoneNumber: true,
       },
     })
 
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { getAuthOptions } from '@/lib/auth'
+import { getVapidPublicKey, isPushEnabled, parsePushSubscription, removePushSubscription, savePushSubscription } from '@/lib/push'
+import { handleApiError, createAuthenticationError, createValidationError } from '@/lib/error-handling'
+
+// GET: whether Web Push is available and the VAPID public key browsers subscribe with
+export async function GET() {
+  try {
+    const authOptions = await getAuthOptions()
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      throw createAuthenticationError()
+    }
+
+    return NextResponse.json({
+      enabled: isPushEnabled(),
+      publicKey: isPushEnabled() ? getVapidPublicKey() : null
+    })
+  } catch (error) {
+    const { error: appError, response } = await handleApiError(error, 'Get push configuration')
+    return NextResponse.json(response, { status: appError.statusCode })
+  }
+}
+
+// POST: the browser's PushSubscription (as from subscription.toJSON()) to receive push
+// notifications on it
+export async function POST(request: NextRequest) {
+  try {
+    const authOptions = await getAuthOptions()
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      throw createAuthenticationError()
+    }
+    if (!isPushEnabled()) {
+      throw createValidationError('Push notifications are not configured on this server')
+    }
+
+    const subscription = parsePushSubscription(await request.json())
+    await savePushSubscription(session.user.id, subscription, request.headers.get('user-agent'))
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    const { error: appError, response } = await handleApiError(error, 'Save push subscription')
+    return NextResponse.json(response, { status: appError.statusCode })
+  }
+}
+
+// DELETE: { endpoint } to stop push notifications to that browser
+export async function DELETE(request: NextRequest) {
+  try {
+    const authOptions = await getAuthOptions()
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      throw createAuthenticationError()
+    }
+
+    const { endpoint } = await request.json()
+    if (typeof endpoint !== 'string' || !endpoint) {
+      throw createValidationError('endpoint is required')
+    }
+
+    const removed = await removePushSubscription(session.user.id, endpoint)
+
+    return NextResponse.json({ success: true, removed })
+  } catch (error) {
+    const { error: appError, response } = await handleApiError(error, 'Remove push subscription')
+    return NextResponse.json(response, { status: appError.statusCode })
+  }
+}
@@ -2,7 +2,7 @@ import { NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { getAuthOptions } from "@/lib/auth"
 import { getPrismaClient } from "@/lib/prisma"
-import { emitSocketEvent } from "@/lib/socket"
+import { retryRecipientDeliveries } from "@/lib/deliveries"
 
 // GET - Fetch all online users' presence
 export async function GET() {
@@ -96,88 +96,14 @@ export async function POST(request: NextRequest) {
        },
      })
 
-     // Check for pending deliveries that can be retried now that user is online
-     try {
-       const pendingDeliveries = await prisma.fileDelivery.findMany({
-         where: {
-           recipientId: userId,
-           status: { in: ['PENDING', 'FAILED'] },
-           deliveryAttempts: { lt: 3 }, // Less than max retries
-           expiresAt: { gt: new Date() }
-         },
-         include: {
-           file: true,
-           sender: true
-         }
+     // Retry open deliveries now that the user is online (don't block the response)
+     retryRecipientDeliveries(session.user.id)
+       .then(count => {
+         if (count > 0) console.log(`User ${session.user.id} came online, retried ${count} pending deliveries`)
+       })
+       .catch(deliveryCheckError => {
+         console.error('Error checking pending deliveries:', deliveryCheckError)
        })
-
-       if (pendingDeliveries.length > 0) {
-         console.log(`User ${userId} came online, found ${pendingDeliveries.length} pending deliveries to retry`)
-
-         // Process retries asynchronously (don't block the response)
-         setImmediate(async () => {
-           for (const delivery of pendingDeliveries) {
-             try {
-               // Update delivery status to retrying
-               await prisma.fileDelivery.update({
-                 where: { id: delivery.id },
-                 data: {
-                   status: 'PENDING',
-                   deliveryAttempts: { increment: 1 },
-                   lastRetryAt: new Date(),
-                   updatedAt: new Date()
-                 }
-               })
-
-               // Emit retry event
-               emitSocketEvent('lan-delivery-retry', {
-                 deliveryId: delivery.id,
-                 fileId: delivery.fileId,
-                 senderId: delivery.senderId,
-                 recipientId: delivery.recipientId,
-                 attemptNumber: delivery.deliveryAttempts + 1,
-                 maxRetries: 3,
-                 retryAt: new Date().toISOString(),
-                 triggeredBy: 'user_online'
-               })
-
-               // Simulate delivery completion (in a real implementation, this would trigger actual delivery)
-               setTimeout(async () => {
-                 try {
-                   await prisma.fileDelivery.update({
-                     where: { id: delivery.id },
-                     data: {
-                       status: 'DELIVERED',
-                       deliveredAt: new Date(),
-                       updatedAt: new Date()
-                     }
-                   })
-
-                   emitSocketEvent('lan-delivery-completed', {
-                     deliveryId: delivery.id,
-                     fileId: delivery.fileId,
-                     senderId: delivery.senderId,
-                     recipientId: delivery.recipientId,
-                     status: 'delivered',
-                     deliveredAt: new Date().toISOString(),
-                     attemptNumber: delivery.deliveryAttempts + 1,
-                     triggeredBy: 'user_online'
-                   })
-                 } catch (completionError) {
-                   console.error(`Error completing delivery retry for ${delivery.id}:`, completionError)
-                 }
-               }, 3000) // 3 second delay to simulate delivery
-
-             } catch (retryError) {
-               console.error(`Error retrying delivery ${delivery.id}:`, retryError)
-             }
-           }
-         })
-       }
-     } catch (deliveryCheckError) {
-       console.error('Error checking pending deliveries:', deliveryCheckError)
-       // Don't fail the presence update if delivery check fails
-     }
 
      return NextResponse.json({ success: true, presence })
    } catch (error) {
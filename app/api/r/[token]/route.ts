@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from "next/server"
+import { logAuditEvent, AuditAction, AuditSeverity } from "@/lib/audit"
+import { sendFileRequestUploadNotification } from "@/lib/email"
+import { emitToUser } from "@/lib/socket"
+import { RateLimiter } from "@/lib/security"
+import {
+  acceptRequestUpload,
+  findFileRequest,
+  getFileRequestUnavailableReason,
+  isFileRequestUnlocked,
+  parseRequestUploader,
+  DEFAULT_REQUEST_TYPES,
+  MAX_REQUEST_FILE_SIZE
+} from "@/lib/file-requests"
+import {
+  handleApiError,
+  createAuthorizationError,
+  createNotFoundError,
+  createValidationError
+} from "@/lib/error-handling"
+
+// GET: upload page details for a file request. Limits stay hidden until a password is unlocked.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params
+    const fileRequest = await findFileRequest(token)
+    if (!fileRequest) {
+      throw createNotFoundError('File request')
+    }
+
+    const unavailableReason = getFileRequestUnavailableReason(fileRequest)
+    if (unavailableReason) {
+      return NextResponse.json({ error: unavailableReason, available: false }, { status: 410 })
+    }
+
+    const unlocked = isFileRequestUnlocked(fileRequest, request)
+
+    return NextResponse.json({
+      available: true,
+      requiresPassword: !!fileRequest.password,
+      unlocked,
+      requestedBy: fileRequest.user.name || null,
+      title: fileRequest.title,
+      message: unlocked ? fileRequest.message : null,
+      expiresAt: fileRequest.expiresAt,
+      limits: unlocked
+        ? {
+            maxFileSize: Math.min(fileRequest.maxFileSize ?? MAX_REQUEST_FILE_SIZE, MAX_REQUEST_FILE_SIZE),
+            allowedTypes: fileRequest.allowedTypes.length > 0 ? fileRequest.allowedTypes : DEFAULT_REQUEST_TYPES,
+            remainingUploads: fileRequest.maxUploads ? fileRequest.maxUploads - fileRequest.uploadCount : null
+          }
+        : null
+    })
+  } catch (error) {
+    const { error: appError, response } = await handleApiError(error, 'Get file request')
+    return NextResponse.json(response, { status: appError.statusCode })
+  }
+}
+
+// POST: upload one file to the request. Form data: file, and optionally name, email and message
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    await RateLimiter.createMiddleware()(request)
+
+    const { token } = await params
+    const fileRequest = await findFileRequest(token)
+    if (!fileRequest) {
+      throw createNotFoundError('File request')
+    }
+
+    const unavailableReason = getFileRequestUnavailableReason(fileRequest)
+    if (unavailableReason) {
+      return NextResponse.json({ error: unavailableReason, available: false }, { status: 410 })
+    }
+    if (!isFileRequestUnlocked(fileRequest, request)) {
+      throw createAuthorizationError('Password required')
+    }
+
+    let formData
+    try {
+      formData = await request.formData()
+    } catch {
+      throw createValidationError("Invalid form data")
+    }
+
+    const file = formData.get('file')
+    if (!(file instanceof File)) {
+      throw createValidationError("No file provided")
+    }
+    const uploader = parseRequestUploader(formData)
+
+    const { file: newFile, uploadCount } = await acceptRequestUpload(fileRequest, file, uploader)
+
+    // The requester owns the file, so the upload is recorded against them
+    await logAuditEvent({
+      userId: fileRequest.userId,
+      action: AuditAction.FILE_UPLOAD,
+      resource: 'file',
+      resourceId: newFile.id,
+      details: {
+        fileName: newFile.name,
+        fileSize: newFile.size,
+        fileRequestId: fileRequest.id,
+        uploaderName: uploader.name,
+        uploaderEmail: uploader.email
+      },
+      ipAddress: request.headers.get('x-forwarded-for') || undefined,
+      userAgent: request.headers.get('user-agent') || undefined,
+      severity: AuditSeverity.MEDIUM
+    })
+
+    emitToUser(fileRequest.userId, 'file-request-upload', {
+      fileRequestId: fileRequest.id,
+      title: fileRequest.title,
+      fileId: newFile.id,
+      fileName: newFile.name,
+      uploaderName: uploader.name,
+      uploaderEmail: uploader.email
+    })
+
+    await sendFileRequestUploadNotification({
+      ownerId: fileRequest.userId,
+      requestId: fileRequest.id,
+      requestTitle: fileRequest.title,
+      uploaderName: uploader.name ?? undefined,
+      uploaderEmail: uploader.email ?? undefined,
+      uploaderMessage: uploader.message ?? undefined,
+      fileId: newFile.id,
+      fileName: newFile.name,
+      fileSize: newFile.size,
+      fileType: newFile.type,
+      uploadCount
+    })
+
+    // Uploaders get no access to what they sent; only a receipt
+    return NextResponse.json({
+      success: true,
+      fileName: newFile.name,
+      size: newFile.size,
+      remainingUploads: fileRequest.maxUploads ? fileRequest.maxUploads - uploadCount : null
+    }, { status: 201 })
+  } catch (error) {
+    const { error: appError, response } = await handleApiError(error, 'Upload to file request')
+    return NextResponse.json(response, { status: appError.statusCode })
+  }
+}
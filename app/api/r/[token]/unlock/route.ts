@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server"
+import { issueShareUnlockToken, SHARE_UNLOCK_TTL_SECONDS } from "@/lib/share-links"
+import {
+  attemptFileRequestPassword,
+  findFileRequest,
+  getFileRequestUnavailableReason,
+  getFileRequestUnlockCookieName
+} from "@/lib/file-requests"
+import {
+  handleApiError,
+  createAuthorizationError,
+  createNotFoundError,
+  createValidationError
+} from "@/lib/error-handling"
+
+// POST: exchange a file request password for a short-lived unlock cookie. Body: { password }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params
+    const fileRequest = await findFileRequest(token)
+    if (!fileRequest) {
+      throw createNotFoundError('File request')
+    }
+
+    const unavailableReason = getFileRequestUnavailableReason(fileRequest)
+    if (unavailableReason) {
+      return NextResponse.json({ error: unavailableReason, available: false }, { status: 410 })
+    }
+
+    if (!fileRequest.password) {
+      return NextResponse.json({ success: true })
+    }
+
+    let body
+    try {
+      body = await request.json()
+    } catch {
+      throw createValidationError("Request body must be valid JSON")
+    }
+
+    if (typeof body.password !== 'string' || !body.password) {
+      throw createValidationError("Password is required")
+    }
+
+    if (!(await attemptFileRequestPassword(fileRequest, body.password))) {
+      throw createAuthorizationError('Incorrect password')
+    }
+
+    const response = NextResponse.json({ success: true })
+    response.cookies.set(getFileRequestUnlockCookieName(fileRequest.id), issueShareUnlockToken(fileRequest.id, fileRequest.password), {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      path: `/api/r/${token}`,
+      maxAge: SHARE_UNLOCK_TTL_SECONDS
+    })
+    return response
+  } catch (error) {
+    const { error: appError, response } = await handleApiError(error, 'Unlock file request')
+    return NextResponse.json(response, { status: appError.statusCode })
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server"
+import { openStoredFileDecryptStream } from "@/lib/encryption"
+import { resolveFileSecret } from "@/lib/key-management"
+import { openStoredObject } from "@/lib/storage"
+import { logAccessEvent, AccessEventType } from "@/lib/access-tracking"
+import {
+  findPublicShare,
+  getShareUnavailableReason,
+  isShareUnlocked,
+  claimShareAccess,
+  isInlinePreviewable,
+  isServerReadable
+} from "@/lib/share-links"
+import { assertFileClean } from "@/lib/malware-scan"
+import { handleApiError, createAuthorizationError, createNotFoundError } from "@/lib/error-handling"
+import { Readable } from 'stream'
+
+// GET: serve a public link's file. ?inline=1 renders previewable types in the browser.
+// Every content fetch counts against the link's access limit.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params
+    const share = await findPublicShare(token)
+    if (!share) {
+      throw createNotFoundError('Share link')
+    }
+
+    const unavailableReason = getShareUnavailableReason(share)
+    if (unavailableReason) {
+      return NextResponse.json({ error: unavailableReason, available: false }, { status: 410 })
+    }
+
+    if (!isShareUnlocked(share, request)) {
+      throw createAuthorizationError('Password required')
+    }
+
+    const file = share.file
+    const inline = new URL(request.url).searchParams.get('inline') === '1' && isInlinePreviewable(file.type)
+    const permissions: string[] = JSON.parse(share.permissions || '[]')
+    if (!inline && !permissions.includes('DOWNLOAD')) {
+      throw createAuthorizationError('Downloads are disabled for this link')
+    }
+
+    // Links are only created for server-readable files, but the file may have been re-keyed since
+    if (!isServerReadable(file)) {
+      throw createAuthorizationError('This file can no longer be shared by public link')
+    }
+    assertFileClean(file)
+
+    if (!(await claimShareAccess(share))) {
+      return NextResponse.json({ error: 'This link has reached its access limit', available: false }, { status: 410 })
+    }
+
+    const stored = await openStoredObject(file)
+    let body: Readable = stored.stream
+    if (file.encrypted) {
+      try {
+        body = await openStoredFileDecryptStream(stored.stream, await resolveFileSecret(file))
+      } catch (error) {
+        stored.stream.destroy()
+        throw error
+      }
+    }
+
+    await logAccessEvent({
+      shareId: share.id,
+      userId: null,
+      fileId: file.id,
+      eventType: inline ? AccessEventType.PREVIEW : AccessEventType.DOWNLOAD,
+      ipAddress: request.headers.get('x-forwarded-for') || undefined,
+      userAgent: request.headers.get('user-agent') || undefined,
+      bytesTransferred: file.size,
+      metadata: { publicLink: true, encrypted: file.encrypted },
+      countAccess: false
+    })
+
+    const fileName = encodeURIComponent(file.originalName || file.name)
+    return new NextResponse(Readable.toWeb(body) as unknown as ReadableStream<Uint8Array>, {
+      headers: {
+        'Content-Type': file.type || 'application/octet-stream',
+        'Content-Length': file.size.toString(),
+        'Content-Disposition': `${inline ? 'inline' : 'attachment'}; filename*=UTF-8''${fileName}`,
+        'X-Content-Type-Options': 'nosniff',
+        'Cache-Control': 'private, no-store'
+      }
+    })
+  } catch (error) {
+    const { error: appError, response } = await handleApiError(error, 'Public link download')
+    return NextResponse.json(response, { status: appError.statusCode })
+  }
+}
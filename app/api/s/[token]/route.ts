@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server"
+import { logAccessEvent, AccessEventType } from "@/lib/access-tracking"
+import {
+  findPublicShare,
+  getShareUnavailableReason,
+  isShareUnlocked,
+  isInlinePreviewable
+} from "@/lib/share-links"
+import { handleApiError, createNotFoundError } from "@/lib/error-handling"
+
+// GET: landing page details for a public link. File details stay hidden until a password is unlocked.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params
+    const share = await findPublicShare(token)
+    if (!share) {
+      throw createNotFoundError('Share link')
+    }
+
+    const unavailableReason = getShareUnavailableReason(share)
+    if (unavailableReason) {
+      return NextResponse.json({ error: unavailableReason, available: false }, { status: 410 })
+    }
+
+    const requiresPassword = !!share.password
+    const unlocked = isShareUnlocked(share, request)
+
+    await logAccessEvent({
+      shareId: share.id,
+      userId: null,
+      fileId: share.fileId,
+      eventType: AccessEventType.SHARE_ACCESS,
+      ipAddress: request.headers.get('x-forwarded-for') || undefined,
+      userAgent: request.headers.get('user-agent') || undefined,
+      metadata: { publicLink: true, unlocked },
+      countAccess: false
+    })
+
+    const permissions: string[] = JSON.parse(share.permissions || '[]')
+
+    return NextResponse.json({
+      available: true,
+      requiresPassword,
+      unlocked,
+      sharedBy: share.creator?.name || null,
+      expiresAt: share.expiresAt,
+      remainingAccesses: share.maxAccessCount ? share.maxAccessCount - share.accessCount : null,
+      allowDownload: permissions.includes('DOWNLOAD'),
+      file: unlocked
+        ? {
+            name: share.file.originalName || share.file.name,
+            size: share.file.size,
+            type: share.file.type,
+            previewable: isInlinePreviewable(share.file.type)
+          }
+        : null
+    })
+  } catch (error) {
+    const { error: appError, response } = await handleApiError(error, 'Get public link')
+    return NextResponse.json(response, { status: appError.statusCode })
+  }
+}
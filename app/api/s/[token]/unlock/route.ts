@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server"
+import { logAccessEvent, AccessEventType, AccessResult } from "@/lib/access-tracking"
+import {
+  findPublicShare,
+  getShareUnavailableReason,
+  getShareUnlockCookieName,
+  issueShareUnlockToken,
+  attemptSharePassword,
+  SHARE_UNLOCK_TTL_SECONDS
+} from "@/lib/share-links"
+import {
+  handleApiError,
+  createAuthorizationError,
+  createNotFoundError,
+  createValidationError
+} from "@/lib/error-handling"
+
+// POST: exchange a share password for a short-lived unlock cookie. Body: { password }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params
+    const share = await findPublicShare(token)
+    if (!share) {
+      throw createNotFoundError('Share link')
+    }
+
+    const unavailableReason = getShareUnavailableReason(share)
+    if (unavailableReason) {
+      return NextResponse.json({ error: unavailableReason, available: false }, { status: 410 })
+    }
+
+    if (!share.password) {
+      return NextResponse.json({ success: true })
+    }
+
+    const ipAddress = request.headers.get('x-forwarded-for') || undefined
+
+    let body
+    try {
+      body = await request.json()
+    } catch {
+      throw createValidationError("Request body must be valid JSON")
+    }
+
+    if (typeof body.password !== 'string' || !body.password) {
+      throw createValidationError("Password is required")
+    }
+
+    if (!(await attemptSharePassword(share, body.password))) {
+      await logAccessEvent({
+        shareId: share.id,
+        userId: null,
+        fileId: share.fileId,
+        eventType: AccessEventType.ACCESS_DENIED,
+        result: AccessResult.FAILURE,
+        ipAddress,
+        userAgent: request.headers.get('user-agent') || undefined,
+        errorMessage: 'Incorrect share password',
+        metadata: { publicLink: true },
+        countAccess: false
+      })
+      throw createAuthorizationError('Incorrect password')
+    }
+
+    const response = NextResponse.json({ success: true })
+    response.cookies.set(getShareUnlockCookieName(share.id), issueShareUnlockToken(share.id, share.password), {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      path: `/api/s/${token}`,
+      maxAge: SHARE_UNLOCK_TTL_SECONDS
+    })
+    return response
+  } catch (error) {
+    const { error: appError, response } = await handleApiError(error, 'Unlock public link')
+    return NextResponse.json(response, { status: appError.statusCode })
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { getAuthOptions } from "@/lib/auth"
+import { searchFiles, SearchScope } from "@/lib/search"
+import { handleApiError, createAuthenticationError, createValidationError } from "@/lib/error-handling"
+
+const SEARCH_SCOPES: SearchScope[] = ['all', 'owned', 'received']
+
+// GET: full-text search over names, tags and file contents.
+// ?q= the search text, ?scope=all|owned|received, ?page= and ?limit= for paging.
+export async function GET(request: NextRequest) {
+  try {
+    const authOptions = await getAuthOptions()
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      throw createAuthenticationError()
+    }
+
+    const { searchParams } = new URL(request.url)
+    const query = (searchParams.get('q') || '').trim()
+    if (!query) {
+      throw createValidationError('Search query is required')
+    }
+
+    const scope = (searchParams.get('scope') || 'all') as SearchScope
+    if (!SEARCH_SCOPES.includes(scope)) {
+      throw createValidationError("Scope must be 'all', 'owned' or 'received'")
+    }
+
+    const page = Math.max(parseInt(searchParams.get('page') || '1') || 1, 1)
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20') || 20, 1), 100)
+    const offset = (page - 1) * limit
+
+    const { results, total } = await searchFiles(
+      { id: session.user.id, email: session.user.email },
+      query,
+      { scope, limit, offset }
+    )
+
+    return NextResponse.json({
+      results,
+      total,
+      page,
+      limit,
+      hasMore: offset + results.length < total
+    })
+  } catch (error) {
+    const { error: appError, response } = await handleApiError(error, 'Search files')
+    return NextResponse.json(response, { status: appError.statusCode })
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { getAuthOptions } from "@/lib/auth"
+import { createSocketToken, SOCKET_TOKEN_MAX_AGE } from "@/lib/socket-auth"
+import { handleApiError, createAuthenticationError } from "@/lib/error-handling"
+
+// GET: a short-lived token for the Socket.IO handshake, for socket servers the session cookie
+// does not reach. Fetched again before every connection attempt.
+export async function GET() {
+  try {
+    const authOptions = await getAuthOptions()
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id || !session.user.email) {
+      throw createAuthenticationError()
+    }
+
+    const token = await createSocketToken({ id: session.user.id, email: session.user.email, role: session.user.role })
+    return NextResponse.json({ token, expiresIn: SOCKET_TOKEN_MAX_AGE }, {
+      headers: { 'Cache-Control': 'no-store' }
+    })
+  } catch (error) {
+    const { error: appError, response } = await handleApiError(error, 'Socket token')
+    return NextResponse.json(response, { status: appError.statusCode })
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { getAuthOptions } from "@/lib/auth"
+import { suggestTags } from "@/lib/file-tags"
+import { handleApiError, createAuthenticationError } from "@/lib/error-handling"
+
+// GET: tag autocomplete; ?q= is the prefix typed so far, ?limit= caps the suggestions
+export async function GET(request: NextRequest) {
+  try {
+    const authOptions = await getAuthOptions()
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      throw createAuthenticationError()
+    }
+
+    const { searchParams } = new URL(request.url)
+    const limit = parseInt(searchParams.get('limit') || '10')
+    const tags = await suggestTags(session.user.id, searchParams.get('q') || '', isNaN(limit) ? 10 : limit)
+
+    return NextResponse.json({ tags })
+  } catch (error) {
+    const { error: appError, response } = await handleApiError(error, 'Suggest tags')
+    return NextResponse.json(response, { status: appError.statusCode })
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { getAuthOptions } from "@/lib/auth"
+import { getPrismaClient } from "@/lib/prisma"
+import { recordFileAccess } from "@/lib/permissions"
+import { isShareUnlocked } from "@/lib/share-links"
+import { logAuditEvent, AuditAction, AuditSeverity } from "@/lib/audit"
+import { planTransferArchive } from "@/lib/transfers"
+import { createZipStream } from "@/lib/zip"
+import { handleApiError, createAuthenticationError, createAuthorizationError } from "@/lib/error-handling"
+import { Readable } from 'stream'
+
+// GET: every file of the transfer the user may download, as one streamed ZIP. Files the server
+// cannot decrypt are left out and listed in the archive's manifest.json.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authOptions = await getAuthOptions()
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      throw createAuthenticationError()
+    }
+
+    const { id } = await params
+    const archive = await planTransferArchive(session.user.id, session.user.email, id, (share) => isShareUnlocked(share, request))
+    if (archive.files.length === 0) {
+      throw createAuthorizationError('None of the files in this transfer can be downloaded as an archive')
+    }
+
+    const prisma = await getPrismaClient()
+    const fileIds = archive.files.map(file => file.id)
+    for (const fileId of fileIds) {
+      await recordFileAccess(session.user.id, fileId, 'download')
+    }
+    await prisma.fileShare.updateMany({
+      where: { transferId: id, userId: session.user.id, fileId: { in: fileIds } },
+      data: { downloadCount: { increment: 1 }, lastAccessedAt: new Date() }
+    })
+
+    await logAuditEvent({
+      userId: session.user.id,
+      action: AuditAction.FILE_DOWNLOAD,
+      resource: 'transfer',
+      resourceId: id,
+      details: {
+        action: 'download_transfer',
+        fileIds,
+        totalSize: archive.files.reduce((sum, file) => sum + file.size, 0),
+        skipped: archive.skipped
+      },
+      ipAddress: request.headers.get('x-forwarded-for') || undefined,
+      userAgent: request.headers.get('user-agent') || undefined,
+      severity: AuditSeverity.LOW
+    })
+
+    const zip = createZipStream(archive.entries)
+    const fileName = `${archive.title.replace(/[\\/:*?"<>|]+/g, '_')}.zip`
+    return new NextResponse(Readable.toWeb(zip) as unknown as ReadableStream<Uint8Array>, {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+        'Cache-Control': 'no-cache',
+        'X-Content-Type-Options': 'nosniff'
+      }
+    })
+  } catch (error) {
+    const { error: appError, response } = await handleApiError(error, 'Download transfer')
+    return NextResponse.json(response, { status: appError.statusCode })
+  }
+}
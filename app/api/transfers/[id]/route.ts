@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { getAuthOptions } from "@/lib/auth"
+import { logAuditEvent, AuditAction, AuditSeverity } from "@/lib/audit"
+import { getTransfer, revokeTransfer } from "@/lib/transfers"
+import { handleApiError, createAuthenticationError } from "@/lib/error-handling"
+
+async function requireSession() {
+  const authOptions = await getAuthOptions()
+  const session = await getServerSession(authOptions)
+  if (!session?.user?.id) {
+    throw createAuthenticationError()
+  }
+  return session
+}
+
+// GET: a transfer's message and files, for its sender or one of its recipients
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await requireSession()
+    const { id } = await params
+    const transfer = await getTransfer(session.user.id, session.user.email, id)
+    return NextResponse.json(transfer)
+  } catch (error) {
+    const { error: appError, response } = await handleApiError(error, 'Get transfer')
+    return NextResponse.json(response, { status: appError.statusCode })
+  }
+}
+
+// DELETE: revoke a transfer and all the shares it created
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await requireSession()
+    const { id } = await params
+    const { revokedShares } = await revokeTransfer(session.user.id, id)
+
+    await logAuditEvent({
+      userId: session.user.id,
+      action: AuditAction.SHARE_REVOKE,
+      resource: 'transfer',
+      resourceId: id,
+      details: { action: 'revoke_transfer', revokedShares },
+      ipAddress: request.headers.get('x-forwarded-for') || undefined,
+      userAgent: request.headers.get('user-agent') || undefined,
+      severity: AuditSeverity.MEDIUM
+    })
+
+    return NextResponse.json({ success: true, revokedShares })
+  } catch (error) {
+    const { error: appError, response } = await handleApiError(error, 'Revoke transfer')
+    return NextResponse.json(response, { status: appError.statusCode })
+  }
+}
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { getAuthOptions } from "@/lib/auth"
+import { logAuditEvent, AuditAction, AuditSeverity } from "@/lib/audit"
+import { sendBulkShareNotification } from "@/lib/email"
+import { emitToUser } from "@/lib/socket"
+import { createTransfer, listSentTransfers, parseTransferInput } from "@/lib/transfers"
+import { handleApiError, createAuthenticationError, createValidationError } from "@/lib/error-handling"
+
+async function requireSession() {
+  const authOptions = await getAuthOptions()
+  const session = await getServerSession(authOptions)
+  if (!session?.user?.id) {
+    throw createAuthenticationError()
+  }
+  return session
+}
+
+// GET: the transfers the user has sent, newest first
+export async function GET() {
+  try {
+    const session = await requireSession()
+    const transfers = await listSentTransfers(session.user.id)
+    return NextResponse.json({ transfers })
+  } catch (error) {
+    const { error: appError, response } = await handleApiError(error, 'List transfers')
+    return NextResponse.json(response, { status: appError.statusCode })
+  }
+}
+
+// POST: send files as one transfer; each recipient gets one notification for the whole bundle.
+// Body: { title, message?, fileIds, recipients, permissions?, expiresAt?, wrappedKeys? }
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requireSession()
+
+    let body
+    try {
+      body = await request.json()
+    } catch {
+      throw createValidationError("Request body must be valid JSON")
+    }
+
+    const input = parseTransferInput(body)
+    const { transfer, files, recipients, unknownRecipients } = await createTransfer(session.user.id, input)
+
+    const appUrl = process.env.APP_URL || new URL(request.url).origin
+    const viewUrl = `${appUrl}/receive?transfer=${transfer.id}`
+    for (const recipient of recipients) {
+      emitToUser(recipient.id, 'transfer-received', {
+        transferId: transfer.id,
+        title: transfer.title,
+        senderEmail: session.user.email,
+        senderName: session.user.name,
+        totalFiles: files.length,
+        sentAt: transfer.createdAt.toISOString()
+      })
+
+      // The email is best effort; the transfer stands without it
+      await sendBulkShareNotification({
+        recipientEmail: recipient.email,
+        recipientName: recipient.name || undefined,
+        senderEmail: session.user.email || '',
+        senderName: session.user.name || undefined,
+        files: files.map(file => ({
+          name: file.name,
+          size: file.size,
+          type: file.type,
+          permissions: input.permissions,
+          expiresAt: input.expiresAt || undefined,
+          downloadUrl: viewUrl,
+          shareId: transfer.id
+        })),
+        totalFiles: files.length,
+        title: transfer.title,
+        message: transfer.message || undefined,
+        viewUrl
+      })
+    }
+
+    await logAuditEvent({
+      userId: session.user.id,
+      action: AuditAction.FILE_SHARE,
+      resource: 'transfer',
+      resourceId: transfer.id,
+      details: {
+        action: 'create_transfer',
+        title: transfer.title,
+        fileCount: files.length,
+        recipients: recipients.map(recipient => recipient.email),
+        unknownRecipients,
+        permissions: input.permissions,
+        expiresAt: input.expiresAt
+      },
+      ipAddress: request.headers.get('x-forwarded-for') || undefined,
+      userAgent: request.headers.get('user-agent') || undefined,
+      severity: AuditSeverity.MEDIUM
+    })
+
+    return NextResponse.json({
+      id: transfer.id,
+      title: transfer.title,
+      url: viewUrl,
+      files,
+      recipients: recipients.map(recipient => recipient.email),
+      unknownRecipients
+    }, { status: 201 })
+  } catch (error) {
+    const { error: appError, response } = await handleApiError(error, 'Create transfer')
+    return NextResponse.json(response, { status: appError.statusCode })
+  }
+}
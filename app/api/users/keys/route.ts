@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { getAuthOptions } from '@/lib/auth'
+import { getPrismaClient } from '@/lib/prisma'
+import { logAuditEvent, AuditAction, AuditSeverity } from '@/lib/audit'
+import { validateUserPublicKey, validateSealedPrivateKey } from '@/lib/key-management'
+import {
+  handleApiError,
+  createAuthenticationError,
+  createConflictError,
+  createValidationError
+} from '@/lib/error-handling'
+
+const MAX_LOOKUP_EMAILS = 50
+
+// GET: the caller's own keypair, or public keys of recipients with ?emails=a@x.com,b@y.com
+export async function GET(request: NextRequest) {
+  try {
+    const authOptions = await getAuthOptions()
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      throw createAuthenticationError()
+    }
+
+    const prisma = await getPrismaClient()
+    const { searchParams } = new URL(request.url)
+    const emailsParam = searchParams.get('emails')
+
+    if (emailsParam) {
+      const emails = Array.from(new Set(
+        emailsParam.split(',').map(email => email.trim().toLowerCase()).filter(Boolean)
+      ))
+      if (emails.length > MAX_LOOKUP_EMAILS) {
+        throw createValidationError(`At most ${MAX_LOOKUP_EMAILS} emails can be looked up at once`)
+      }
+
+      const users = await prisma.user.findMany({
+        where: { email: { in: emails } },
+        select: { email: true, publicKey: true }
+      })
+      const keysByEmail = new Map(users.map((user: { email: string; publicKey: string | null }) => [user.email, user.publicKey]))
+
+      return NextResponse.json({
+        keys: emails.map(email => ({
+          email,
+          registered: keysByEmail.has(email),
+          publicKey: keysByEmail.get(email) || null
+        }))
+      })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { publicKey: true, encryptedPrivateKey: true, keyPairCreatedAt: true }
+    })
+
+    return NextResponse.json({
+      hasKeyPair: !!user?.publicKey,
+      publicKey: user?.publicKey || null,
+      encryptedPrivateKey: user?.encryptedPrivateKey || null,
+      keyPairCreatedAt: user?.keyPairCreatedAt || null
+    })
+  } catch (error) {
+    const { error: appError, response } = await handleApiError(error, 'Get encryption keys')
+    return NextResponse.json(response, { status: appError.statusCode })
+  }
+}
+
+// PUT: store a keypair generated in the browser. Replacing an existing keypair makes files
+// already shared with the old key unreadable, so it must be requested explicitly.
+export async function PUT(request: NextRequest) {
+  try {
+    const authOptions = await getAuthOptions()
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      throw createAuthenticationError()
+    }
+
+    let body
+    try {
+      body = await request.json()
+    } catch {
+      throw createValidationError('Request body must be valid JSON')
+    }
+
+    const publicKey = validateUserPublicKey(body.publicKey)
+    const encryptedPrivateKey = validateSealedPrivateKey(body.encryptedPrivateKey)
+
+    const prisma = await getPrismaClient()
+    const existing = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { publicKey: true }
+    })
+
+    if (existing?.publicKey && existing.publicKey !== publicKey && body.replace !== true) {
+      throw createConflictError('A keypair already exists. Files shared with the old key will no longer be readable if it is replaced.')
+    }
+
+    const user = await prisma.user.update({
+      where: { id: session.user.id },
+      data: { publicKey, encryptedPrivateKey, keyPairCreatedAt: new Date() },
+      select: { publicKey: true, keyPairCreatedAt: true }
+    })
+
+    await logAuditEvent({
+      userId: session.user.id,
+      action: AuditAction.SETTINGS_CHANGE,
+      resource: 'encryption_keys',
+      resourceId: session.user.id,
+      details: { action: existing?.publicKey ? 'replace_keypair' : 'create_keypair' },
+      ipAddress: request.headers.get('x-forwarded-for') || undefined,
+      userAgent: request.headers.get('user-agent') || undefined,
+      severity: existing?.publicKey ? AuditSeverity.HIGH : AuditSeverity.MEDIUM
+    })
+
+    return NextResponse.json({ success: true, hasKeyPair: true, ...user })
+  } catch (error) {
+    const { error: appError, response } = await handleApiError(error, 'Save encryption keys')
+    return NextResponse.json(response, { status: appError.statusCode })
+  }
+}
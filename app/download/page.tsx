@@ -28,7 +28,8 @@ interface DownloadableFile {
   viewCount: number
   downloadCount: number
   maxAccessCount?: number
-  password?: string
+  passwordProtected?: boolean
+  unlocked?: boolean
   revoked: boolean
   deliveryStatus?: {
     status: string
@@ -262,14 +263,23 @@ function DownloadContent() {
         return
       }
 
-      // Check if password is required
-      let password = ''
-      if (file.password) {
-        password = prompt('Enter password to download this file:') || ''
+      // Password-protected shares are unlocked first; the server sets a short-lived unlock cookie
+      if (file.passwordProtected && !file.unlocked) {
+        const password = prompt('Enter password to download this file:') || ''
         if (!password) {
           setDownloading(null)
           return
         }
+
+        const unlockResponse = await fetch(`/api/files/share/${file.id}/unlock`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ password })
+        })
+        if (!unlockResponse.ok) {
+          const errorData = await unlockResponse.json().catch(() => ({ error: 'Unknown error' }))
+          throw new Error(errorData.error || 'Incorrect password')
+        }
       }
 
       // Check if decryption key is required for encrypted files
@@ -286,10 +296,6 @@ function DownloadContent() {
       let downloadUrl = `/api/files/download/${file.fileId}`
       const params = new URLSearchParams()
 
-      if (password) {
-        params.append('password', password)
-      }
-
       if (decryptionKey) {
         params.append('key', decryptionKey)
       }
@@ -541,7 +547,7 @@ function DownloadContent() {
                               🔒 Encrypted
                             </span>
                           )}
-                          {file.password && (
+                          {file.passwordProtected && (
                             <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200">
                               🔑 Password
                             </span>
@@ -4,6 +4,7 @@ import { useState, useEffect, useCallback, useMemo } from "react"
 import Image from "next/image"
 import { useSession } from "next-auth/react"
 import { usePresence } from "@/lib/presence-context"
+import type { FileQuarantinedEvent, FileRequestUploadEvent } from "@/lib/socket-events"
 import { useDownloadManager } from "@/components/DownloadManager"
 import DownloadQueue from "@/components/DownloadQueue"
 import { ToastProvider, useToast } from "@/components/Toast"
@@ -24,6 +25,8 @@ interface ManagedFile {
   fileType: string
   createdAt: string
   updatedAt: string
+  thumbnailStatus?: 'PENDING' | 'READY' | 'SKIPPED' | 'FAILED'
+  scanStatus?: 'PENDING' | 'CLEAN' | 'UNSCANNABLE' | 'INFECTED' | 'ERROR'
   shares?: {
     id: string
     sharedWithEmail: string
@@ -39,6 +42,25 @@ interface ManagedFile {
   viewCount: number
   shareCount: number
   lastAccessed?: string
+  tags?: FileTag[]
+}
+
+interface SearchHit {
+  fileId: string
+  name: string
+  type: string
+  size: number
+  createdAt: string
+  folderId: string | null
+  highlights: {
+    name: string
+    content: string | null
+  }
+}
+
+interface FileTag {
+  tag: string
+  source: 'AUTO' | 'USER'
 }
 
 interface FileStats {
@@ -51,12 +73,30 @@ interface FileStats {
   storageLimit: number
 }
 
-interface SocketFileUpdateData {
-  userId: string
-  fileName?: string
-  fileSize?: number
-  senderName?: string
-  senderEmail?: string
+interface ManagedFolder {
+  id: string
+  name: string
+  parentId: string | null
+  _count?: {
+    files: number
+    children: number
+    shares: number
+  }
+}
+
+interface FolderOption {
+  id: string
+  path: string
+}
+
+interface TrashedFile {
+  id: string
+  name: string
+  originalName: string | null
+  size: number
+  type: string
+  deletedAt: string
+  purgeAt: string
 }
 
 function FileManagerContent() {
@@ -79,12 +119,30 @@ function FileManagerContent() {
   const [filterType, setFilterType] = useState<string>("all")
   const [sortBy, setSortBy] = useState<"date" | "name" | "size">("date")
   const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc")
+  const [tagInput, setTagInput] = useState("")
+  const [tagFilter, setTagFilter] = useState("")
+  const [tagSuggestions, setTagSuggestions] = useState<string[]>([])
+  const [searchResults, setSearchResults] = useState<SearchHit[] | null>(null)
+  const [searchTotal, setSearchTotal] = useState(0)
+  const [searching, setSearching] = useState(false)
 
   // UI states
   const [actionLoading, setActionLoading] = useState<string | null>(null)
   const [previewFile, setPreviewFile] = useState<ManagedFile | null>(null)
   const [showPreview, setShowPreview] = useState(false)
 
+  // Folders
+  const [currentFolderId, setCurrentFolderId] = useState<string | null>(null)
+  const [folders, setFolders] = useState<ManagedFolder[]>([])
+  const [breadcrumbs, setBreadcrumbs] = useState<ManagedFolder[]>([])
+  const [folderOptions, setFolderOptions] = useState<FolderOption[]>([])
+  const [destinationFolder, setDestinationFolder] = useState<string>("")
+
+  // Trash
+  const [showTrash, setShowTrash] = useState(false)
+  const [trashFiles, setTrashFiles] = useState<TrashedFile[]>([])
+  const [retentionDays, setRetentionDays] = useState<number | null>(null)
+
   // Pagination
   const [currentPage, setCurrentPage] = useState(1)
   const [filesPerPage] = useState(50)
@@ -95,7 +153,11 @@ function FileManagerContent() {
     if (!session) return
 
     try {
-      const response = await fetch(`/api/files?page=${page}&limit=${filesPerPage}&includeShares=true&includeStats=true`)
+      // A tag filter searches every folder
+      const scope = tagFilter
+        ? `&tags=${encodeURIComponent(tagFilter)}`
+        : `&folderId=${currentFolderId || 'root'}`
+      const response = await fetch(`/api/files?page=${page}&limit=${filesPerPage}&includeShares=true&includeStats=true${scope}`)
 
       if (!response.ok) {
         throw new Error('Failed to fetch files')
@@ -127,37 +189,140 @@ function FileManagerContent() {
     } finally {
       setLoading(false)
     }
-  }, [session, filesPerPage, addToast])
+  }, [session, filesPerPage, currentFolderId, tagFilter, addToast])
+
+  // Fetch the current folder's subfolders and path
+  const fetchFolders = useCallback(async () => {
+    if (!session) return
+
+    try {
+      const response = await fetch(`/api/folders?parentId=${currentFolderId || 'root'}`)
+      if (!response.ok) {
+        throw new Error('Failed to fetch folders')
+      }
+      const data = await response.json()
+      setFolders(data.folders || [])
+      setBreadcrumbs(data.breadcrumbs || [])
+    } catch (err) {
+      console.error('Error fetching folders:', err)
+      setFolders([])
+    }
+  }, [session, currentFolderId])
+
+  // Every folder with its path, for move and copy destinations
+  const fetchFolderOptions = useCallback(async () => {
+    if (!session) return
+
+    try {
+      const response = await fetch('/api/folders?all=true')
+      if (response.ok) {
+        const data = await response.json()
+        setFolderOptions(data.folders || [])
+      }
+    } catch (err) {
+      console.error('Error fetching folder list:', err)
+    }
+  }, [session])
 
   useEffect(() => {
     fetchFiles()
   }, [fetchFiles])
 
+  useEffect(() => {
+    fetchFolders()
+  }, [fetchFolders])
+
+  useEffect(() => {
+    fetchFolderOptions()
+  }, [fetchFolderOptions])
+
+  const openFolder = (folderId: string | null) => {
+    setSelectedFiles(new Set())
+    setTagInput("")
+    setTagFilter("")
+    setCurrentFolderId(folderId)
+  }
+
+  // Tag autocomplete
+  useEffect(() => {
+    if (!session) return
+
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/tags?q=${encodeURIComponent(tagInput.trim())}`)
+        if (response.ok) {
+          const data = await response.json()
+          setTagSuggestions((data.tags || []).map((suggestion: { tag: string }) => suggestion.tag))
+        }
+      } catch (err) {
+        console.error('Error fetching tag suggestions:', err)
+      }
+    }, 250)
+    return () => clearTimeout(timeout)
+  }, [session, tagInput])
+
+  // Full-text search over names, tags and contents of every owned file
+  useEffect(() => {
+    const query = searchQuery.trim()
+    if (!session || query.length < 2) {
+      setSearchResults(null)
+      return
+    }
+
+    const timeout = setTimeout(async () => {
+      try {
+        setSearching(true)
+        const response = await fetch(`/api/search?q=${encodeURIComponent(query)}&scope=owned&limit=50`)
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error || 'Search failed')
+        }
+        setSearchResults(data.results || [])
+        setSearchTotal(data.total || 0)
+      } catch (err) {
+        console.error('Search error:', err)
+        setSearchResults([])
+        setSearchTotal(0)
+      } finally {
+        setSearching(false)
+      }
+    }, 300)
+    return () => clearTimeout(timeout)
+  }, [session, searchQuery])
+
+  const showSearchResultFolder = (result: SearchHit) => {
+    setSearchQuery("")
+    openFolder(result.folderId)
+  }
+
+  const applyTagFilter = (tag: string) => {
+    setSelectedFiles(new Set())
+    setTagInput(tag)
+    setTagFilter(tag.trim())
+  }
+
   // Real-time updates
   useEffect(() => {
     if (!socket || !session) return
 
-    const handleFileUpdate = (data: SocketFileUpdateData) => {
-      if (data.userId === session.user.id) {
-        console.log('File update received:', data)
-        fetchFiles()
-        addToast({
-          type: 'info',
-          title: 'Files Updated',
-          message: 'Your file list has been refreshed',
-          duration: 3000
-        })
-      }
+    // Both events reach only the owner's room, so no filtering is needed here
+    const handleFileUpdate = (data: FileRequestUploadEvent | FileQuarantinedEvent) => {
+      console.log('File update received:', data)
+      fetchFiles()
+      addToast({
+        type: 'info',
+        title: 'Files Updated',
+        message: 'Your file list has been refreshed',
+        duration: 3000
+      })
     }
 
-    socket.on('file-updated', handleFileUpdate)
-    socket.on('file-deleted', handleFileUpdate)
-    socket.on('file-shared', handleFileUpdate)
+    socket.on('file-request-upload', handleFileUpdate)
+    socket.on('file-quarantined', handleFileUpdate)
 
     return () => {
-      socket.off('file-updated', handleFileUpdate)
-      socket.off('file-deleted', handleFileUpdate)
-      socket.off('file-shared', handleFileUpdate)
+      socket.off('file-request-upload', handleFileUpdate)
+      socket.off('file-quarantined', handleFileUpdate)
     }
   }, [socket, session, fetchFiles, addToast])
 
@@ -194,16 +359,13 @@ function FileManagerContent() {
   const filteredAndSortedFiles = useMemo(() => {
     return files
       .filter(file => {
-        const matchesSearch = file.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                             file.originalName.toLowerCase().includes(searchQuery.toLowerCase())
-
         const matchesType = filterType === "all" ||
                            (filterType === "encrypted" && file.encrypted) ||
                            (filterType === "documents" && (file.type.includes("document") || file.type.includes("pdf"))) ||
                            (filterType === "images" && file.type.includes("image")) ||
                            (filterType === "videos" && file.type.includes("video"))
 
-        return matchesSearch && matchesType
+        return matchesType
       })
       .sort((a, b) => {
         let comparison = 0
@@ -221,7 +383,7 @@ function FileManagerContent() {
         }
         return sortOrder === "asc" ? comparison : -comparison
       })
-  }, [files, searchQuery, filterType, sortBy, sortOrder])
+  }, [files, filterType, sortBy, sortOrder])
 
   // File actions
   const handleDownload = async (file: ManagedFile) => {
@@ -270,8 +432,46 @@ function FileManagerContent() {
     window.location.href = `/sharing?file=${file.id}`
   }
 
+  const handleCreateLink = async (file: ManagedFile) => {
+    const password = prompt(`Create a public link for "${file.name}".\nOptional password (leave empty for none):`)
+    if (password === null) {
+      return
+    }
+
+    try {
+      setActionLoading(file.id)
+      const response = await fetch(`/api/files/${file.id}/links`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ password: password || undefined })
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create public link')
+      }
+
+      await navigator.clipboard?.writeText(data.url).catch(() => undefined)
+      addToast({
+        type: 'success',
+        title: 'Public Link Created',
+        message: `Link copied to clipboard: ${data.url}`,
+        duration: 6000
+      })
+    } catch (error) {
+      console.error('Create link error:', error)
+      addToast({
+        type: 'error',
+        title: 'Link Failed',
+        message: error instanceof Error ? error.message : 'Failed to create public link',
+        duration: 5000
+      })
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
   const handleDelete = async (file: ManagedFile) => {
-    if (!confirm(`Are you sure you want to delete "${file.name}"? This action cannot be undone.`)) {
+    if (!confirm(`Move "${file.name}" to the trash? You can restore it until it is purged.`)) {
       return
     }
 
@@ -294,8 +494,8 @@ function FileManagerContent() {
 
       addToast({
         type: 'success',
-        title: 'File Deleted',
-        message: `"${file.name}" has been deleted successfully`,
+        title: 'Moved to Trash',
+        message: `"${file.name}" has been moved to the trash`,
         duration: 4000
       })
     } catch (error) {
@@ -311,6 +511,297 @@ function FileManagerContent() {
     }
   }
 
+  const handleEditTags = async (file: ManagedFile) => {
+    const userTags = (file.tags || []).filter(tag => tag.source === 'USER').map(tag => tag.tag)
+    const input = prompt('Tags for this file, separated by commas:', userTags.join(', '))
+    if (input === null) return
+
+    try {
+      const response = await fetch(`/api/files/${file.id}/tags`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tags: input })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update tags')
+      }
+      setFiles(prev => prev.map(f => f.id === file.id ? { ...f, tags: data.tags } : f))
+    } catch (error) {
+      console.error('Update tags error:', error)
+      addToast({
+        type: 'error',
+        title: 'Tags Not Saved',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        duration: 5000
+      })
+    }
+  }
+
+  const renderTags = (file: ManagedFile) => file.tags && file.tags.length > 0 && (
+    <div className="flex flex-wrap gap-1 mt-1">
+      {file.tags.map(({ tag, source }) => (
+        <button
+          key={tag}
+          onClick={() => applyTagFilter(tag)}
+          className={`px-2 py-0.5 rounded-full text-xs ${
+            source === 'USER'
+              ? 'bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200'
+              : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300'
+          }`}
+          title={source === 'USER' ? 'Your tag' : 'Automatic tag'}
+        >
+          #{tag}
+        </button>
+      ))}
+    </div>
+  )
+
+  // Folder actions
+  const refreshFolders = async () => {
+    await Promise.all([fetchFolders(), fetchFolderOptions()])
+  }
+
+  const folderRequest = async (url: string, init: RequestInit, failure: string) => {
+    const response = await fetch(url, {
+      ...init,
+      headers: { 'Content-Type': 'application/json' }
+    })
+    const data = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(data.error || failure)
+    }
+    return data
+  }
+
+  const reportFolderError = (title: string, error: unknown) => {
+    console.error(`${title}:`, error)
+    addToast({
+      type: 'error',
+      title,
+      message: error instanceof Error ? error.message : 'Unknown error',
+      duration: 5000
+    })
+  }
+
+  const handleCreateFolder = async () => {
+    const name = prompt('New folder name:')
+    if (!name) return
+
+    try {
+      await folderRequest('/api/folders', {
+        method: 'POST',
+        body: JSON.stringify({ name, parentId: currentFolderId })
+      }, 'Failed to create folder')
+      await refreshFolders()
+    } catch (error) {
+      reportFolderError('Create Folder Failed', error)
+    }
+  }
+
+  const handleRenameFolder = async (folder: ManagedFolder) => {
+    const name = prompt('Rename folder:', folder.name)
+    if (!name || name === folder.name) return
+
+    try {
+      await folderRequest(`/api/folders/${folder.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ name })
+      }, 'Failed to rename folder')
+      await refreshFolders()
+    } catch (error) {
+      reportFolderError('Rename Failed', error)
+    }
+  }
+
+  const handleDeleteFolder = async (folder: ManagedFolder) => {
+    if (!confirm(`Delete the folder "${folder.name}"? It must be empty.`)) return
+
+    try {
+      await folderRequest(`/api/folders/${folder.id}`, { method: 'DELETE' }, 'Failed to delete folder')
+      await refreshFolders()
+    } catch (error) {
+      reportFolderError('Delete Folder Failed', error)
+    }
+  }
+
+  const handleShareFolder = async (folder: ManagedFolder) => {
+    const input = prompt(`Share "${folder.name}" and everything in it.\nRecipient emails, separated by commas:`)
+    if (!input) return
+
+    const recipients = input.split(',').map(email => email.trim()).filter(Boolean)
+    const allowDownload = confirm('Allow recipients to download files? Cancel for view only.')
+
+    try {
+      const data = await folderRequest(`/api/folders/${folder.id}/shares`, {
+        method: 'POST',
+        body: JSON.stringify({ recipients, permissions: allowDownload ? ['VIEW', 'DOWNLOAD'] : ['VIEW'] })
+      }, 'Failed to share folder')
+      addToast({
+        type: data.unknownRecipients?.length ? 'warning' : 'success',
+        title: 'Folder Shared',
+        message: data.unknownRecipients?.length
+          ? `Not registered: ${data.unknownRecipients.join(', ')}`
+          : `"${folder.name}" shared with ${data.shares.length} recipient${data.shares.length !== 1 ? 's' : ''}`,
+        duration: 5000
+      })
+      await fetchFolders()
+    } catch (error) {
+      reportFolderError('Share Folder Failed', error)
+    }
+  }
+
+  // File request: an upload-only link that drops files from people without an account into this folder
+  const handleRequestFiles = async () => {
+    const title = prompt(`Request files into "${breadcrumbs[breadcrumbs.length - 1]?.name || 'All Files'}".\nWhat are you asking for?`)
+    if (!title) return
+    const password = prompt('Optional password for the upload page (leave empty for none):')
+    if (password === null) return
+
+    try {
+      const data = await folderRequest('/api/files/requests', {
+        method: 'POST',
+        body: JSON.stringify({ title, folderId: currentFolderId, password: password || undefined })
+      }, 'Failed to create file request')
+      await navigator.clipboard?.writeText(data.url).catch(() => undefined)
+      addToast({
+        type: 'success',
+        title: 'File Request Created',
+        message: `Upload link copied to clipboard: ${data.url}`,
+        duration: 6000
+      })
+    } catch (error) {
+      reportFolderError('File Request Failed', error)
+    }
+  }
+
+  // ZIP export: a form post lets the browser save the archive as it streams in
+  const handleDownloadZip = () => {
+    const selected = files.filter(file => selectedFiles.has(file.id))
+    let key = ''
+    if (selected.some(file => file.encrypted)) {
+      const entered = prompt('Decryption key for passphrase-protected files (leave empty to leave them out):')
+      if (entered === null) return
+      key = entered
+    }
+
+    const form = document.createElement('form')
+    form.method = 'POST'
+    form.action = '/api/files/download/zip'
+    form.style.display = 'none'
+    const fields: [string, string][] = selected.map(file => ['fileIds', file.id])
+    if (key) fields.push(['key', key])
+    for (const [name, value] of fields) {
+      const input = document.createElement('input')
+      input.type = 'hidden'
+      input.name = name
+      input.value = value
+      form.appendChild(input)
+    }
+    document.body.appendChild(form)
+    form.submit()
+    document.body.removeChild(form)
+  }
+
+  // Transfer: the selected files go to the recipients as one bundle, with one email each
+  const handleSendTransfer = async () => {
+    const recipients = prompt(`Send ${selectedFiles.size} file${selectedFiles.size !== 1 ? 's' : ''} to (comma-separated emails):`)
+    if (!recipients) return
+    const title = prompt('Title of the transfer:')
+    if (!title) return
+    const message = prompt('Message for the recipients (optional):')
+    if (message === null) return
+
+    try {
+      setActionLoading('bulk-transfer')
+      const data = await folderRequest('/api/transfers', {
+        method: 'POST',
+        body: JSON.stringify({
+          title,
+          message: message || undefined,
+          fileIds: Array.from(selectedFiles),
+          recipients: recipients.split(',').map(email => email.trim()).filter(Boolean)
+        })
+      }, 'Failed to send transfer')
+      addToast({
+        type: 'success',
+        title: 'Transfer Sent',
+        message: `"${data.title}" sent to ${data.recipients.join(', ')}` +
+          (data.unknownRecipients.length > 0 ? ` (no account: ${data.unknownRecipients.join(', ')})` : ''),
+        duration: 6000
+      })
+      setSelectedFiles(new Set())
+    } catch (error) {
+      reportFolderError('Transfer Failed', error)
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  const handleMoveOrCopySelected = async (operation: 'move' | 'copy') => {
+    if (!destinationFolder) {
+      addToast({ type: 'warning', title: 'Choose a Folder', message: 'Pick a destination folder first', duration: 3000 })
+      return
+    }
+
+    try {
+      setActionLoading(`bulk-${operation}`)
+      const data = await folderRequest(`/api/folders/${operation}`, {
+        method: 'POST',
+        body: JSON.stringify({
+          fileIds: Array.from(selectedFiles),
+          targetFolderId: destinationFolder === 'root' ? null : destinationFolder
+        })
+      }, `Failed to ${operation} files`)
+
+      const count = operation === 'move' ? data.movedFiles : data.copiedFiles
+      addToast({
+        type: 'success',
+        title: operation === 'move' ? 'Files Moved' : 'Files Copied',
+        message: `${count} file${count !== 1 ? 's' : ''} ${operation === 'move' ? 'moved' : 'copied'}`,
+        duration: 3000
+      })
+      setSelectedFiles(new Set())
+      setDestinationFolder("")
+      await Promise.all([fetchFiles(), fetchFolders()])
+    } catch (error) {
+      reportFolderError(operation === 'move' ? 'Move Failed' : 'Copy Failed', error)
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  const handleOrganize = async () => {
+    try {
+      setActionLoading('organize')
+      const suggestion = await folderRequest('/api/folders/organize', { method: 'GET' }, 'Failed to suggest folders')
+      const fileCount = Object.keys(suggestion.fileToFolderMapping || {}).length
+      if (fileCount === 0) {
+        addToast({ type: 'info', title: 'Nothing to Organize', message: 'No folder suggestions for your unfiled files', duration: 4000 })
+        return
+      }
+      if (!confirm(`Move ${fileCount} file${fileCount !== 1 ? 's' : ''} into these folders?\n\n${suggestion.suggestedFolders.join('\n')}`)) {
+        return
+      }
+
+      const result = await folderRequest('/api/folders/organize', {
+        method: 'POST',
+        body: JSON.stringify({ fileToFolderMapping: suggestion.fileToFolderMapping })
+      }, 'Failed to organize files')
+      addToast({
+        type: 'success',
+        title: 'Files Organized',
+        message: `${result.movedFiles} files moved into ${result.folders.length} folders`,
+        duration: 4000
+      })
+      await Promise.all([fetchFiles(), refreshFolders()])
+    } catch (error) {
+      reportFolderError('Organize Failed', error)
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
   // Bulk operations
   const handleSelectFile = (fileId: string) => {
     const newSelected = new Set(selectedFiles)
@@ -331,7 +822,7 @@ function FileManagerContent() {
   }
 
   const handleBulkDelete = async () => {
-    if (!confirm(`Are you sure you want to delete ${selectedFiles.size} files? This action cannot be undone.`)) {
+    if (!confirm(`Move ${selectedFiles.size} files to the trash? You can restore them until they are purged.`)) {
       return
     }
 
@@ -348,8 +839,8 @@ function FileManagerContent() {
 
       addToast({
         type: 'success',
-        title: 'Bulk Delete Completed',
-        message: `${selectedFiles.size} files deleted successfully`,
+        title: 'Moved to Trash',
+        message: `${selectedFiles.size} files moved to the trash`,
         duration: 4000
       })
     } catch (error) {
@@ -365,6 +856,52 @@ function FileManagerContent() {
     }
   }
 
+  const fetchTrash = async () => {
+    try {
+      const data = await folderRequest('/api/files/trash', { method: 'GET' }, 'Failed to load the trash')
+      setTrashFiles(data.files || [])
+      setRetentionDays(data.retentionDays ?? null)
+    } catch (error) {
+      reportFolderError('Trash Unavailable', error)
+    }
+  }
+
+  const toggleTrash = async () => {
+    setSelectedFiles(new Set())
+    if (showTrash) {
+      setShowTrash(false)
+      return
+    }
+    setShowTrash(true)
+    await fetchTrash()
+  }
+
+  const handleTrashAction = async (action: 'restore' | 'purge' | 'empty', file?: TrashedFile) => {
+    if (action === 'purge' && !confirm(`Permanently delete "${file?.name}"? This action cannot be undone.`)) return
+    if (action === 'empty' && !confirm(`Permanently delete all ${trashFiles.length} files in the trash? This action cannot be undone.`)) return
+
+    try {
+      setActionLoading(`trash-${action}-${file?.id || 'all'}`)
+      const data = await folderRequest('/api/files/trash', {
+        method: 'POST',
+        body: JSON.stringify(file ? { action, fileIds: [file.id] } : { action })
+      }, 'Trash action failed')
+      addToast({
+        type: 'success',
+        title: action === 'restore' ? 'File Restored' : 'Deleted Permanently',
+        message: action === 'restore'
+          ? `"${file?.name}" is back in your files`
+          : `${data.purged.length} file${data.purged.length !== 1 ? 's' : ''} deleted permanently`,
+        duration: 4000
+      })
+      await Promise.all(action === 'restore' ? [fetchTrash(), fetchFiles(), fetchFolders()] : [fetchTrash()])
+    } catch (error) {
+      reportFolderError('Trash Action Failed', error)
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
   if (!session) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -419,6 +956,35 @@ function FileManagerContent() {
               <div className="text-sm text-gray-500">
                 {filteredAndSortedFiles.length} of {files.length} files
               </div>
+              <button
+                onClick={handleCreateFolder}
+                className="bg-blue-500 hover:bg-blue-600 text-white px-3 py-2 rounded-lg transition-colors text-sm"
+              >
+                📁 New Folder
+              </button>
+              <button
+                onClick={handleRequestFiles}
+                className="bg-green-500 hover:bg-green-600 text-white px-3 py-2 rounded-lg transition-colors text-sm"
+                title="Create an upload link for people without an account"
+              >
+                📥 Request Files
+              </button>
+              {!currentFolderId && (
+                <button
+                  onClick={handleOrganize}
+                  disabled={actionLoading === 'organize'}
+                  className="bg-purple-500 hover:bg-purple-600 disabled:bg-purple-400 text-white px-3 py-2 rounded-lg transition-colors text-sm disabled:cursor-not-allowed"
+                  title="Sort unfiled files into suggested folders"
+                >
+                  {actionLoading === 'organize' ? 'Organizing...' : '✨ Organize'}
+                </button>
+              )}
+              <button
+                onClick={toggleTrash}
+                className={`px-3 py-2 rounded-lg transition-colors text-sm ${showTrash ? 'bg-red-500 hover:bg-red-600 text-white' : 'bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600'}`}
+              >
+                {showTrash ? '← Back to Files' : '🗑️ Trash'}
+              </button>
               <button
                 onClick={() => fetchFiles()}
                 disabled={loading}
@@ -483,13 +1049,46 @@ function FileManagerContent() {
               <div className="flex-1 relative">
                 <input
                   type="text"
-                  placeholder="Search files by name..."
+                  placeholder="Search names, tags and contents..."
                   value={searchQuery}
                   onChange={(e) => setSearchQuery(e.target.value)}
                   className="w-full px-4 py-2 pr-10 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700"
                 />
               </div>
 
+              {/* Tag Filter */}
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault()
+                  applyTagFilter(tagInput)
+                }}
+                className="flex gap-2"
+              >
+                <input
+                  type="text"
+                  list="tag-suggestions"
+                  placeholder="Filter by tag..."
+                  value={tagInput}
+                  onChange={(e) => setTagInput(e.target.value)}
+                  className="w-40 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700"
+                />
+                <datalist id="tag-suggestions">
+                  {tagSuggestions.map(tag => (
+                    <option key={tag} value={tag} />
+                  ))}
+                </datalist>
+                {tagFilter && (
+                  <button
+                    type="button"
+                    onClick={() => applyTagFilter("")}
+                    className="px-3 py-2 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200"
+                    title="Clear tag filter"
+                  >
+                    ✕ #{tagFilter}
+                  </button>
+                )}
+              </form>
+
               {/* Quick Filters */}
               <div className="flex gap-2">
                 <select
@@ -561,7 +1160,45 @@ function FileManagerContent() {
                     disabled={actionLoading === "bulk-delete"}
                     className="bg-red-500 hover:bg-red-600 disabled:bg-red-400 text-white px-4 py-2 rounded-lg transition-colors text-sm disabled:cursor-not-allowed"
                   >
-                    {actionLoading === "bulk-delete" ? "Deleting..." : "Delete Selected"}
+                    {actionLoading === "bulk-delete" ? "Deleting..." : "Move to Trash"}
+                  </button>
+                  <select
+                    value={destinationFolder}
+                    onChange={(e) => setDestinationFolder(e.target.value)}
+                    className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm dark:bg-gray-700"
+                  >
+                    <option value="">Destination folder…</option>
+                    <option value="root">All Files (top level)</option>
+                    {folderOptions.map(folder => (
+                      <option key={folder.id} value={folder.id}>{folder.path}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => handleMoveOrCopySelected('move')}
+                    disabled={actionLoading === 'bulk-move'}
+                    className="bg-gray-600 hover:bg-gray-700 disabled:bg-gray-400 text-white px-4 py-2 rounded-lg transition-colors text-sm disabled:cursor-not-allowed"
+                  >
+                    {actionLoading === 'bulk-move' ? 'Moving...' : 'Move'}
+                  </button>
+                  <button
+                    onClick={() => handleMoveOrCopySelected('copy')}
+                    disabled={actionLoading === 'bulk-copy'}
+                    className="bg-gray-600 hover:bg-gray-700 disabled:bg-gray-400 text-white px-4 py-2 rounded-lg transition-colors text-sm disabled:cursor-not-allowed"
+                  >
+                    {actionLoading === 'bulk-copy' ? 'Copying...' : 'Copy'}
+                  </button>
+                  <button
+                    onClick={handleDownloadZip}
+                    className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg transition-colors text-sm"
+                  >
+                    ⬇️ Download ZIP
+                  </button>
+                  <button
+                    onClick={handleSendTransfer}
+                    disabled={actionLoading === 'bulk-transfer'}
+                    className="bg-blue-500 hover:bg-blue-600 disabled:bg-blue-400 text-white px-4 py-2 rounded-lg transition-colors text-sm disabled:cursor-not-allowed"
+                  >
+                    {actionLoading === 'bulk-transfer' ? 'Sending...' : '📦 Send as Transfer'}
                   </button>
                   <a
                     href={`/sharing?files=${Array.from(selectedFiles).join(',')}`}
@@ -574,14 +1211,173 @@ function FileManagerContent() {
             </div>
           )}
 
+          {/* Search Results */}
+          {searchResults !== null && (
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 mb-6">
+              <h2 className="text-lg font-semibold mb-4">
+                {searching ? 'Searching...' : `${searchTotal} result${searchTotal !== 1 ? 's' : ''} for "${searchQuery.trim()}"`}
+              </h2>
+              {searchResults.length === 0 && !searching ? (
+                <p className="text-gray-600 dark:text-gray-400">No files match. Try fewer or different words.</p>
+              ) : (
+                <div className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {searchResults.map(result => (
+                    <div key={result.fileId} className="py-3 flex items-start justify-between gap-4">
+                      <div className="flex items-start gap-3 min-w-0">
+                        <div className="text-2xl">{getFileIcon(result.type)}</div>
+                        <div className="min-w-0">
+                          {/* Highlights arrive HTML-escaped with matches wrapped in <mark> */}
+                          <h3 className="font-semibold truncate" dangerouslySetInnerHTML={{ __html: result.highlights.name }} />
+                          {result.highlights.content && (
+                            <p
+                              className="text-sm text-gray-700 dark:text-gray-300 mt-1"
+                              dangerouslySetInnerHTML={{ __html: result.highlights.content }}
+                            />
+                          )}
+                          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                            {formatFileSize(result.size)} • {formatDate(result.createdAt)}
+                          </p>
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => showSearchResultFolder(result)}
+                        className="shrink-0 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                      >
+                        📂 Show in folder
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Trash */}
+          {showTrash && (
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 mb-6">
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-4">
+                <div>
+                  <h2 className="text-lg font-semibold">🗑️ Trash</h2>
+                  {retentionDays !== null && (
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      Files are deleted permanently {retentionDays} day{retentionDays !== 1 ? 's' : ''} after they are moved here.
+                    </p>
+                  )}
+                </div>
+                {trashFiles.length > 0 && (
+                  <button
+                    onClick={() => handleTrashAction('empty')}
+                    disabled={actionLoading === 'trash-empty-all'}
+                    className="bg-red-500 hover:bg-red-600 disabled:bg-red-400 text-white px-4 py-2 rounded-lg transition-colors text-sm disabled:cursor-not-allowed"
+                  >
+                    {actionLoading === 'trash-empty-all' ? 'Emptying...' : 'Empty Trash'}
+                  </button>
+                )}
+              </div>
+              {trashFiles.length === 0 ? (
+                <p className="text-gray-600 dark:text-gray-400">The trash is empty.</p>
+              ) : (
+                <div className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {trashFiles.map(file => (
+                    <div key={file.id} className="py-3 flex items-center justify-between gap-4">
+                      <div className="flex items-center gap-3 min-w-0">
+                        <div className="text-2xl">{getFileIcon(file.type)}</div>
+                        <div className="min-w-0">
+                          <h3 className="font-semibold truncate">{file.originalName || file.name}</h3>
+                          <p className="text-xs text-gray-500 dark:text-gray-400">
+                            {formatFileSize(file.size)} • Deleted {formatDate(file.deletedAt)} • Purged {formatDate(file.purgeAt)}
+                          </p>
+                        </div>
+                      </div>
+                      <div className="flex gap-2 shrink-0">
+                        <button
+                          onClick={() => handleTrashAction('restore', file)}
+                          disabled={actionLoading === `trash-restore-${file.id}`}
+                          className="bg-green-500 hover:bg-green-600 disabled:bg-green-400 text-white px-3 py-1 rounded-lg transition-colors text-sm disabled:cursor-not-allowed"
+                        >
+                          Restore
+                        </button>
+                        <button
+                          onClick={() => handleTrashAction('purge', file)}
+                          disabled={actionLoading === `trash-purge-${file.id}`}
+                          className="bg-red-500 hover:bg-red-600 disabled:bg-red-400 text-white px-3 py-1 rounded-lg transition-colors text-sm disabled:cursor-not-allowed"
+                        >
+                          Delete Forever
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Breadcrumbs */}
+          {!showTrash && <nav className="flex flex-wrap items-center gap-1 text-sm mb-4" aria-label="Folder path">
+            <button
+              onClick={() => openFolder(null)}
+              className={`px-2 py-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 ${currentFolderId ? 'text-blue-600 dark:text-blue-400' : 'font-semibold'}`}
+            >
+              🏠 All Files
+            </button>
+            {breadcrumbs.map((crumb, index) => (
+              <span key={crumb.id} className="flex items-center gap-1">
+                <span className="text-gray-400">/</span>
+                <button
+                  onClick={() => openFolder(crumb.id)}
+                  disabled={index === breadcrumbs.length - 1}
+                  className={`px-2 py-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 ${index === breadcrumbs.length - 1 ? 'font-semibold' : 'text-blue-600 dark:text-blue-400'}`}
+                >
+                  {crumb.name}
+                </button>
+              </span>
+            ))}
+          </nav>}
+
+          {/* Folders */}
+          {folders.length > 0 && !tagFilter && searchResults === null && !showTrash && (
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-6 gap-4 mb-6">
+              {folders.map(folder => (
+                <div
+                  key={folder.id}
+                  className="bg-white dark:bg-gray-800 rounded-xl shadow p-4 hover:shadow-lg transition-shadow"
+                >
+                  <button
+                    onClick={() => openFolder(folder.id)}
+                    className="w-full text-left"
+                    title={`Open ${folder.name}`}
+                  >
+                    <div className="text-3xl mb-2">📁</div>
+                    <h3 className="font-semibold truncate">{folder.name}</h3>
+                    <p className="text-xs text-gray-600 dark:text-gray-400">
+                      {folder._count?.files || 0} files • {folder._count?.children || 0} folders
+                      {folder._count?.shares ? ' • shared' : ''}
+                    </p>
+                  </button>
+                  <div className="flex gap-2 mt-3 text-xs">
+                    <button onClick={() => handleRenameFolder(folder)} className="text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-200">
+                      Rename
+                    </button>
+                    <button onClick={() => handleShareFolder(folder)} className="text-green-600 hover:text-green-800">
+                      Share
+                    </button>
+                    <button onClick={() => handleDeleteFolder(folder)} className="text-red-600 hover:text-red-800">
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* File List */}
-          {filteredAndSortedFiles.length === 0 ? (
+          {searchResults === null && !showTrash && (filteredAndSortedFiles.length === 0 ? (
             <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-12 text-center">
               <div className="text-6xl mb-4">
                 {searchQuery || filterType !== 'all' ? '🔍' : '📁'}
               </div>
               <h2 className="text-2xl font-semibold mb-4">
-                {searchQuery || filterType !== 'all' ? 'No files found' : 'No files uploaded yet'}
+                {searchQuery || filterType !== 'all' || tagFilter ? 'No files found' : currentFolderId ? 'This folder has no files' : 'No files uploaded yet'}
               </h2>
               <p className="text-gray-600 dark:text-gray-400 mb-6">
                 {searchQuery || filterType !== 'all'
@@ -645,9 +1441,9 @@ function FileManagerContent() {
                     >
                       {/* File Preview */}
                       <div className="aspect-video bg-gray-100 dark:bg-gray-700 flex items-center justify-center relative">
-                        {file.type.startsWith('image/') ? (
+                        {file.thumbnailStatus === 'READY' ? (
                           <LazyImage
-                            src={file.url}
+                            src={`/api/files/${file.id}/thumbnail?size=512`}
                             alt={file.name}
                             className="w-full h-full object-cover"
                           />
@@ -679,6 +1475,7 @@ function FileManagerContent() {
                         <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">
                           {formatFileSize(file.size)} • {formatDate(file.createdAt)}
                         </p>
+                        {renderTags(file)}
 
                         {/* Sharing Info */}
                         {file.shares && file.shares.length > 0 && (
@@ -708,6 +1505,13 @@ function FileManagerContent() {
                           >
                             📤 Share
                           </button>
+                          <button
+                            onClick={() => handleEditTags(file)}
+                            className="bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 px-3 py-2 rounded text-sm transition-colors"
+                            title="Edit tags"
+                          >
+                            🏷️
+                          </button>
                         </div>
                       </div>
                     </div>
@@ -733,6 +1537,7 @@ function FileManagerContent() {
                             <p className="text-xs md:text-sm text-gray-600 dark:text-gray-400">
                               {formatFileSize(file.size)} • {formatDate(file.createdAt)}
                             </p>
+                            {renderTags(file)}
                           </div>
                         </div>
 
@@ -742,6 +1547,11 @@ function FileManagerContent() {
                               🔒 Encrypted
                             </span>
                           )}
+                          {file.scanStatus === 'INFECTED' && (
+                            <span className="bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200 px-2 py-1 rounded-full text-xs font-medium self-start sm:self-center">
+                              ☣️ Quarantined
+                            </span>
+                          )}
 
                           <div className="flex flex-wrap gap-2 w-full sm:w-auto">
                             <button
@@ -786,6 +1596,19 @@ function FileManagerContent() {
                                 "📤 Share"
                               )}
                             </button>
+                            <button
+                              onClick={() => handleCreateLink(file)}
+                              disabled={actionLoading === file.id}
+                              className="flex-1 sm:flex-none bg-purple-500 hover:bg-purple-600 disabled:bg-purple-400 text-white px-3 md:px-4 py-2 rounded-lg transition-all duration-200 text-sm disabled:cursor-not-allowed touch-manipulation active:scale-95"
+                            >
+                              🔗 Link
+                            </button>
+                            <button
+                              onClick={() => handleEditTags(file)}
+                              className="flex-1 sm:flex-none bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 px-3 md:px-4 py-2 rounded-lg transition-all duration-200 text-sm touch-manipulation active:scale-95"
+                            >
+                              🏷️ Tags
+                            </button>
                             <button
                               onClick={() => handleDelete(file)}
                               disabled={actionLoading === file.id}
@@ -808,10 +1631,10 @@ function FileManagerContent() {
                 </div>
               )}
             </div>
-          )}
+          ))}
 
           {/* Load More */}
-          {files.length > 0 && files.length < totalFiles && (
+          {searchResults === null && files.length > 0 && files.length < totalFiles && (
             <div className="flex justify-center mt-8">
               <button
                 onClick={() => fetchFiles(currentPage + 1, true)}
@@ -839,6 +1662,12 @@ function FileManagerContent() {
                 </div>
               </div>
               <div className="flex items-center gap-2">
+                <a
+                  href={`/viewer/${previewFile.id}`}
+                  className="bg-gray-500 hover:bg-gray-600 text-white px-4 py-2 rounded-lg transition-colors text-sm touch-manipulation"
+                >
+                  🔍 Open viewer
+                </a>
                 <button
                   onClick={() => handleDownload(previewFile)}
                   className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg transition-colors text-sm touch-manipulation"
@@ -0,0 +1,234 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useParams } from 'next/navigation'
+
+interface FileRequestDetails {
+  available: boolean
+  requiresPassword: boolean
+  unlocked: boolean
+  requestedBy: string | null
+  title: string
+  message: string | null
+  expiresAt: string | null
+  limits: {
+    maxFileSize: number
+    allowedTypes: string[]
+    remainingUploads: number | null
+  } | null
+}
+
+interface UploadResult {
+  name: string
+  success: boolean
+  error?: string
+}
+
+function formatFileSize(bytes: number): string {
+  if (bytes === 0) return '0 Bytes'
+  const k = 1024
+  const sizes = ['Bytes', 'KB', 'MB', 'GB']
+  const i = Math.floor(Math.log(bytes) / Math.log(k))
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i]
+}
+
+export default function FileRequestPage() {
+  const { token } = useParams<{ token: string }>()
+  const [details, setDetails] = useState<FileRequestDetails | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [password, setPassword] = useState('')
+  const [unlocking, setUnlocking] = useState(false)
+  const [unlockError, setUnlockError] = useState('')
+  const [files, setFiles] = useState<File[]>([])
+  const [name, setName] = useState('')
+  const [email, setEmail] = useState('')
+  const [message, setMessage] = useState('')
+  const [uploading, setUploading] = useState(false)
+  const [results, setResults] = useState<UploadResult[]>([])
+
+  const loadDetails = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/r/${token}`)
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        setError(data.error || 'This file request is not available')
+        return
+      }
+      setDetails(data)
+    } catch (error) {
+      console.error('Failed to load file request:', error)
+      setError('Failed to load file request')
+    } finally {
+      setLoading(false)
+    }
+  }, [token])
+
+  useEffect(() => {
+    loadDetails()
+  }, [loadDetails])
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setUnlocking(true)
+    setUnlockError('')
+    try {
+      const response = await fetch(`/api/r/${token}/unlock`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ password })
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        setUnlockError(data.error || 'Incorrect password')
+        return
+      }
+      setPassword('')
+      await loadDetails()
+    } finally {
+      setUnlocking(false)
+    }
+  }
+
+  // Files go one at a time so each gets its own result and the upload limit is counted per file
+  const handleUpload = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setUploading(true)
+    const uploaded: UploadResult[] = []
+    try {
+      for (const file of files) {
+        const formData = new FormData()
+        formData.append('file', file)
+        if (name) formData.append('name', name)
+        if (email) formData.append('email', email)
+        if (message) formData.append('message', message)
+
+        const response = await fetch(`/api/r/${token}`, { method: 'POST', body: formData })
+        const data = await response.json().catch(() => ({}))
+        uploaded.push(response.ok
+          ? { name: file.name, success: true }
+          : { name: file.name, success: false, error: data.error || 'Upload failed' })
+        setResults([...uploaded])
+        if (response.status === 410) break
+      }
+      setFiles([])
+      await loadDetails()
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  const limits = details?.limits
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-2xl mx-auto">
+          {loading ? (
+            <p className="text-center text-gray-600 dark:text-gray-400">Loading file request...</p>
+          ) : error || !details ? (
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 text-center">
+              <div className="text-6xl mb-4">📥</div>
+              <h1 className="text-2xl font-bold mb-2">File request unavailable</h1>
+              <p className="text-gray-600 dark:text-gray-400">{error}</p>
+              {results.some(result => result.success) && (
+                <p className="text-green-600 mt-4">Your files were uploaded.</p>
+              )}
+            </div>
+          ) : !details.unlocked ? (
+            <form onSubmit={handleUnlock} className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 max-w-md mx-auto space-y-4">
+              <div className="text-center">
+                <div className="text-6xl mb-4">🔒</div>
+                <h1 className="text-2xl font-bold mb-2">{details.title}</h1>
+                <p className="text-gray-600 dark:text-gray-400">
+                  {details.requestedBy ? `${details.requestedBy} is requesting files.` : 'Files are requested.'} Enter the password to upload.
+                </p>
+              </div>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="Password"
+                autoFocus
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
+              />
+              {unlockError && <p className="text-sm text-red-600">{unlockError}</p>}
+              <button
+                type="submit"
+                disabled={unlocking || !password}
+                className="w-full bg-primary-500 hover:bg-primary-600 disabled:opacity-50 text-white px-4 py-2 rounded-lg"
+              >
+                {unlocking ? 'Checking...' : 'Unlock'}
+              </button>
+            </form>
+          ) : limits && (
+            <form onSubmit={handleUpload} className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 space-y-4">
+              <div>
+                <h1 className="text-2xl font-bold mb-2 break-words">{details.title}</h1>
+                {details.requestedBy && (
+                  <p className="text-gray-600 dark:text-gray-400">{details.requestedBy} is requesting files from you.</p>
+                )}
+                {details.message && (
+                  <p className="mt-3 whitespace-pre-wrap">{details.message}</p>
+                )}
+                <div className="text-sm text-gray-600 dark:text-gray-400 space-y-1 mt-3">
+                  <p>Up to {formatFileSize(limits.maxFileSize)} per file • {limits.allowedTypes.join(', ')}</p>
+                  {details.expiresAt && <p>Open until: {new Date(details.expiresAt).toLocaleString()}</p>}
+                  {limits.remainingUploads !== null && <p>Files still accepted: {limits.remainingUploads}</p>}
+                </div>
+              </div>
+
+              <input
+                type="file"
+                multiple={limits.remainingUploads === null || limits.remainingUploads > 1}
+                accept={limits.allowedTypes.join(',')}
+                onChange={(e) => setFiles(Array.from(e.target.files || []))}
+                className="w-full"
+              />
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Your name (optional)"
+                  className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
+                />
+                <input
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="Your email (optional)"
+                  className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
+                />
+              </div>
+              <textarea
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                placeholder="Message (optional)"
+                rows={3}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
+              />
+              <button
+                type="submit"
+                disabled={uploading || files.length === 0}
+                className="w-full bg-primary-500 hover:bg-primary-600 disabled:opacity-50 text-white px-4 py-2 rounded-lg"
+              >
+                {uploading ? 'Uploading...' : `Upload ${files.length || ''} file${files.length !== 1 ? 's' : ''}`}
+              </button>
+
+              {results.length > 0 && (
+                <ul className="text-sm space-y-1">
+                  {results.map((result, index) => (
+                    <li key={index} className={result.success ? 'text-green-600' : 'text-red-600'}>
+                      {result.success ? '✓' : '✗'} {result.name}{result.error ? `: ${result.error}` : ''}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -8,6 +8,8 @@ import { useToast } from "@/components/Toast"
 import ConnectionStatus from "@/components/ConnectionStatus"
 import { Loading } from "@/components/Loading"
 import { ErrorBoundary } from "@/components/ErrorBoundary"
+import { downloadEndToEndFile } from "@/lib/e2e-crypto"
+import type { FileReceivedEvent, TransferReceivedEvent } from "@/lib/socket-events"
 
 interface ReceivedFile {
    id: string // Share ID
@@ -18,6 +20,7 @@ interface ReceivedFile {
    type: string
    url: string
    encrypted: boolean
+   endToEnd?: boolean
    senderEmail: string
    senderName?: string
    sharedAt: string
@@ -26,7 +29,9 @@ interface ReceivedFile {
    maxAccessCount?: number
    accessCount: number
    revoked: boolean
-   password?: string
+   passwordProtected?: boolean
+  unlocked?: boolean
+  transfer?: ReceivedTransfer | null
    deliveryStatus?: {
      status: string
      deliveredAt?: string
@@ -35,6 +40,37 @@ interface ReceivedFile {
    }
 }
 
+interface ReceivedTransfer {
+  id: string
+  title: string
+  message: string | null
+}
+
+// Files sent together as a transfer are listed as one bundle; other shares stay single entries
+type ReceivedEntry =
+  | { kind: 'file'; file: ReceivedFile }
+  | { kind: 'transfer'; transfer: ReceivedTransfer; files: ReceivedFile[] }
+
+function groupByTransfer(files: ReceivedFile[]): ReceivedEntry[] {
+  const entries: ReceivedEntry[] = []
+  const bundles = new Map<string, ReceivedFile[]>()
+  for (const file of files) {
+    if (!file.transfer) {
+      entries.push({ kind: 'file', file })
+      continue
+    }
+    const bundle = bundles.get(file.transfer.id)
+    if (bundle) {
+      bundle.push(file)
+    } else {
+      const bundleFiles = [file]
+      bundles.set(file.transfer.id, bundleFiles)
+      entries.push({ kind: 'transfer', transfer: file.transfer, files: bundleFiles })
+    }
+  }
+  return entries
+}
+
 function ReceiveContent() {
   const { data: session } = useSession()
   const { socket } = usePresence()
@@ -48,6 +84,18 @@ function ReceiveContent() {
   const [downloading, setDownloading] = useState<string | null>(null)
   const [searchQuery, setSearchQuery] = useState("")
   const [sortBy, setSortBy] = useState<"date" | "name" | "size">("date")
+  const [highlightedTransfer, setHighlightedTransfer] = useState<string | null>(null)
+
+  // Links in transfer emails point at /receive?transfer=<id>
+  useEffect(() => {
+    setHighlightedTransfer(new URLSearchParams(window.location.search).get('transfer'))
+  }, [])
+
+  useEffect(() => {
+    if (highlightedTransfer && !loading) {
+      document.getElementById(`transfer-${highlightedTransfer}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' })
+    }
+  }, [highlightedTransfer, loading])
 
   // Fetch received files
   const fetchReceivedFiles = useCallback(async (showNotifications = false) => {
@@ -98,13 +146,7 @@ function ReceiveContent() {
   useEffect(() => {
     if (!socket || !session) return
 
-    // Register user with socket server
-    socket.emit('register-user', {
-      userId: session.user.id,
-      email: session.user.email
-    })
-
-    const handleFileReceived = (data: any) => {
+    const handleFileReceived = (data: FileReceivedEvent) => {
       console.log('New file received via real-time:', data)
 
       // Show notification
@@ -119,28 +161,28 @@ function ReceiveContent() {
       fetchReceivedFiles(true)
     }
 
-    const handleRegistrationSuccess = (data: any) => {
-      console.log('Socket registration successful:', data)
-    }
-
-    const handleRegistrationFailed = (data: any) => {
-      console.error('Socket registration failed:', data)
+    const handleTransferReceived = (data: TransferReceivedEvent) => {
       addToast({
-        type: 'error',
-        title: 'Connection Error',
-        message: 'Failed to connect to real-time service',
-        duration: 5000
+        type: 'success',
+        title: `📦 ${data.totalFiles} file${data.totalFiles === 1 ? '' : 's'} received!`,
+        message: `"${data.title}" from ${data.senderName || data.senderEmail?.split('@')[0] || 'Unknown'}`,
+        duration: 6000
       })
+      fetchReceivedFiles(true)
+    }
+
+    const handleRegistrationSuccess = (data: { message: string }) => {
+      console.log('Socket registration successful:', data)
     }
 
     socket.on('file-received', handleFileReceived)
+    socket.on('transfer-received', handleTransferReceived)
     socket.on('registration-success', handleRegistrationSuccess)
-    socket.on('registration-failed', handleRegistrationFailed)
 
     return () => {
       socket.off('file-received', handleFileReceived)
+      socket.off('transfer-received', handleTransferReceived)
       socket.off('registration-success', handleRegistrationSuccess)
-      socket.off('registration-failed', handleRegistrationFailed)
     }
   }, [socket, session, fetchReceivedFiles, addToast])
 
@@ -195,19 +237,28 @@ function ReceiveContent() {
         return
       }
 
-      // Check if password is required
-      let password = ''
-      if (file.password) {
-        password = prompt('Enter password to download this file:') || ''
+      // Password-protected shares are unlocked first; the server sets a short-lived unlock cookie
+      if (file.passwordProtected && !file.unlocked) {
+        const password = prompt('Enter password to download this file:') || ''
         if (!password) {
           setDownloading(null)
           return
         }
+
+        const unlockResponse = await fetch(`/api/files/share/${file.id}/unlock`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ password })
+        })
+        if (!unlockResponse.ok) {
+          const errorData = await unlockResponse.json().catch(() => ({ error: 'Unknown error' }))
+          throw new Error(errorData.error || 'Incorrect password')
+        }
       }
 
       // Check if decryption key is required for encrypted files
       let decryptionKey = ''
-      if (file.encrypted) {
+      if (file.encrypted && !file.endToEnd) {
         decryptionKey = prompt('Enter decryption key for this encrypted file:') || ''
         if (!decryptionKey) {
           setDownloading(null)
@@ -219,10 +270,6 @@ function ReceiveContent() {
       let downloadUrl = `/api/files/download/${file.fileId}`
       const params = new URLSearchParams()
 
-      if (password) {
-        params.append('password', password)
-      }
-
       if (decryptionKey) {
         params.append('key', decryptionKey)
       }
@@ -231,21 +278,32 @@ function ReceiveContent() {
         downloadUrl += `?${params.toString()}`
       }
 
-      // Fetch the file data
-      const response = await fetch(downloadUrl, {
-        method: 'GET',
-        headers: {
-          'Accept': '*/*',
-        },
-      })
+      let blob: Blob
+      if (file.endToEnd) {
+        // End-to-end encrypted: the key is unwrapped and the file decrypted in this browser
+        blob = await downloadEndToEndFile(
+          file.fileId,
+          file.type,
+          () => prompt('Enter your encryption passphrase to decrypt this file:'),
+          downloadUrl
+        )
+      } else {
+        // Fetch the file data
+        const response = await fetch(downloadUrl, {
+          method: 'GET',
+          headers: {
+            'Accept': '*/*',
+          },
+        })
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }))
-        throw new Error(errorData.error || `Download failed: ${response.status}`)
-      }
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({ error: 'Unknown error' }))
+          throw new Error(errorData.error || `Download failed: ${response.status}`)
+        }
 
-      // Get the file data as blob
-      const blob = await response.blob()
+        // Get the file data as blob
+        blob = await response.blob()
+      }
 
       // Create download link with blob
       const blobUrl = URL.createObjectURL(blob)
@@ -319,7 +377,8 @@ function ReceiveContent() {
   const filteredAndSortedFiles = receivedFiles
     .filter(file =>
       file.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      file.senderEmail.toLowerCase().includes(searchQuery.toLowerCase())
+      file.senderEmail.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      !!file.transfer?.title.toLowerCase().includes(searchQuery.toLowerCase())
     )
     .sort((a, b) => {
       switch (sortBy) {
@@ -332,6 +391,7 @@ function ReceiveContent() {
           return new Date(b.sharedAt).getTime() - new Date(a.sharedAt).getTime()
       }
     })
+  const receivedEntries = groupByTransfer(filteredAndSortedFiles)
 
   if (!session) {
     return (
@@ -452,37 +512,89 @@ function ReceiveContent() {
             </div>
           ) : (
             <div className="grid gap-4">
-              {filteredAndSortedFiles.map((file) => (
+              {receivedEntries.map((entry) => entry.kind === 'transfer' ? (
                 <div
-                  key={file.id}
+                  key={entry.transfer.id}
+                  id={`transfer-${entry.transfer.id}`}
+                  className={`bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 ${
+                    highlightedTransfer === entry.transfer.id ? 'ring-2 ring-blue-500' : ''
+                  }`}
+                >
+                  <div className="flex flex-col sm:flex-row sm:items-start gap-4 mb-4">
+                    <div className="text-3xl">📦</div>
+                    <div className="flex-1 min-w-0">
+                      <h3 className="text-lg font-semibold truncate mb-1">{entry.transfer.title}</h3>
+                      <p className="text-sm text-gray-600 dark:text-gray-400">
+                        From {entry.files[0].senderEmail} • {entry.files.length} file{entry.files.length === 1 ? '' : 's'} • {formatFileSize(entry.files.reduce((acc, file) => acc + file.size, 0))} • {formatDate(entry.files[0].sharedAt)}
+                      </p>
+                      {entry.transfer.message && (
+                        <p className="mt-2 text-sm whitespace-pre-wrap bg-gray-50 dark:bg-gray-700 rounded-lg p-3">
+                          {entry.transfer.message}
+                        </p>
+                      )}
+                    </div>
+                    {entry.files.some(file => file.permissions.includes('DOWNLOAD')) && (
+                      <a
+                        href={`/api/transfers/${entry.transfer.id}/download`}
+                        className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg transition-colors text-center touch-manipulation whitespace-nowrap"
+                      >
+                        ⬇️ Download all (zip)
+                      </a>
+                    )}
+                  </div>
+                  <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                    {entry.files.map((file) => (
+                      <li key={file.id} className="flex items-center gap-3 py-2">
+                        <span className="text-xl">{getFileIcon(file.type)}</span>
+                        <span className="flex-1 min-w-0 truncate">{file.name}</span>
+                        <span className="text-sm text-gray-500 whitespace-nowrap">{formatFileSize(file.size)}</span>
+                        {file.encrypted && <span title={file.endToEnd ? 'End-to-end encrypted' : 'Encrypted'}>🔒</span>}
+                        <button
+                          onClick={() => handleDownload(file)}
+                          disabled={downloading === file.id}
+                          className="text-blue-600 hover:text-blue-700 disabled:opacity-50 text-sm touch-manipulation"
+                        >
+                          {downloading === file.id ? 'Downloading...' : 'Download'}
+                        </button>
+                        <a href={`/viewer/${file.fileId}`} className="text-gray-600 hover:text-gray-700 dark:text-gray-400 text-sm">
+                          View
+                        </a>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ) : (
+                <div
+                  key={entry.file.id}
                   className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 hover:shadow-xl transition-shadow"
                 >
                   <div className="flex items-center gap-4">
                     <div className="text-3xl">
-                      {getFileIcon(file.type)}
+                      {getFileIcon(entry.file.type)}
                     </div>
                     <div className="flex-1 min-w-0">
                       <h3 className="text-lg font-semibold truncate mb-1">
-                        {file.name}
+                        {entry.file.name}
                       </h3>
                       <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">
-                        From {file.senderEmail} • {formatFileSize(file.size)} • {formatDate(file.sharedAt)}
+                        From {entry.file.senderEmail} • {formatFileSize(entry.file.size)} • {formatDate(entry.file.sharedAt)}
                       </p>
-                      {file.deliveryStatus && (
+                      {entry.file.deliveryStatus && (
                         <div className="flex items-center gap-2">
                           <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
-                            file.deliveryStatus.status === 'delivered'
+                            entry.file.deliveryStatus.status === 'delivered'
                               ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
-                              : file.deliveryStatus.status === 'pending'
+                              : entry.file.deliveryStatus.status === 'pending'
                               ? 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200'
                               : 'bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200'
                           }`}>
-                            {file.deliveryStatus.status === 'delivered' ? '✅ Delivered' :
-                             file.deliveryStatus.status === 'pending' ? '⏳ Pending' : '👁️ Viewed'}
+                            {entry.file.deliveryStatus.status === 'delivered' ? '✅ Delivered' :
+                             entry.file.deliveryStatus.status === 'pending' ? '⏳ Pending' :
+                             entry.file.deliveryStatus.status === 'downloaded' ? '📥 Downloaded' : '👁️ Viewed'}
                           </span>
-                          {file.encrypted && (
+                          {entry.file.encrypted && (
                             <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200">
-                              🔒 Encrypted
+                              🔒 {entry.file.endToEnd ? 'End-to-end encrypted' : 'Encrypted'}
                             </span>
                           )}
                         </div>
@@ -490,11 +602,11 @@ function ReceiveContent() {
                     </div>
                     <div className="flex flex-col gap-2">
                       <button
-                        onClick={() => handleDownload(file)}
-                        disabled={downloading === file.id}
+                        onClick={() => handleDownload(entry.file)}
+                        disabled={downloading === entry.file.id}
                         className="bg-blue-500 hover:bg-blue-600 disabled:bg-blue-400 text-white px-4 py-2 rounded-lg transition-colors disabled:cursor-not-allowed touch-manipulation"
                       >
-                        {downloading === file.id ? (
+                        {downloading === entry.file.id ? (
                           <div className="flex items-center gap-2">
                             <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
                             Downloading...
@@ -503,6 +615,12 @@ function ReceiveContent() {
                           '⬇️ Download'
                         )}
                       </button>
+                      <a
+                        href={`/viewer/${entry.file.fileId}`}
+                        className="bg-gray-500 hover:bg-gray-600 text-white px-4 py-2 rounded-lg transition-colors text-center touch-manipulation"
+                      >
+                        👁️ View
+                      </a>
                     </div>
                   </div>
                 </div>
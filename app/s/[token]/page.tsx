@@ -0,0 +1,180 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useParams } from 'next/navigation'
+import Image from 'next/image'
+
+interface PublicLinkDetails {
+  available: boolean
+  requiresPassword: boolean
+  unlocked: boolean
+  sharedBy: string | null
+  expiresAt: string | null
+  remainingAccesses: number | null
+  allowDownload: boolean
+  file: {
+    name: string
+    size: number
+    type: string
+    previewable: boolean
+  } | null
+}
+
+function formatFileSize(bytes: number): string {
+  if (bytes === 0) return '0 Bytes'
+  const k = 1024
+  const sizes = ['Bytes', 'KB', 'MB', 'GB']
+  const i = Math.floor(Math.log(bytes) / Math.log(k))
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i]
+}
+
+export default function PublicSharePage() {
+  const { token } = useParams<{ token: string }>()
+  const [details, setDetails] = useState<PublicLinkDetails | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [password, setPassword] = useState('')
+  const [unlocking, setUnlocking] = useState(false)
+  const [unlockError, setUnlockError] = useState('')
+
+  const loadDetails = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/s/${token}`)
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        setError(data.error || 'This link is not available')
+        return
+      }
+      setDetails(data)
+    } catch (error) {
+      console.error('Failed to load shared file:', error)
+      setError('Failed to load shared file')
+    } finally {
+      setLoading(false)
+    }
+  }, [token])
+
+  useEffect(() => {
+    loadDetails()
+  }, [loadDetails])
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setUnlocking(true)
+    setUnlockError('')
+    try {
+      const response = await fetch(`/api/s/${token}/unlock`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ password })
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        setUnlockError(data.error || 'Incorrect password')
+        return
+      }
+      setPassword('')
+      await loadDetails()
+    } finally {
+      setUnlocking(false)
+    }
+  }
+
+  const contentUrl = `/api/s/${token}/download`
+  const file = details?.file
+  // Previews fetch the file too, so they are only shown when that does not use up a limited link
+  const showPreview = !!file?.previewable && details?.remainingAccesses === null
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-4xl mx-auto">
+          {loading ? (
+            <p className="text-center text-gray-600 dark:text-gray-400">Loading shared file...</p>
+          ) : error || !details ? (
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 text-center">
+              <div className="text-6xl mb-4">🔗</div>
+              <h1 className="text-2xl font-bold mb-2">Link unavailable</h1>
+              <p className="text-gray-600 dark:text-gray-400">{error}</p>
+            </div>
+          ) : !details.unlocked ? (
+            <form onSubmit={handleUnlock} className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 max-w-md mx-auto space-y-4">
+              <div className="text-center">
+                <div className="text-6xl mb-4">🔒</div>
+                <h1 className="text-2xl font-bold mb-2">Password protected</h1>
+                <p className="text-gray-600 dark:text-gray-400">
+                  {details.sharedBy ? `${details.sharedBy} shared a file with you.` : 'A file was shared with you.'} Enter the password to continue.
+                </p>
+              </div>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="Password"
+                autoFocus
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
+              />
+              {unlockError && <p className="text-sm text-red-600">{unlockError}</p>}
+              <button
+                type="submit"
+                disabled={unlocking || !password}
+                className="w-full bg-primary-500 hover:bg-primary-600 disabled:opacity-50 text-white px-4 py-2 rounded-lg"
+              >
+                {unlocking ? 'Checking...' : 'Unlock'}
+              </button>
+            </form>
+          ) : file && (
+            <>
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 mb-6">
+                <div className="flex justify-between items-start gap-4">
+                  <div className="min-w-0">
+                    <h1 className="text-2xl font-bold mb-2 break-words">{file.name}</h1>
+                    <div className="text-sm text-gray-600 dark:text-gray-400 space-y-1">
+                      <p>Size: {formatFileSize(file.size)}</p>
+                      {details.sharedBy && <p>Shared by: {details.sharedBy}</p>}
+                      {details.expiresAt && <p>Expires: {new Date(details.expiresAt).toLocaleString()}</p>}
+                      {details.remainingAccesses !== null && (
+                        <p>Downloads remaining: {details.remainingAccesses}</p>
+                      )}
+                    </div>
+                  </div>
+                  {details.allowDownload && (
+                    <a
+                      href={contentUrl}
+                      className="bg-primary-500 hover:bg-primary-600 text-white px-4 py-2 rounded-lg text-sm shrink-0"
+                    >
+                      Download
+                    </a>
+                  )}
+                </div>
+              </div>
+
+              {showPreview && (
+                <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6">
+                  <div className="bg-gray-100 dark:bg-gray-700 rounded-lg flex items-center justify-center overflow-hidden">
+                    {file.type.startsWith('image/') ? (
+                      <Image
+                        src={`${contentUrl}?inline=1`}
+                        alt={file.name}
+                        width={1200}
+                        height={900}
+                        className="max-h-[70vh] w-auto h-auto object-contain"
+                        unoptimized // Served by the share link's download route
+                      />
+                    ) : file.type.startsWith('video/') ? (
+                      <video src={`${contentUrl}?inline=1`} controls className="max-h-[70vh] w-full" />
+                    ) : file.type.startsWith('audio/') ? (
+                      <audio src={`${contentUrl}?inline=1`} controls className="w-full m-6" />
+                    ) : (
+                      <iframe src={`${contentUrl}?inline=1`} title={file.name} className="w-full h-[70vh] bg-white" />
+                    )}
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,7 @@
 "use client"
 
 import { useState, useEffect } from "react"
+import EncryptionKeySetup from "@/components/EncryptionKeySetup"
 
 export default function Settings() {
   const [theme, setTheme] = useState("auto")
@@ -16,7 +17,11 @@ export default function Settings() {
   const [emailPreferences, setEmailPreferences] = useState({
     emailNotifications: 'IMMEDIATE',
     emailNotificationTypes: ['NEW_SHARES'],
-    emailUnsubscribed: false
+    emailUnsubscribed: false,
+    pushNotifications: true,
+    smsNotifications: false,
+    phoneNumber: null as string | null,
+    channels: { push: false, sms: false }
   })
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState(false)
@@ -53,18 +58,69 @@ export default function Settings() {
       })
 
       if (response.ok) {
-        alert('Email preferences saved successfully!')
+        alert('Notification preferences saved successfully!')
       } else {
-        alert('Failed to save email preferences')
+        alert('Failed to save notification preferences')
       }
     } catch (error) {
       console.error('Failed to save email preferences:', error)
-      alert('Failed to save email preferences')
+      alert('Failed to save notification preferences')
     } finally {
       setSaving(false)
     }
   }
 
+  // Subscribe this browser to push notifications, or unsubscribe it
+  const togglePush = async (enabled: boolean) => {
+    try {
+      if (!('serviceWorker' in navigator) || !('PushManager' in window)) {
+        alert('Push notifications are not supported in this browser')
+        return
+      }
+
+      const registration = await navigator.serviceWorker.register('/push-sw.js')
+      const existing = await registration.pushManager.getSubscription()
+
+      if (!enabled) {
+        if (existing) {
+          await fetch('/api/notifications/push', {
+            method: 'DELETE',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ endpoint: existing.endpoint }),
+          })
+          await existing.unsubscribe()
+        }
+        setEmailPreferences(prev => ({ ...prev, pushNotifications: false }))
+        return
+      }
+
+      if (await Notification.requestPermission() !== 'granted') {
+        alert('Allow notifications for this site to receive push notifications')
+        return
+      }
+
+      const config = await fetch('/api/notifications/push').then(res => res.json())
+      const subscription = existing || await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: config.publicKey,
+      })
+      const response = await fetch('/api/notifications/push', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(subscription.toJSON()),
+      })
+
+      if (response.ok) {
+        setEmailPreferences(prev => ({ ...prev, pushNotifications: true }))
+      } else {
+        alert('Failed to enable push notifications')
+      }
+    } catch (error) {
+      console.error('Failed to update push subscription:', error)
+      alert('Failed to update push notifications')
+    }
+  }
+
   // Handle notification type toggle
   const toggleNotificationType = (type: string) => {
     setEmailPreferences(prev => ({
@@ -139,9 +195,9 @@ export default function Settings() {
               </select>
             </div>
 
-            {/* Email Notification Settings */}
+            {/* Notification Settings */}
             <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6">
-              <h2 className="text-xl font-semibold mb-4">Email Notifications</h2>
+              <h2 className="text-xl font-semibold mb-4">Notifications</h2>
 
               {loading ? (
                 <div className="text-center py-4">
@@ -204,6 +260,65 @@ export default function Settings() {
                     </div>
                   </div>
 
+                  {/* Push and SMS */}
+                  <div>
+                    <h3 className="font-medium mb-3">Other Channels</h3>
+                    <div className="space-y-3">
+                      <div className="flex items-center justify-between p-3 border border-gray-200 dark:border-gray-600 rounded-lg">
+                        <div>
+                          <h4 className="font-medium">Push Notifications</h4>
+                          <p className="text-sm text-gray-600 dark:text-gray-400">
+                            {emailPreferences.channels.push
+                              ? 'Notifications in this browser, even when Privora12 is closed'
+                              : 'Not available on this server'}
+                          </p>
+                        </div>
+                        <label className="relative inline-flex items-center cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={emailPreferences.channels.push && emailPreferences.pushNotifications}
+                            disabled={!emailPreferences.channels.push}
+                            onChange={(e) => togglePush(e.target.checked)}
+                            className="sr-only peer"
+                          />
+                          <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-primary-300 dark:peer-focus:ring-primary-800 rounded-full peer dark:bg-gray-700 peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:rounded-full after:h-5 after:w-5 after:transition-all dark:border-gray-600 peer-checked:bg-primary-600"></div>
+                        </label>
+                      </div>
+
+                      <div className="p-3 border border-gray-200 dark:border-gray-600 rounded-lg space-y-3">
+                        <div className="flex items-center justify-between">
+                          <div>
+                            <h4 className="font-medium">SMS</h4>
+                            <p className="text-sm text-gray-600 dark:text-gray-400">
+                              {emailPreferences.channels.sms
+                                ? 'Text messages to your phone'
+                                : 'Not available on this server'}
+                            </p>
+                          </div>
+                          <label className="relative inline-flex items-center cursor-pointer">
+                            <input
+                              type="checkbox"
+                              checked={emailPreferences.channels.sms && emailPreferences.smsNotifications}
+                              disabled={!emailPreferences.channels.sms}
+                              onChange={(e) => setEmailPreferences(prev => ({ ...prev, smsNotifications: e.target.checked }))}
+                              className="sr-only peer"
+                            />
+                            <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-primary-300 dark:peer-focus:ring-primary-800 rounded-full peer dark:bg-gray-700 peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:rounded-full after:h-5 after:w-5 after:transition-all dark:border-gray-600 peer-checked:bg-primary-600"></div>
+                          </label>
+                        </div>
+                        {emailPreferences.channels.sms && emailPreferences.smsNotifications && (
+                          <input
+                            type="tel"
+                            placeholder="+14155550100"
+                            value={emailPreferences.phoneNumber || ''}
+                            onChange={(e) => setEmailPreferences(prev => ({ ...prev, phoneNumber: e.target.value }))}
+                            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 dark:bg-gray-700"
+                          />
+                        )}
+                      </div>
+                    </div>
+                  </div>
+
                   {/* Unsubscribe */}
                   <div className="flex items-center justify-between p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
                     <div>
@@ -230,7 +345,7 @@ export default function Settings() {
                       disabled={saving}
                       className="bg-primary-500 hover:bg-primary-600 disabled:bg-primary-300 text-white px-6 py-2 rounded-lg font-medium transition-colors"
                     >
-                      {saving ? 'Saving...' : 'Save Email Preferences'}
+                      {saving ? 'Saving...' : 'Save Notification Preferences'}
                     </button>
                   </div>
                 </div>
@@ -241,6 +356,8 @@ export default function Settings() {
             <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6">
               <h2 className="text-xl font-semibold mb-4">Privacy & Security</h2>
               <div className="space-y-4">
+                <EncryptionKeySetup />
+
                 <div className="flex items-center justify-between">
                   <div>
                     <h3 className="font-medium">Two-Factor Authentication</h3>
@@ -2,7 +2,8 @@
 
 import { useState, useRef, useCallback, useEffect } from "react"
 import { useSession } from "next-auth/react"
-import { encryptFile, generateKey } from "@/lib/crypto"
+import { generateKey } from "@/lib/crypto"
+import { encryptForRecipients } from "@/lib/e2e-crypto"
 
 interface FilePreview {
   file: File
@@ -28,6 +29,7 @@ export default function Upload() {
    const { data: session } = useSession()
    const [files, setFiles] = useState<FilePreview[]>([])
    const [encrypt, setEncrypt] = useState(true)
+   const [endToEnd, setEndToEnd] = useState(false)
    const [uploading, setUploading] = useState(false)
    const [uploadProgress, setUploadProgress] = useState(0)
    const [message, setMessage] = useState("")
@@ -299,6 +301,33 @@ export default function Upload() {
     setRecipients(recipients.filter(r => r !== email))
   }
 
+  // Append the file to an upload form. With end-to-end encryption the file is encrypted here and
+  // only ciphertext plus the data key wrapped for the owner and each recipient reach the server.
+  const appendUploadPayload = async (formData: FormData, data: Blob, name: string, type: string, key: string) => {
+    if (encrypt && endToEnd) {
+      const { encrypted, wrappedKey, recipientKeys, missingKeys } = await encryptForRecipients(
+        data,
+        shareMode === "share" ? recipients : []
+      )
+      if (missingKeys.length > 0) {
+        throw new Error(`These recipients have not set up end-to-end encryption keys: ${missingKeys.join(', ')}`)
+      }
+
+      formData.append('file', encrypted, name)
+      formData.append('encrypt', 'false')
+      formData.append('e2e', 'true')
+      formData.append('wrappedKey', wrappedKey)
+      formData.append('recipientKeys', JSON.stringify(recipientKeys))
+      formData.append('originalType', type)
+      formData.append('originalSize', data.size.toString())
+      return
+    }
+
+    formData.append('file', data, name)
+    formData.append('encrypt', encrypt.toString())
+    formData.append('encryptionKey', key)
+  }
+
   const handleUpload = async () => {
     if (!file) return
 
@@ -309,7 +338,7 @@ export default function Upload() {
     }
 
     // Validation for encryption key
-    if (encrypt && !encryptionKey && !customKey) {
+    if (encrypt && !endToEnd && !encryptionKey && !customKey) {
       setMessage("Please generate or enter an encryption key")
       return
     }
@@ -319,13 +348,13 @@ export default function Upload() {
     setUploadProgress(0)
 
     try {
-      let fileData = await file.arrayBuffer()
+      const fileData = await file.arrayBuffer()
       let finalEncryptionKey = ""
 
       // Show encryption progress
       setMessage("Preparing file...")
 
-      if (encrypt) {
+      if (encrypt && !endToEnd) {
         if (useCustomKey && customKey) {
           finalEncryptionKey = customKey
         } else if (encryptionKey) {
@@ -334,18 +363,15 @@ export default function Upload() {
           finalEncryptionKey = generateKey()
         }
 
-        setMessage("Encrypting file...")
-        const encrypted = encryptFile(fileData, finalEncryptionKey)
-        fileData = new TextEncoder().encode(encrypted).buffer
+        // The server encrypts the upload with this key (AES-256-GCM envelope)
+        setMessage("Preparing encrypted upload...")
       }
 
       setMessage("Uploading to secure storage...")
 
       const formData = new FormData()
-      formData.append('file', new Blob([fileData]), file.name)
+      await appendUploadPayload(formData, new Blob([fileData]), file.name, file.type, finalEncryptionKey)
       formData.append('type', selectedType)
-      formData.append('encrypt', encrypt.toString())
-      formData.append('encryptionKey', finalEncryptionKey)
       formData.append('recipients', JSON.stringify(recipients))
       formData.append('shareMode', shareMode)
 
@@ -388,7 +414,7 @@ export default function Upload() {
       }
     } catch (error) {
       console.error('Upload error:', error)
-      setMessage("Upload failed. Please try again.")
+      setMessage(error instanceof Error && endToEnd ? error.message : "Upload failed. Please try again.")
     } finally {
       setUploading(false)
       setUploadProgress(0)
@@ -502,7 +528,7 @@ export default function Upload() {
     }
 
     // Validation for encryption key
-    if (encrypt && !encryptionKey && !customKey) {
+    if (encrypt && !endToEnd && !encryptionKey && !customKey) {
       setMessage("Please generate or enter an encryption key")
       return
     }
@@ -566,7 +592,7 @@ export default function Upload() {
         }
 
         // Encrypt if enabled
-        if (encrypt) {
+        if (encrypt && !endToEnd) {
           if (useCustomKey && customKey) {
             finalEncryptionKey = customKey
           } else if (encryptionKey) {
@@ -575,18 +601,27 @@ export default function Upload() {
             finalEncryptionKey = generateKey()
           }
 
-          setMessage(`Encrypting ${processedFile.name}...`)
-          const encrypted = encryptFile(fileData, finalEncryptionKey)
-          fileData = new TextEncoder().encode(encrypted).buffer
+          // The server encrypts the upload with this key (AES-256-GCM envelope)
+          setMessage(`Preparing encrypted upload for ${processedFile.name}...`)
         }
 
         setMessage(`Uploading ${processedFile.name}...`)
 
         const formData = new FormData()
-        formData.append('file', new Blob([fileData]), processedFile.name)
+        try {
+          await appendUploadPayload(formData, new Blob([fileData]), processedFile.name, processedFile.type, finalEncryptionKey)
+        } catch (error) {
+          setUploadQueue(prev => prev.map(item =>
+            item.id === queueItem.id ? {
+              ...item,
+              status: 'failed',
+              error: error instanceof Error ? error.message : "Encryption failed"
+            } : item
+          ))
+          failedUploads++
+          continue
+        }
         formData.append('type', selectedType)
-        formData.append('encrypt', encrypt.toString())
-        formData.append('encryptionKey', finalEncryptionKey)
         formData.append('recipients', JSON.stringify(recipients))
         formData.append('shareMode', shareMode)
 
@@ -969,6 +1004,23 @@ export default function Upload() {
                   </div>
 
                   {encrypt && (
+                    <label className="flex items-start gap-3 mt-4">
+                      <input
+                        type="checkbox"
+                        checked={endToEnd}
+                        onChange={(e) => setEndToEnd(e.target.checked)}
+                        className="mt-1 w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500 dark:focus:ring-blue-600 dark:ring-offset-gray-800 focus:ring-2 dark:bg-gray-700 dark:border-gray-600"
+                      />
+                      <div>
+                        <span className="font-medium text-blue-800 dark:text-blue-200">End-to-End Encryption</span>
+                        <p className="text-sm text-blue-600 dark:text-blue-300">
+                          Encrypt in your browser so only you and your recipients can decrypt. Recipients need encryption keys set up in Settings.
+                        </p>
+                      </div>
+                    </label>
+                  )}
+
+                  {encrypt && !endToEnd && (
                     <div className="mt-4 p-4 bg-white dark:bg-gray-800 rounded-lg border">
                       <h4 className="font-medium mb-3 text-gray-800 dark:text-white">Encryption Key</h4>
 
@@ -1309,7 +1361,7 @@ export default function Upload() {
 
             <button
               onClick={shareMode === "share" ? () => setShowShareConfirmation(true) : handleBatchUpload}
-              disabled={files.length === 0 || uploading || (shareMode === "share" && recipients.length === 0) || (encrypt && !encryptionKey && !customKey)}
+              disabled={files.length === 0 || uploading || (shareMode === "share" && recipients.length === 0) || (encrypt && !endToEnd && !encryptionKey && !customKey)}
               className="w-full bg-gradient-to-r from-blue-500 to-green-500 hover:from-blue-600 hover:to-green-600 disabled:from-gray-400 disabled:to-gray-500 text-white py-4 rounded-xl font-semibold transition-all duration-300 transform hover:-translate-y-1 disabled:transform-none shadow-lg hover:shadow-xl disabled:shadow-none text-lg touch-manipulation"
             >
               {uploading ? (
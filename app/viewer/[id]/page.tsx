@@ -0,0 +1,300 @@
+'use client'
+
+import { useState, useEffect, useRef, useMemo, useCallback } from 'react'
+import Image from 'next/image'
+import { useParams, useRouter } from 'next/navigation'
+import { downloadEndToEndFile } from '@/lib/e2e-crypto'
+import { detectLanguage, highlightCode, TokenType } from '@/lib/syntax-highlight'
+
+type PreviewKind = 'image' | 'pdf' | 'video' | 'audio' | 'text' | 'code'
+
+interface ViewerFile {
+  id: string
+  name: string
+  originalName: string | null
+  size: number
+  type: string
+  createdAt: string
+  isOwner: boolean
+  user: { id: string; name: string | null; email: string }
+  preview: {
+    kind: PreviewKind | null
+    encryption: 'none' | 'server' | 'passphrase' | 'e2e'
+  }
+}
+
+const TOKEN_CLASSES: Record<TokenType, string> = {
+  plain: '',
+  keyword: 'text-purple-600 dark:text-purple-400 font-semibold',
+  string: 'text-green-700 dark:text-green-400',
+  comment: 'text-gray-500 italic',
+  number: 'text-orange-600 dark:text-orange-400',
+  tag: 'text-blue-600 dark:text-blue-400'
+}
+
+function formatFileSize(bytes: number): string {
+  if (bytes === 0) return '0 Bytes'
+  const k = 1024
+  const sizes = ['Bytes', 'KB', 'MB', 'GB']
+  const i = Math.floor(Math.log(bytes) / Math.log(k))
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i]
+}
+
+export default function FileViewerPage() {
+  const { id } = useParams<{ id: string }>()
+  const router = useRouter()
+  const [file, setFile] = useState<ViewerFile | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  // Rendered content: a URL for media, text for text and code
+  const [contentUrl, setContentUrl] = useState<string | null>(null)
+  const [text, setText] = useState<string | null>(null)
+  const [passphrase, setPassphrase] = useState('')
+  const [decrypting, setDecrypting] = useState(false)
+  const [decryptError, setDecryptError] = useState('')
+
+  // One id per page view groups the preview requests so the server logs a single PREVIEW
+  const [sessionId] = useState(() => crypto.randomUUID())
+  const previewUrl = useMemo(() => `/api/files/${id}/preview?session=${sessionId}`, [id, sessionId])
+  const openedAt = useRef<number | null>(null)
+  const objectUrl = useRef<string | null>(null)
+
+  const showBlob = useCallback(async (blob: Blob, kind: PreviewKind) => {
+    if (kind === 'text' || kind === 'code') {
+      setText(await blob.text())
+    } else {
+      objectUrl.current = URL.createObjectURL(blob)
+      setContentUrl(objectUrl.current)
+    }
+    openedAt.current = Date.now()
+  }, [])
+
+  useEffect(() => {
+    let cancelled = false
+
+    const load = async () => {
+      try {
+        const response = await fetch(`/api/files/${id}`)
+        const data = await response.json().catch(() => ({}))
+        if (!response.ok) {
+          setError(data.error || 'This file is not available')
+          return
+        }
+        if (cancelled) return
+        setFile(data)
+
+        const { kind, encryption } = (data as ViewerFile).preview
+        if (!kind || encryption === 'passphrase') {
+          return // Download only, or waiting for the passphrase form
+        }
+
+        if (encryption === 'e2e') {
+          const blob = await downloadEndToEndFile(
+            id,
+            data.type,
+            () => window.prompt('Enter your encryption passphrase to decrypt this file'),
+            previewUrl
+          )
+          if (!cancelled) await showBlob(blob, kind)
+        } else if (kind === 'text' || kind === 'code') {
+          const contentResponse = await fetch(previewUrl)
+          if (!contentResponse.ok) {
+            const errorData = await contentResponse.json().catch(() => ({}))
+            throw new Error(errorData.error || 'Failed to load file')
+          }
+          if (!cancelled) await showBlob(await contentResponse.blob(), kind)
+        } else {
+          // Media elements stream straight from the preview route, seeking with range requests
+          setContentUrl(previewUrl)
+          openedAt.current = Date.now()
+        }
+      } catch (error) {
+        console.error('Failed to open file:', error)
+        if (!cancelled) setError(error instanceof Error ? error.message : 'Failed to open file')
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [id, previewUrl, showBlob])
+
+  // Report how long the file was open when the page is hidden or left
+  useEffect(() => {
+    const reportDuration = () => {
+      if (openedAt.current === null) return
+      const duration = (Date.now() - openedAt.current) / 1000
+      openedAt.current = null
+      navigator.sendBeacon(`/api/files/${id}/preview`, JSON.stringify({ session: sessionId, duration }))
+    }
+
+    window.addEventListener('pagehide', reportDuration)
+    return () => {
+      window.removeEventListener('pagehide', reportDuration)
+      reportDuration()
+      if (objectUrl.current) {
+        URL.revokeObjectURL(objectUrl.current)
+        objectUrl.current = null
+      }
+    }
+  }, [id, sessionId])
+
+  const handleDecrypt = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!file?.preview.kind) return
+    setDecrypting(true)
+    setDecryptError('')
+    try {
+      const response = await fetch(previewUrl, { headers: { 'x-decryption-key': passphrase } })
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        setDecryptError(data.error || 'Failed to decrypt file')
+        return
+      }
+      setPassphrase('')
+      await showBlob(await response.blob(), file.preview.kind)
+    } finally {
+      setDecrypting(false)
+    }
+  }
+
+  const tokens = useMemo(
+    () => text !== null && file?.preview.kind === 'code' ? highlightCode(text, detectLanguage(file.name)) : null,
+    [text, file]
+  )
+
+  const renderContent = () => {
+    if (!file) return null
+    const { kind, encryption } = file.preview
+
+    if (!kind) {
+      return (
+        <div className="text-center p-8">
+          <div className="text-6xl mb-4">📄</div>
+          <p className="text-gray-600 dark:text-gray-400">Preview is not available for this file type</p>
+        </div>
+      )
+    }
+
+    if (encryption === 'passphrase' && contentUrl === null && text === null) {
+      return (
+        <form onSubmit={handleDecrypt} className="max-w-md mx-auto space-y-4 p-8">
+          <div className="text-center">
+            <div className="text-6xl mb-4">🔒</div>
+            <p className="text-gray-600 dark:text-gray-400">This file is encrypted. Enter its decryption key to view it.</p>
+          </div>
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder="Decryption key"
+            autoFocus
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
+          />
+          {decryptError && <p className="text-sm text-red-600">{decryptError}</p>}
+          <button
+            type="submit"
+            disabled={decrypting || !passphrase}
+            className="w-full bg-primary-500 hover:bg-primary-600 disabled:opacity-50 text-white px-4 py-2 rounded-lg"
+          >
+            {decrypting ? 'Decrypting...' : 'Decrypt and view'}
+          </button>
+        </form>
+      )
+    }
+
+    if (tokens) {
+      return (
+        <pre className="text-sm font-mono whitespace-pre overflow-auto max-h-[75vh] p-4 bg-gray-50 dark:bg-gray-900 rounded-lg">
+          <code>
+            {tokens.map((token, index) => (
+              <span key={index} className={TOKEN_CLASSES[token.type]}>{token.text}</span>
+            ))}
+          </code>
+        </pre>
+      )
+    }
+
+    if (text !== null) {
+      return (
+        <pre className="text-sm font-mono whitespace-pre-wrap break-words overflow-auto max-h-[75vh] p-4 bg-gray-50 dark:bg-gray-900 rounded-lg">
+          {text}
+        </pre>
+      )
+    }
+
+    if (!contentUrl) return null
+
+    switch (kind) {
+      case 'image':
+        return (
+          <div className="flex justify-center">
+            <Image
+              src={contentUrl}
+              alt={file.name}
+              width={1200}
+              height={900}
+              className="max-w-full max-h-[75vh] w-auto h-auto object-contain rounded-lg"
+              unoptimized // Served by the preview route, or a local blob once decrypted
+            />
+          </div>
+        )
+      case 'pdf':
+        return <iframe src={contentUrl} title={file.name} className="w-full h-[80vh] rounded-lg border-0" />
+      case 'video':
+        return <video src={contentUrl} controls className="w-full max-h-[75vh] rounded-lg bg-black" />
+      case 'audio':
+        return <audio src={contentUrl} controls className="w-full" />
+      default:
+        return null
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-6xl mx-auto">
+          {loading ? (
+            <p className="text-center text-gray-600 dark:text-gray-400">Loading file...</p>
+          ) : error && !file ? (
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 text-center">
+              <div className="text-6xl mb-4">📄</div>
+              <h1 className="text-2xl font-bold mb-2">File unavailable</h1>
+              <p className="text-gray-600 dark:text-gray-400">{error}</p>
+            </div>
+          ) : file && (
+            <>
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 mb-6">
+                <div className="flex justify-between items-start gap-4">
+                  <div className="min-w-0">
+                    <h1 className="text-2xl font-bold mb-2 truncate">{file.originalName || file.name}</h1>
+                    <div className="text-sm text-gray-600 dark:text-gray-400 space-y-1">
+                      <p>Size: {formatFileSize(file.size)}</p>
+                      <p>Uploaded: {new Date(file.createdAt).toLocaleDateString()}</p>
+                      {!file.isOwner && <p>Shared by: {file.user.name || file.user.email}</p>}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => router.back()}
+                    className="bg-gray-500 hover:bg-gray-600 text-white px-4 py-2 rounded-lg text-sm"
+                  >
+                    Close
+                  </button>
+                </div>
+              </div>
+
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6">
+                {error ? (
+                  <p className="text-center text-red-600 p-8">{error}</p>
+                ) : renderContent()}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,70 @@
+// CLAMD STAND-IN
+// A minimal server speaking clamd's PING and INSTREAM commands, for developing and testing
+// malware scanning without ClamAV installed. It reports the EICAR test file as infected and
+// everything else as clean.
+//
+//   node clamd-stand-in.mjs           # listens on 127.0.0.1:3310
+//   CLAMAV_PORT=3310 npm run dev      # in another terminal
+//
+// Upload a file containing the EICAR test string to see it quarantined.
+
+import net from 'net'
+
+const PORT = Number(process.env.CLAMAV_PORT) || 3310
+const HOST = process.env.CLAMAV_HOST || '127.0.0.1'
+const MAX_STREAM_BYTES = Number(process.env.STAND_IN_MAX_BYTES) || 100 * 1024 * 1024
+const EICAR = 'X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*'
+
+function handle(socket) {
+  let buffer = Buffer.alloc(0)
+  let command = null
+  let separator = '\n'
+  const chunks = []
+  let streamBytes = 0
+
+  const reply = (text) => {
+    socket.end(`${text}${separator === '\0' ? '\0' : '\n'}`)
+  }
+
+  socket.on('data', (data) => {
+    buffer = Buffer.concat([buffer, data])
+
+    if (command === null) {
+      // Commands are "zCOMMAND\0" or "nCOMMAND\n"
+      const end = buffer.findIndex((byte) => byte === 0 || byte === 10)
+      if (end === -1) return
+      const raw = buffer.subarray(0, end).toString('utf8')
+      buffer = buffer.subarray(end + 1)
+      separator = raw.startsWith('z') ? '\0' : '\n'
+      command = raw.replace(/^[zn]/, '')
+
+      if (command === 'PING') return reply('PONG')
+      if (command === 'VERSION') return reply('ClamAV stand-in')
+      if (command !== 'INSTREAM') return reply('UNKNOWN COMMAND')
+    }
+
+    // INSTREAM body: 4-byte big-endian length, then that many bytes; a zero length ends it
+    while (buffer.length >= 4) {
+      const length = buffer.readUInt32BE(0)
+      if (length === 0) {
+        const content = Buffer.concat(chunks).toString('latin1')
+        console.log(`Scanned ${streamBytes} bytes`)
+        return reply(content.includes(EICAR) ? 'stream: Eicar-Test-Signature FOUND' : 'stream: OK')
+      }
+      if (buffer.length < 4 + length) return
+      chunks.push(buffer.subarray(4, 4 + length))
+      streamBytes += length
+      buffer = buffer.subarray(4 + length)
+      if (streamBytes > MAX_STREAM_BYTES) {
+        return reply('INSTREAM size limit exceeded. ERROR')
+      }
+    }
+  })
+
+  socket.on('error', (error) => console.error('Connection error:', error.message))
+}
+
+net.createServer(handle).listen(PORT, HOST, () => {
+  console.log(`🛡️  clamd stand-in listening on ${HOST}:${PORT}`)
+  console.log('   Reports the EICAR test file as infected, everything else as clean')
+})
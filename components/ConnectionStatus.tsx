@@ -58,13 +58,13 @@ export default function ConnectionStatus({ className = "", showDetails = false }
 
     socket.on('connect', handleConnect)
     socket.on('disconnect', handleDisconnect)
-    socket.on('reconnect_attempt', handleReconnectAttempt)
+    socket.io.on('reconnect_attempt', handleReconnectAttempt)
 
     return () => {
       clearInterval(interval)
       socket.off('connect', handleConnect)
       socket.off('disconnect', handleDisconnect)
-      socket.off('reconnect_attempt', handleReconnectAttempt)
+      socket.io.off('reconnect_attempt', handleReconnectAttempt)
     }
   }, [socket])
 
@@ -2,6 +2,8 @@
 
 import React, { useState, useEffect, useCallback } from 'react'
 import { useSession } from 'next-auth/react'
+import { usePresence } from '@/lib/presence-context'
+import type { DeliveryStatusEvent } from '@/lib/socket-events'
 import ConnectionStatus from './ConnectionStatus'
 import { Loading } from './Loading'
 
@@ -11,39 +13,30 @@ interface DeliveryAnalytics {
   failedDeliveries: number
   averageDeliveryTime: number
   deliveryRate: number
-  channelPerformance: {
-    email: { sent: number, delivered: number, rate: number }
-    push: { sent: number, delivered: number, rate: number }
-    sms: { sent: number, delivered: number, rate: number }
+  stages: {
+    sent: number
+    delivered: number
+    viewed: number
+    downloaded: number
   }
-  recentFailures: Array<{
-    id: string
-    shareId: string
-    recipientEmail: string
-    status: string
-    failureReason?: string
-    retryCount: number
-    sentAt?: string
-    failedAt?: string
-  }>
+  recentFailures: DeliveryStatus[]
 }
 
 interface DeliveryStatus {
   id: string
-  shareId: string
+  shareId: string | null
   recipientId: string
   recipientEmail: string
   status: 'pending' | 'sent' | 'delivered' | 'viewed' | 'downloaded' | 'failed'
-  sentAt?: string
-  deliveredAt?: string
-  viewedAt?: string
-  downloadedAt?: string
-  failedAt?: string
-  failureReason?: string
-  retryCount: number
-  maxRetries: number
-  notificationChannels: ('email' | 'push' | 'sms')[]
-  lastNotificationSent?: string
+  sentAt: string | null
+  deliveredAt: string | null
+  viewedAt: string | null
+  downloadedAt: string | null
+  failedAt: string | null
+  failureReason: string | null
+  deliveryAttempts: number
+  maxDeliveryAttempts: number
+  nextRetryAt: string | null
 }
 
 interface ShareDeliveryData {
@@ -69,6 +62,7 @@ interface ShareDeliveryData {
 
 export default function DeliveryStatusDashboard() {
   const { data: session } = useSession()
+  const { socket } = usePresence()
   const [analytics, setAnalytics] = useState<DeliveryAnalytics | null>(null)
   const [selectedShareId, setSelectedShareId] = useState<string>('')
   const [shareData, setShareData] = useState<ShareDeliveryData | null>(null)
@@ -175,6 +169,23 @@ export default function DeliveryStatusDashboard() {
     }
   }, [selectedShareId, loadShareData])
 
+  // Deliveries change state as recipients receive, open and download files
+  useEffect(() => {
+    if (!socket) return
+
+    const handleStatusUpdate = (data: DeliveryStatusEvent) => {
+      if (selectedShareId && data.shareId === selectedShareId) {
+        loadShareData(selectedShareId)
+      }
+      loadAnalytics()
+    }
+
+    socket.on('delivery-status-update', handleStatusUpdate)
+    return () => {
+      socket.off('delivery-status-update', handleStatusUpdate)
+    }
+  }, [socket, selectedShareId, loadShareData, loadAnalytics])
+
   const formatFileSize = (bytes: number) => {
     if (bytes === 0) return '0 Bytes'
     const k = 1024
@@ -307,23 +318,22 @@ export default function DeliveryStatusDashboard() {
         </div>
       )}
 
-      {/* Channel Performance */}
+      {/* Delivery Funnel */}
       {analytics && (
         <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-lg">
           <h2 className="text-xl font-semibold mb-4 text-gray-800 dark:text-white">
-            Channel Performance
+            Delivery Funnel
           </h2>
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-            {Object.entries(analytics.channelPerformance).map(([channel, perf]) => (
-              <div key={channel} className="text-center">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {Object.entries(analytics.stages).map(([stage, count]) => (
+              <div key={stage} className="text-center">
                 <h3 className="font-medium text-gray-700 dark:text-gray-300 capitalize mb-2">
-                  {channel}
+                  {stage}
                 </h3>
                 <div className="space-y-1 text-sm">
-                  <div>Sent: {perf.sent}</div>
-                  <div>Delivered: {perf.delivered}</div>
+                  <div>{count}</div>
                   <div className="font-medium text-blue-600">
-                    Rate: {perf.rate.toFixed(1)}%
+                    {analytics.totalShares > 0 ? ((count / analytics.totalShares) * 100).toFixed(1) : '0.0'}%
                   </div>
                 </div>
               </div>
@@ -354,11 +364,11 @@ export default function DeliveryStatusDashboard() {
                 </div>
                 <div className="flex items-center gap-2">
                   <span className="text-sm text-gray-500">
-                    Retry: {failure.retryCount}
+                    Attempts: {failure.deliveryAttempts}/{failure.maxDeliveryAttempts}
                   </span>
                   <button
                     onClick={() => retryDelivery(failure.id)}
-                    disabled={retrying === failure.id}
+                    disabled={retrying === failure.id || failure.deliveryAttempts >= failure.maxDeliveryAttempts}
                     className="px-3 py-1 bg-blue-500 hover:bg-blue-600 disabled:bg-blue-400 text-white text-sm rounded transition-colors"
                   >
                     {retrying === failure.id ? 'Retrying...' : 'Retry'}
@@ -452,7 +462,7 @@ export default function DeliveryStatusDashboard() {
                   {delivery.status === 'failed' && (
                     <button
                       onClick={() => retryDelivery(delivery.id)}
-                      disabled={retrying === delivery.id}
+                      disabled={retrying === delivery.id || delivery.deliveryAttempts >= delivery.maxDeliveryAttempts}
                       className="px-2 py-1 bg-blue-500 hover:bg-blue-600 disabled:bg-blue-400 text-white text-xs rounded transition-colors"
                     >
                       {retrying === delivery.id ? 'Retrying...' : 'Retry'}
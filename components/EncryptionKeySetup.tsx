@@ -0,0 +1,154 @@
+"use client"
+
+import { useState, useEffect } from 'react'
+import { generateUserKeyPair, getPublicKeyFingerprint } from '@/lib/e2e-crypto'
+
+const MIN_PASSPHRASE_LENGTH = 12
+
+export default function EncryptionKeySetup() {
+  const [loading, setLoading] = useState(true)
+  const [fingerprint, setFingerprint] = useState<string | null>(null)
+  const [createdAt, setCreatedAt] = useState<string | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [passphrase, setPassphrase] = useState('')
+  const [confirmPassphrase, setConfirmPassphrase] = useState('')
+  const [generating, setGenerating] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    const loadKeys = async () => {
+      try {
+        const response = await fetch('/api/users/keys')
+        if (response.ok) {
+          const data = await response.json()
+          if (data.publicKey) {
+            setFingerprint(await getPublicKeyFingerprint(data.publicKey))
+            setCreatedAt(data.keyPairCreatedAt)
+          }
+        }
+      } catch (error) {
+        console.error('Failed to load encryption keys:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadKeys()
+  }, [])
+
+  const handleGenerate = async () => {
+    setError('')
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`)
+      return
+    }
+    if (passphrase !== confirmPassphrase) {
+      setError('Passphrases do not match')
+      return
+    }
+
+    const replace = !!fingerprint
+    if (replace && !confirm('Replacing your keys makes files already shared with you end-to-end encrypted unreadable. Continue?')) {
+      return
+    }
+
+    setGenerating(true)
+    try {
+      // The keypair is generated here; only the public key and the passphrase-sealed private key are sent
+      const keyPair = await generateUserKeyPair(passphrase)
+      const response = await fetch('/api/users/keys', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...keyPair, replace })
+      })
+
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save encryption keys')
+      }
+
+      setFingerprint(await getPublicKeyFingerprint(keyPair.publicKey))
+      setCreatedAt(data.keyPairCreatedAt)
+      setShowForm(false)
+      setPassphrase('')
+      setConfirmPassphrase('')
+    } catch (error) {
+      console.error('Failed to generate encryption keys:', error)
+      setError(error instanceof Error ? error.message : 'Failed to generate encryption keys')
+    } finally {
+      setGenerating(false)
+    }
+  }
+
+  if (loading) {
+    return <p className="text-sm text-gray-600 dark:text-gray-400">Loading encryption keys...</p>
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="font-medium">End-to-End Encryption Keys</h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {fingerprint
+              ? 'Files shared with you end-to-end encrypted are decrypted in your browser with these keys'
+              : 'Generate keys so others can share end-to-end encrypted files with you'}
+          </p>
+        </div>
+        {!showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="bg-secondary-500 hover:bg-secondary-600 text-white px-4 py-2 rounded-lg text-sm"
+          >
+            {fingerprint ? 'Replace Keys' : 'Set Up'}
+          </button>
+        )}
+      </div>
+
+      {fingerprint && (
+        <div className="text-sm text-gray-600 dark:text-gray-400">
+          <p>Fingerprint: <span className="font-mono">{fingerprint}</span></p>
+          {createdAt && <p>Created {new Date(createdAt).toLocaleDateString()}</p>}
+        </div>
+      )}
+
+      {showForm && (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Your passphrase protects your private key and is never sent to the server. It cannot be recovered if lost.
+          </p>
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder="Passphrase"
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
+          />
+          <input
+            type="password"
+            value={confirmPassphrase}
+            onChange={(e) => setConfirmPassphrase(e.target.value)}
+            placeholder="Confirm passphrase"
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
+          />
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex gap-2">
+            <button
+              onClick={handleGenerate}
+              disabled={generating}
+              className="bg-primary-500 hover:bg-primary-600 disabled:opacity-50 text-white px-4 py-2 rounded-lg text-sm"
+            >
+              {generating ? 'Generating...' : 'Generate Keys'}
+            </button>
+            <button
+              onClick={() => { setShowForm(false); setError('') }}
+              className="bg-gray-500 hover:bg-gray-600 text-white px-4 py-2 rounded-lg text-sm"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
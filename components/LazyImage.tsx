@@ -31,10 +31,12 @@ export default function LazyImage({
   const [hasError, setHasError] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
   const imgRef = useRef<HTMLImageElement>(null)
+  // The container is observed: the image itself is only rendered once it is in view
+  const containerRef = useRef<HTMLDivElement>(null)
   const observerRef = useRef<IntersectionObserver | null>(null)
 
   useEffect(() => {
-    const element = imgRef.current
+    const element = containerRef.current
     if (!element) return
 
     observerRef.current = new IntersectionObserver(
@@ -90,7 +92,7 @@ export default function LazyImage({
   }, [isInView, isLoaded, hasError])
 
   return (
-    <div className={`relative ${className}`}>
+    <div ref={containerRef} className={`relative ${className}`}>
       {/* Placeholder/Loading state */}
       {(!isLoaded || isLoading) && (
         <div className="absolute inset-0 flex items-center justify-center bg-gray-100 dark:bg-gray-800 rounded">
@@ -1,5 +1,7 @@
 "use client"
 
+import LazyImage from "./LazyImage"
+
 interface ManagedFile {
   id: string
   name: string
@@ -11,6 +13,7 @@ interface ManagedFile {
   fileType: string
   createdAt: string
   updatedAt: string
+  thumbnailStatus?: 'PENDING' | 'READY' | 'SKIPPED' | 'FAILED'
   shares?: {
     id: string
     sharedWithEmail: string
@@ -79,7 +82,15 @@ function FileListItem({
             onChange={() => onSelect(file.id)}
             className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500 dark:focus:ring-blue-600 dark:ring-offset-gray-800 focus:ring-2 dark:bg-gray-700 dark:border-gray-600"
           />
-          <div className="text-2xl md:text-3xl">{getFileIcon(file.type)}</div>
+          {file.thumbnailStatus === 'READY' ? (
+            <LazyImage
+              src={`/api/files/${file.id}/thumbnail?size=128`}
+              alt={file.name}
+              className="w-10 h-10 md:w-12 md:h-12 rounded flex-shrink-0"
+            />
+          ) : (
+            <div className="text-2xl md:text-3xl">{getFileIcon(file.type)}</div>
+          )}
           <div className="min-w-0 flex-1">
             <h3 className="text-base md:text-lg font-semibold truncate">{file.name}</h3>
             <p className="text-xs md:text-sm text-gray-600 dark:text-gray-400">
@@ -1,5 +1,6 @@
 import { getPrismaClient } from './prisma'
 import { logAuditEvent, AuditAction, AuditSeverity } from './audit'
+import { advanceShareDelivery } from './deliveries'
 
 export enum AccessEventType {
   VIEW = 'VIEW',
@@ -18,7 +19,7 @@ export enum AccessResult {
 
 export interface AccessEventData {
   shareId: string
-  userId: string
+  userId: string | null // null for anonymous public link visitors
   fileId: string
   eventType: AccessEventType
   result?: AccessResult
@@ -29,6 +30,7 @@ export interface AccessEventData {
   bytesTransferred?: number
   errorMessage?: string
   metadata?: Record<string, any>
+  countAccess?: boolean // false when the caller already counted this access against maxAccessCount
 }
 
 /**
@@ -156,18 +158,29 @@ export async function logAccessEvent(data: AccessEventData): Promise<void> {
         break
     }
 
-    updateData.accessCount = { increment: 1 }
+    if (data.countAccess !== false) {
+      updateData.accessCount = { increment: 1 }
+    }
 
     await prisma.fileShare.update({
       where: { id: data.shareId },
       data: updateData
     })
 
+    // The recipient opening or downloading a share moves its delivery forward
+    if (data.userId && (data.result || AccessResult.SUCCESS) === AccessResult.SUCCESS) {
+      if (data.eventType === AccessEventType.VIEW || data.eventType === AccessEventType.PREVIEW) {
+        await advanceShareDelivery(data.shareId, data.userId, 'VIEWED')
+      } else if (data.eventType === AccessEventType.DOWNLOAD) {
+        await advanceShareDelivery(data.shareId, data.userId, 'DOWNLOADED')
+      }
+    }
+
     // Log to audit system for significant events
     if (data.eventType === AccessEventType.ACCESS_DENIED ||
         data.result === AccessResult.FAILURE) {
       await logAuditEvent({
-        userId: data.userId,
+        userId: data.userId || undefined,
         action: AuditAction.SECURITY_EVENT,
         resource: 'file_share',
         resourceId: data.shareId,
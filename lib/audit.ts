@@ -7,11 +7,20 @@ export enum AuditAction {
   FILE_UPLOAD = 'FILE_UPLOAD',
   FILE_DOWNLOAD = 'FILE_DOWNLOAD',
   FILE_DELETE = 'FILE_DELETE',
+  FILE_RESTORE = 'FILE_RESTORE',
+  FILE_PURGE = 'FILE_PURGE',
   FILE_SHARE = 'FILE_SHARE',
+  FILE_REQUEST = 'FILE_REQUEST',
   FILE_ACCESS = 'FILE_ACCESS',
   FILE_VIEW = 'FILE_VIEW',
   FILE_EDIT = 'FILE_EDIT',
   FILE_VERSION_CREATE = 'FILE_VERSION_CREATE',
+  FILE_MOVE = 'FILE_MOVE',
+  FILE_COPY = 'FILE_COPY',
+  FOLDER_CREATE = 'FOLDER_CREATE',
+  FOLDER_UPDATE = 'FOLDER_UPDATE',
+  FOLDER_DELETE = 'FOLDER_DELETE',
+  FOLDER_SHARE = 'FOLDER_SHARE',
   GROUP_CREATE = 'GROUP_CREATE',
   GROUP_JOIN = 'GROUP_JOIN',
   SHARE_ACCESS = 'SHARE_ACCESS',
@@ -0,0 +1,59 @@
+// Background queues
+//
+// Slow work that follows an upload (thumbnails, malware scans, text extraction) runs in this
+// process after the response went out, one file at a time per queue. Queued work is lost on a
+// restart; each kind of work has an admin backfill that picks such files up.
+
+export interface BackgroundQueue {
+  // Queue a file unless it is already waiting or being processed
+  schedule(fileId: string): void
+  // Queue a file even while it is being processed, because its content changed since that run
+  // started
+  requeue(fileId: string): void
+}
+
+/**
+ * A queue that runs `process` for each queued file id in turn. Failures are logged as
+ * "Failed to <description>".
+ */
+export function createBackgroundQueue(
+  description: string,
+  process: (fileId: string) => Promise<unknown>
+): BackgroundQueue {
+  const queue = new Set<string>()
+  let processing: string | null = null
+  let draining: Promise<void> | null = null
+
+  async function drainQueue(): Promise<void> {
+    while (queue.size > 0) {
+      const [fileId] = queue
+      queue.delete(fileId)
+      processing = fileId
+      try {
+        await process(fileId)
+      } catch (error) {
+        console.error(`Failed to ${description}:`, fileId, error)
+      } finally {
+        processing = null
+      }
+    }
+  }
+
+  function requeue(fileId: string): void {
+    queue.add(fileId)
+    if (!draining) {
+      draining = drainQueue().finally(() => {
+        draining = null
+      })
+    }
+  }
+
+  return {
+    schedule(fileId) {
+      if (fileId !== processing) {
+        requeue(fileId)
+      }
+    },
+    requeue
+  }
+}
@@ -0,0 +1,99 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+interface StoredBlob {
+  id: string
+  sha256: string
+  size: number
+  url: string
+  storageProvider: string
+  storageKey: string
+  refCount: number
+}
+
+type RefCondition = { gt?: number; lte?: number }
+
+// An in-memory StoredBlob table and storage provider
+const db = vi.hoisted(() => ({ blobs: [] as StoredBlob[], objects: new Set<string>() }))
+
+vi.mock('./storage', () => ({
+  storeObject: async (key: string) => {
+    db.objects.add(key)
+    return { url: `/storage/${key}`, storageKey: key, storageProvider: 'local' }
+  },
+  deleteStoredObject: async (record: { storageKey: string }) => {
+    db.objects.delete(record.storageKey)
+  }
+}))
+
+vi.mock('./prisma', () => {
+  const refMatches = (blob: StoredBlob, refCount?: RefCondition) =>
+    (refCount?.gt === undefined || blob.refCount > refCount.gt) &&
+    (refCount?.lte === undefined || blob.refCount <= refCount.lte)
+
+  const storedBlob = {
+    findUnique: async ({ where }: { where: { sha256: string } }) =>
+      db.blobs.find(blob => blob.sha256 === where.sha256) ?? null,
+    create: async ({ data }: { data: Omit<StoredBlob, 'id'> }) => {
+      const blob = { id: `blob-${db.blobs.length + 1}`, ...data }
+      db.blobs.push(blob)
+      return { ...blob }
+    },
+    update: async ({ where, data }: { where: { id: string }; data: { refCount: { decrement: number } } }) => {
+      const blob = db.blobs.find(candidate => candidate.id === where.id)!
+      blob.refCount -= data.refCount.decrement
+      return { ...blob }
+    },
+    updateMany: async ({ where, data }: {
+      where: { id: string; refCount?: RefCondition }
+      data: { refCount: { increment: number } }
+    }) => {
+      const matched = db.blobs.filter(blob => blob.id === where.id && refMatches(blob, where.refCount))
+      matched.forEach(blob => { blob.refCount += data.refCount.increment })
+      return { count: matched.length }
+    },
+    deleteMany: async ({ where }: { where: { id: string; refCount?: RefCondition } }) => {
+      const before = db.blobs.length
+      db.blobs = db.blobs.filter(blob => !(blob.id === where.id && refMatches(blob, where.refCount)))
+      return { count: before - db.blobs.length }
+    }
+  }
+  return { getPrismaClient: async () => ({ storedBlob }) }
+})
+
+import { releaseContent, storeContent } from './blob-store'
+
+describe('deduplicated content', () => {
+  beforeEach(() => {
+    db.blobs = []
+    db.objects = new Set()
+  })
+
+  it('stores identical uploads once and deletes them with the last reference', async () => {
+    const content = Buffer.from('quarterly report')
+
+    const first = await storeContent('files/a.txt', content, { dedupe: true })
+    const second = await storeContent('files/b.txt', content, { dedupe: true })
+
+    expect(second).toMatchObject({ blobId: first.blobId, deduplicated: true, storageKey: 'files/a.txt' })
+    expect([...db.objects]).toEqual(['files/a.txt'])
+    expect(db.blobs[0].refCount).toBe(2)
+
+    await releaseContent([first])
+    expect(db.objects.has('files/a.txt')).toBe(true)
+
+    await releaseContent([second])
+    expect(db.blobs).toHaveLength(0)
+    expect(db.objects.size).toBe(0)
+  })
+
+  it('keeps encrypted uploads unshared', async () => {
+    const content = Buffer.from('ciphertext')
+
+    const first = await storeContent('files/a.bin', content)
+    const second = await storeContent('files/b.bin', content)
+
+    expect(first.blobId).toBeNull()
+    expect(second).toMatchObject({ blobId: null, deduplicated: false })
+    expect(db.objects.size).toBe(2)
+  })
+})
@@ -0,0 +1,234 @@
+// Content-addressed blob storage
+//
+// Uploads are hashed with SHA-256 as they stream to the storage provider. Unencrypted content
+// is registered in StoredBlob under its digest, so identical bytes are kept once however many
+// File and FileVersion rows point at them. Every row holding a blobId owns one reference; the
+// blob is deleted when its last reference is released. Encrypted uploads are never shared:
+// their rows keep blobId null and own their storage location directly.
+
+import crypto from 'crypto'
+import { Readable } from 'stream'
+import { getPrismaClient } from './prisma'
+import { deleteStoredObject, storeObject, StoragePutOptions, StoredObjectRecord } from './storage'
+import { createInternalError } from './error-handling'
+
+export interface ContentRecord extends StoredObjectRecord {
+  blobId?: string | null
+}
+
+export interface StoredContent {
+  url: string
+  storageKey: string
+  storageProvider: string
+  size: number
+  contentHash: string
+  blobId: string | null
+  deduplicated: boolean
+}
+
+export interface StoreContentOptions extends StoragePutOptions {
+  dedupe?: boolean
+}
+
+interface BlobRow {
+  id: string
+  sha256: string
+  size: number
+  url: string
+  storageProvider: string
+  storageKey: string
+}
+
+function fromBlob(blob: BlobRow, deduplicated: boolean): StoredContent {
+  return {
+    url: blob.url,
+    storageKey: blob.storageKey,
+    storageProvider: blob.storageProvider,
+    size: blob.size,
+    contentHash: blob.sha256,
+    blobId: blob.id,
+    deduplicated
+  }
+}
+
+/**
+ * Take a reference on the blob with a digest, if one exists and is not being collected
+ */
+async function acquireBlobByHash(sha256: string): Promise<BlobRow | null> {
+  const prisma = await getPrismaClient()
+  const blob = await prisma.storedBlob.findUnique({ where: { sha256 } })
+  if (!blob) {
+    return null
+  }
+  // A blob at zero references is about to be deleted and must not be revived
+  const claim = await prisma.storedBlob.updateMany({
+    where: { id: blob.id, refCount: { gt: 0 } },
+    data: { refCount: { increment: 1 } }
+  })
+  return claim.count > 0 ? blob : null
+}
+
+/**
+ * Register freshly written content, or swap it for an existing copy of the same bytes
+ */
+async function registerContent(
+  stored: Awaited<ReturnType<typeof storeObject>>,
+  contentHash: string
+): Promise<StoredContent> {
+  const existing = await acquireBlobByHash(contentHash)
+  if (existing) {
+    await deleteStoredObject(stored)
+    return fromBlob(existing, true)
+  }
+
+  const prisma = await getPrismaClient()
+  try {
+    const blob = await prisma.storedBlob.create({
+      data: {
+        sha256: contentHash,
+        size: stored.size,
+        url: stored.url,
+        storageProvider: stored.storageProvider,
+        storageKey: stored.storageKey,
+        refCount: 1
+      }
+    })
+    return fromBlob(blob, false)
+  } catch (error) {
+    // Lost a race with an identical upload; take its blob if it is live, otherwise keep ours unshared
+    const raced = await acquireBlobByHash(contentHash)
+    if (raced) {
+      await deleteStoredObject(stored)
+      return fromBlob(raced, true)
+    }
+    console.error('Failed to register blob, storing it unshared:', contentHash, error)
+    return { ...stored, contentHash, blobId: null, deduplicated: false }
+  }
+}
+
+/**
+ * Store upload content and hash it on the way. With dedupe, identical content already stored
+ * is reused and the caller holds one new reference to it.
+ */
+export async function storeContent(
+  key: string,
+  body: Readable | Buffer,
+  options: StoreContentOptions = {}
+): Promise<StoredContent> {
+  const { dedupe, ...putOptions } = options
+  const hash = crypto.createHash('sha256')
+
+  if (Buffer.isBuffer(body)) {
+    const contentHash = hash.update(body).digest('hex')
+    if (dedupe) {
+      const existing = await acquireBlobByHash(contentHash)
+      if (existing) {
+        return fromBlob(existing, true)
+      }
+    }
+    const stored = { ...await storeObject(key, body, putOptions), size: body.length }
+    return dedupe ? registerContent(stored, contentHash) : { ...stored, contentHash, blobId: null, deduplicated: false }
+  }
+
+  // Sizes are counted here rather than trusted from the provider
+  let size = 0
+  async function* hashChunks(source: Readable) {
+    for await (const chunk of source) {
+      hash.update(chunk)
+      size += chunk.length
+      yield chunk as Buffer
+    }
+  }
+
+  const stored = { ...await storeObject(key, Readable.from(hashChunks(body)), putOptions), size }
+  const contentHash = hash.digest('hex')
+  return dedupe ? registerContent(stored, contentHash) : { ...stored, contentHash, blobId: null, deduplicated: false }
+}
+
+/**
+ * Take another reference for a row that starts pointing at an already referenced blob
+ */
+export async function retainBlob(blobId: string | null | undefined): Promise<void> {
+  if (!blobId) {
+    return
+  }
+  const prisma = await getPrismaClient()
+  const claim = await prisma.storedBlob.updateMany({
+    where: { id: blobId, refCount: { gt: 0 } },
+    data: { refCount: { increment: 1 } }
+  })
+  if (claim.count === 0) {
+    throw createInternalError('Blob is no longer referenced', { blobId })
+  }
+}
+
+/**
+ * Drop one reference and delete the blob when it was the last. Failures are logged so
+ * cleanup never blocks deleting rows.
+ */
+export async function releaseBlob(blobId: string): Promise<void> {
+  try {
+    const prisma = await getPrismaClient()
+    const blob = await prisma.storedBlob.update({
+      where: { id: blobId },
+      data: { refCount: { decrement: 1 } }
+    })
+    if (blob.refCount > 0) {
+      return
+    }
+    // Rows that still point here make the delete fail on the foreign key, keeping the blob
+    const removed = await prisma.storedBlob.deleteMany({ where: { id: blobId, refCount: { lte: 0 } } })
+    if (removed.count > 0) {
+      await deleteStoredObject(blob)
+    }
+  } catch (error) {
+    console.error('Failed to release blob:', blobId, error)
+  }
+}
+
+/**
+ * Release the content of rows being deleted: one blob reference per row, and unshared
+ * locations deleted once even when several rows point at them
+ */
+export async function releaseContent(records: ContentRecord[]): Promise<void> {
+  const unshared = new Map<string, ContentRecord>()
+  for (const record of records) {
+    if (record.blobId) {
+      await releaseBlob(record.blobId)
+    } else {
+      unshared.set(record.storageKey || record.url, record)
+    }
+  }
+  for (const record of unshared.values()) {
+    await deleteStoredObject(record)
+  }
+}
+
+/**
+ * Whether any version of a file points at the given content
+ */
+export async function isContentInVersions(fileId: string, content: ContentRecord, excludeVersionId?: string): Promise<boolean> {
+  const prisma = await getPrismaClient()
+  const count = await prisma.fileVersion.count({
+    where: {
+      fileId,
+      ...(content.storageKey ? { storageKey: content.storageKey } : { url: content.url }),
+      ...(excludeVersionId ? { NOT: { id: excludeVersionId } } : {})
+    }
+  })
+  return count > 0
+}
+
+/**
+ * Release what a File row pointed at before it was repointed to other content. Returns true
+ * when none of the file's versions still holds that content, so it left the file entirely.
+ */
+export async function releaseReplacedContent(fileId: string, previous: ContentRecord): Promise<boolean> {
+  const heldByVersion = await isContentInVersions(fileId, previous)
+  if (previous.blobId) {
+    await releaseBlob(previous.blobId)
+  } else if (!heldByVersion) {
+    await deleteStoredObject(previous)
+  }
+  return !heldByVersion
+}
@@ -2,12 +2,8 @@ import CryptoJS from 'crypto-js'
 
 const SECRET_KEY = process.env.ENCRYPTION_KEY || 'default-secret-key'
 
-export function encryptFile(buffer: ArrayBuffer, password: string): string {
-  const wordArray = CryptoJS.lib.WordArray.create(buffer)
-  const encrypted = CryptoJS.AES.encrypt(wordArray, password).toString()
-  return encrypted
-}
-
+// Files are now encrypted server-side with the AES-256-GCM envelope in lib/encryption.ts.
+// decryptFile remains so files written by the old CryptoJS format can still be read.
 export function decryptFile(encryptedData: string, password: string): ArrayBuffer {
   const decrypted = CryptoJS.AES.decrypt(encryptedData, password)
   const buffer = wordArrayToArrayBuffer(decrypted)
@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { DeliveryRecord } from './deliveries'
+
+type Condition = string | null | { lte?: Date; not?: null }
+
+// An in-memory FileDelivery table supporting the filters delivery attempts and retries use
+const db = vi.hoisted(() => ({ deliveries: [] as DeliveryRecord[] }))
+const socket = vi.hoisted(() => ({ sendToUser: vi.fn(), emitToUser: vi.fn(), getUserConnections: vi.fn() }))
+
+vi.mock('./socket', () => socket)
+vi.mock('./notifications', () => ({ notifyShareRecipient: vi.fn(async () => ({})) }))
+
+vi.mock('./prisma', () => {
+  const matches = (delivery: DeliveryRecord, where: Record<string, Condition>) =>
+    Object.entries(where).every(([field, condition]) => {
+      const value = delivery[field as keyof DeliveryRecord]
+      if (condition === null || typeof condition === 'string') return value === condition
+      if ('not' in condition) return value !== null
+      if (condition.lte) return value instanceof Date && value <= condition.lte
+      return true
+    })
+
+  const withTarget = (delivery: DeliveryRecord) => ({
+    ...delivery,
+    file: { name: 'report.pdf', originalName: null, size: 1, type: 'application/pdf', encrypted: false, deletedAt: null },
+    share: { permissions: '["VIEW"]', revoked: false, createdAt: delivery.createdAt, expiresAt: null },
+    sender: { email: 'sender@example.com', name: 'Sender' }
+  })
+
+  const fileDelivery = {
+    findUnique: async ({ where, include }: { where: { id: string }; include?: object }) => {
+      const delivery = db.deliveries.find(candidate => candidate.id === where.id)
+      return delivery ? (include ? withTarget(delivery) : { ...delivery }) : null
+    },
+    findMany: async ({ where }: { where: Record<string, Condition> }) =>
+      db.deliveries.filter(delivery => matches(delivery, where)).map(({ id }) => ({ id })),
+    findFirst: async ({ where }: { where: Record<string, Condition> }) => {
+      const due = db.deliveries.filter(delivery => matches(delivery, where))
+      return due.length > 0 ? { nextRetryAt: due[0].nextRetryAt } : null
+    },
+    update: async ({ where, data }: { where: { id: string }; data: Partial<DeliveryRecord> }) =>
+      Object.assign(db.deliveries.find(delivery => delivery.id === where.id)!, data),
+    updateMany: async ({ where, data }: { where: Record<string, Condition>; data: Partial<DeliveryRecord> }) => {
+      const matched = db.deliveries.filter(delivery => matches(delivery, where))
+      matched.forEach(delivery => Object.assign(delivery, data))
+      return { count: matched.length }
+    }
+  }
+  return { getPrismaClient: async () => ({ fileDelivery }) }
+})
+
+import { attemptDelivery } from './deliveries'
+
+function pendingDelivery(): DeliveryRecord {
+  const now = new Date()
+  return {
+    id: 'delivery-1',
+    fileId: 'file-1',
+    shareId: 'share-1',
+    senderId: 'sender',
+    recipientId: 'recipient',
+    recipientEmail: 'recipient@example.com',
+    status: 'PENDING',
+    deliveryAttempts: 0,
+    maxDeliveryAttempts: 3,
+    sentAt: null,
+    deliveredAt: null,
+    viewedAt: null,
+    downloadedAt: null,
+    failedAt: null,
+    failureReason: null,
+    lastAttemptAt: null,
+    nextRetryAt: null,
+    recipientIp: null,
+    expiresAt: new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000),
+    createdAt: now
+  }
+}
+
+describe('delivery attempts', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    db.deliveries = [pendingDelivery()]
+    socket.sendToUser.mockReset()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('retries a delivery the socket server could not send, then fails it for good', async () => {
+    socket.sendToUser.mockRejectedValue(new Error('Socket.io not initialized'))
+
+    const first = await attemptDelivery('delivery-1')
+    expect(first).toMatchObject({ status: 'FAILED', failureReason: 'Socket.io not initialized' })
+    expect(first.nextRetryAt).not.toBeNull()
+
+    // The retry timer makes the second attempt after 1 minute and the third 4 minutes later
+    await vi.advanceTimersByTimeAsync(60 * 1000)
+    expect(db.deliveries[0]).toMatchObject({ status: 'FAILED', deliveryAttempts: 2 })
+    await vi.advanceTimersByTimeAsync(4 * 60 * 1000)
+
+    expect(socket.sendToUser).toHaveBeenCalledTimes(3)
+    expect(db.deliveries[0]).toMatchObject({ status: 'FAILED', deliveryAttempts: 3, nextRetryAt: null })
+    await expect(attemptDelivery('delivery-1')).rejects.toThrow('Maximum delivery attempts reached')
+  })
+
+  it('delivers on a retry once the recipient can be reached', async () => {
+    socket.sendToUser.mockRejectedValueOnce(new Error('Presence registry unavailable')).mockResolvedValue(true)
+
+    await attemptDelivery('delivery-1')
+    await vi.advanceTimersByTimeAsync(60 * 1000)
+
+    expect(db.deliveries[0]).toMatchObject({ status: 'DELIVERED', deliveryAttempts: 2, failureReason: null })
+  })
+})
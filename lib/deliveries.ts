@@ -0,0 +1,490 @@
+// Delivery tracking
+//
+// A FileDelivery row follows one file to one recipient, through a share or a LAN delivery. It
+// moves forward along PENDING → SENT → DELIVERED → VIEWED → DOWNLOADED, possibly skipping steps
+// (a download proves delivery), and never back; each step is stamped once. A failed attempt moves
+// it to FAILED with a time for the next attempt, and a retry returns it to PENDING, until
+// maxDeliveryAttempts attempts were made. Every transition is pushed to the sender and the
+// recipient as a delivery-status-update event, and a share that cannot reach any of the
+// recipient's devices is announced to them through lib/notifications.ts.
+
+import { getPrismaClient } from './prisma'
+import { emitToUser, getUserConnections, sendToUser } from './socket'
+import { createAuthorizationError, createConflictError, createNotFoundError } from './error-handling'
+import { notifyShareRecipient } from './notifications'
+import { createRetrySchedule, retryDelay } from './retry-schedule'
+import type { DeliveryStatusEvent, FileReceivedEvent } from './socket-events'
+
+export type DeliveryState = 'PENDING' | 'SENT' | 'DELIVERED' | 'VIEWED' | 'DOWNLOADED' | 'FAILED'
+
+// The order deliveries move forward in; FAILED sits outside it
+const PROGRESS: DeliveryState[] = ['PENDING', 'SENT', 'DELIVERED', 'VIEWED', 'DOWNLOADED']
+
+export const DEFAULT_DELIVERY_LIFETIME_DAYS = 30
+const RECENT_FAILURES = 10
+
+export interface DeliveryRecord {
+  id: string
+  fileId: string
+  shareId: string | null
+  senderId: string
+  recipientId: string
+  recipientEmail: string
+  status: DeliveryState
+  deliveryAttempts: number
+  maxDeliveryAttempts: number
+  sentAt: Date | null
+  deliveredAt: Date | null
+  viewedAt: Date | null
+  downloadedAt: Date | null
+  failedAt: Date | null
+  failureReason: string | null
+  lastAttemptAt: Date | null
+  nextRetryAt: Date | null
+  recipientIp: string | null
+  expiresAt: Date
+  createdAt: Date
+}
+
+export interface TrackDeliveryInput {
+  fileId: string
+  senderId: string
+  recipientId: string
+  recipientEmail: string
+  shareId?: string | null
+  expiresAt?: Date | null
+}
+
+interface TransitionDetails {
+  failureReason?: string
+  nextRetryAt?: Date | null
+  recipientIp?: string
+}
+
+interface DeliveryTarget extends DeliveryRecord {
+  file: { name: string; originalName: string | null; size: number; type: string; encrypted: boolean; deletedAt: Date | null }
+  share: { permissions: string; revoked: boolean; createdAt: Date; expiresAt: Date | null } | null
+  sender: { email: string; name: string | null }
+}
+
+const targetInclude = {
+  file: { select: { name: true, originalName: true, size: true, type: true, encrypted: true, deletedAt: true } },
+  share: { select: { permissions: true, revoked: true, createdAt: true, expiresAt: true } },
+  sender: { select: { email: true, name: true } }
+}
+
+type Plan = 'apply' | 'skip' | 'reject'
+
+function planTransition(from: DeliveryState, to: DeliveryState): Plan {
+  if (from === to) return 'skip'
+  if (to === 'FAILED') return from === 'PENDING' || from === 'SENT' ? 'apply' : 'reject'
+  if (to === 'PENDING') return from === 'FAILED' ? 'apply' : 'reject' // Only a retry goes back
+  if (from === 'FAILED') return 'apply' // e.g. the recipient downloaded the file after all
+  return PROGRESS.indexOf(to) > PROGRESS.indexOf(from) ? 'apply' : 'skip'
+}
+
+function transitionData(delivery: DeliveryRecord, to: DeliveryState, now: Date, details: TransitionDetails) {
+  const data: Partial<DeliveryRecord> = { status: to }
+
+  if (to === 'FAILED') {
+    data.failedAt = now
+    data.failureReason = details.failureReason || 'Delivery failed'
+    data.nextRetryAt = details.nextRetryAt ?? null
+  } else {
+    data.failureReason = null
+    data.nextRetryAt = null
+  }
+
+  // Reaching a step implies the steps before it; each keeps the time it was first reached
+  const rank = PROGRESS.indexOf(to)
+  if (rank >= PROGRESS.indexOf('SENT') && !delivery.sentAt) data.sentAt = now
+  if (rank >= PROGRESS.indexOf('DELIVERED') && !delivery.deliveredAt) data.deliveredAt = now
+  if (to === 'VIEWED' && !delivery.viewedAt) data.viewedAt = now
+  if (to === 'DOWNLOADED' && !delivery.downloadedAt) data.downloadedAt = now
+
+  if (details.recipientIp) data.recipientIp = details.recipientIp
+  return data
+}
+
+function notifyStatus(delivery: DeliveryRecord) {
+  const event: DeliveryStatusEvent = {
+    deliveryId: delivery.id,
+    fileId: delivery.fileId,
+    shareId: delivery.shareId ?? undefined,
+    recipientEmail: delivery.recipientEmail,
+    status: delivery.status.toLowerCase() as DeliveryStatusEvent['status'],
+    attempts: delivery.deliveryAttempts,
+    failureReason: delivery.failureReason ?? undefined,
+    timestamp: new Date().toISOString()
+  }
+  for (const userId of new Set([delivery.senderId, delivery.recipientId])) {
+    emitToUser(userId, 'delivery-status-update', event)
+  }
+}
+
+/**
+ * Move a delivery to a new state. Moving to a step it already passed is a no-op; moving back
+ * or failing a delivery that already arrived is a conflict.
+ */
+export async function advanceDelivery(
+  deliveryId: string,
+  to: DeliveryState,
+  details: TransitionDetails = {}
+): Promise<DeliveryRecord> {
+  const prisma = await getPrismaClient()
+
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const delivery: DeliveryRecord | null = await prisma.fileDelivery.findUnique({ where: { id: deliveryId } })
+    if (!delivery) {
+      throw createNotFoundError('Delivery')
+    }
+
+    const plan = planTransition(delivery.status, to)
+    if (plan === 'skip') return delivery
+    if (plan === 'reject') {
+      throw createConflictError(`A ${delivery.status.toLowerCase()} delivery cannot become ${to.toLowerCase()}`)
+    }
+
+    // Conditional on the status just read, so concurrent transitions cannot overwrite each other
+    const data = transitionData(delivery, to, new Date(), details)
+    const { count } = await prisma.fileDelivery.updateMany({
+      where: { id: deliveryId, status: delivery.status },
+      data
+    })
+    if (count === 1) {
+      const updated = { ...delivery, ...data }
+      notifyStatus(updated)
+      return updated
+    }
+  }
+
+  throw createConflictError('The delivery is being updated, try again')
+}
+
+/**
+ * Advance the delivery of a share to one recipient, if it is tracked
+ */
+export async function advanceShareDelivery(
+  shareId: string,
+  recipientId: string,
+  to: DeliveryState
+): Promise<DeliveryRecord | null> {
+  const prisma = await getPrismaClient()
+  const delivery: { id: string } | null = await prisma.fileDelivery.findUnique({
+    where: { shareId_recipientId: { shareId, recipientId } },
+    select: { id: true }
+  })
+  return delivery ? advanceDelivery(delivery.id, to) : null
+}
+
+/**
+ * Mark loaded deliveries as delivered in one batch, returning them as they are now. Only those
+ * still pending, sent or failed are written; the rest are returned as loaded.
+ */
+export async function markDelivered(deliveries: DeliveryRecord[]): Promise<DeliveryRecord[]> {
+  const arriving = deliveries.filter(delivery => planTransition(delivery.status, 'DELIVERED') === 'apply')
+  if (arriving.length === 0) return deliveries
+
+  const prisma = await getPrismaClient()
+  const now = new Date()
+  const data = { status: 'DELIVERED' as const, deliveredAt: now, failureReason: null, nextRetryAt: null }
+  const ids = arriving.map(delivery => delivery.id)
+
+  // Conditional on the statuses that may still arrive, so deliveries that moved on meanwhile keep
+  // their state; sentAt keeps the time it was first reached
+  const [{ count }] = await prisma.$transaction([
+    prisma.fileDelivery.updateMany({
+      where: { id: { in: ids }, status: { in: ['PENDING', 'SENT', 'FAILED'] } },
+      data
+    }),
+    prisma.fileDelivery.updateMany({ where: { id: { in: ids }, sentAt: null }, data: { sentAt: now } })
+  ])
+
+  let updated: DeliveryRecord[]
+  if (count === arriving.length) {
+    updated = arriving.map(delivery => ({ ...delivery, ...data, sentAt: delivery.sentAt ?? now }))
+  } else {
+    // Some changed concurrently; read back what they are now
+    updated = await prisma.fileDelivery.findMany({ where: { id: { in: ids } } })
+  }
+
+  const byId = new Map(updated.map(delivery => [delivery.id, delivery]))
+  for (const delivery of updated) {
+    if (delivery.status === 'DELIVERED') notifyStatus(delivery)
+  }
+  return deliveries.map(delivery => byId.get(delivery.id) ?? delivery)
+}
+
+/**
+ * Start tracking a delivery. A share is tracked once per recipient; tracking it again returns
+ * the existing delivery.
+ */
+export async function trackDelivery(input: TrackDeliveryInput): Promise<DeliveryRecord> {
+  const prisma = await getPrismaClient()
+
+  if (input.shareId) {
+    const existing: DeliveryRecord | null = await prisma.fileDelivery.findUnique({
+      where: { shareId_recipientId: { shareId: input.shareId, recipientId: input.recipientId } }
+    })
+    if (existing) return existing
+  }
+
+  const delivery: DeliveryRecord = await prisma.fileDelivery.create({
+    data: {
+      fileId: input.fileId,
+      shareId: input.shareId || null,
+      senderId: input.senderId,
+      recipientId: input.recipientId,
+      recipientEmail: input.recipientEmail,
+      status: 'PENDING',
+      expiresAt: input.expiresAt || new Date(Date.now() + DEFAULT_DELIVERY_LIFETIME_DAYS * 24 * 60 * 60 * 1000)
+    }
+  })
+  notifyStatus(delivery)
+  return delivery
+}
+
+function toFileReceivedEvent(delivery: DeliveryTarget): FileReceivedEvent {
+  return {
+    shareId: delivery.shareId as string,
+    fileId: delivery.fileId,
+    fileName: delivery.file.originalName || delivery.file.name,
+    fileSize: delivery.file.size,
+    fileType: delivery.file.type,
+    senderId: delivery.senderId,
+    senderEmail: delivery.sender.email,
+    senderName: delivery.sender.name,
+    sharedAt: (delivery.share?.createdAt || delivery.createdAt).toISOString(),
+    permissions: delivery.share?.permissions || '[]',
+    expiresAt: delivery.share?.expiresAt?.toISOString(),
+    encrypted: delivery.file.encrypted,
+    deliveryStatus: 'delivered',
+    deliveredAt: new Date().toISOString()
+  }
+}
+
+// Deliveries whose share or file went away, or that expired, cannot succeed later either
+function permanentFailure(delivery: DeliveryTarget): string | null {
+  if (delivery.expiresAt <= new Date()) return 'Delivery expired'
+  if (delivery.file.deletedAt) return 'File was deleted'
+  if (delivery.share?.revoked) return 'Share was revoked'
+  if (delivery.share?.expiresAt && delivery.share.expiresAt <= new Date()) return 'Share expired'
+  return null
+}
+
+/**
+ * Make one delivery attempt: push the file to the recipient's connected devices. It is delivered
+ * when one of them received it, and sent otherwise (the recipient gets it when they connect).
+ * A failed attempt is retried later while attempts remain.
+ */
+export async function attemptDelivery(deliveryId: string): Promise<DeliveryRecord> {
+  const prisma = await getPrismaClient()
+  let delivery: DeliveryTarget | null = await prisma.fileDelivery.findUnique({
+    where: { id: deliveryId },
+    include: targetInclude
+  })
+  if (!delivery) {
+    throw createNotFoundError('Delivery')
+  }
+
+  // Already on one of the recipient's devices
+  if (PROGRESS.indexOf(delivery.status) >= PROGRESS.indexOf('DELIVERED')) return delivery
+
+  if (delivery.deliveryAttempts >= delivery.maxDeliveryAttempts) {
+    throw createConflictError('Maximum delivery attempts reached')
+  }
+
+  const reason = permanentFailure(delivery)
+  if (reason && delivery.status === 'FAILED') {
+    const data = { failureReason: reason, nextRetryAt: null }
+    await prisma.fileDelivery.update({ where: { id: deliveryId }, data })
+    return { ...delivery, ...data }
+  }
+  if (reason) {
+    return advanceDelivery(deliveryId, 'FAILED', { failureReason: reason })
+  }
+
+  if (delivery.status === 'FAILED') {
+    await advanceDelivery(deliveryId, 'PENDING')
+  }
+
+  const attempts = delivery.deliveryAttempts + 1
+  await prisma.fileDelivery.update({
+    where: { id: deliveryId },
+    data: { deliveryAttempts: attempts, lastAttemptAt: new Date() }
+  })
+  delivery = { ...delivery, deliveryAttempts: attempts }
+
+  try {
+    const reached = delivery.shareId
+      ? await sendToUser(delivery.recipientId, 'file-received', toFileReceivedEvent(delivery))
+      : (await getUserConnections(delivery.recipientId)).length > 0
+    const advanced = await advanceDelivery(deliveryId, reached ? 'DELIVERED' : 'SENT')
+    if (!reached && delivery.shareId) {
+      // Reach a recipient who is offline on their other channels
+      notifyShareRecipient({
+        shareId: delivery.shareId,
+        recipientId: delivery.recipientId,
+        senderName: delivery.sender.name || delivery.sender.email,
+        fileName: delivery.file.originalName || delivery.file.name
+      }).catch(error => console.error('Failed to notify share recipient:', deliveryId, error))
+    }
+    return advanced
+  } catch (error) {
+    console.error('Delivery attempt failed:', deliveryId, error)
+    const retry = attempts < delivery.maxDeliveryAttempts
+    const delay = retryDelay(attempts)
+    const failed = await advanceDelivery(deliveryId, 'FAILED', {
+      failureReason: error instanceof Error ? error.message : 'Delivery attempt failed',
+      nextRetryAt: retry ? new Date(Date.now() + delay) : null
+    })
+    if (retry) retries.schedule(delay)
+    return failed
+  }
+}
+
+/**
+ * A delivery the user sent or receives, for the delivery API
+ */
+export async function getDeliveryForUser(deliveryId: string, userId: string): Promise<DeliveryRecord> {
+  const prisma = await getPrismaClient()
+  const delivery: DeliveryRecord | null = await prisma.fileDelivery.findUnique({ where: { id: deliveryId } })
+  if (!delivery) {
+    throw createNotFoundError('Delivery')
+  }
+  if (delivery.senderId !== userId && delivery.recipientId !== userId) {
+    throw createAuthorizationError('Only the sender or recipient can manage this delivery')
+  }
+  return delivery
+}
+
+/**
+ * Retry a delivery on behalf of its sender or recipient, now rather than at its next scheduled
+ * attempt
+ */
+export async function retryDelivery(deliveryId: string, userId: string): Promise<DeliveryRecord> {
+  const delivery = await getDeliveryForUser(deliveryId, userId)
+  if (PROGRESS.indexOf(delivery.status) >= PROGRESS.indexOf('DELIVERED')) {
+    throw createConflictError('Delivery already completed')
+  }
+  return attemptDelivery(deliveryId)
+}
+
+/**
+ * Attempt every open delivery to a user, e.g. when they come online
+ */
+export async function retryRecipientDeliveries(recipientId: string): Promise<number> {
+  const prisma = await getPrismaClient()
+  const deliveries: { id: string }[] = await prisma.fileDelivery.findMany({
+    where: {
+      recipientId,
+      status: { in: ['PENDING', 'SENT', 'FAILED'] },
+      deliveryAttempts: { lt: prisma.fileDelivery.fields.maxDeliveryAttempts },
+      expiresAt: { gt: new Date() }
+    },
+    select: { id: true },
+    orderBy: { createdAt: 'asc' }
+  })
+
+  for (const delivery of deliveries) {
+    try {
+      await attemptDelivery(delivery.id)
+    } catch (error) {
+      console.error('Failed to retry delivery:', delivery.id, error)
+    }
+  }
+  return deliveries.length
+}
+
+const retries = createRetrySchedule(
+  'Delivery',
+  async () => (await getPrismaClient()).fileDelivery,
+  async deliveryId => {
+    const delivery = await attemptDelivery(deliveryId)
+    if (delivery.status === 'FAILED') return 'failed'
+    return PROGRESS.indexOf(delivery.status) >= PROGRESS.indexOf('DELIVERED') ? 'succeeded' : 'pending'
+  }
+)
+
+/**
+ * Retry failed deliveries whose next attempt is due
+ */
+export async function processDueRetries(): Promise<{ attempted: number; delivered: number; failed: number }> {
+  const { attempted, succeeded, failed } = await retries.processDue()
+  return { attempted, delivered: succeeded, failed }
+}
+
+interface AnalyticsRow {
+  total: number
+  sent: number
+  delivered: number
+  viewed: number
+  downloaded: number
+  failed: number
+  averageDeliverySeconds: number | null
+}
+
+/**
+ * Delivery analytics for what a user sent in a time range, computed by the database
+ */
+export async function getDeliveryAnalytics(senderId: string, { from, to }: { from: Date; to: Date }) {
+  const prisma = await getPrismaClient()
+
+  const rows: AnalyticsRow[] = await prisma.$queryRaw`
+    SELECT
+      COUNT(*)::int AS "total",
+      COUNT("sentAt")::int AS "sent",
+      COUNT("deliveredAt")::int AS "delivered",
+      COUNT("viewedAt")::int AS "viewed",
+      COUNT("downloadedAt")::int AS "downloaded",
+      COUNT(*) FILTER (WHERE "status" = 'FAILED')::int AS "failed",
+      AVG(EXTRACT(EPOCH FROM ("deliveredAt" - COALESCE("sentAt", "createdAt"))))::float AS "averageDeliverySeconds"
+    FROM "FileDelivery"
+    WHERE "senderId" = ${senderId}
+      AND "createdAt" >= ${from}
+      AND "createdAt" <= ${to}
+  `
+  const row = rows[0]
+
+  const recentFailures: DeliveryRecord[] = await prisma.fileDelivery.findMany({
+    where: { senderId, status: 'FAILED', createdAt: { gte: from, lte: to } },
+    orderBy: { failedAt: 'desc' },
+    take: RECENT_FAILURES
+  })
+
+  return {
+    totalShares: row.total,
+    successfulDeliveries: row.delivered,
+    failedDeliveries: row.failed,
+    deliveryRate: row.total > 0 ? (row.delivered / row.total) * 100 : 0,
+    averageDeliveryTime: Math.round(row.averageDeliverySeconds || 0), // seconds
+    stages: { sent: row.sent, delivered: row.delivered, viewed: row.viewed, downloaded: row.downloaded },
+    recentFailures
+  }
+}
+
+/**
+ * A delivery as the API returns it: lowercase status, ISO timestamps
+ */
+export function serializeDelivery(delivery: DeliveryRecord) {
+  const iso = (date: Date | null) => date?.toISOString() ?? null
+  return {
+    id: delivery.id,
+    fileId: delivery.fileId,
+    shareId: delivery.shareId,
+    recipientId: delivery.recipientId,
+    recipientEmail: delivery.recipientEmail,
+    status: delivery.status.toLowerCase(),
+    deliveryAttempts: delivery.deliveryAttempts,
+    maxDeliveryAttempts: delivery.maxDeliveryAttempts,
+    sentAt: iso(delivery.sentAt),
+    deliveredAt: iso(delivery.deliveredAt),
+    viewedAt: iso(delivery.viewedAt),
+    downloadedAt: iso(delivery.downloadedAt),
+    failedAt: iso(delivery.failedAt),
+    failureReason: delivery.failureReason,
+    nextRetryAt: iso(delivery.nextRetryAt),
+    expiresAt: iso(delivery.expiresAt),
+    createdAt: iso(delivery.createdAt)
+  }
+}
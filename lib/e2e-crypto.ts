@@ -0,0 +1,399 @@
+// Browser-side end-to-end encryption (Web Crypto API)
+//
+// Each user has an RSA-OAEP (SHA-256) keypair generated in the browser. The private key is
+// sealed with a key derived from the user's passphrase (PBKDF2-SHA256, AES-256-GCM) before
+// it is uploaded, so the server only ever holds the public key and an opaque sealed blob.
+//
+// Files are encrypted in the browser with a random 256-bit data key using the same envelope
+// format as lib/encryption.ts (raw key, no KDF). The data key is wrapped for the owner's and
+// each recipient's public key as "pk1.<base64(RSA-OAEP ciphertext)>".
+
+const MAGIC = [0x50, 0x52, 0x56, 0x45] // "PRVE"
+const FORMAT_VERSION = 1
+const KDF_RAW = 0
+const NONCE_PREFIX_LENGTH = 8
+const KEY_CHECK_LENGTH = 16
+const TAG_LENGTH = 16
+const FRAME_HEADER_LENGTH = 5
+const RAW_HEADER_LENGTH = MAGIC.length + 6 + 4 + NONCE_PREFIX_LENGTH + KEY_CHECK_LENGTH
+const KEY_CHECK_LABEL = 'privora-envelope-key-check'
+const MAX_CHUNK_SIZE = 16 * 1024 * 1024
+
+export const E2E_WRAP_PREFIX = 'pk1.'
+export const E2E_CHUNK_SIZE = 1024 * 1024 // 1MB plaintext per frame
+
+const RSA_PARAMS: RsaHashedKeyGenParams = {
+  name: 'RSA-OAEP',
+  modulusLength: 3072,
+  publicExponent: new Uint8Array([1, 0, 1]),
+  hash: 'SHA-256'
+}
+const PBKDF2_ITERATIONS = 600000
+
+export interface SealedPrivateKey {
+  v: 1
+  kdf: 'PBKDF2-SHA256'
+  iterations: number
+  salt: string
+  iv: string
+  data: string
+}
+
+export interface UserKeyPair {
+  publicKey: string
+  encryptedPrivateKey: string
+}
+
+function toBase64(bytes: ArrayBuffer | Uint8Array): string {
+  const view = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes)
+  let binary = ''
+  for (let i = 0; i < view.length; i += 0x8000) {
+    binary += String.fromCharCode(...view.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+function concatBytes(...parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    result.set(part, offset)
+    offset += part.length
+  }
+  return result
+}
+
+async function derivePassphraseKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number) {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey'])
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  )
+}
+
+/**
+ * Generate a keypair and seal the private key with the user's passphrase
+ */
+export async function generateUserKeyPair(passphrase: string): Promise<UserKeyPair> {
+  const keyPair = await crypto.subtle.generateKey(RSA_PARAMS, true, ['wrapKey', 'unwrapKey'])
+  const spki = await crypto.subtle.exportKey('spki', keyPair.publicKey)
+  const pkcs8 = await crypto.subtle.exportKey('pkcs8', keyPair.privateKey)
+
+  const salt = crypto.getRandomValues(new Uint8Array(16))
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const sealingKey = await derivePassphraseKey(passphrase, salt, PBKDF2_ITERATIONS)
+  const sealed = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, sealingKey, pkcs8)
+
+  const encryptedPrivateKey: SealedPrivateKey = {
+    v: 1,
+    kdf: 'PBKDF2-SHA256',
+    iterations: PBKDF2_ITERATIONS,
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+    data: toBase64(sealed)
+  }
+
+  return { publicKey: toBase64(spki), encryptedPrivateKey: JSON.stringify(encryptedPrivateKey) }
+}
+
+/**
+ * Open a sealed private key with the user's passphrase
+ */
+export async function unlockPrivateKey(encryptedPrivateKey: string, passphrase: string): Promise<CryptoKey> {
+  const sealed = JSON.parse(encryptedPrivateKey) as SealedPrivateKey
+  if (sealed.v !== 1 || sealed.kdf !== 'PBKDF2-SHA256') {
+    throw new Error('Unsupported private key format')
+  }
+
+  const sealingKey = await derivePassphraseKey(passphrase, fromBase64(sealed.salt), sealed.iterations)
+  let pkcs8: ArrayBuffer
+  try {
+    pkcs8 = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(sealed.iv) }, sealingKey, fromBase64(sealed.data))
+  } catch {
+    throw new Error('Incorrect passphrase')
+  }
+
+  return crypto.subtle.importKey('pkcs8', pkcs8, { name: 'RSA-OAEP', hash: 'SHA-256' }, false, ['unwrapKey'])
+}
+
+/**
+ * Short fingerprint of a public key, for users to compare out of band
+ */
+export async function getPublicKeyFingerprint(publicKey: string): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', fromBase64(publicKey)))
+  return Array.from(digest.subarray(0, 16), byte => byte.toString(16).padStart(2, '0'))
+    .join('')
+    .match(/.{4}/g)!
+    .join(' ')
+}
+
+/**
+ * Generate a random data key for a file
+ */
+export function generateFileKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']) as Promise<CryptoKey>
+}
+
+/**
+ * Wrap a file data key for a user's public key
+ */
+export async function wrapFileKey(fileKey: CryptoKey, publicKey: string): Promise<string> {
+  const recipientKey = await crypto.subtle.importKey(
+    'spki',
+    fromBase64(publicKey),
+    { name: 'RSA-OAEP', hash: 'SHA-256' },
+    false,
+    ['wrapKey']
+  )
+  const wrapped = await crypto.subtle.wrapKey('raw', fileKey, recipientKey, { name: 'RSA-OAEP' })
+  return `${E2E_WRAP_PREFIX}${toBase64(wrapped)}`
+}
+
+/**
+ * Unwrap a file data key with the user's unlocked private key
+ */
+export async function unwrapFileKey(wrappedKey: string, privateKey: CryptoKey): Promise<CryptoKey> {
+  if (!wrappedKey.startsWith(E2E_WRAP_PREFIX)) {
+    throw new Error('Not an end-to-end wrapped key')
+  }
+
+  try {
+    return await crypto.subtle.unwrapKey(
+      'raw',
+      fromBase64(wrappedKey.slice(E2E_WRAP_PREFIX.length)),
+      privateKey,
+      { name: 'RSA-OAEP' },
+      { name: 'AES-GCM', length: 256 },
+      true, // the envelope key check is an HMAC over the raw key
+      ['decrypt']
+    )
+  } catch {
+    throw new Error('This file was not encrypted for your key')
+  }
+}
+
+async function computeKeyCheck(fileKey: CryptoKey, headerPrefix: Uint8Array<ArrayBuffer>): Promise<Uint8Array> {
+  const raw = await crypto.subtle.exportKey('raw', fileKey)
+  const hmacKey = await crypto.subtle.importKey('raw', raw, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'])
+  const mac = await crypto.subtle.sign('HMAC', hmacKey, concatBytes(new TextEncoder().encode(KEY_CHECK_LABEL), headerPrefix))
+  return new Uint8Array(mac).subarray(0, KEY_CHECK_LENGTH)
+}
+
+function frameNonce(noncePrefix: Uint8Array, index: number): Uint8Array<ArrayBuffer> {
+  const nonce = new Uint8Array(12)
+  nonce.set(noncePrefix, 0)
+  new DataView(nonce.buffer).setUint32(NONCE_PREFIX_LENGTH, index)
+  return nonce
+}
+
+function frameAad(header: Uint8Array, index: number, final: boolean): Uint8Array<ArrayBuffer> {
+  const suffix = new Uint8Array(5)
+  new DataView(suffix.buffer).setUint32(0, index)
+  suffix[4] = final ? 1 : 0
+  return concatBytes(header, suffix)
+}
+
+/**
+ * Encrypt a file into the envelope format. The data key must be extractable (see generateFileKey).
+ */
+export async function encryptEnvelope(file: Blob, fileKey: CryptoKey, chunkSize: number = E2E_CHUNK_SIZE): Promise<Blob> {
+  const noncePrefix = crypto.getRandomValues(new Uint8Array(NONCE_PREFIX_LENGTH))
+  const fixed = new Uint8Array([...MAGIC, FORMAT_VERSION, KDF_RAW, 0, 0, 0, 0, 0, 0, 0, 0])
+  new DataView(fixed.buffer).setUint32(MAGIC.length + 6, chunkSize)
+  const prefix = concatBytes(fixed, noncePrefix)
+  const header = concatBytes(prefix, await computeKeyCheck(fileKey, prefix))
+
+  const parts: BlobPart[] = [header]
+  const frameCount = Math.max(1, Math.ceil(file.size / chunkSize))
+  for (let index = 0; index < frameCount; index++) {
+    const final = index === frameCount - 1
+    const plaintext = await file.slice(index * chunkSize, (index + 1) * chunkSize).arrayBuffer()
+    const sealed = new Uint8Array(await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv: frameNonce(noncePrefix, index), additionalData: frameAad(header, index, final) },
+      fileKey,
+      plaintext
+    ))
+
+    const frameHeader = new Uint8Array(FRAME_HEADER_LENGTH)
+    frameHeader[0] = final ? 1 : 0
+    new DataView(frameHeader.buffer).setUint32(1, sealed.length - TAG_LENGTH)
+    parts.push(frameHeader, sealed)
+  }
+
+  return new Blob(parts, { type: 'application/octet-stream' })
+}
+
+/**
+ * Decrypt an envelope produced by encryptEnvelope (or the server with a raw data key)
+ */
+export async function decryptEnvelope(data: Blob | ArrayBuffer, fileKey: CryptoKey, type = 'application/octet-stream'): Promise<Blob> {
+  const bytes = new Uint8Array(data instanceof Blob ? await data.arrayBuffer() : data)
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+
+  if (bytes.length < RAW_HEADER_LENGTH || MAGIC.some((byte, i) => bytes[i] !== byte)) {
+    throw new Error('Not an encrypted envelope')
+  }
+  if (bytes[4] !== FORMAT_VERSION || bytes[5] !== KDF_RAW || bytes[9] !== 0) {
+    throw new Error('Unsupported envelope format')
+  }
+
+  const chunkSize = view.getUint32(MAGIC.length + 6)
+  if (chunkSize === 0 || chunkSize > MAX_CHUNK_SIZE) {
+    throw new Error('Invalid envelope chunk size')
+  }
+
+  const prefixLength = RAW_HEADER_LENGTH - KEY_CHECK_LENGTH
+  const header = bytes.slice(0, RAW_HEADER_LENGTH)
+  const noncePrefix = bytes.slice(prefixLength - NONCE_PREFIX_LENGTH, prefixLength)
+  const expectedCheck = await computeKeyCheck(fileKey, bytes.slice(0, prefixLength))
+  if (expectedCheck.some((byte, i) => header[prefixLength + i] !== byte)) {
+    throw new Error('Invalid decryption key')
+  }
+
+  const parts: BlobPart[] = []
+  let offset = RAW_HEADER_LENGTH
+  let index = 0
+  let finished = false
+  while (!finished) {
+    if (offset + FRAME_HEADER_LENGTH > bytes.length) {
+      throw new Error('Encrypted file is truncated')
+    }
+    const final = bytes[offset] === 1
+    const length = view.getUint32(offset + 1)
+    const frameEnd = offset + FRAME_HEADER_LENGTH + length + TAG_LENGTH
+    if (length > chunkSize || frameEnd > bytes.length) {
+      throw new Error('Encrypted file is truncated')
+    }
+
+    try {
+      parts.push(await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: frameNonce(noncePrefix, index), additionalData: frameAad(header, index, final) },
+        fileKey,
+        bytes.subarray(offset + FRAME_HEADER_LENGTH, frameEnd)
+      ))
+    } catch {
+      throw new Error(`Integrity check failed for frame ${index}`)
+    }
+
+    offset = frameEnd
+    index++
+    finished = final
+  }
+
+  if (offset !== bytes.length) {
+    throw new Error('Unexpected data after final frame')
+  }
+
+  return new Blob(parts, { type })
+}
+
+// Unlocked private key, kept in memory for the lifetime of the page only
+let unlockedPrivateKey: CryptoKey | null = null
+
+/**
+ * Fetch the user's sealed private key and unlock it, asking for the passphrase once per page load
+ */
+export async function getUnlockedPrivateKey(askPassphrase: () => string | null): Promise<CryptoKey> {
+  if (unlockedPrivateKey) {
+    return unlockedPrivateKey
+  }
+
+  const response = await fetch('/api/users/keys')
+  if (!response.ok) {
+    throw new Error('Failed to load your encryption keys')
+  }
+  const { encryptedPrivateKey } = await response.json()
+  if (!encryptedPrivateKey) {
+    throw new Error('Set up end-to-end encryption keys in Settings first')
+  }
+
+  const passphrase = askPassphrase()
+  if (!passphrase) {
+    throw new Error('Passphrase required to decrypt this file')
+  }
+
+  unlockedPrivateKey = await unlockPrivateKey(encryptedPrivateKey, passphrase)
+  return unlockedPrivateKey
+}
+
+/**
+ * Download and decrypt an end-to-end encrypted file in the browser
+ */
+export async function downloadEndToEndFile(
+  fileId: string,
+  type: string,
+  askPassphrase: () => string | null,
+  downloadUrl = `/api/files/download/${fileId}`
+): Promise<Blob> {
+  const privateKey = await getUnlockedPrivateKey(askPassphrase)
+
+  const keyResponse = await fetch(`/api/files/${fileId}/key`)
+  const keyData = await keyResponse.json().catch(() => ({}))
+  if (!keyResponse.ok) {
+    throw new Error(keyData.error || 'Failed to load the file key')
+  }
+  const fileKey = await unwrapFileKey(keyData.wrappedKey, privateKey)
+
+  const response = await fetch(downloadUrl)
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ error: 'Unknown error' }))
+    throw new Error(errorData.error || `Download failed: ${response.status}`)
+  }
+
+  return decryptEnvelope(await response.blob(), fileKey, type)
+}
+
+/**
+ * Encrypt a file for its owner and recipients. Recipients without a public key are reported
+ * in missingKeys and get no wrapped key.
+ */
+export async function encryptForRecipients(file: Blob, recipientEmails: string[]): Promise<{
+  encrypted: Blob
+  wrappedKey: string
+  recipientKeys: Record<string, string>
+  missingKeys: string[]
+}> {
+  const ownResponse = await fetch('/api/users/keys')
+  const own = await ownResponse.json().catch(() => ({}))
+  if (!ownResponse.ok || !own.publicKey) {
+    throw new Error('Set up end-to-end encryption keys in Settings first')
+  }
+
+  const recipientKeys: Record<string, string> = {}
+  const missingKeys: string[] = []
+  const fileKey = await generateFileKey()
+
+  if (recipientEmails.length > 0) {
+    const lookup = await fetch(`/api/users/keys?emails=${encodeURIComponent(recipientEmails.join(','))}`)
+    if (!lookup.ok) {
+      throw new Error('Failed to look up recipient encryption keys')
+    }
+    const { keys } = await lookup.json()
+    for (const { email, publicKey } of keys as { email: string; publicKey: string | null }[]) {
+      if (publicKey) {
+        recipientKeys[email] = await wrapFileKey(fileKey, publicKey)
+      } else {
+        missingKeys.push(email)
+      }
+    }
+  }
+
+  return {
+    encrypted: await encryptEnvelope(file, fileKey),
+    wrappedKey: await wrapFileKey(fileKey, own.publicKey),
+    recipientKeys,
+    missingKeys
+  }
+}
@@ -28,6 +28,8 @@ export enum EmailType {
   FILE_SHARE = 'file_share',
   SHARE_EXPIRATION = 'share_expiration',
   BULK_SHARE = 'bulk_share',
+  FILE_REQUEST_UPLOAD = 'file_request_upload',
+  NOTIFICATION = 'notification',
   WELCOME = 'welcome',
 }
 
@@ -77,6 +79,33 @@ export interface BulkShareEmailData {
     shareId: string
   }>
   totalFiles: number
+  title?: string // Set when the files were sent as one transfer
+  message?: string
+  viewUrl?: string // Where the button leads; defaults to the received files page
+}
+
+export interface FileRequestUploadEmailData {
+  ownerId: string
+  requestId: string
+  requestTitle: string
+  uploaderName?: string
+  uploaderEmail?: string
+  uploaderMessage?: string
+  fileId: string
+  fileName: string
+  fileSize: number
+  fileType: string
+  uploadCount: number
+}
+
+export interface NotificationEmailData {
+  userId: string
+  recipientEmail: string
+  recipientName?: string
+  title: string
+  body: string
+  url?: string
+  notificationId: string
 }
 
 export interface ExpirationEmailData {
@@ -351,18 +380,28 @@ export async function sendBulkShareNotification(data: BulkShareEmailData): Promi
       return true
     }
 
+    const appUrl = process.env.APP_URL || 'https://privora12.com'
     const template = await loadTemplate('bulk-share')
     const variables = {
-      recipientName: recipient.name || data.recipientEmail.split('@')[0],
-      senderName: data.senderName || data.senderEmail,
+      recipientName: escapeHtml(recipient.name || data.recipientEmail.split('@')[0]),
+      recipientEmail: encodeURIComponent(data.recipientEmail),
+      senderName: escapeHtml(data.senderName || data.senderEmail),
+      senderEmail: escapeHtml(data.senderEmail),
       totalFiles: data.totalFiles.toString(),
-      filesList: data.files.map(f => `${f.name} (${formatFileSize(f.size)})`).join('\n'),
+      filesList: data.files
+        .map(f => `<div class="file-item">${escapeHtml(f.name)} (${formatFileSize(f.size)})</div>`)
+        .join('\n'),
+      transferTitle: data.title ? `<div class="transfer-title">${escapeHtml(data.title)}</div>` : '',
+      senderMessage: data.message ? `<div class="sender-message">${escapeHtml(data.message)}</div>` : '',
+      viewUrl: data.viewUrl || `${appUrl}/receive`,
       appName: process.env.APP_NAME || 'Privora12',
-      appUrl: process.env.APP_URL || 'https://privora12.com',
+      appUrl,
     }
 
     const html = replaceTemplateVariables(template, variables)
-    const subject = `${data.totalFiles} files shared with you`
+    const subject = data.title
+      ? `${data.senderName || data.senderEmail} sent you "${data.title}" (${data.totalFiles} files)`
+      : `${data.totalFiles} files shared with you`
 
     return await sendEmail(
       data.recipientEmail,
@@ -381,6 +420,107 @@ export async function sendBulkShareNotification(data: BulkShareEmailData): Promi
   }
 }
 
+// Tell a file request's owner about an upload. Uploader-supplied text is escaped because the
+// uploader has no account and anyone holding the link can write it.
+export async function sendFileRequestUploadNotification(data: FileRequestUploadEmailData): Promise<boolean> {
+  try {
+    const prisma = await getPrismaClient()
+    const owner = await prisma.user.findUnique({
+      where: { id: data.ownerId },
+      select: { id: true, name: true, email: true },
+    })
+
+    if (!owner) {
+      return false
+    }
+
+    // Files arriving through a request follow the same preference as files shared with the owner
+    const shouldSend = await shouldSendEmail(
+      owner.id,
+      EmailNotificationType.NEW_SHARES,
+      EmailNotificationFrequency.IMMEDIATE
+    )
+
+    if (!shouldSend) {
+      return true
+    }
+
+    const appUrl = process.env.APP_URL || 'https://privora12.com'
+    const template = await loadTemplate('file-request-upload')
+    const variables = {
+      ownerName: escapeHtml(owner.name || owner.email.split('@')[0]),
+      ownerEmail: encodeURIComponent(owner.email),
+      uploaderName: escapeHtml(data.uploaderName || 'Someone'),
+      uploaderEmail: data.uploaderEmail ? `(${escapeHtml(data.uploaderEmail)})` : '',
+      uploaderMessage: data.uploaderMessage
+        ? `<div class="uploader-message">${escapeHtml(data.uploaderMessage)}</div>`
+        : '',
+      requestTitle: escapeHtml(data.requestTitle),
+      fileName: escapeHtml(data.fileName),
+      fileSize: formatFileSize(data.fileSize),
+      fileType: escapeHtml(data.fileType),
+      uploadCount: String(data.uploadCount),
+      fileUrl: `${appUrl}/viewer/${data.fileId}`,
+      appName: process.env.APP_NAME || 'Privora12',
+      appUrl,
+    }
+
+    const html = replaceTemplateVariables(template, variables)
+    const subject = `New upload to "${data.requestTitle}": ${data.fileName}`
+
+    return await sendEmail(
+      owner.email,
+      subject,
+      html,
+      owner.id,
+      EmailType.FILE_REQUEST_UPLOAD,
+      {
+        fileRequestId: data.requestId,
+        fileId: data.fileId,
+        fileName: data.fileName,
+        uploaderEmail: data.uploaderEmail,
+      }
+    )
+  } catch (error) {
+    console.error('Error sending file request upload notification:', error)
+    return false
+  }
+}
+
+// Send the email channel of a notification from lib/notifications.ts, which has already
+// checked the recipient's preferences
+export async function sendNotificationEmail(data: NotificationEmailData): Promise<boolean> {
+  try {
+    const appUrl = process.env.APP_URL || 'https://privora12.com'
+    const template = await loadTemplate('notification')
+    const variables = {
+      recipientName: escapeHtml(data.recipientName || data.recipientEmail.split('@')[0]),
+      recipientEmail: encodeURIComponent(data.recipientEmail),
+      title: escapeHtml(data.title),
+      body: escapeHtml(data.body),
+      action: data.url
+        ? `<div style="text-align: center;"><a href="${escapeHtml(data.url)}" class="action-button">Open ${escapeHtml(process.env.APP_NAME || 'Privora12')}</a></div>`
+        : '',
+      appName: process.env.APP_NAME || 'Privora12',
+      appUrl,
+    }
+
+    const html = replaceTemplateVariables(template, variables)
+
+    return await sendEmail(
+      data.recipientEmail,
+      data.title,
+      html,
+      data.userId,
+      EmailType.NOTIFICATION,
+      { notificationId: data.notificationId }
+    )
+  } catch (error) {
+    console.error('Error sending notification email:', error)
+    return false
+  }
+}
+
 // Send expiration warning
 export async function sendExpirationWarning(data: ExpirationEmailData): Promise<boolean> {
   try {
@@ -449,6 +589,15 @@ function formatFileSize(bytes: number): string {
   return `${size.toFixed(1)} ${units[unitIndex]}`
 }
 
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
 function formatDate(date: Date): string {
   return date.toLocaleDateString('en-US', {
     year: 'numeric',
@@ -0,0 +1,461 @@
+// Server-side file encryption: versioned AES-256-GCM envelope with streaming support
+//
+// Envelope layout (all integers big-endian):
+//   magic "PRVE" (4) | version (1) | kdf (1) | log2N (1) | r (1) | p (1)
+//   saltLength (1) | salt | chunkSize (4) | noncePrefix (8) | keyCheck (16)
+// followed by frames:
+//   final flag (1) | ciphertext length (4) | ciphertext | GCM tag (16)
+//
+// Every frame is authenticated against the full header, its index and the final flag,
+// so reordered, truncated or spliced streams fail to decrypt.
+
+import crypto from 'crypto'
+import { Readable, Transform, TransformCallback } from 'stream'
+import { pipeline } from 'stream/promises'
+import { decryptFile as decryptLegacyFile } from './crypto'
+import { createEncryptionError } from './error-handling'
+
+const MAGIC = Buffer.from('PRVE', 'ascii')
+const FORMAT_VERSION = 1
+const SALT_LENGTH = 16
+const NONCE_PREFIX_LENGTH = 8
+const KEY_CHECK_LENGTH = 16
+const TAG_LENGTH = 16
+const FRAME_HEADER_LENGTH = 5
+const KEY_CHECK_LABEL = 'privora-envelope-key-check'
+
+export const DEFAULT_CHUNK_SIZE = 64 * 1024 // 64KB plaintext per frame
+const MAX_CHUNK_SIZE = 16 * 1024 * 1024
+
+export enum KdfAlgorithm {
+  RAW = 0, // secret is already a 256-bit key
+  SCRYPT = 1
+}
+
+export interface ScryptParams {
+  log2N: number
+  r: number
+  p: number
+}
+
+export const DEFAULT_SCRYPT_PARAMS: ScryptParams = { log2N: 15, r: 8, p: 1 }
+
+/**
+ * A passphrase (stretched with scrypt) or a raw 32-byte data key
+ */
+export type EnvelopeSecret = string | Buffer
+
+interface EnvelopeHeader {
+  bytes: Buffer
+  chunkSize: number
+  noncePrefix: Buffer
+}
+
+/**
+ * Stretch a passphrase into a 256-bit key with scrypt
+ */
+export function deriveKeyFromPassphrase(
+  passphrase: string,
+  salt: Buffer,
+  params: ScryptParams = DEFAULT_SCRYPT_PARAMS
+): Promise<Buffer> {
+  const N = 2 ** params.log2N
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(passphrase, salt, 32, {
+      N,
+      r: params.r,
+      p: params.p,
+      maxmem: 256 * N * params.r
+    }, (error, key) => error ? reject(error) : resolve(key))
+  })
+}
+
+async function deriveKey(
+  secret: EnvelopeSecret,
+  kdf: KdfAlgorithm,
+  salt: Buffer,
+  params: ScryptParams
+): Promise<Buffer> {
+  if (kdf === KdfAlgorithm.RAW) {
+    if (!Buffer.isBuffer(secret) || secret.length !== 32) {
+      throw createEncryptionError('A 256-bit data key is required for this file')
+    }
+    return secret
+  }
+
+  if (kdf === KdfAlgorithm.SCRYPT) {
+    if (typeof secret !== 'string' || secret.length === 0) {
+      throw createEncryptionError('A passphrase is required for this file')
+    }
+    return deriveKeyFromPassphrase(secret, salt, params)
+  }
+
+  throw createEncryptionError(`Unsupported key derivation algorithm: ${kdf}`)
+}
+
+function computeKeyCheck(key: Buffer, headerPrefix: Buffer): Buffer {
+  return crypto
+    .createHmac('sha256', key)
+    .update(KEY_CHECK_LABEL)
+    .update(headerPrefix)
+    .digest()
+    .subarray(0, KEY_CHECK_LENGTH)
+}
+
+function frameNonce(noncePrefix: Buffer, index: number): Buffer {
+  const nonce = Buffer.alloc(12)
+  noncePrefix.copy(nonce, 0)
+  nonce.writeUInt32BE(index, NONCE_PREFIX_LENGTH)
+  return nonce
+}
+
+function frameAad(header: Buffer, index: number, final: boolean): Buffer {
+  const suffix = Buffer.alloc(5)
+  suffix.writeUInt32BE(index, 0)
+  suffix.writeUInt8(final ? 1 : 0, 4)
+  return Buffer.concat([header, suffix])
+}
+
+async function buildHeader(
+  secret: EnvelopeSecret,
+  chunkSize: number
+): Promise<{ header: EnvelopeHeader; key: Buffer }> {
+  const kdf = Buffer.isBuffer(secret) ? KdfAlgorithm.RAW : KdfAlgorithm.SCRYPT
+  const params = kdf === KdfAlgorithm.SCRYPT ? DEFAULT_SCRYPT_PARAMS : { log2N: 0, r: 0, p: 0 }
+  const salt = kdf === KdfAlgorithm.SCRYPT ? crypto.randomBytes(SALT_LENGTH) : Buffer.alloc(0)
+  const noncePrefix = crypto.randomBytes(NONCE_PREFIX_LENGTH)
+
+  const fixed = Buffer.alloc(6)
+  fixed.writeUInt8(FORMAT_VERSION, 0)
+  fixed.writeUInt8(kdf, 1)
+  fixed.writeUInt8(params.log2N, 2)
+  fixed.writeUInt8(params.r, 3)
+  fixed.writeUInt8(params.p, 4)
+  fixed.writeUInt8(salt.length, 5)
+
+  const chunkSizeBytes = Buffer.alloc(4)
+  chunkSizeBytes.writeUInt32BE(chunkSize, 0)
+
+  const prefix = Buffer.concat([MAGIC, fixed, salt, chunkSizeBytes, noncePrefix])
+  const key = await deriveKey(secret, kdf, salt, params)
+  const bytes = Buffer.concat([prefix, computeKeyCheck(key, prefix)])
+
+  return { header: { bytes, chunkSize, noncePrefix }, key }
+}
+
+/**
+ * Parse and verify an envelope header. Returns null while more bytes are needed.
+ * Throws an encryption error when the key does not match the header's key check.
+ */
+async function parseHeader(
+  buffer: Buffer,
+  secret: EnvelopeSecret
+): Promise<{ header: EnvelopeHeader; key: Buffer } | null> {
+  const fixedEnd = MAGIC.length + 6
+  if (buffer.length < fixedEnd) {
+    return null
+  }
+
+  if (!buffer.subarray(0, MAGIC.length).equals(MAGIC)) {
+    throw createEncryptionError('Not an encrypted envelope')
+  }
+
+  const version = buffer.readUInt8(4)
+  if (version !== FORMAT_VERSION) {
+    throw createEncryptionError(`Unsupported envelope version: ${version}`)
+  }
+
+  const kdf = buffer.readUInt8(5) as KdfAlgorithm
+  const params = {
+    log2N: buffer.readUInt8(6),
+    r: buffer.readUInt8(7),
+    p: buffer.readUInt8(8)
+  }
+  const saltLength = buffer.readUInt8(9)
+  const headerLength = fixedEnd + saltLength + 4 + NONCE_PREFIX_LENGTH + KEY_CHECK_LENGTH
+  if (buffer.length < headerLength) {
+    return null
+  }
+
+  let offset = fixedEnd
+  const salt = buffer.subarray(offset, offset + saltLength)
+  offset += saltLength
+  const chunkSize = buffer.readUInt32BE(offset)
+  offset += 4
+  const noncePrefix = buffer.subarray(offset, offset + NONCE_PREFIX_LENGTH)
+  offset += NONCE_PREFIX_LENGTH
+  const keyCheck = buffer.subarray(offset, offset + KEY_CHECK_LENGTH)
+
+  if (chunkSize === 0 || chunkSize > MAX_CHUNK_SIZE) {
+    throw createEncryptionError('Invalid envelope chunk size')
+  }
+
+  const key = await deriveKey(secret, kdf, salt, params)
+  const expectedCheck = computeKeyCheck(key, buffer.subarray(0, offset))
+  if (!crypto.timingSafeEqual(keyCheck, expectedCheck)) {
+    throw createEncryptionError('Invalid decryption key')
+  }
+
+  return {
+    header: {
+      bytes: Buffer.from(buffer.subarray(0, headerLength)),
+      chunkSize,
+      noncePrefix: Buffer.from(noncePrefix)
+    },
+    key
+  }
+}
+
+/**
+ * Check whether data starts with the envelope magic bytes
+ */
+export function isEncryptedEnvelope(data: Buffer | Uint8Array): boolean {
+  return data.length >= MAGIC.length && Buffer.from(data.subarray(0, MAGIC.length)).equals(MAGIC)
+}
+
+/**
+ * Create a Transform stream that encrypts plaintext into the envelope format
+ */
+export function createEncryptStream(
+  secret: EnvelopeSecret,
+  chunkSize: number = DEFAULT_CHUNK_SIZE
+): Transform {
+  const ready = buildHeader(secret, chunkSize)
+  ready.catch(() => undefined) // surfaced through the stream's first callback instead
+  let state: { header: EnvelopeHeader; key: Buffer } | null = null
+  let pending = Buffer.alloc(0)
+  let index = 0
+
+  const sealFrame = (plaintext: Buffer, final: boolean): Buffer => {
+    const { header, key } = state!
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, frameNonce(header.noncePrefix, index))
+    cipher.setAAD(frameAad(header.bytes, index, final))
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()])
+    const frameHeader = Buffer.alloc(FRAME_HEADER_LENGTH)
+    frameHeader.writeUInt8(final ? 1 : 0, 0)
+    frameHeader.writeUInt32BE(ciphertext.length, 1)
+    index++
+    return Buffer.concat([frameHeader, ciphertext, cipher.getAuthTag()])
+  }
+
+  const start = async (stream: Transform) => {
+    if (!state) {
+      state = await ready
+      stream.push(state.header.bytes)
+    }
+  }
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback) {
+      start(this).then(() => {
+        pending = Buffer.concat([pending, chunk])
+        // Hold back at least one byte so the last frame is always emitted as final
+        while (pending.length > chunkSize) {
+          this.push(sealFrame(pending.subarray(0, chunkSize), false))
+          pending = pending.subarray(chunkSize)
+        }
+        callback()
+      }, error => callback(error))
+    },
+    flush(callback: TransformCallback) {
+      start(this).then(() => {
+        this.push(sealFrame(pending, true))
+        pending = Buffer.alloc(0)
+        callback()
+      }, error => callback(error))
+    }
+  })
+}
+
+/**
+ * Create a Transform stream that decrypts an envelope back to plaintext.
+ * onKeyVerified fires once the header's key check has passed.
+ */
+export function createDecryptStream(secret: EnvelopeSecret, onKeyVerified?: () => void): Transform {
+  let state: { header: EnvelopeHeader; key: Buffer } | null = null
+  let pending = Buffer.alloc(0)
+  let index = 0
+  let finished = false
+
+  const openFrames = (stream: Transform) => {
+    const { header, key } = state!
+    while (pending.length >= FRAME_HEADER_LENGTH) {
+      if (finished) {
+        throw createEncryptionError('Unexpected data after final frame')
+      }
+
+      const final = pending.readUInt8(0) === 1
+      const length = pending.readUInt32BE(1)
+      if (length > header.chunkSize) {
+        throw createEncryptionError('Frame exceeds envelope chunk size')
+      }
+
+      const frameLength = FRAME_HEADER_LENGTH + length + TAG_LENGTH
+      if (pending.length < frameLength) {
+        return
+      }
+
+      const ciphertext = pending.subarray(FRAME_HEADER_LENGTH, FRAME_HEADER_LENGTH + length)
+      const tag = pending.subarray(FRAME_HEADER_LENGTH + length, frameLength)
+      const decipher = crypto.createDecipheriv('aes-256-gcm', key, frameNonce(header.noncePrefix, index))
+      decipher.setAAD(frameAad(header.bytes, index, final))
+      decipher.setAuthTag(tag)
+
+      try {
+        stream.push(Buffer.concat([decipher.update(ciphertext), decipher.final()]))
+      } catch {
+        throw createEncryptionError(`Integrity check failed for frame ${index}`)
+      }
+
+      pending = pending.subarray(frameLength)
+      index++
+      finished = final
+    }
+  }
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback) {
+      pending = Buffer.concat([pending, chunk])
+
+      const process = async () => {
+        if (!state) {
+          state = await parseHeader(pending, secret)
+          if (!state) {
+            return
+          }
+          pending = pending.subarray(state.header.bytes.length)
+          onKeyVerified?.()
+        }
+        openFrames(this)
+      }
+
+      process().then(() => callback(), error => callback(error))
+    },
+    flush(callback: TransformCallback) {
+      if (!state || !finished || pending.length > 0) {
+        callback(createEncryptionError('Encrypted data is truncated'))
+        return
+      }
+      callback()
+    }
+  })
+}
+
+/**
+ * Wrap a ciphertext stream for decryption, resolving only once the key has been verified
+ * against the envelope header. Lets routes reject bad keys before sending response headers.
+ */
+export async function openDecryptStream(source: Readable, secret: EnvelopeSecret): Promise<Readable> {
+  let decrypt: Transform | null = null
+
+  await new Promise<void>((resolve, reject) => {
+    decrypt = createDecryptStream(secret, resolve)
+    decrypt.once('error', reject)
+    source.once('error', error => decrypt!.destroy(error))
+    source.pipe(decrypt)
+  })
+
+  return decrypt!
+}
+
+/**
+ * Encrypt a plaintext stream, forwarding source errors to the returned ciphertext stream
+ */
+export function encryptStream(source: Readable, secret: EnvelopeSecret): Readable {
+  const encrypt = createEncryptStream(secret)
+  source.once('error', error => encrypt.destroy(error))
+  return source.pipe(encrypt)
+}
+
+/**
+ * Open a stored encrypted file for streaming decryption. Envelope files are decrypted
+ * frame by frame; legacy CryptoJS files are detected by their missing magic bytes and
+ * decrypted in memory, since that format cannot be streamed.
+ */
+export async function openStoredFileDecryptStream(source: Readable, secret: EnvelopeSecret): Promise<Readable> {
+  const iterator: AsyncIterator<Buffer> = source[Symbol.asyncIterator]()
+  let head = Buffer.alloc(0)
+
+  while (head.length < MAGIC.length) {
+    const { value, done } = await iterator.next()
+    if (done) break
+    head = Buffer.concat([head, Buffer.from(value)])
+  }
+
+  const replay = Readable.from((async function* () {
+    if (head.length > 0) yield head
+    while (true) {
+      const { value, done } = await iterator.next()
+      if (done) return
+      yield Buffer.from(value)
+    }
+  })())
+
+  if (isEncryptedEnvelope(head)) {
+    return openDecryptStream(replay, secret)
+  }
+
+  if (typeof secret !== 'string') {
+    throw createEncryptionError('Legacy encrypted files require a passphrase')
+  }
+
+  const parts: Buffer[] = []
+  for await (const part of replay) {
+    parts.push(part)
+  }
+  return Readable.from([decryptLegacyBuffer(Buffer.concat(parts), secret)])
+}
+
+/**
+ * Encrypt an in-memory buffer into the envelope format
+ */
+export async function encryptBuffer(data: Buffer, secret: EnvelopeSecret): Promise<Buffer> {
+  const parts: Buffer[] = []
+  const encrypt = createEncryptStream(secret)
+  encrypt.on('data', (part: Buffer) => parts.push(part))
+  await pipeline(Readable.from([data]), encrypt)
+  return Buffer.concat(parts)
+}
+
+/**
+ * Decrypt stored file contents, accepting both the envelope format and
+ * legacy CryptoJS passphrase ciphertext written by earlier releases
+ */
+export async function decryptBuffer(data: Buffer, secret: EnvelopeSecret): Promise<Buffer> {
+  if (!isEncryptedEnvelope(data)) {
+    if (typeof secret !== 'string') {
+      throw createEncryptionError('Legacy encrypted files require a passphrase')
+    }
+    return decryptLegacyBuffer(data, secret)
+  }
+
+  const parts: Buffer[] = []
+  const decrypt = createDecryptStream(secret)
+  decrypt.on('data', (part: Buffer) => parts.push(part))
+  await pipeline(Readable.from([data]), decrypt)
+  return Buffer.concat(parts)
+}
+
+/**
+ * Decrypt a legacy CryptoJS base64 file. Legacy files have no integrity tag, so a wrong
+ * passphrase is only caught when the recovered PKCS#7 padding length is implausible.
+ */
+export function decryptLegacyBuffer(data: Buffer, passphrase: string): Buffer {
+  const text = data.toString('utf8').trim()
+  // "Salted__" marker plus 8-byte salt precede the AES-CBC blocks
+  const blocksLength = Buffer.from(text, 'base64').length - 16
+
+  let plaintext: ArrayBuffer
+  try {
+    plaintext = decryptLegacyFile(text, passphrase)
+  } catch {
+    throw createEncryptionError('Invalid decryption key')
+  }
+
+  const paddingLength = blocksLength - plaintext.byteLength
+  if (blocksLength <= 0 || paddingLength < 1 || paddingLength > 16) {
+    throw createEncryptionError('Invalid decryption key')
+  }
+
+  return Buffer.from(plaintext)
+}
@@ -0,0 +1,116 @@
+// In-browser file preview
+//
+// The viewer page (/viewer/[id]) loads file content from /api/files/[id]/preview. Media the
+// browser renders safely is served with its own content type; text and source code are served
+// as sandboxed text/plain and highlighted client-side. Encrypted files are decrypted exactly as
+// for downloads: with the server key, with the owner's passphrase, or in the browser for
+// end-to-end encryption. Opening a file that was shared with the viewer logs a PREVIEW access
+// event, and the viewer reports how long it stayed open when it closes.
+
+import { getPrismaClient } from './prisma'
+import { detectFormat } from './text-extraction'
+import { requiresPassphrase, isEndToEndEncrypted, WrappedKeyRecord } from './key-management'
+
+export const MAX_TEXT_PREVIEW_BYTES = 2 * 1024 * 1024 // 2MB
+const MAX_PREVIEW_DURATION_SECONDS = 24 * 60 * 60
+
+export type PreviewKind = 'image' | 'pdf' | 'video' | 'audio' | 'text' | 'code'
+
+// How the viewer obtains plaintext: directly, after asking for the file passphrase, or by
+// decrypting in the browser with the user's private key
+export type PreviewEncryption = 'none' | 'server' | 'passphrase' | 'e2e'
+
+const CODE_EXTENSIONS = [
+  'js', 'jsx', 'mjs', 'cjs', 'ts', 'tsx', 'json', 'py', 'rb', 'go', 'rs', 'java', 'kt', 'c', 'h',
+  'cpp', 'hpp', 'cs', 'php', 'css', 'scss', 'sql', 'sh', 'yml', 'yaml', 'toml', 'ini', 'xml',
+  'html', 'htm', 'svg'
+]
+
+/**
+ * How a file can be shown in the viewer, or null when it can only be downloaded
+ */
+export function getPreviewKind(type: string, name: string): PreviewKind | null {
+  const mimeType = (type || '').toLowerCase().split(';')[0].trim()
+
+  // SVG can carry scripts, so it is shown as markup rather than rendered
+  if (mimeType.startsWith('image/') && mimeType !== 'image/svg+xml') return 'image'
+  if (mimeType === 'application/pdf') return 'pdf'
+  if (mimeType.startsWith('video/')) return 'video'
+  if (mimeType.startsWith('audio/')) return 'audio'
+
+  const format = detectFormat(mimeType, name)
+  if (format !== 'text' && format !== 'html') {
+    return null
+  }
+  const extension = name.toLowerCase().split('.').pop() || ''
+  return CODE_EXTENSIONS.includes(extension) ? 'code' : 'text'
+}
+
+export function getPreviewEncryption(file: WrappedKeyRecord & { encrypted: boolean }): PreviewEncryption {
+  if (!file.encrypted) {
+    return 'none'
+  }
+  if (isEndToEndEncrypted(file)) {
+    return 'e2e'
+  }
+  return requiresPassphrase(file) || (!file.wrappedKey && !file.encryptionKey) ? 'passphrase' : 'server'
+}
+
+/**
+ * The direct or group share through which a user can see a file. Access events are recorded
+ * against a share, so previews of owned files and of files reached only through a shared
+ * folder are not logged.
+ */
+export async function findPreviewShare(user: { id: string; email?: string | null }, fileId: string): Promise<string | null> {
+  const prisma = await getPrismaClient()
+  const share = await prisma.fileShare.findFirst({
+    where: {
+      fileId,
+      revoked: false,
+      OR: [
+        { userId: user.id },
+        ...(user.email ? [{ sharedWithEmail: user.email }] : []),
+        { group: { members: { some: { id: user.id } } } }
+      ],
+      AND: {
+        OR: [
+          { expiresAt: null },
+          { expiresAt: { gt: new Date() } }
+        ]
+      }
+    },
+    select: { id: true },
+    orderBy: { createdAt: 'desc' }
+  })
+  return share?.id ?? null
+}
+
+/**
+ * Whether a viewer session already logged its preview; media players fetch the same file
+ * several times while seeking
+ */
+export async function isPreviewLogged(userId: string, fileId: string, sessionId: string): Promise<boolean> {
+  const prisma = await getPrismaClient()
+  const count = await prisma.fileAccessLog.count({
+    where: { userId, fileId, sessionId, eventType: 'PREVIEW' }
+  })
+  return count > 0
+}
+
+/**
+ * Store how long a viewer session kept a file open. Returns whether a preview was found.
+ */
+export async function recordPreviewDuration(
+  userId: string,
+  fileId: string,
+  sessionId: string,
+  durationSeconds: number
+): Promise<boolean> {
+  const duration = Math.min(Math.max(Math.round(durationSeconds), 0), MAX_PREVIEW_DURATION_SECONDS)
+  const prisma = await getPrismaClient()
+  const result = await prisma.fileAccessLog.updateMany({
+    where: { userId, fileId, sessionId, eventType: 'PREVIEW' },
+    data: { duration }
+  })
+  return result.count > 0
+}
@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import bcrypt from 'bcryptjs'
+
+interface StoredRequest {
+  id: string
+  failedPasswordAttempts: number
+  passwordLockedUntil: Date | null
+}
+
+// An in-memory FileRequest table for the password throttling updates
+const db = vi.hoisted(() => ({ requests: [] as StoredRequest[] }))
+
+vi.mock('./prisma', () => {
+  const fileRequest = {
+    update: async ({ where, data }: {
+      where: { id: string }
+      data: { failedPasswordAttempts: number | { increment: number }; passwordLockedUntil?: Date | null }
+    }) => {
+      const request = db.requests.find(request => request.id === where.id)
+      if (!request) throw new Error('Record to update not found')
+      request.failedPasswordAttempts = typeof data.failedPasswordAttempts === 'number'
+        ? data.failedPasswordAttempts
+        : request.failedPasswordAttempts + data.failedPasswordAttempts.increment
+      if (data.passwordLockedUntil !== undefined) request.passwordLockedUntil = data.passwordLockedUntil
+      return { ...request }
+    }
+  }
+  return { getPrismaClient: async () => ({ fileRequest }) }
+})
+
+import {
+  attemptFileRequestPassword,
+  FileRequestRecord,
+  getFileRequestUnavailableReason,
+  getFileRequestUnlockCookieName,
+  isFileRequestUnlocked
+} from './file-requests'
+import { getShareUnlockCookieName, issueShareUnlockToken, MAX_SHARE_PASSWORD_ATTEMPTS, SHARE_UNLOCK_HEADER } from './share-links'
+
+// A cheap cost factor keeps the tests fast; compare reads the cost from the hash
+const passwordHash = bcrypt.hashSync('drop files here', 4)
+
+function fileRequest(overrides: Partial<FileRequestRecord> = {}): FileRequestRecord {
+  return {
+    id: 'request-1',
+    title: 'Tax documents',
+    userId: 'owner',
+    folderId: null,
+    maxFileSize: null,
+    allowedTypes: [],
+    password: passwordHash,
+    passwordLockedUntil: db.requests[0]?.passwordLockedUntil ?? null,
+    expiresAt: null,
+    maxUploads: null,
+    uploadCount: 0,
+    revoked: false,
+    ...overrides
+  }
+}
+
+function unlockCarrier(cookies: Record<string, string>, headers: Record<string, string> = {}) {
+  return {
+    cookies: { get: (name: string) => (name in cookies ? { value: cookies[name] } : undefined) },
+    headers: new Headers(headers)
+  }
+}
+
+describe('file request passwords', () => {
+  beforeEach(() => {
+    db.requests = [{ id: 'request-1', failedPasswordAttempts: 0, passwordLockedUntil: null }]
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('locks the request after repeated wrong passwords, even against the right one', async () => {
+    for (let attempt = 1; attempt <= MAX_SHARE_PASSWORD_ATTEMPTS; attempt++) {
+      expect(await attemptFileRequestPassword(fileRequest(), 'wrong')).toBe(false)
+    }
+
+    expect(db.requests[0].passwordLockedUntil!.getTime()).toBeGreaterThan(Date.now())
+    await expect(attemptFileRequestPassword(fileRequest(), 'drop files here')).rejects.toMatchObject({ statusCode: 429 })
+  })
+
+  it('accepts the right password and resets the failure count', async () => {
+    await attemptFileRequestPassword(fileRequest(), 'wrong')
+
+    expect(await attemptFileRequestPassword(fileRequest(), 'drop files here')).toBe(true)
+    expect(db.requests[0].failedPasswordAttempts).toBe(0)
+    expect(await attemptFileRequestPassword(fileRequest({ password: null }), 'anything')).toBe(true)
+  })
+
+  it('accepts an unlock from its own cookie or the unlock header', () => {
+    vi.stubEnv('NEXTAUTH_SECRET', 'test-secret')
+    const request = fileRequest()
+    const token = issueShareUnlockToken(request.id, passwordHash)
+
+    expect(isFileRequestUnlocked(request, unlockCarrier({}))).toBe(false)
+    expect(isFileRequestUnlocked(request, unlockCarrier({ [getFileRequestUnlockCookieName(request.id)]: token }))).toBe(true)
+    expect(isFileRequestUnlocked(request, unlockCarrier({}, { [SHARE_UNLOCK_HEADER]: token }))).toBe(true)
+    // A share's unlock cookie is not read for a file request
+    expect(isFileRequestUnlocked(request, unlockCarrier({ [getShareUnlockCookieName(request.id)]: token }))).toBe(false)
+  })
+})
+
+describe('getFileRequestUnavailableReason', () => {
+  it('closes revoked, expired and full requests', () => {
+    expect(getFileRequestUnavailableReason(fileRequest())).toBeNull()
+    expect(getFileRequestUnavailableReason(fileRequest({ revoked: true }))).toBe('This file request has been closed')
+    expect(getFileRequestUnavailableReason(fileRequest({ expiresAt: new Date(Date.now() - 1000) }))).toBe(
+      'This file request has expired'
+    )
+    expect(getFileRequestUnavailableReason(fileRequest({ maxUploads: 2, uploadCount: 2 }))).toBe(
+      'This file request has received all the files it accepts'
+    )
+  })
+})
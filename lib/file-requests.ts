@@ -0,0 +1,336 @@
+// File requests
+//
+// A FileRequest is an upload-only link: anyone holding /r/[token] can upload files, without an
+// account, into the requester's files. Uploads pass ContentSecurity.validateFileUpload with the
+// request's type and size limits, are counted against the requester's quota and land as File
+// rows they own, in the request's folder. Passwords, unlock cookies and lockouts work as they do
+// for public share links (see lib/share-links.ts).
+
+import { Readable } from 'stream'
+import type { ReadableStream as NodeReadableStream } from 'stream/web'
+import { getPrismaClient } from './prisma'
+import { ContentSecurity, InputValidator } from './security'
+import { buildStorageKey } from './storage'
+import { releaseContent, storeContent } from './blob-store'
+import { reserveStorage, releaseStorage } from './storage-quota'
+import { applyAutoTags } from './file-tags'
+import { scheduleTextExtraction } from './search'
+import { scheduleThumbnails } from './thumbnails'
+import { scheduleScan } from './malware-scan'
+import {
+  generateShareToken,
+  isValidShareToken,
+  verifySharePassword,
+  verifyShareUnlockToken,
+  UnlockCarrier,
+  SHARE_UNLOCK_HEADER,
+  MAX_SHARE_PASSWORD_ATTEMPTS,
+  SHARE_PASSWORD_LOCKOUT_MS
+} from './share-links'
+import { createRateLimitError, createValidationError } from './error-handling'
+
+export const MAX_REQUEST_FILE_SIZE = 500 * 1024 * 1024 // The regular upload limit
+export const DEFAULT_REQUEST_TYPES = ['image/*', 'video/*', 'audio/*', 'application/*']
+export const MAX_REQUEST_LIFETIME_DAYS = 365
+const MAX_REQUEST_UPLOADS = 10000
+const MAX_TITLE_LENGTH = 200
+const MAX_MESSAGE_LENGTH = 2000
+const MIME_PATTERN = /^[a-z]+\/(\*|[a-z0-9][a-z0-9.+-]*)$/
+
+export interface FileRequestRecord {
+  id: string
+  title: string
+  userId: string
+  folderId: string | null
+  maxFileSize: number | null
+  allowedTypes: string[]
+  password: string | null
+  passwordLockedUntil: Date | null
+  expiresAt: Date | null
+  maxUploads: number | null
+  uploadCount: number
+  revoked: boolean
+}
+
+export interface FileRequestSettings {
+  title: string
+  message: string | null
+  folderId: string | null
+  maxFileSize: number | null
+  allowedTypes: string[]
+  expiresAt: Date | null
+  maxUploads: number | null
+}
+
+export interface RequestUploader {
+  name: string | null
+  email: string | null
+  message: string | null
+}
+
+export function generateFileRequestToken(): string {
+  return generateShareToken()
+}
+
+/**
+ * Build the public upload URL for a request token
+ */
+export function buildFileRequestUrl(token: string, origin?: string): string {
+  const base = (process.env.APP_URL || process.env.NEXTAUTH_URL || origin || '').replace(/\/$/, '')
+  return `${base}/r/${token}`
+}
+
+export function getFileRequestUnlockCookieName(requestId: string): string {
+  return `file_request_unlock_${requestId}`
+}
+
+/**
+ * Whether a request carries a valid unlock for a file request, in its cookie or the x-share-unlock header
+ */
+export function isFileRequestUnlocked(fileRequest: { id: string; password: string | null }, carrier: UnlockCarrier): boolean {
+  if (!fileRequest.password) {
+    return true
+  }
+  return verifyShareUnlockToken(fileRequest.id, fileRequest.password, carrier.cookies.get(getFileRequestUnlockCookieName(fileRequest.id))?.value) ||
+    verifyShareUnlockToken(fileRequest.id, fileRequest.password, carrier.headers.get(SHARE_UNLOCK_HEADER))
+}
+
+/**
+ * Validate the settings of a new file request. The folder is checked by the caller.
+ */
+export function parseFileRequestSettings(body: Record<string, unknown>): FileRequestSettings {
+  const title = InputValidator.sanitizeString(body.title, MAX_TITLE_LENGTH)
+  if (!title) {
+    throw createValidationError('A title is required')
+  }
+  const message = InputValidator.sanitizeString(body.message, MAX_MESSAGE_LENGTH) || null
+
+  let maxFileSize: number | null = null
+  if (body.maxFileSize !== undefined && body.maxFileSize !== null) {
+    maxFileSize = Number(body.maxFileSize)
+    if (!Number.isInteger(maxFileSize) || maxFileSize < 1 || maxFileSize > MAX_REQUEST_FILE_SIZE) {
+      throw createValidationError(`maxFileSize must be a number of bytes up to ${MAX_REQUEST_FILE_SIZE}`)
+    }
+  }
+
+  let allowedTypes: string[] = []
+  if (body.allowedTypes !== undefined && body.allowedTypes !== null) {
+    if (!Array.isArray(body.allowedTypes) || body.allowedTypes.some(type => typeof type !== 'string')) {
+      throw createValidationError('allowedTypes must be a list of MIME types such as "application/pdf" or "image/*"')
+    }
+    allowedTypes = [...new Set((body.allowedTypes as string[]).map(type => type.trim().toLowerCase()))]
+    const invalid = allowedTypes.find(type => !MIME_PATTERN.test(type))
+    if (invalid) {
+      throw createValidationError(`"${invalid}" is not a MIME type or "type/*" pattern`)
+    }
+  }
+
+  let expiresAt: Date | null = null
+  if (body.expiresAt) {
+    expiresAt = new Date(body.expiresAt as string)
+    const latest = Date.now() + MAX_REQUEST_LIFETIME_DAYS * 24 * 60 * 60 * 1000
+    if (isNaN(expiresAt.getTime()) || expiresAt.getTime() <= Date.now() || expiresAt.getTime() > latest) {
+      throw createValidationError(`Expiry must be a future date within ${MAX_REQUEST_LIFETIME_DAYS} days`)
+    }
+  }
+
+  let maxUploads: number | null = null
+  if (body.maxUploads !== undefined && body.maxUploads !== null) {
+    maxUploads = Number(body.maxUploads)
+    if (!Number.isInteger(maxUploads) || maxUploads < 1 || maxUploads > MAX_REQUEST_UPLOADS) {
+      throw createValidationError(`Upload limit must be a whole number between 1 and ${MAX_REQUEST_UPLOADS}`)
+    }
+  }
+
+  const folderId = typeof body.folderId === 'string' && body.folderId ? body.folderId : null
+
+  return { title, message, folderId, maxFileSize, allowedTypes, expiresAt, maxUploads }
+}
+
+/**
+ * Find an active or inactive request by its link token
+ */
+export async function findFileRequest(token: string) {
+  if (!isValidShareToken(token)) {
+    return null
+  }
+  const prisma = await getPrismaClient()
+  return prisma.fileRequest.findUnique({
+    where: { token },
+    include: { user: { select: { name: true, email: true } } }
+  })
+}
+
+/**
+ * Why a request no longer accepts uploads, or null while it does
+ */
+export function getFileRequestUnavailableReason(request: FileRequestRecord): string | null {
+  if (request.revoked) {
+    return 'This file request has been closed'
+  }
+  if (request.expiresAt && new Date(request.expiresAt) <= new Date()) {
+    return 'This file request has expired'
+  }
+  if (request.maxUploads && request.uploadCount >= request.maxUploads) {
+    return 'This file request has received all the files it accepts'
+  }
+  return null
+}
+
+/**
+ * Check a password attempt with the same per-link throttling as share passwords
+ */
+export async function attemptFileRequestPassword(request: FileRequestRecord, password: string): Promise<boolean> {
+  if (!request.password) {
+    return true
+  }
+  if (request.passwordLockedUntil && new Date(request.passwordLockedUntil) > new Date()) {
+    throw createRateLimitError('Too many incorrect passwords. Please try again later.')
+  }
+
+  const prisma = await getPrismaClient()
+  if (await verifySharePassword(password, request.password)) {
+    await prisma.fileRequest.update({
+      where: { id: request.id },
+      data: { failedPasswordAttempts: 0, passwordLockedUntil: null }
+    })
+    return true
+  }
+
+  const updated = await prisma.fileRequest.update({
+    where: { id: request.id },
+    data: { failedPasswordAttempts: { increment: 1 } },
+    select: { failedPasswordAttempts: true }
+  })
+  if (updated.failedPasswordAttempts >= MAX_SHARE_PASSWORD_ATTEMPTS) {
+    await prisma.fileRequest.update({
+      where: { id: request.id },
+      data: { failedPasswordAttempts: 0, passwordLockedUntil: new Date(Date.now() + SHARE_PASSWORD_LOCKOUT_MS) }
+    })
+  }
+  return false
+}
+
+/**
+ * Read the optional uploader details sent with an upload
+ */
+export function parseRequestUploader(formData: FormData): RequestUploader {
+  const name = InputValidator.sanitizeString(formData.get('name'), 100) || null
+  const email = InputValidator.sanitizeString(formData.get('email'), 254).toLowerCase() || null
+  if (email && !InputValidator.validateEmail(email)) {
+    throw createValidationError('Invalid email address')
+  }
+  const message = InputValidator.sanitizeString(formData.get('message'), MAX_MESSAGE_LENGTH) || null
+  return { name, email, message }
+}
+
+/**
+ * Take one of the request's upload slots. The limit is checked in the UPDATE itself so
+ * concurrent uploads cannot overshoot it; returns the new upload count, or null when full.
+ */
+async function claimUploadSlot(request: FileRequestRecord): Promise<number | null> {
+  const prisma = await getPrismaClient()
+  const claim = await prisma.fileRequest.updateMany({
+    where: {
+      id: request.id,
+      revoked: false,
+      ...(request.maxUploads ? { uploadCount: { lt: request.maxUploads } } : {})
+    },
+    data: { uploadCount: { increment: 1 } }
+  })
+  if (claim.count === 0) {
+    return null
+  }
+  const updated = await prisma.fileRequest.findUnique({
+    where: { id: request.id },
+    select: { uploadCount: true }
+  })
+  return updated?.uploadCount ?? null
+}
+
+async function releaseUploadSlot(requestId: string): Promise<void> {
+  const prisma = await getPrismaClient()
+  await prisma.fileRequest.updateMany({
+    where: { id: requestId, uploadCount: { gt: 0 } },
+    data: { uploadCount: { decrement: 1 } }
+  })
+}
+
+/**
+ * Store an upload to a file request as a file owned by the requester
+ */
+export async function acceptRequestUpload(
+  request: FileRequestRecord,
+  file: File,
+  uploader: RequestUploader
+) {
+  const maxSize = Math.min(request.maxFileSize ?? MAX_REQUEST_FILE_SIZE, MAX_REQUEST_FILE_SIZE)
+  const allowedTypes = request.allowedTypes.length > 0 ? request.allowedTypes : DEFAULT_REQUEST_TYPES
+  await ContentSecurity.validateFileUpload(file, allowedTypes, maxSize)
+
+  const uploadCount = await claimUploadSlot(request)
+  if (uploadCount === null) {
+    throw createValidationError('This file request has received all the files it accepts')
+  }
+
+  const prisma = await getPrismaClient()
+  let stored
+  try {
+    // Uploads count against the requester's quota, like their own uploads
+    await reserveStorage(request.userId, file.size)
+    try {
+      stored = await storeContent(
+        buildStorageKey(request.userId, file.name),
+        Readable.fromWeb(file.stream() as unknown as NodeReadableStream),
+        { contentType: file.type, dedupe: true }
+      )
+    } catch (error) {
+      await releaseStorage(request.userId, file.size)
+      throw error
+    }
+  } catch (error) {
+    await releaseUploadSlot(request.id)
+    throw error
+  }
+
+  // The request's folder may have been deleted since; the file then lands at the root
+  const folder = request.folderId
+    ? await prisma.folder.findFirst({ where: { id: request.folderId, userId: request.userId }, select: { id: true } })
+    : null
+
+  let newFile
+  try {
+    newFile = await prisma.file.create({
+      data: {
+        name: file.name,
+        originalName: file.name,
+        size: file.size,
+        type: file.type,
+        url: stored.url,
+        storageProvider: stored.storageProvider,
+        storageKey: stored.storageKey,
+        contentHash: stored.contentHash,
+        blobId: stored.blobId,
+        encrypted: false,
+        userId: request.userId,
+        folderId: folder?.id ?? null,
+        fileRequestId: request.id,
+        uploaderName: uploader.name,
+        uploaderEmail: uploader.email
+      },
+      omit: { encryptionKey: true, wrappedKey: true, keyId: true }
+    })
+  } catch (error) {
+    await releaseContent([stored])
+    await releaseStorage(request.userId, file.size)
+    await releaseUploadSlot(request.id)
+    throw error
+  }
+
+  await applyAutoTags(newFile)
+  scheduleTextExtraction(newFile.id)
+  scheduleThumbnails(newFile.id)
+  scheduleScan(newFile.id)
+
+  return { file: newFile, uploadCount }
+}
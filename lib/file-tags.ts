@@ -0,0 +1,237 @@
+// File tags
+//
+// Each file carries two kinds of FileTag rows: AUTO tags computed by generateFileTags (lib/ai.ts)
+// from the file's name, type and size, and USER tags added by people. Auto tags are recomputed
+// whenever the content changes and on a re-tag backfill; user tags are only changed by users.
+// A tag present in both sets is stored once, as a user tag, so a re-tag never drops it.
+
+import { getPrismaClient } from './prisma'
+import { generateFileTags, FileMetadata } from './ai'
+import { createValidationError } from './error-handling'
+
+export const MAX_TAG_LENGTH = 40
+export const MAX_USER_TAGS = 20
+const MAX_FILTER_TAGS = 10
+const RETAG_BATCH_SIZE = 100
+
+export type TagSource = 'AUTO' | 'USER'
+
+export interface TaggableFile {
+  id: string
+  name: string
+  type: string
+  size: number
+}
+
+export interface TagSuggestion {
+  tag: string
+  count: number
+}
+
+// Tags as returned alongside files
+export const fileTagSelect = {
+  select: { tag: true, source: true },
+  orderBy: { tag: 'asc' as const }
+}
+
+/**
+ * Normalize a tag to lowercase words joined by hyphens; null when nothing usable is left
+ */
+export function normalizeTag(tag: string): string | null {
+  const normalized = tag
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_]+/g, '-')
+    .replace(/[^a-z0-9-]/g, '')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '')
+  return normalized && normalized.length <= MAX_TAG_LENGTH ? normalized : null
+}
+
+/**
+ * Parse user-supplied tags from an array or a comma-separated string
+ */
+export function parseTagList(input: unknown): string[] {
+  if (input === undefined || input === null || input === '') {
+    return []
+  }
+  const raw = typeof input === 'string' ? input.split(',') : input
+  if (!Array.isArray(raw) || raw.some(tag => typeof tag !== 'string')) {
+    throw createValidationError('Tags must be a list of strings')
+  }
+
+  const tags = new Set<string>()
+  for (const tag of raw as string[]) {
+    if (!tag.trim()) continue
+    const normalized = normalizeTag(tag)
+    if (!normalized) {
+      throw createValidationError(`Invalid tag "${tag}": use letters, digits and hyphens, up to ${MAX_TAG_LENGTH} characters`)
+    }
+    tags.add(normalized)
+  }
+  if (tags.size > MAX_USER_TAGS) {
+    throw createValidationError(`A file can have at most ${MAX_USER_TAGS} tags`)
+  }
+  return [...tags]
+}
+
+/**
+ * Parse a ?tags=a,b query parameter; unusable entries are ignored
+ */
+export function parseTagFilter(param: string | null): string[] {
+  if (!param) return []
+  const tags = param.split(',').map(normalizeTag).filter((tag): tag is string => !!tag)
+  return [...new Set(tags)].slice(0, MAX_FILTER_TAGS)
+}
+
+/**
+ * File where-clause matching files that carry every one of the given tags
+ */
+export function fileTagFilter(tags: string[]) {
+  return tags.length > 0
+    ? { AND: tags.map(tag => ({ tags: { some: { tag } } })) }
+    : {}
+}
+
+/**
+ * Recompute a file's auto tags from its current metadata, replacing the previous set
+ */
+export async function autoTagFile(file: TaggableFile): Promise<string[]> {
+  const metadata: FileMetadata = { ...file, tags: [] }
+  const tags = (await generateFileTags(metadata))
+    .map(normalizeTag)
+    .filter((tag): tag is string => !!tag)
+
+  const prisma = await getPrismaClient()
+  await prisma.$transaction([
+    prisma.fileTag.deleteMany({ where: { fileId: file.id, source: 'AUTO', tag: { notIn: tags } } }),
+    prisma.fileTag.createMany({
+      data: tags.map(tag => ({ fileId: file.id, tag, source: 'AUTO' })),
+      skipDuplicates: true
+    })
+  ])
+  return tags
+}
+
+/**
+ * Auto-tag new or changed content. Tagging is best effort: a failure is logged and never
+ * fails the upload that triggered it; the re-tag backfill picks the file up later.
+ */
+export async function applyAutoTags(file: TaggableFile): Promise<void> {
+  try {
+    await autoTagFile(file)
+  } catch (error) {
+    console.error('Failed to auto-tag file:', file.id, error)
+  }
+}
+
+/**
+ * Replace a file's user tags. A tag the file already has as an auto tag becomes a user tag.
+ */
+export async function setUserTags(fileId: string, tags: string[]) {
+  const prisma = await getPrismaClient()
+  await prisma.$transaction([
+    prisma.fileTag.deleteMany({ where: { fileId, source: 'USER', tag: { notIn: tags } } }),
+    ...tags.map(tag => prisma.fileTag.upsert({
+      where: { fileId_tag: { fileId, tag } },
+      create: { fileId, tag, source: 'USER' },
+      update: { source: 'USER' }
+    }))
+  ])
+  return getFileTags(fileId)
+}
+
+export async function getFileTags(fileId: string): Promise<{ tag: string; source: TagSource }[]> {
+  const prisma = await getPrismaClient()
+  return prisma.fileTag.findMany({ where: { fileId }, ...fileTagSelect })
+}
+
+/**
+ * Give a copied file the same tags as its source; best effort like applyAutoTags
+ */
+export async function copyFileTags(fromFileId: string, toFileId: string): Promise<void> {
+  try {
+    const prisma = await getPrismaClient()
+    const tags: { tag: string; source: TagSource }[] = await prisma.fileTag.findMany({
+      where: { fileId: fromFileId },
+      select: { tag: true, source: true }
+    })
+    if (tags.length > 0) {
+      await prisma.fileTag.createMany({
+        data: tags.map(({ tag, source }) => ({ fileId: toFileId, tag, source })),
+        skipDuplicates: true
+      })
+    }
+  } catch (error) {
+    console.error('Failed to copy tags to file:', toFileId, error)
+  }
+}
+
+/**
+ * Autocomplete: the user's most used tags starting with a prefix, across files they own
+ * and files shared with them directly
+ */
+export async function suggestTags(
+  userId: string,
+  prefix: string,
+  limit = 10
+): Promise<TagSuggestion[]> {
+  const normalizedPrefix = prefix ? normalizeTag(prefix) : ''
+  if (normalizedPrefix === null) {
+    return []
+  }
+
+  const prisma = await getPrismaClient()
+  const groups: { tag: string; _count: { tag: number } }[] = await prisma.fileTag.groupBy({
+    by: ['tag'],
+    where: {
+      tag: { startsWith: normalizedPrefix },
+      file: {
+        deletedAt: null,
+        OR: [
+          { userId },
+          { shares: { some: { userId, revoked: false } } }
+        ]
+      }
+    },
+    _count: { tag: true },
+    orderBy: [{ _count: { tag: 'desc' } }, { tag: 'asc' }],
+    take: Math.min(Math.max(limit, 1), 50)
+  })
+
+  return groups.map(group => ({ tag: group.tag, count: group._count.tag }))
+}
+
+/**
+ * Backfill: recompute auto tags for every file, or one user's files
+ */
+export async function retagFiles(options: { userId?: string } = {}): Promise<{ retagged: number; failed: number }> {
+  const prisma = await getPrismaClient()
+  let retagged = 0
+  let failed = 0
+  let cursor: string | undefined
+
+  while (true) {
+    const files: TaggableFile[] = await prisma.file.findMany({
+      where: options.userId ? { userId: options.userId } : {},
+      select: { id: true, name: true, type: true, size: true },
+      orderBy: { id: 'asc' },
+      take: RETAG_BATCH_SIZE,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 })
+    })
+    if (files.length === 0) break
+
+    for (const file of files) {
+      try {
+        await autoTagFile(file)
+        retagged++
+      } catch (error) {
+        console.error('Failed to re-tag file:', file.id, error)
+        failed++
+      }
+    }
+    cursor = files[files.length - 1].id
+  }
+
+  return { retagged, failed }
+}
@@ -0,0 +1,495 @@
+// Folder hierarchy
+//
+// Folders nest through parentId and belong to a single owner; files point at their folder with
+// File.folderId, null meaning the root. A FolderShare grants its permissions on everything
+// beneath the folder: checkFileAccess and checkFolderAccess (lib/permissions.ts) walk the
+// ancestor chain looking for one. Copies get their own File rows; deduplicated content is
+// shared by reference (see lib/blob-store.ts) and counts against the owner's quota again.
+
+import { getPrismaClient } from './prisma'
+import { PathSanitizer } from './security'
+import { buildStorageKey, openStoredObject, StoredObjectRecord } from './storage'
+import { releaseContent, retainBlob, storeContent, ContentRecord } from './blob-store'
+import { reserveStorage, releaseStorage } from './storage-quota'
+import { copyFileTags } from './file-tags'
+import { copyFileContent } from './search'
+import { scheduleThumbnails } from './thumbnails'
+import { scheduleScan, ScanStatus } from './malware-scan'
+import { generateFileTags, suggestOrganization, FileMetadata } from './ai'
+import { createConflictError, createNotFoundError, createValidationError } from './error-handling'
+
+export const MAX_FOLDER_DEPTH = 32
+export const MAX_FOLDER_NAME_LENGTH = 255
+export const MAX_ITEMS_PER_OPERATION = 500
+const MAX_ORGANIZE_FILES = 1000
+
+export interface FolderSummary {
+  id: string
+  name: string
+  parentId: string | null
+}
+
+export interface FolderItems {
+  fileIds?: unknown
+  folderIds?: unknown
+}
+
+const folderSummarySelect = { id: true, name: true, parentId: true, userId: true }
+
+// Fields for folder listings, with item counts and active shares
+export const folderListSelect = {
+  id: true,
+  name: true,
+  parentId: true,
+  createdAt: true,
+  updatedAt: true,
+  _count: {
+    select: {
+      files: { where: { deletedAt: null } },
+      children: true,
+      shares: { where: { revoked: false } }
+    }
+  }
+}
+
+/**
+ * Validate and tidy a folder name
+ */
+export function validateFolderName(name: unknown): string {
+  if (typeof name !== 'string') {
+    throw createValidationError('Folder name is required')
+  }
+  const trimmed = name.trim()
+  if (!trimmed || trimmed === '.' || trimmed === '..' || /[/\\]/.test(trimmed)) {
+    throw createValidationError('Folder name cannot be empty or contain slashes')
+  }
+  if (trimmed.length > MAX_FOLDER_NAME_LENGTH) {
+    throw createValidationError(`Folder name must be at most ${MAX_FOLDER_NAME_LENGTH} characters`)
+  }
+  return PathSanitizer.sanitizeFilename(trimmed)
+}
+
+function toIdList(value: unknown, field: string): string[] {
+  if (value === undefined || value === null) {
+    return []
+  }
+  if (!Array.isArray(value) || !value.every(id => typeof id === 'string')) {
+    throw createValidationError(`${field} must be an array of IDs`)
+  }
+  return [...new Set(value as string[])]
+}
+
+/**
+ * Parse the fileIds/folderIds of a move or copy request
+ */
+export function parseFolderItems(items: FolderItems): { fileIds: string[]; folderIds: string[] } {
+  const fileIds = toIdList(items.fileIds, 'fileIds')
+  const folderIds = toIdList(items.folderIds, 'folderIds')
+  if (fileIds.length === 0 && folderIds.length === 0) {
+    throw createValidationError('Select at least one file or folder')
+  }
+  if (fileIds.length + folderIds.length > MAX_ITEMS_PER_OPERATION) {
+    throw createValidationError(`At most ${MAX_ITEMS_PER_OPERATION} items can be moved or copied at once`)
+  }
+  return { fileIds, folderIds }
+}
+
+/**
+ * A folder's ancestors from the root down to and including the folder itself
+ */
+export async function getFolderPath(folderId: string): Promise<FolderSummary[]> {
+  const prisma = await getPrismaClient()
+  const path: FolderSummary[] = []
+  let currentId: string | null = folderId
+
+  while (currentId && path.length <= MAX_FOLDER_DEPTH) {
+    const folder: FolderSummary | null = await prisma.folder.findUnique({
+      where: { id: currentId },
+      select: { id: true, name: true, parentId: true }
+    })
+    if (!folder) {
+      break
+    }
+    path.unshift(folder)
+    currentId = folder.parentId
+  }
+
+  return path
+}
+
+/**
+ * Load a folder the user owns. Null targets the root and resolves to null.
+ */
+export async function findOwnedFolder(userId: string, folderId: string | null | undefined) {
+  if (!folderId) {
+    return null
+  }
+  const prisma = await getPrismaClient()
+  const folder = await prisma.folder.findUnique({ where: { id: folderId }, select: folderSummarySelect })
+  if (!folder || folder.userId !== userId) {
+    throw createNotFoundError('Folder')
+  }
+  return folder
+}
+
+/**
+ * Refuse a name already used by a sibling folder
+ */
+export async function assertFolderNameAvailable(
+  userId: string,
+  parentId: string | null,
+  name: string,
+  excludeFolderId?: string
+): Promise<void> {
+  const prisma = await getPrismaClient()
+  const existing = await prisma.folder.findFirst({
+    where: {
+      userId,
+      parentId,
+      name: { equals: name, mode: 'insensitive' },
+      ...(excludeFolderId ? { NOT: { id: excludeFolderId } } : {})
+    },
+    select: { id: true }
+  })
+  if (existing) {
+    throw createConflictError(`A folder named "${name}" already exists here`)
+  }
+}
+
+/**
+ * Create a folder, checking its parent and depth
+ */
+export async function createFolder(userId: string, name: unknown, parentId: string | null) {
+  const folderName = validateFolderName(name)
+  await findOwnedFolder(userId, parentId)
+  if (parentId && (await getFolderPath(parentId)).length >= MAX_FOLDER_DEPTH) {
+    throw createValidationError(`Folders can be nested at most ${MAX_FOLDER_DEPTH} levels deep`)
+  }
+  await assertFolderNameAvailable(userId, parentId, folderName)
+
+  const prisma = await getPrismaClient()
+  return prisma.folder.create({
+    data: { name: folderName, parentId, userId }
+  })
+}
+
+/**
+ * The IDs of every folder beneath the given ones, level by level, with the tree's height
+ */
+async function collectSubtree(rootIds: string[]): Promise<{ folderIds: string[]; height: number }> {
+  const prisma = await getPrismaClient()
+  const folderIds = [...rootIds]
+  let level = rootIds
+  let height = rootIds.length > 0 ? 1 : 0
+
+  while (level.length > 0 && height <= MAX_FOLDER_DEPTH) {
+    const children: { id: string }[] = await prisma.folder.findMany({
+      where: { parentId: { in: level } },
+      select: { id: true }
+    })
+    level = children.map(child => child.id)
+    if (level.length > 0) {
+      folderIds.push(...level)
+      height++
+    }
+  }
+
+  return { folderIds, height }
+}
+
+async function loadOwnedItems(userId: string, fileIds: string[], folderIds: string[]) {
+  const prisma = await getPrismaClient()
+  const [files, folders] = await Promise.all([
+    fileIds.length > 0
+      ? prisma.file.findMany({ where: { id: { in: fileIds }, userId, deletedAt: null } })
+      : [],
+    folderIds.length > 0
+      ? prisma.folder.findMany({ where: { id: { in: folderIds }, userId }, select: folderSummarySelect })
+      : []
+  ])
+
+  if (files.length !== fileIds.length || folders.length !== folderIds.length) {
+    throw createNotFoundError('One or more files or folders')
+  }
+  return { files, folders }
+}
+
+/**
+ * Move files and folders into a folder the user owns, or to the root with null
+ */
+export async function moveItems(
+  userId: string,
+  items: FolderItems,
+  targetFolderId: string | null
+): Promise<{ movedFiles: number; movedFolders: number }> {
+  const { fileIds, folderIds } = parseFolderItems(items)
+  await findOwnedFolder(userId, targetFolderId)
+  const { folders } = await loadOwnedItems(userId, fileIds, folderIds)
+
+  if (folders.length > 0) {
+    const targetPath = targetFolderId ? await getFolderPath(targetFolderId) : []
+    // A folder cannot move into itself or anything beneath it
+    if (targetPath.some(ancestor => folderIds.includes(ancestor.id))) {
+      throw createValidationError('A folder cannot be moved into itself or one of its subfolders')
+    }
+    const { height } = await collectSubtree(folderIds)
+    if (targetPath.length + height > MAX_FOLDER_DEPTH) {
+      throw createValidationError(`Folders can be nested at most ${MAX_FOLDER_DEPTH} levels deep`)
+    }
+    for (const folder of folders) {
+      if (folder.parentId !== targetFolderId) {
+        await assertFolderNameAvailable(userId, targetFolderId, folder.name, folder.id)
+      }
+    }
+  }
+
+  const prisma = await getPrismaClient()
+  const [movedFiles, movedFolders] = await prisma.$transaction([
+    prisma.file.updateMany({ where: { id: { in: fileIds }, userId }, data: { folderId: targetFolderId } }),
+    prisma.folder.updateMany({ where: { id: { in: folderIds }, userId }, data: { parentId: targetFolderId } })
+  ])
+
+  return { movedFiles: movedFiles.count, movedFolders: movedFolders.count }
+}
+
+interface CopyableFile extends StoredObjectRecord {
+  id: string
+  name: string
+  originalName: string
+  size: number
+  type: string
+  contentHash: string | null
+  blobId: string | null
+  encrypted: boolean
+  encryptionKey: string | null
+  wrappedKey: string | null
+  keyId: string | null
+  fileType: string | null
+  scanStatus: ScanStatus
+}
+
+/**
+ * Copy one file's current content into a folder. Deduplicated content gains a reference;
+ * anything else is copied byte for byte, keeping the same wrapped key for encrypted files.
+ */
+async function copyFile(userId: string, file: CopyableFile, folderId: string | null, name: string) {
+  await reserveStorage(userId, file.size)
+
+  let content: ContentRecord & { contentHash: string | null }
+  try {
+    if (file.blobId) {
+      await retainBlob(file.blobId)
+      content = {
+        url: file.url,
+        storageKey: file.storageKey,
+        storageProvider: file.storageProvider,
+        contentHash: file.contentHash,
+        blobId: file.blobId
+      }
+    } else {
+      const source = await openStoredObject(file)
+      content = await storeContent(buildStorageKey(userId, file.name), source.stream, {
+        contentType: file.encrypted ? 'application/octet-stream' : file.type,
+        dedupe: !file.encrypted
+      })
+    }
+  } catch (error) {
+    await releaseStorage(userId, file.size)
+    throw error
+  }
+
+  const prisma = await getPrismaClient()
+  const copy: { id: string } = await prisma.file.create({
+    data: {
+      name,
+      originalName: file.originalName,
+      size: file.size,
+      type: file.type,
+      url: content.url,
+      storageProvider: content.storageProvider,
+      storageKey: content.storageKey,
+      contentHash: content.contentHash,
+      blobId: content.blobId,
+      encrypted: file.encrypted,
+      encryptionKey: file.encryptionKey,
+      wrappedKey: file.wrappedKey,
+      keyId: file.keyId,
+      fileType: file.fileType,
+      folderId,
+      userId
+    },
+    select: { id: true }
+  }).catch(async (error: unknown) => {
+    await releaseContent([content])
+    await releaseStorage(userId, file.size)
+    throw error
+  })
+
+  await copyFileTags(file.id, copy.id)
+  await copyFileContent(file.id, copy.id)
+  scheduleThumbnails(copy.id)
+  scheduleScan(copy.id)
+  return copy
+}
+
+function copyName(name: string): string {
+  const dot = name.lastIndexOf('.')
+  return dot > 0 ? `${name.slice(0, dot)} (copy)${name.slice(dot)}` : `${name} (copy)`
+}
+
+/**
+ * Copy files and folder trees into a folder the user owns, or to the root with null
+ */
+export async function copyItems(
+  userId: string,
+  items: FolderItems,
+  targetFolderId: string | null
+): Promise<{ copiedFiles: number; copiedFolders: number }> {
+  const { fileIds, folderIds } = parseFolderItems(items)
+  await findOwnedFolder(userId, targetFolderId)
+  const { files, folders } = await loadOwnedItems(userId, fileIds, folderIds)
+  const prisma = await getPrismaClient()
+
+  const targetPath = targetFolderId ? await getFolderPath(targetFolderId) : []
+  if (targetPath.some(ancestor => folderIds.includes(ancestor.id))) {
+    throw createValidationError('A folder cannot be copied into itself or one of its subfolders')
+  }
+  const { folderIds: subtreeIds, height } = await collectSubtree(folderIds)
+  if (targetPath.length + height > MAX_FOLDER_DEPTH) {
+    throw createValidationError(`Folders can be nested at most ${MAX_FOLDER_DEPTH} levels deep`)
+  }
+
+  // Top-level copies beside their original get a "(copy)" suffix; check names before copying anything
+  const rootNames = new Map<string, string>()
+  for (const folder of folders) {
+    const name = folder.parentId === targetFolderId ? copyName(folder.name) : folder.name
+    await assertFolderNameAvailable(userId, targetFolderId, name)
+    rootNames.set(folder.id, name)
+  }
+
+  // Copying would carry quarantined content back out of quarantine
+  if (files.some((file: CopyableFile) => file.scanStatus === 'INFECTED')) {
+    throw createValidationError('Quarantined files cannot be copied')
+  }
+
+  let copiedFiles = 0
+  let copiedFolders = 0
+
+  for (const file of files) {
+    await copyFile(userId, file, targetFolderId, file.folderId === targetFolderId ? copyName(file.name) : file.name)
+    copiedFiles++
+  }
+
+  // Recreate each tree top-down, mapping original folder IDs to their copies
+  const subtree: { id: string; name: string; parentId: string | null }[] = await prisma.folder.findMany({
+    where: { id: { in: subtreeIds } },
+    select: { id: true, name: true, parentId: true }
+  })
+  const copies = new Map<string, string>()
+
+  for (const folder of folders) {
+    const copy = await prisma.folder.create({
+      data: { name: rootNames.get(folder.id), parentId: targetFolderId, userId }
+    })
+    copies.set(folder.id, copy.id)
+    copiedFolders++
+  }
+  let pending = subtree.filter(folder => !copies.has(folder.id))
+
+  while (pending.length > 0) {
+    const ready = pending.filter(folder => folder.parentId && copies.has(folder.parentId))
+    if (ready.length === 0) {
+      break
+    }
+    for (const folder of ready) {
+      const copy = await prisma.folder.create({
+        data: { name: folder.name, parentId: copies.get(folder.parentId as string), userId }
+      })
+      copies.set(folder.id, copy.id)
+      copiedFolders++
+    }
+    pending = pending.filter(folder => !copies.has(folder.id))
+  }
+
+  const subtreeFiles = subtreeIds.length > 0
+    ? await prisma.file.findMany({ where: { folderId: { in: subtreeIds }, userId, deletedAt: null, scanStatus: { not: 'INFECTED' } } })
+    : []
+  for (const file of subtreeFiles) {
+    await copyFile(userId, file, copies.get(file.folderId) ?? null, file.name)
+    copiedFiles++
+  }
+
+  return { copiedFiles, copiedFolders }
+}
+
+/**
+ * Find a top-level folder by name or create it
+ */
+export async function findOrCreateRootFolder(userId: string, name: string) {
+  const folderName = validateFolderName(name)
+  const prisma = await getPrismaClient()
+  const existing = await prisma.folder.findFirst({
+    where: { userId, parentId: null, name: { equals: folderName, mode: 'insensitive' } }
+  })
+  return existing || prisma.folder.create({ data: { name: folderName, parentId: null, userId } })
+}
+
+/**
+ * Run suggestOrganization over the user's files that are not in a folder yet
+ */
+export async function suggestFolderOrganization(userId: string) {
+  const prisma = await getPrismaClient()
+  const files: { id: string; name: string; type: string; size: number; tags: { tag: string }[] }[] = await prisma.file.findMany({
+    where: { userId, folderId: null, deletedAt: null },
+    select: { id: true, name: true, type: true, size: true, tags: { select: { tag: true } } },
+    orderBy: { createdAt: 'desc' },
+    take: MAX_ORGANIZE_FILES
+  })
+
+  // Stored tags (lib/file-tags.ts) include the user's own; files never tagged get fresh auto tags
+  const metadata: FileMetadata[] = []
+  for (const { tags, ...file } of files) {
+    const base = { ...file, tags: tags.map(({ tag }) => tag) }
+    metadata.push(base.tags.length > 0 ? base : { ...base, tags: await generateFileTags(base) })
+  }
+  return suggestOrganization(metadata)
+}
+
+/**
+ * Apply a suggestOrganization mapping: create the named top-level folders (reusing existing
+ * ones) and move each unfiled file into its folder
+ */
+export async function applyFolderOrganization(
+  userId: string,
+  fileToFolderMapping: unknown
+): Promise<{ folders: FolderSummary[]; movedFiles: number }> {
+  if (!fileToFolderMapping || typeof fileToFolderMapping !== 'object' || Array.isArray(fileToFolderMapping)) {
+    throw createValidationError('fileToFolderMapping must map file IDs to folder names')
+  }
+  const entries = Object.entries(fileToFolderMapping as Record<string, unknown>)
+  if (entries.length > MAX_ORGANIZE_FILES) {
+    throw createValidationError(`At most ${MAX_ORGANIZE_FILES} files can be organized at once`)
+  }
+
+  const byFolder = new Map<string, string[]>()
+  for (const [fileId, folderName] of entries) {
+    const name = validateFolderName(folderName)
+    byFolder.set(name, [...(byFolder.get(name) || []), fileId])
+  }
+
+  const prisma = await getPrismaClient()
+  const folders: FolderSummary[] = []
+  let movedFiles = 0
+  for (const [name, fileIds] of byFolder) {
+    const folder = await findOrCreateRootFolder(userId, name)
+    folders.push({ id: folder.id, name: folder.name, parentId: folder.parentId })
+    // Files already filed elsewhere or owned by someone else are left alone
+    const moved = await prisma.file.updateMany({
+      where: { id: { in: fileIds }, userId, folderId: null, deletedAt: null },
+      data: { folderId: folder.id }
+    })
+    movedFiles += moved.count
+  }
+
+  return { folders, movedFiles }
+}
@@ -0,0 +1,98 @@
+import crypto from 'crypto'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+interface StoredFile {
+  id: string
+  encryptionKey: string | null
+  wrappedKey: string | null
+  keyId: string | null
+}
+
+type Condition = null | { not?: null; notIn?: string[]; gt?: string }
+
+// An in-memory File table supporting the filters the key migrations page with
+const db = vi.hoisted(() => ({ files: [] as StoredFile[] }))
+
+vi.mock('./prisma', () => {
+  const matches = (file: StoredFile, where: Record<string, Condition>) =>
+    Object.entries(where).every(([field, condition]) => {
+      const value = file[field as keyof StoredFile]
+      if (condition === null) return value === null
+      if ('not' in condition && value === null) return false
+      if (condition.notIn && value !== null && condition.notIn.includes(value)) return false
+      if (condition.gt !== undefined && (value === null || value <= condition.gt)) return false
+      return true
+    })
+
+  const prisma = {
+    file: {
+      // Like Prisma, a cursor starts the page at the cursor's position whether or not the cursor
+      // row still matches the filter, and skip counts from there
+      findMany: async ({ where, take, cursor, skip = 0 }: {
+        where: Record<string, Condition>
+        take: number
+        cursor?: { id: string }
+        skip?: number
+      }) =>
+        db.files
+          .filter(file => matches(file, where) && (!cursor || file.id >= cursor.id))
+          .sort((a, b) => a.id.localeCompare(b.id))
+          .slice(skip, skip + take)
+          .map(file => ({ ...file })),
+      update: async ({ where, data }: { where: { id: string }; data: Partial<StoredFile> }) => {
+        const file = db.files.find(candidate => candidate.id === where.id)
+        if (!file) throw new Error(`No file ${where.id}`)
+        Object.assign(file, data)
+        return { ...file }
+      }
+    }
+  }
+  return { getPrismaClient: async () => prisma }
+})
+
+const FILE_COUNT = 250 // More than two batches of ROTATION_BATCH_SIZE
+
+function masterKey(id: string) {
+  return `${id}:${crypto.randomBytes(32).toString('base64')}`
+}
+
+async function loadKeyManagement(masterKeys: string) {
+  vi.resetModules()
+  process.env.FILE_MASTER_KEYS = masterKeys
+  return import('./key-management')
+}
+
+describe('key migrations', () => {
+  beforeEach(() => {
+    db.files = []
+  })
+
+  it('wraps every plaintext key, across batches', async () => {
+    const { migratePlaintextKeys, resolveFileSecret } = await loadKeyManagement(masterKey('k1'))
+    for (let i = 0; i < FILE_COUNT; i++) {
+      db.files.push({ id: `file-${String(i).padStart(4, '0')}`, encryptionKey: `passphrase-${i}`, wrappedKey: null, keyId: null })
+    }
+
+    const result = await migratePlaintextKeys()
+
+    expect(result).toEqual({ migrated: FILE_COUNT, failed: 0 })
+    expect(db.files.filter(file => file.encryptionKey !== null)).toHaveLength(0)
+    expect(db.files.every(file => file.keyId === 'k1')).toBe(true)
+    expect(await resolveFileSecret(db.files[FILE_COUNT - 1])).toBe(`passphrase-${FILE_COUNT - 1}`)
+  })
+
+  it('re-wraps every key under an old master key, across batches', async () => {
+    const oldKey = masterKey('old')
+    const before = await loadKeyManagement(oldKey)
+    for (let i = 0; i < FILE_COUNT; i++) {
+      const { wrappedKey, keyId } = await before.createFileKey()
+      db.files.push({ id: `file-${String(i).padStart(4, '0')}`, encryptionKey: null, wrappedKey, keyId })
+    }
+
+    const { rotateWrappedKeys } = await loadKeyManagement(`${masterKey('new')},${oldKey}`)
+    const result = await rotateWrappedKeys()
+
+    expect(result).toEqual({ rewrapped: FILE_COUNT, failed: 0, currentKeyId: 'new' })
+    expect(db.files.filter(file => file.keyId !== 'new')).toHaveLength(0)
+  })
+})
@@ -0,0 +1,440 @@
+// Per-file data keys and key wrapping
+//
+// Each encrypted file gets a random 256-bit data key. The data key is never stored in
+// plaintext: it is wrapped (AES-256-GCM) either by a server master key from the
+// FILE_MASTER_KEYS keyring or by a key derived from the uploader's passphrase.
+//
+// Wrapped key formats stored in File.wrappedKey:
+//   mk1.<keyId>.<base64url(iv | ciphertext | tag)>              master-key wrapped
+//   pp1.<log2N>.<r>.<p>.<base64url(salt | iv | ciphertext | tag)>  passphrase wrapped
+//
+// The wrapped payload is a type byte (raw key or legacy passphrase) followed by the secret,
+// so files encrypted before key wrapping existed can be migrated without re-encrypting blobs.
+//
+// End-to-end encrypted files are encrypted in the browser (see lib/e2e-crypto.ts). Their data
+// key is wrapped for the owner's public key and stored as pk1.<base64(RSA-OAEP ciphertext)>;
+// recipients get their own copy on FileShare.wrappedKey. The server can never unwrap these.
+
+import crypto from 'crypto'
+import { getPrismaClient } from './prisma'
+import { deriveKeyFromPassphrase, DEFAULT_SCRYPT_PARAMS, EnvelopeSecret, ScryptParams } from './encryption'
+import { AppError, createEncryptionError, createInternalError, createValidationError } from './error-handling'
+
+export enum KeyWrapping {
+  MASTER = 'mk1',
+  PASSPHRASE = 'pp1',
+  PUBLIC_KEY = 'pk1'
+}
+
+enum SecretType {
+  DATA_KEY = 0,
+  LEGACY_PASSPHRASE = 1
+}
+
+const IV_LENGTH = 12
+const TAG_LENGTH = 16
+const SALT_LENGTH = 16
+const ROTATION_BATCH_SIZE = 100
+const MIN_USER_KEY_BITS = 2048
+const MAX_USER_KEY_BITS = 4096
+
+export interface FileKey {
+  dataKey: Buffer
+  wrappedKey: string
+  keyId: string | null
+}
+
+export interface WrappedKeyRecord {
+  wrappedKey?: string | null
+  encryptionKey?: string | null
+}
+
+interface Keyring {
+  currentId: string
+  keys: Map<string, Buffer>
+}
+
+let cachedKeyring: Keyring | null | undefined
+
+/**
+ * Parse the master keyring from FILE_MASTER_KEYS ("id:base64key,id:base64key", current key first)
+ * or a single FILE_MASTER_KEY. Returns null when server-managed encryption is not configured.
+ */
+export function getMasterKeyring(): Keyring | null {
+  if (cachedKeyring !== undefined) {
+    return cachedKeyring
+  }
+
+  const entries = process.env.FILE_MASTER_KEYS
+    ? process.env.FILE_MASTER_KEYS.split(',').map(entry => entry.trim()).filter(Boolean)
+    : process.env.FILE_MASTER_KEY
+      ? [`default:${process.env.FILE_MASTER_KEY.trim()}`]
+      : []
+
+  if (entries.length === 0) {
+    cachedKeyring = null
+    return null
+  }
+
+  const keys = new Map<string, Buffer>()
+  for (const entry of entries) {
+    const separator = entry.indexOf(':')
+    const id = entry.slice(0, separator)
+    const key = Buffer.from(entry.slice(separator + 1), 'base64')
+    if (separator <= 0 || !/^[A-Za-z0-9_-]+$/.test(id) || key.length !== 32) {
+      throw createInternalError('Invalid FILE_MASTER_KEYS entry: expected id:<base64 32-byte key>')
+    }
+    keys.set(id, key)
+  }
+
+  cachedKeyring = { currentId: entries[0].slice(0, entries[0].indexOf(':')), keys }
+  return cachedKeyring
+}
+
+export function isMasterKeyConfigured(): boolean {
+  return getMasterKeyring() !== null
+}
+
+function encodeSecret(secret: EnvelopeSecret): Buffer {
+  return typeof secret === 'string'
+    ? Buffer.concat([Buffer.from([SecretType.LEGACY_PASSPHRASE]), Buffer.from(secret, 'utf8')])
+    : Buffer.concat([Buffer.from([SecretType.DATA_KEY]), secret])
+}
+
+function decodeSecret(payload: Buffer): EnvelopeSecret {
+  const type = payload.readUInt8(0)
+  const body = payload.subarray(1)
+  if (type === SecretType.DATA_KEY) {
+    return Buffer.from(body)
+  }
+  if (type === SecretType.LEGACY_PASSPHRASE) {
+    return body.toString('utf8')
+  }
+  throw createEncryptionError('Unknown wrapped secret type')
+}
+
+function seal(kek: Buffer, plaintext: Buffer, aad: string): Buffer {
+  const iv = crypto.randomBytes(IV_LENGTH)
+  const cipher = crypto.createCipheriv('aes-256-gcm', kek, iv)
+  cipher.setAAD(Buffer.from(aad, 'utf8'))
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()])
+  return Buffer.concat([iv, ciphertext, cipher.getAuthTag()])
+}
+
+function open(kek: Buffer, sealed: Buffer, aad: string): Buffer {
+  const iv = sealed.subarray(0, IV_LENGTH)
+  const tag = sealed.subarray(sealed.length - TAG_LENGTH)
+  const ciphertext = sealed.subarray(IV_LENGTH, sealed.length - TAG_LENGTH)
+  const decipher = crypto.createDecipheriv('aes-256-gcm', kek, iv)
+  decipher.setAAD(Buffer.from(aad, 'utf8'))
+  decipher.setAuthTag(tag)
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()])
+}
+
+/**
+ * Generate a random 256-bit data key
+ */
+export function generateDataKey(): Buffer {
+  return crypto.randomBytes(32)
+}
+
+/**
+ * Wrap a secret with the current server master key
+ */
+export function wrapWithMasterKey(secret: EnvelopeSecret): { wrappedKey: string; keyId: string } {
+  const keyring = getMasterKeyring()
+  if (!keyring) {
+    throw createEncryptionError('Server-managed encryption is not configured')
+  }
+
+  const keyId = keyring.currentId
+  const sealed = seal(keyring.keys.get(keyId)!, encodeSecret(secret), `${KeyWrapping.MASTER}.${keyId}`)
+  return { wrappedKey: `${KeyWrapping.MASTER}.${keyId}.${sealed.toString('base64url')}`, keyId }
+}
+
+/**
+ * Wrap a secret with a key derived from a user passphrase
+ */
+export async function wrapWithPassphrase(
+  secret: EnvelopeSecret,
+  passphrase: string,
+  params: ScryptParams = DEFAULT_SCRYPT_PARAMS
+): Promise<string> {
+  const salt = crypto.randomBytes(SALT_LENGTH)
+  const kek = await deriveKeyFromPassphrase(passphrase, salt, params)
+  const prefix = `${KeyWrapping.PASSPHRASE}.${params.log2N}.${params.r}.${params.p}`
+  const sealed = seal(kek, encodeSecret(secret), prefix)
+  return `${prefix}.${Buffer.concat([salt, sealed]).toString('base64url')}`
+}
+
+/**
+ * Unwrap a stored key. Passphrase-wrapped keys need the uploader's passphrase.
+ */
+export async function unwrapFileKey(wrappedKey: string, passphrase?: string | null): Promise<EnvelopeSecret> {
+  const parts = wrappedKey.split('.')
+
+  try {
+    if (parts[0] === KeyWrapping.MASTER && parts.length === 3) {
+      const [, keyId, encoded] = parts
+      const kek = getMasterKeyring()?.keys.get(keyId)
+      if (!kek) {
+        throw createEncryptionError(`Master key ${keyId} is not available`)
+      }
+      return decodeSecret(open(kek, Buffer.from(encoded, 'base64url'), `${KeyWrapping.MASTER}.${keyId}`))
+    }
+
+    if (parts[0] === KeyWrapping.PUBLIC_KEY) {
+      throw createEncryptionError('File is end-to-end encrypted and can only be decrypted by its recipients')
+    }
+
+    if (parts[0] === KeyWrapping.PASSPHRASE && parts.length === 5) {
+      if (!passphrase) {
+        throw createEncryptionError('Decryption key required for encrypted file')
+      }
+      const params = { log2N: parseInt(parts[1], 10), r: parseInt(parts[2], 10), p: parseInt(parts[3], 10) }
+      const payload = Buffer.from(parts[4], 'base64url')
+      const kek = await deriveKeyFromPassphrase(passphrase, payload.subarray(0, SALT_LENGTH), params)
+      return decodeSecret(open(kek, payload.subarray(SALT_LENGTH), parts.slice(0, 4).join('.')))
+    }
+  } catch (error) {
+    if (error instanceof AppError) {
+      throw error
+    }
+    throw createEncryptionError('Invalid decryption key')
+  }
+
+  throw createEncryptionError('Unrecognized wrapped key format')
+}
+
+/**
+ * Whether unwrapping this key requires the user's passphrase
+ */
+export function requiresPassphrase(record: WrappedKeyRecord): boolean {
+  return !!record.wrappedKey?.startsWith(`${KeyWrapping.PASSPHRASE}.`)
+}
+
+/**
+ * Whether the file was encrypted in the browser with a key the server never sees
+ */
+export function isEndToEndEncrypted(record: WrappedKeyRecord): boolean {
+  return !!record.wrappedKey?.startsWith(`${KeyWrapping.PUBLIC_KEY}.`)
+}
+
+/**
+ * Check the shape of a data key wrapped for a user's public key. The ciphertext itself
+ * can only be verified by the holder of the private key.
+ */
+export function isValidPublicKeyWrap(value: unknown): value is string {
+  if (typeof value !== 'string' || !value.startsWith(`${KeyWrapping.PUBLIC_KEY}.`)) {
+    return false
+  }
+  const encoded = value.slice(KeyWrapping.PUBLIC_KEY.length + 1)
+  const length = Buffer.from(encoded, 'base64').length
+  return /^[A-Za-z0-9+/]+={0,2}$/.test(encoded) && length >= MIN_USER_KEY_BITS / 8 && length <= MAX_USER_KEY_BITS / 8
+}
+
+/**
+ * Validate a user's end-to-end public key (base64 SPKI, RSA 2048-4096 bits)
+ */
+export function validateUserPublicKey(publicKey: unknown): string {
+  if (typeof publicKey !== 'string' || publicKey.length === 0 || publicKey.length > 1024) {
+    throw createValidationError('Public key must be a base64-encoded SPKI key')
+  }
+
+  try {
+    const key = crypto.createPublicKey({ key: Buffer.from(publicKey, 'base64'), format: 'der', type: 'spki' })
+    const bits = key.asymmetricKeyDetails?.modulusLength || 0
+    if (key.asymmetricKeyType !== 'rsa' || bits < MIN_USER_KEY_BITS || bits > MAX_USER_KEY_BITS) {
+      throw new Error('unsupported key')
+    }
+  } catch {
+    throw createValidationError(`Public key must be an RSA key of ${MIN_USER_KEY_BITS}-${MAX_USER_KEY_BITS} bits`)
+  }
+
+  return publicKey
+}
+
+/**
+ * Check that a sealed private key has the shape produced by lib/e2e-crypto.ts. The server
+ * stores it for the user's other devices but cannot open it.
+ */
+export function validateSealedPrivateKey(encryptedPrivateKey: unknown): string {
+  let sealed: Record<string, unknown>
+  try {
+    if (typeof encryptedPrivateKey !== 'string' || encryptedPrivateKey.length > 8192) {
+      throw new Error('invalid')
+    }
+    sealed = JSON.parse(encryptedPrivateKey)
+  } catch {
+    throw createValidationError('Encrypted private key must be a sealed key JSON string')
+  }
+
+  const valid = sealed.v === 1 &&
+    sealed.kdf === 'PBKDF2-SHA256' &&
+    typeof sealed.iterations === 'number' && sealed.iterations >= 100000 &&
+    ['salt', 'iv', 'data'].every(field => typeof sealed[field] === 'string' && (sealed[field] as string).length > 0)
+  if (!valid) {
+    throw createValidationError('Encrypted private key must be a sealed key JSON string')
+  }
+
+  return encryptedPrivateKey as string
+}
+
+/**
+ * Create a data key for a new encrypted file. With a passphrase the key is wrapped by the
+ * passphrase (the server cannot decrypt without it); otherwise by the server master key.
+ */
+export async function createFileKey(passphrase?: string | null): Promise<FileKey> {
+  const dataKey = generateDataKey()
+
+  if (passphrase) {
+    return { dataKey, wrappedKey: await wrapWithPassphrase(dataKey, passphrase), keyId: null }
+  }
+
+  const { wrappedKey, keyId } = wrapWithMasterKey(dataKey)
+  return { dataKey, wrappedKey, keyId }
+}
+
+/**
+ * Resolve the secret needed to decrypt a file's blob. Rows that still carry a plaintext
+ * encryptionKey (not yet migrated) fall back to the supplied or stored passphrase.
+ */
+export async function resolveFileSecret(
+  file: WrappedKeyRecord,
+  userKey?: string | null
+): Promise<EnvelopeSecret> {
+  if (file.wrappedKey) {
+    return unwrapFileKey(file.wrappedKey, userKey)
+  }
+
+  const passphrase = userKey || file.encryptionKey
+  if (!passphrase) {
+    throw createEncryptionError('Decryption key required for encrypted file')
+  }
+  return passphrase
+}
+
+/**
+ * Wrap plaintext File.encryptionKey values with the master key and clear the plaintext.
+ * The blobs themselves are untouched; the wrapped secret is the original passphrase.
+ */
+export async function migratePlaintextKeys(): Promise<{ migrated: number; failed: number }> {
+  const prisma = await getPrismaClient()
+  let migrated = 0
+  let failed = 0
+  let cursor: string | undefined
+
+  while (true) {
+    const files = await prisma.file.findMany({
+      where: {
+        encryptionKey: { not: null },
+        wrappedKey: null,
+        ...(cursor && { id: { gt: cursor } })
+      },
+      select: { id: true, encryptionKey: true },
+      orderBy: { id: 'asc' },
+      take: ROTATION_BATCH_SIZE
+    })
+    if (files.length === 0) break
+
+    for (const file of files) {
+      try {
+        const { wrappedKey, keyId } = wrapWithMasterKey(file.encryptionKey)
+        await prisma.file.update({
+          where: { id: file.id },
+          data: { wrappedKey, keyId, encryptionKey: null }
+        })
+        migrated++
+      } catch (error) {
+        console.error('Failed to migrate encryption key for file:', file.id, error)
+        failed++
+      }
+    }
+    cursor = files[files.length - 1].id
+  }
+
+  return { migrated, failed }
+}
+
+/**
+ * Re-wrap every master-wrapped key that is not under the current master key.
+ * Passphrase-wrapped keys are left alone: the server cannot open them.
+ */
+export async function rotateWrappedKeys(options: { force?: boolean } = {}): Promise<{
+  rewrapped: number
+  failed: number
+  currentKeyId: string
+}> {
+  const keyring = getMasterKeyring()
+  if (!keyring) {
+    throw createEncryptionError('Server-managed encryption is not configured')
+  }
+
+  const prisma = await getPrismaClient()
+  let rewrapped = 0
+  let failed = 0
+  let cursor: string | undefined
+
+  while (true) {
+    const files = await prisma.file.findMany({
+      where: {
+        keyId: options.force ? { not: null } : { not: null, notIn: [keyring.currentId] },
+        ...(cursor && { id: { gt: cursor } })
+      },
+      select: { id: true, wrappedKey: true },
+      orderBy: { id: 'asc' },
+      take: ROTATION_BATCH_SIZE
+    })
+    if (files.length === 0) break
+
+    for (const file of files) {
+      try {
+        const secret = await unwrapFileKey(file.wrappedKey)
+        const { wrappedKey, keyId } = wrapWithMasterKey(secret)
+        await prisma.file.update({
+          where: { id: file.id },
+          data: { wrappedKey, keyId }
+        })
+        rewrapped++
+      } catch (error) {
+        console.error('Failed to re-wrap key for file:', file.id, error)
+        failed++
+      }
+    }
+    cursor = files[files.length - 1].id
+  }
+
+  return { rewrapped, failed, currentKeyId: keyring.currentId }
+}
+
+/**
+ * Summarize how file keys are currently protected
+ */
+export async function getKeyStatus() {
+  const prisma = await getPrismaClient()
+  const keyring = getMasterKeyring()
+
+  const [plaintextKeys, passphraseWrapped, endToEnd, byKeyId] = await Promise.all([
+    prisma.file.count({ where: { encryptionKey: { not: null } } }),
+    prisma.file.count({ where: { wrappedKey: { startsWith: `${KeyWrapping.PASSPHRASE}.` } } }),
+    prisma.file.count({ where: { wrappedKey: { startsWith: `${KeyWrapping.PUBLIC_KEY}.` } } }),
+    prisma.file.groupBy({
+      by: ['keyId'],
+      where: { keyId: { not: null } },
+      _count: { _all: true }
+    })
+  ])
+
+  return {
+    masterKeyConfigured: !!keyring,
+    currentKeyId: keyring?.currentId || null,
+    availableKeyIds: keyring ? Array.from(keyring.keys.keys()) : [],
+    plaintextKeys,
+    passphraseWrapped,
+    endToEnd,
+    masterWrapped: byKeyId.map((group: { keyId: string; _count: { _all: number } }) => ({
+      keyId: group.keyId,
+      count: group._count._all
+    }))
+  }
+}
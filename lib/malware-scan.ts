@@ -0,0 +1,408 @@
+// Malware scanning
+//
+// Uploads and new versions are scanned by a ClamAV daemon (clamd) over its socket protocol:
+// CLAMAV_SOCKET for a Unix socket, or CLAMAV_HOST / CLAMAV_PORT (default 3310) for TCP. Any
+// server speaking the same INSTREAM protocol will do, such as clamd-stand-in.mjs for local
+// development. Without either setting scanning is disabled and files stay PENDING.
+//
+// Scans run in the background through an in-process queue, one file at a time, like thumbnail
+// generation. File.scanStatus records the outcome. While scanning is enabled only CLEAN and
+// UNSCANNABLE files can be downloaded or shared; INFECTED files are blocked whether or not it is
+// enabled.
+//
+// Infected content is moved under the quarantine/ storage prefix, which is never served, and
+// the owner and every admin get a SECURITY_EVENT audit entry. Encrypted files are decrypted
+// for the scan when the server holds their key; passphrase-protected and end-to-end encrypted
+// files cannot be read and are marked UNSCANNABLE.
+
+import net from 'net'
+import { Readable } from 'stream'
+import { getPrismaClient } from './prisma'
+import { buildStorageKey, deleteStoredObject, openStoredObject, resolveStoredObject, storeObject, StoredObjectRecord } from './storage'
+import { openStoredFileDecryptStream } from './encryption'
+import { resolveFileSecret, WrappedKeyRecord } from './key-management'
+import { isServerReadable } from './share-links'
+import { createBackgroundQueue } from './background-queue'
+import { logAuditEvent, AuditAction, AuditSeverity } from './audit'
+import { emitToUser } from './socket'
+import { createAuthorizationError, createConflictError, createInternalError, createTimeoutError } from './error-handling'
+
+export const QUARANTINE_PREFIX = 'quarantine'
+const DEFAULT_CLAMD_PORT = 3310
+const SCAN_TIMEOUT_MS = Number(process.env.CLAMAV_TIMEOUT_MS) || 5 * 60 * 1000
+const CHUNK_SIZE = 64 * 1024 // clamd's default StreamMaxLength applies to the total, not per chunk
+const BACKFILL_BATCH_SIZE = 20
+const UNREADABLE_NOTE = 'Not scanned: encrypted with a key the server does not hold'
+
+export type ScanStatus = 'PENDING' | 'CLEAN' | 'UNSCANNABLE' | 'INFECTED' | 'ERROR'
+
+export interface ScanVerdict {
+  infected: boolean
+  signature: string | null
+}
+
+export interface ScannedFile extends StoredObjectRecord, WrappedKeyRecord {
+  id: string
+  userId: string
+  name: string
+  originalName: string | null
+  encrypted: boolean
+  scanStatus: ScanStatus
+}
+
+const scannedFileSelect = {
+  id: true,
+  userId: true,
+  name: true,
+  originalName: true,
+  encrypted: true,
+  url: true,
+  storageKey: true,
+  storageProvider: true,
+  wrappedKey: true,
+  encryptionKey: true,
+  scanStatus: true
+}
+
+type ScannerAddress = { path: string } | { host: string; port: number }
+
+function getScannerAddress(): ScannerAddress | null {
+  if (process.env.CLAMAV_SOCKET) {
+    return { path: process.env.CLAMAV_SOCKET }
+  }
+  if (process.env.CLAMAV_HOST || process.env.CLAMAV_PORT) {
+    return {
+      host: process.env.CLAMAV_HOST || '127.0.0.1',
+      port: Number(process.env.CLAMAV_PORT) || DEFAULT_CLAMD_PORT
+    }
+  }
+  return null
+}
+
+export function isScanningEnabled(): boolean {
+  return getScannerAddress() !== null
+}
+
+function writeChunk(socket: net.Socket, data: Buffer): Promise<void> {
+  return new Promise((resolve, reject) => {
+    socket.write(data, error => (error ? reject(error) : resolve()))
+  })
+}
+
+/**
+ * Send one null-terminated command to clamd, optionally followed by an INSTREAM body of
+ * length-prefixed chunks, and return its reply
+ */
+async function runScannerCommand(command: string, body?: Readable): Promise<string> {
+  const address = getScannerAddress()
+  if (!address) {
+    throw createInternalError('Malware scanner is not configured')
+  }
+
+  const socket = net.createConnection(address)
+  socket.setTimeout(SCAN_TIMEOUT_MS)
+  const reply = new Promise<string>((resolve, reject) => {
+    const received: Buffer[] = []
+    socket.on('data', chunk => received.push(chunk))
+    socket.on('end', () => resolve(Buffer.concat(received).toString('utf8').replace(/\0/g, '').trim()))
+    socket.on('timeout', () => {
+      socket.destroy()
+      reject(createTimeoutError('Malware scanner did not respond in time'))
+    })
+    socket.on('error', reject)
+  })
+  // Observed below; this keeps an early failure from being reported as unhandled
+  reply.catch(() => undefined)
+
+  try {
+    await writeChunk(socket, Buffer.from(`z${command}\0`))
+    if (body) {
+      for await (const data of body) {
+        const buffer = Buffer.isBuffer(data) ? data : Buffer.from(data)
+        for (let offset = 0; offset < buffer.length; offset += CHUNK_SIZE) {
+          const chunk = buffer.subarray(offset, offset + CHUNK_SIZE)
+          const length = Buffer.alloc(4)
+          length.writeUInt32BE(chunk.length)
+          await writeChunk(socket, Buffer.concat([length, chunk]))
+        }
+      }
+      await writeChunk(socket, Buffer.alloc(4))
+    }
+  } catch {
+    // clamd hangs up once a stream exceeds its size limit and its reply says so; connection
+    // failures reject the reply with the same error
+    body?.destroy()
+  }
+
+  try {
+    return await reply
+  } finally {
+    socket.destroy()
+  }
+}
+
+/**
+ * Whether the configured scanner is reachable and answering
+ */
+export async function pingScanner(): Promise<boolean> {
+  try {
+    return (await runScannerCommand('PING')) === 'PONG'
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Scan a stream of plaintext with clamd. Scanner failures (including clamd's own
+ * "... ERROR" replies, such as an exceeded size limit) are thrown.
+ */
+export async function scanStream(source: Readable): Promise<ScanVerdict> {
+  const reply = await runScannerCommand('INSTREAM', source)
+  const found = /^stream: (.+) FOUND$/.exec(reply)
+  if (found) {
+    return { infected: true, signature: found[1] }
+  }
+  if (reply === 'stream: OK') {
+    return { infected: false, signature: null }
+  }
+  throw createInternalError(`Malware scanner error: ${reply || 'no reply'}`)
+}
+
+/**
+ * Why a file's content may not be downloaded or shared yet, or null when it may
+ */
+export function getScanBlockReason(file: { scanStatus?: ScanStatus | null }): string | null {
+  switch (file.scanStatus) {
+    case 'INFECTED':
+      return 'File is quarantined: malware was detected'
+    case 'PENDING':
+      return isScanningEnabled() ? 'File is still being scanned for malware' : null
+    case 'ERROR':
+      return isScanningEnabled() ? 'File could not be scanned for malware' : null
+    case 'UNSCANNABLE':
+      // Allowed: the content opens only with a key the user holds and hands out themselves
+      return null
+    default:
+      return null
+  }
+}
+
+/**
+ * Throw unless a file's content may be downloaded or shared. A pending scan is a conflict the
+ * client can retry; quarantined and unscannable files are refused.
+ */
+export function assertFileClean(file: { scanStatus?: ScanStatus | null }): void {
+  const reason = getScanBlockReason(file)
+  if (!reason) return
+  if (file.scanStatus === 'PENDING') {
+    throw createConflictError(reason)
+  }
+  throw createAuthorizationError(reason)
+}
+
+/**
+ * Copy infected content under the quarantine prefix and point every row sharing it there,
+ * so neither the file, its versions nor deduplicated copies serve it again
+ */
+async function quarantineContent(file: ScannedFile): Promise<void> {
+  if (resolveStoredObject(file).key.startsWith(`${QUARANTINE_PREFIX}/`)) return
+
+  const prisma = await getPrismaClient()
+  const { stream } = await openStoredObject(file)
+  const moved = await storeObject(buildStorageKey(file.userId, file.name, QUARANTINE_PREFIX), stream, {
+    contentType: 'application/octet-stream'
+  })
+  const location = { url: moved.url, storageKey: moved.storageKey, storageProvider: moved.storageProvider }
+
+  await prisma.$transaction([
+    prisma.storedBlob.updateMany({ where: { url: file.url }, data: location }),
+    prisma.fileVersion.updateMany({ where: { url: file.url }, data: location }),
+    prisma.file.updateMany({ where: { url: file.url }, data: location })
+  ])
+  await deleteStoredObject(file)
+}
+
+/**
+ * Record a SECURITY_EVENT for the owner and for every admin, and tell the owner right away
+ */
+async function alertInfection(file: ScannedFile, signature: string): Promise<void> {
+  const prisma = await getPrismaClient()
+  const details = {
+    type: 'malware_detected',
+    fileName: file.originalName || file.name,
+    ownerId: file.userId,
+    signature
+  }
+
+  await logAuditEvent({
+    userId: file.userId,
+    action: AuditAction.SECURITY_EVENT,
+    resource: 'file',
+    resourceId: file.id,
+    details,
+    severity: AuditSeverity.HIGH
+  })
+
+  const admins: { id: string }[] = await prisma.user.findMany({ where: { role: 'admin' }, select: { id: true } })
+  for (const admin of admins) {
+    if (admin.id === file.userId) continue
+    await logAuditEvent({
+      userId: admin.id,
+      action: AuditAction.SECURITY_EVENT,
+      resource: 'file',
+      resourceId: file.id,
+      details,
+      severity: AuditSeverity.CRITICAL
+    })
+  }
+
+  emitToUser(file.userId, 'file-quarantined', {
+    fileId: file.id,
+    fileName: details.fileName,
+    signature
+  })
+}
+
+// Background queue: file ids waiting for a scan
+const queue = createBackgroundQueue('scan file', fileId => scanFile(fileId))
+
+/**
+ * Queue a malware scan for a file without waiting for it. Does nothing while scanning is
+ * disabled; the file stays PENDING for the admin backfill.
+ */
+export function scheduleScan(fileId: string): void {
+  if (isScanningEnabled()) {
+    queue.schedule(fileId)
+  }
+}
+
+/**
+ * Mark a file unscanned after its content changed and queue a new scan. Best effort like
+ * thumbnails: a failure is logged and never fails the upload.
+ */
+export async function invalidateScan(fileId: string): Promise<void> {
+  try {
+    const prisma = await getPrismaClient()
+    await prisma.file.update({
+      where: { id: fileId },
+      data: { scanStatus: 'PENDING', scanResult: null, scannedAt: null }
+    })
+    // Queued even while the old content is being scanned; that run discards its result
+    if (isScanningEnabled()) {
+      queue.requeue(fileId)
+    }
+  } catch (error) {
+    console.error('Failed to invalidate malware scan for file:', fileId, error)
+  }
+}
+
+/**
+ * Scan a file's current content and record the outcome in File.scanStatus, quarantining it and
+ * alerting the owner and admins when it is infected. Returns the new status.
+ */
+export async function scanFile(fileId: string): Promise<ScanStatus> {
+  const prisma = await getPrismaClient()
+  const file: ScannedFile | null = await prisma.file.findUnique({
+    where: { id: fileId },
+    select: scannedFileSelect
+  })
+  if (!file) {
+    return 'ERROR'
+  }
+  if (!isScanningEnabled()) {
+    return file.scanStatus
+  }
+
+  // The content may change while it is scanned; a result for replaced content is dropped and
+  // the status left to the scan queued by invalidateScan
+  const record = async (status: ScanStatus, scanResult: string | null): Promise<ScanStatus> => {
+    const { count } = await prisma.file.updateMany({
+      where: { id: fileId, url: file.url },
+      data: { scanStatus: status, scanResult, scannedAt: new Date() }
+    })
+    return count > 0 ? status : 'PENDING'
+  }
+
+  if (!isServerReadable(file)) {
+    return record('UNSCANNABLE', UNREADABLE_NOTE)
+  }
+
+  let verdict: ScanVerdict
+  try {
+    const { stream } = await openStoredObject(file)
+    let source: Readable = stream
+    if (file.encrypted) {
+      try {
+        source = await openStoredFileDecryptStream(stream, await resolveFileSecret(file))
+      } catch (error) {
+        stream.destroy()
+        throw error
+      }
+    }
+    verdict = await scanStream(source)
+  } catch (error) {
+    console.error('Malware scan failed for file:', fileId, error)
+    return record('ERROR', error instanceof Error ? error.message : 'Scan failed')
+  }
+
+  if (!verdict.infected) {
+    return record('CLEAN', null)
+  }
+
+  const signature = verdict.signature || 'unknown'
+  const status = await record('INFECTED', signature)
+  if (status !== 'INFECTED') {
+    return status
+  }
+  // Deduplicated copies carry the same bytes, so they are infected too
+  await prisma.file.updateMany({
+    where: { url: file.url, scanStatus: { not: 'INFECTED' } },
+    data: { scanStatus: 'INFECTED', scanResult: signature, scannedAt: new Date() }
+  })
+  try {
+    await quarantineContent(file)
+  } catch (error) {
+    // Still blocked by its status; the content stays where it is until a rescan moves it
+    console.error('Failed to quarantine infected file:', fileId, error)
+  }
+  await alertInfection(file, signature)
+  return status
+}
+
+/**
+ * Backfill: scan files still PENDING (or ERROR, with retryFailed), optionally for one user
+ */
+export async function backfillScans(options: { userId?: string; retryFailed?: boolean } = {}): Promise<
+  Record<ScanStatus, number>
+> {
+  if (!isScanningEnabled()) {
+    throw createConflictError('Malware scanning is not configured')
+  }
+
+  const prisma = await getPrismaClient()
+  const counts: Record<ScanStatus, number> = { PENDING: 0, CLEAN: 0, UNSCANNABLE: 0, INFECTED: 0, ERROR: 0 }
+  const statuses: ScanStatus[] = options.retryFailed ? ['PENDING', 'ERROR'] : ['PENDING']
+  let cursor: string | undefined
+
+  // Scanned files leave the filtered set, so paging continues after the last id seen
+  while (true) {
+    const files: { id: string }[] = await prisma.file.findMany({
+      where: {
+        scanStatus: { in: statuses },
+        ...(options.userId && { userId: options.userId }),
+        ...(cursor && { id: { gt: cursor } })
+      },
+      select: { id: true },
+      orderBy: { id: 'asc' },
+      take: BACKFILL_BATCH_SIZE
+    })
+    if (files.length === 0) break
+
+    for (const file of files) {
+      counts[await scanFile(file.id)]++
+    }
+    cursor = files[files.length - 1].id
+  }
+
+  return counts
+}
@@ -0,0 +1,375 @@
+// Notifications
+//
+// notifyUser records a Notification and sends it over every channel the recipient's preferences
+// allow: email (the email preferences in settings), Web Push (lib/push.ts) and SMS (lib/sms.ts).
+// Each channel is an adapter that decides whether it applies to a recipient and sends; each
+// channel's send is a NotificationLog row. A failed send is retried with increasing delays until
+// the log's maxAttempts, independently of the other channels.
+//
+// A dedupKey makes notifying idempotent per channel: notifying again with the same key reuses the
+// first notification and only sends on the channels it was not sent on before.
+
+import { getPrismaClient } from './prisma'
+import { EmailNotificationType, sendNotificationEmail, shouldSendEmail } from './email'
+import { countPushSubscriptions, isPushEnabled, sendPushToUser } from './push'
+import { getSmsProvider, isSmsEnabled } from './sms'
+import { createNetworkError, createNotFoundError } from './error-handling'
+import { createRetrySchedule, retryDelay } from './retry-schedule'
+
+export type NotificationChannel = 'EMAIL' | 'PUSH' | 'SMS'
+export type NotificationStatus = 'PENDING' | 'SENT' | 'FAILED'
+
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = ['EMAIL', 'PUSH', 'SMS']
+
+const SMS_MAX_LENGTH = 320
+
+export interface NotificationRecord {
+  id: string
+  userId: string
+  type: EmailNotificationType
+  title: string
+  body: string
+  url: string | null
+  dedupKey: string | null
+  metadata: string | null
+  readAt: Date | null
+  createdAt: Date
+}
+
+export interface NotificationLogRecord {
+  id: string
+  notificationId: string
+  channel: NotificationChannel
+  status: NotificationStatus
+  recipient: string | null
+  attempts: number
+  maxAttempts: number
+  providerMessageId: string | null
+  errorMessage: string | null
+  lastAttemptAt: Date | null
+  sentAt: Date | null
+  nextRetryAt: Date | null
+  createdAt: Date
+}
+
+export interface NotifyInput {
+  userId: string
+  type: EmailNotificationType
+  title: string
+  body: string
+  url?: string | null
+  dedupKey?: string
+  metadata?: Record<string, unknown>
+  channels?: NotificationChannel[] // Limits the channels tried; preferences still apply
+}
+
+export interface NotifyResult {
+  notification: NotificationRecord
+  logs: NotificationLogRecord[] // Every channel the notification went out on
+  sent: NotificationLogRecord[] // The channels this call sent on
+  deduplicated: boolean
+}
+
+interface Recipient {
+  id: string
+  email: string
+  name: string | null
+  phoneNumber: string | null
+  pushNotifications: boolean
+  smsNotifications: boolean
+}
+
+const recipientSelect = {
+  id: true,
+  email: true,
+  name: true,
+  phoneNumber: true,
+  pushNotifications: true,
+  smsNotifications: true
+}
+
+interface NotificationWithLogs {
+  notification: NotificationRecord
+  logs: NotificationLogRecord[]
+}
+
+interface ChannelAdapter {
+  // Whether the recipient gets notifications of this kind on this channel at the moment
+  accepts(recipient: Recipient, notification: NotificationRecord): Promise<boolean>
+  // Where the notification goes, recorded on its log; null when there is no single address
+  address(recipient: Recipient): string | null
+  // Send the notification and return the provider's message ID, if it gives one; throws when
+  // the send failed and should be retried
+  send(recipient: Recipient, notification: NotificationRecord): Promise<string | null>
+}
+
+const emailAdapter: ChannelAdapter = {
+  accepts: (recipient, notification) => shouldSendEmail(recipient.id, notification.type),
+  address: recipient => recipient.email,
+  async send(recipient, notification) {
+    const sent = await sendNotificationEmail({
+      userId: recipient.id,
+      recipientEmail: recipient.email,
+      recipientName: recipient.name || undefined,
+      title: notification.title,
+      body: notification.body,
+      url: notification.url || undefined,
+      notificationId: notification.id
+    })
+    if (!sent) {
+      throw createNetworkError('Email could not be sent')
+    }
+    return null
+  }
+}
+
+const pushAdapter: ChannelAdapter = {
+  async accepts(recipient) {
+    return isPushEnabled() && recipient.pushNotifications && (await countPushSubscriptions(recipient.id)) > 0
+  },
+  address: () => null,
+  async send(recipient, notification) {
+    await sendPushToUser(recipient.id, {
+      title: notification.title,
+      body: notification.body,
+      url: notification.url,
+      tag: notification.id
+    })
+    return null
+  }
+}
+
+const smsAdapter: ChannelAdapter = {
+  async accepts(recipient) {
+    return isSmsEnabled() && recipient.smsNotifications && Boolean(recipient.phoneNumber)
+  },
+  address: recipient => recipient.phoneNumber,
+  async send(recipient, notification) {
+    const provider = getSmsProvider()
+    if (!provider || !recipient.phoneNumber) {
+      throw createNetworkError('SMS is not available')
+    }
+    const text = [notification.title, notification.body, notification.url].filter(Boolean).join('\n')
+    return provider.send({ to: recipient.phoneNumber, body: text.slice(0, SMS_MAX_LENGTH) })
+  }
+}
+
+const adapters: Record<NotificationChannel, ChannelAdapter> = {
+  EMAIL: emailAdapter,
+  PUSH: pushAdapter,
+  SMS: smsAdapter
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return Boolean(error && typeof error === 'object' && 'code' in error && error.code === 'P2002')
+}
+
+async function findByDedupKey(dedupKey: string): Promise<NotificationWithLogs | null> {
+  const prisma = await getPrismaClient()
+  const existing: (NotificationRecord & { logs: NotificationLogRecord[] }) | null = await prisma.notification.findUnique({
+    where: { dedupKey },
+    include: { logs: { orderBy: { createdAt: 'asc' } } }
+  })
+  if (!existing) return null
+  const { logs, ...notification } = existing
+  return { notification, logs }
+}
+
+async function createNotification(input: NotifyInput): Promise<NotificationWithLogs & { deduplicated: boolean }> {
+  if (input.dedupKey) {
+    const existing = await findByDedupKey(input.dedupKey)
+    if (existing) return { ...existing, deduplicated: true }
+  }
+
+  const prisma = await getPrismaClient()
+  try {
+    const notification: NotificationRecord = await prisma.notification.create({
+      data: {
+        userId: input.userId,
+        type: input.type,
+        title: input.title,
+        body: input.body,
+        url: input.url || null,
+        dedupKey: input.dedupKey || null,
+        metadata: input.metadata ? JSON.stringify(input.metadata) : null
+      }
+    })
+    return { notification, logs: [], deduplicated: false }
+  } catch (error) {
+    // Another request created it first
+    if (input.dedupKey && isUniqueViolation(error)) {
+      const existing = await findByDedupKey(input.dedupKey)
+      if (existing) return { ...existing, deduplicated: true }
+    }
+    throw error
+  }
+}
+
+/**
+ * Notify a user over every channel that applies to them and the notification was not sent on
+ * yet. Channels are sent to one after another; a failed one is scheduled for a retry and does
+ * not hold up the others.
+ */
+export async function notifyUser(input: NotifyInput): Promise<NotifyResult> {
+  const prisma = await getPrismaClient()
+  const recipient: Recipient | null = await prisma.user.findUnique({
+    where: { id: input.userId },
+    select: recipientSelect
+  })
+  if (!recipient) {
+    throw createNotFoundError('User')
+  }
+
+  const { notification, logs, deduplicated } = await createNotification(input)
+  const sentOn = new Set(logs.map(log => log.channel))
+  const sent: NotificationLogRecord[] = []
+
+  for (const channel of input.channels || NOTIFICATION_CHANNELS) {
+    const adapter = adapters[channel]
+    if (sentOn.has(channel) || !(await adapter.accepts(recipient, notification))) continue
+
+    let log: NotificationLogRecord
+    try {
+      log = await prisma.notificationLog.create({
+        data: { notificationId: notification.id, channel, recipient: adapter.address(recipient) }
+      })
+    } catch (error) {
+      // Another request is sending on this channel
+      if (isUniqueViolation(error)) continue
+      throw error
+    }
+    sent.push(await sendOnChannel(log, notification, recipient))
+  }
+
+  return { notification, logs: [...logs, ...sent], sent, deduplicated }
+}
+
+async function sendOnChannel(
+  log: NotificationLogRecord,
+  notification: NotificationRecord,
+  recipient: Recipient
+): Promise<NotificationLogRecord> {
+  const prisma = await getPrismaClient()
+  const attempts = log.attempts + 1
+
+  let providerMessageId: string | null
+  try {
+    providerMessageId = await adapters[log.channel].send(recipient, notification)
+  } catch (error) {
+    console.error(`Notification ${notification.id} failed on ${log.channel}:`, error)
+    const retry = attempts < log.maxAttempts
+    const delay = retryDelay(attempts)
+    const failed = await prisma.notificationLog.update({
+      where: { id: log.id },
+      data: {
+        status: 'FAILED',
+        attempts,
+        lastAttemptAt: new Date(),
+        errorMessage: error instanceof Error ? error.message : 'Notification failed',
+        nextRetryAt: retry ? new Date(Date.now() + delay) : null
+      }
+    })
+    if (retry) retries.schedule(delay)
+    return failed
+  }
+
+  return prisma.notificationLog.update({
+    where: { id: log.id },
+    data: {
+      status: 'SENT',
+      attempts,
+      lastAttemptAt: new Date(),
+      sentAt: new Date(),
+      providerMessageId,
+      errorMessage: null,
+      nextRetryAt: null
+    }
+  })
+}
+
+/**
+ * Make another attempt at one channel of a notification. A recipient who turned the channel
+ * off, or is no longer reachable on it, fails it for good.
+ */
+async function retryLog(logId: string): Promise<NotificationLogRecord> {
+  const prisma = await getPrismaClient()
+  const log: (NotificationLogRecord & { notification: NotificationRecord & { user: Recipient } }) | null =
+    await prisma.notificationLog.findUnique({
+      where: { id: logId },
+      include: { notification: { include: { user: { select: recipientSelect } } } }
+    })
+  if (!log) {
+    throw createNotFoundError('Notification log')
+  }
+
+  const { notification: { user: recipient, ...notification }, ...record } = log
+  if (record.status === 'SENT' || record.attempts >= record.maxAttempts) return record
+
+  if (!(await adapters[record.channel].accepts(recipient, notification))) {
+    return prisma.notificationLog.update({
+      where: { id: logId },
+      data: { status: 'FAILED', errorMessage: 'The recipient can no longer be notified on this channel', nextRetryAt: null }
+    })
+  }
+  return sendOnChannel(record, notification, recipient)
+}
+
+const retries = createRetrySchedule(
+  'Notification',
+  async () => (await getPrismaClient()).notificationLog,
+  async logId => ((await retryLog(logId)).status === 'SENT' ? 'succeeded' : 'failed')
+)
+
+/**
+ * Retry failed sends whose next attempt is due
+ */
+export async function processDueNotificationRetries(): Promise<{ attempted: number; sent: number; failed: number }> {
+  const { attempted, succeeded, failed } = await retries.processDue()
+  return { attempted, sent: succeeded, failed }
+}
+
+/**
+ * Tell the recipient of a share about it. Keyed on the share and recipient, so a share is
+ * announced once per channel however many times delivery is attempted or the sender asks.
+ */
+export async function notifyShareRecipient(input: {
+  shareId: string
+  recipientId: string
+  senderName: string
+  fileName: string
+  channels?: NotificationChannel[]
+}): Promise<NotifyResult> {
+  const appUrl = process.env.APP_URL || 'https://privora12.com'
+  return notifyUser({
+    userId: input.recipientId,
+    type: EmailNotificationType.NEW_SHARES,
+    title: `${input.senderName} shared a file with you`,
+    body: `${input.fileName} is waiting for you.`,
+    url: `${appUrl}/receive`,
+    dedupKey: `share:${input.shareId}:${input.recipientId}`,
+    metadata: { shareId: input.shareId },
+    channels: input.channels
+  })
+}
+
+export function serializeNotification(notification: NotificationRecord, logs: NotificationLogRecord[]) {
+  return {
+    id: notification.id,
+    type: notification.type,
+    title: notification.title,
+    body: notification.body,
+    url: notification.url,
+    readAt: notification.readAt?.toISOString() ?? null,
+    createdAt: notification.createdAt.toISOString(),
+    channels: logs.map(log => ({
+      channel: log.channel.toLowerCase(),
+      status: log.status.toLowerCase(),
+      recipient: log.recipient,
+      attempts: log.attempts,
+      maxAttempts: log.maxAttempts,
+      errorMessage: log.errorMessage,
+      sentAt: log.sentAt?.toISOString() ?? null,
+      nextRetryAt: log.nextRetryAt?.toISOString() ?? null
+    }))
+  }
+}
@@ -0,0 +1,221 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+interface StoredShare {
+  id: string
+  fileId: string
+  userId: string | null
+  sharedWithEmail: string | null
+  groupId: string | null
+  revoked: boolean
+  expiresAt: Date | null
+  password: string | null
+  permissions: string
+  maxAccessCount: number | null
+  accessCount: number
+}
+
+interface StoredFolderShare {
+  folderId: string
+  userId: string | null
+  groupId: string | null
+  revoked: boolean
+  expiresAt: Date | null
+  permissions: string[]
+}
+
+interface Recipient {
+  userId?: string
+  sharedWithEmail?: { equals: string; mode: 'insensitive' }
+  group?: { members: { some: { id: string } } }
+}
+
+// In-memory tables supporting the filters checkFileAccess and checkFolderAccess query with
+const db = vi.hoisted(() => ({
+  users: [] as { id: string; email: string }[],
+  folders: [] as { id: string; name: string; parentId: string | null; userId: string }[],
+  folderShares: [] as StoredFolderShare[],
+  files: [] as { id: string; userId: string; folderId: string | null; deletedAt: Date | null }[],
+  shares: [] as StoredShare[],
+  groupMembers: new Map<string, string[]>()
+}))
+
+vi.mock('./prisma', () => {
+  const reaches = (share: StoredShare | StoredFolderShare, recipient: Recipient) => {
+    if (recipient.userId !== undefined) return share.userId === recipient.userId
+    if (recipient.sharedWithEmail) {
+      return 'sharedWithEmail' in share &&
+        share.sharedWithEmail?.toLowerCase() === recipient.sharedWithEmail.equals.toLowerCase()
+    }
+    if (recipient.group) {
+      const members = share.groupId ? db.groupMembers.get(share.groupId) || [] : []
+      return members.includes(recipient.group.members.some.id)
+    }
+    return false
+  }
+
+  const prisma = {
+    user: {
+      findUnique: async ({ where }: { where: { id: string } }) => db.users.find(user => user.id === where.id) ?? null
+    },
+    file: {
+      findUnique: async ({ where }: { where: { id: string } }) => db.files.find(file => file.id === where.id) ?? null
+    },
+    fileShare: {
+      findMany: async ({ where }: { where: { fileId: string; revoked: boolean; OR: Recipient[] } }) =>
+        db.shares.filter(share =>
+          share.fileId === where.fileId &&
+          share.revoked === where.revoked &&
+          where.OR.some(recipient => reaches(share, recipient)) &&
+          (share.expiresAt === null || share.expiresAt > new Date())
+        )
+    },
+    folder: {
+      findUnique: async ({ where }: { where: { id: string } }) => db.folders.find(folder => folder.id === where.id) ?? null
+    },
+    folderShare: {
+      findMany: async ({ where }: { where: { folderId: { in: string[] }; revoked: boolean; OR: Recipient[] } }) =>
+        db.folderShares.filter(share =>
+          where.folderId.in.includes(share.folderId) &&
+          share.revoked === where.revoked &&
+          where.OR.some(recipient => reaches(share, recipient)) &&
+          (share.expiresAt === null || share.expiresAt > new Date())
+        )
+    }
+  }
+  return { getPrismaClient: async () => prisma }
+})
+
+import { checkFileAccess, checkFolderAccess, Permission } from './permissions'
+
+function share(overrides: Partial<StoredShare>): StoredShare {
+  return {
+    id: 'share-1',
+    fileId: 'file-1',
+    userId: null,
+    sharedWithEmail: null,
+    groupId: null,
+    revoked: false,
+    expiresAt: null,
+    password: null,
+    permissions: JSON.stringify(['VIEW', 'DOWNLOAD']),
+    maxAccessCount: null,
+    accessCount: 0,
+    ...overrides
+  }
+}
+
+describe('checkFileAccess', () => {
+  beforeEach(() => {
+    db.users = [
+      { id: 'owner', email: 'owner@example.com' },
+      { id: 'alice', email: 'alice@example.com' }
+    ]
+    db.files = [{ id: 'file-1', userId: 'owner', folderId: null, deletedAt: null }]
+    db.folders = []
+    db.folderShares = []
+    db.shares = []
+    db.groupMembers = new Map()
+  })
+
+  it('matches a share addressed to the email ignoring case', async () => {
+    db.shares = [share({ sharedWithEmail: 'Alice@Example.com' })]
+
+    expect((await checkFileAccess('alice', 'file-1')).hasAccess).toBe(true)
+  })
+
+  it('ignores a share whose access limit is used up', async () => {
+    db.shares = [share({ userId: 'alice', maxAccessCount: 3, accessCount: 3 })]
+
+    const result = await checkFileAccess('alice', 'file-1')
+
+    expect(result.hasAccess).toBe(false)
+  })
+
+  it('keeps a password-protected share locked until the request unlocks it', async () => {
+    db.shares = [share({ userId: 'alice', password: 'hash' })]
+
+    const locked = await checkFileAccess('alice', 'file-1')
+    expect(locked).toMatchObject({ hasAccess: false, passwordRequiredShareId: 'share-1' })
+
+    const unlocked = await checkFileAccess('alice', 'file-1', [Permission.VIEW], {
+      isShareUnlocked: ({ id }) => id === 'share-1'
+    })
+    expect(unlocked.hasAccess).toBe(true)
+  })
+
+  it('reads share permissions stored as a JSON string', async () => {
+    db.shares = [share({ userId: 'alice', permissions: JSON.stringify(['VIEW']) })]
+
+    expect((await checkFileAccess('alice', 'file-1', [Permission.VIEW])).hasAccess).toBe(true)
+    expect((await checkFileAccess('alice', 'file-1', [Permission.DOWNLOAD])).hasAccess).toBe(false)
+  })
+})
+
+describe('folder share inheritance', () => {
+  function folderShare(overrides: Partial<StoredFolderShare>): StoredFolderShare {
+    return {
+      folderId: 'projects',
+      userId: 'alice',
+      groupId: null,
+      revoked: false,
+      expiresAt: null,
+      permissions: ['VIEW', 'DOWNLOAD'],
+      ...overrides
+    }
+  }
+
+  beforeEach(() => {
+    db.users = [
+      { id: 'owner', email: 'owner@example.com' },
+      { id: 'alice', email: 'alice@example.com' },
+      { id: 'bob', email: 'bob@example.com' }
+    ]
+    // projects / 2026 / q3, with the file in q3
+    db.folders = [
+      { id: 'projects', name: 'Projects', parentId: null, userId: 'owner' },
+      { id: '2026', name: '2026', parentId: 'projects', userId: 'owner' },
+      { id: 'q3', name: 'Q3', parentId: '2026', userId: 'owner' }
+    ]
+    db.files = [{ id: 'file-1', userId: 'owner', folderId: 'q3', deletedAt: null }]
+    db.shares = []
+    db.folderShares = []
+    db.groupMembers = new Map()
+  })
+
+  it('grants a file the permissions of a share on any folder above it', async () => {
+    db.folderShares = [folderShare({})]
+
+    expect((await checkFileAccess('alice', 'file-1', [Permission.DOWNLOAD])).hasAccess).toBe(true)
+    expect((await checkFileAccess('alice', 'file-1', [Permission.EDIT])).hasAccess).toBe(false)
+    expect((await checkFileAccess('bob', 'file-1')).hasAccess).toBe(false)
+  })
+
+  it('reaches group members and adds to the file\'s own shares', async () => {
+    db.groupMembers.set('team', ['alice'])
+    db.folderShares = [folderShare({ folderId: '2026', userId: null, groupId: 'team', permissions: ['EDIT'] })]
+    db.shares = [share({ userId: 'alice', permissions: JSON.stringify(['VIEW']) })]
+
+    const result = await checkFileAccess('alice', 'file-1', [Permission.VIEW, Permission.EDIT])
+
+    expect(result.hasAccess).toBe(true)
+  })
+
+  it('ignores revoked and expired folder shares', async () => {
+    db.folderShares = [
+      folderShare({ revoked: true }),
+      folderShare({ folderId: '2026', expiresAt: new Date(Date.now() - 1000) })
+    ]
+
+    expect((await checkFileAccess('alice', 'file-1')).hasAccess).toBe(false)
+    expect((await checkFolderAccess('alice', 'q3')).hasAccess).toBe(false)
+  })
+
+  it('opens subfolders but not parents of a shared folder', async () => {
+    db.folderShares = [folderShare({ folderId: '2026' })]
+
+    expect((await checkFolderAccess('alice', 'q3')).hasAccess).toBe(true)
+    expect((await checkFolderAccess('alice', '2026')).hasAccess).toBe(true)
+    expect((await checkFolderAccess('alice', 'projects')).hasAccess).toBe(false)
+    expect((await checkFolderAccess('owner', 'projects')).permissions).toContain(Permission.EDIT)
+  })
+})
@@ -1,4 +1,5 @@
 import { getPrismaClient } from './prisma'
+import { getFolderPath } from './folders'
 
 export enum Permission {
   VIEW = 'VIEW',
@@ -10,25 +11,131 @@ export interface AccessCheckResult {
   hasAccess: boolean
   permissions: Permission[]
   reason?: string
+  passwordRequiredShareId?: string // A password-protected share would grant access once unlocked
+}
+
+export interface AccessCheckOptions {
+  // Whether the request has unlocked a password-protected share; locked shares grant nothing
+  isShareUnlocked?: (share: { id: string; password: string | null }) => boolean
+}
+
+/**
+ * Read FileShare.permissions, a JSON string in the schema; older rows may hold a plain list
+ */
+export function parseSharePermissions(value: unknown): Permission[] {
+  let permissions: unknown = value
+  if (typeof value === 'string') {
+    try {
+      permissions = JSON.parse(value || '[]')
+    } catch {
+      return []
+    }
+  }
+  return Array.isArray(permissions) ? validatePermissions(permissions.filter(perm => typeof perm === 'string')) : []
+}
+
+/**
+ * How a share's recipient email is matched against account emails: trimmed, ignoring case
+ */
+export function normalizeShareEmail(email: string): string {
+  return email.trim().toLowerCase()
+}
+
+/**
+ * Permissions granted to a user by shares on a folder or any folder above it
+ */
+async function getInheritedFolderPermissions(userId: string, folderId: string | null): Promise<Permission[]> {
+  if (!folderId) {
+    return []
+  }
+
+  const prisma = await getPrismaClient()
+  const ancestorIds = (await getFolderPath(folderId)).map(folder => folder.id)
+  const folderShares = await prisma.folderShare.findMany({
+    where: {
+      folderId: { in: ancestorIds },
+      revoked: false,
+      OR: [
+        { userId },
+        {
+          group: {
+            members: { some: { id: userId } }
+          }
+        }
+      ],
+      AND: {
+        OR: [
+          { expiresAt: null },
+          { expiresAt: { gt: new Date() } }
+        ]
+      }
+    },
+    select: { permissions: true }
+  })
+
+  const permissions = new Set<Permission>()
+  for (const share of folderShares) {
+    share.permissions.forEach((perm: string) => permissions.add(perm as Permission))
+  }
+  return Array.from(permissions)
 }
 
 /**
- * Check if a user has access to a file with specific permissions
+ * Check if a user has access to a folder, as its owner or through a share on it or a parent
+ */
+export async function checkFolderAccess(
+  userId: string,
+  folderId: string,
+  requiredPermissions: Permission[] = [Permission.VIEW]
+): Promise<AccessCheckResult> {
+  const prisma = await getPrismaClient()
+  const folder = await prisma.folder.findUnique({
+    where: { id: folderId },
+    select: { userId: true }
+  })
+
+  if (!folder) {
+    return { hasAccess: false, permissions: [], reason: 'Folder not found' }
+  }
+
+  if (folder.userId === userId) {
+    return { hasAccess: true, permissions: [Permission.VIEW, Permission.DOWNLOAD, Permission.EDIT] }
+  }
+
+  const permissions = await getInheritedFolderPermissions(userId, folderId)
+  if (!requiredPermissions.every(perm => permissions.includes(perm))) {
+    return {
+      hasAccess: false,
+      permissions,
+      reason: permissions.length === 0
+        ? 'No access granted'
+        : `Missing required permissions: ${requiredPermissions.filter(p => !permissions.includes(p)).join(', ')}`
+    }
+  }
+
+  return { hasAccess: true, permissions }
+}
+
+/**
+ * Check if a user has access to a file with specific permissions. Shares on the file's
+ * folder or any folder above it count as well as shares on the file itself.
  */
 export async function checkFileAccess(
   userId: string,
   fileId: string,
-  requiredPermissions: Permission[] = [Permission.VIEW]
+  requiredPermissions: Permission[] = [Permission.VIEW],
+  options: AccessCheckOptions = {}
 ): Promise<AccessCheckResult> {
   const prisma = await getPrismaClient()
 
   // First check if user owns the file
   const file = await prisma.file.findUnique({
     where: { id: fileId },
-    select: { userId: true }
+    select: { userId: true, folderId: true, deletedAt: true }
   })
 
-  if (!file) {
+  // Trashed files are out of reach for everyone, owner included, until they are restored
+  if (!file || file.deletedAt) {
     return { hasAccess: false, permissions: [], reason: 'File not found' }
   }
 
@@ -38,12 +145,14 @@ export async function checkFileAccess(
   }
 
   // Check shares for this user
+  const user: { email: string } | null = await prisma.user.findUnique({ where: { id: userId }, select: { email: true } })
   const userShares = await prisma.fileShare.findMany({
     where: {
       fileId,
       revoked: false,
       OR: [
         { userId }, // Direct shares
+        ...(user ? [{ sharedWithEmail: { equals: normalizeShareEmail(user.email), mode: 'insensitive' } }] : []), // Shares addressed to their email
         {
           group: {
             members: { some: { id: userId } }
@@ -58,6 +167,8 @@ export async function checkFileAccess(
       }
     },
     select: {
+      id: true,
+      password: true,
       permissions: true,
       maxAccessCount: true,
       accessCount: true,
@@ -67,22 +178,31 @@ export async function checkFileAccess(
     }
   })
 
-  if (userShares.length === 0) {
+  const folderPermissions = await getInheritedFolderPermissions(userId, file.folderId)
+
+  if (userShares.length === 0 && folderPermissions.length === 0) {
     return { hasAccess: false, permissions: [], reason: 'No access granted' }
   }
 
   // Aggregate permissions from all shares
-  const allPermissions = new Set<Permission>()
+  const allPermissions = new Set<Permission>(folderPermissions)
   let hasAccessLimit = false
 
+  let passwordRequiredShareId: string | undefined
+
   for (const share of userShares) {
     // Check access count limit
     if (share.maxAccessCount && share.accessCount >= share.maxAccessCount) {
       continue // This share has exceeded access limit
     }
 
+    if (share.password && !options.isShareUnlocked?.(share)) {
+      passwordRequiredShareId ??= share.id
+      continue // Locked until the recipient enters the share password
+    }
+
     // Add permissions from this share
-    share.permissions.forEach((perm: string) => allPermissions.add(perm as Permission))
+    parseSharePermissions(share.permissions).forEach(perm => allPermissions.add(perm))
   }
 
   const permissions = Array.from(allPermissions)
@@ -91,6 +211,9 @@ export async function checkFileAccess(
   const hasRequiredPermissions = requiredPermissions.every(perm => permissions.includes(perm))
 
   if (!hasRequiredPermissions) {
+    if (passwordRequiredShareId) {
+      return { hasAccess: false, permissions, reason: 'Share password required', passwordRequiredShareId }
+    }
     return {
       hasAccess: false,
       permissions,
@@ -107,7 +230,8 @@ export async function checkFileAccess(
 export async function canPerformAction(
   userId: string,
   fileId: string,
-  action: 'view' | 'download' | 'edit'
+  action: 'view' | 'download' | 'edit',
+  options: AccessCheckOptions = {}
 ): Promise<boolean> {
   const permissionMap = {
     view: [Permission.VIEW],
@@ -115,7 +239,7 @@ export async function canPerformAction(
     edit: [Permission.EDIT]
   }
 
-  const result = await checkFileAccess(userId, fileId, permissionMap[action])
+  const result = await checkFileAccess(userId, fileId, permissionMap[action], options)
   return result.hasAccess
 }
 
@@ -3,6 +3,9 @@
 import React, { createContext, useContext, useEffect, useState, useRef, ReactNode } from 'react'
 import { useSession } from 'next-auth/react'
 import { io, Socket } from 'socket.io-client'
+import type { ClientToServerEvents, ServerToClientEvents } from './socket-events'
+
+export type PrivoraClientSocket = Socket<ServerToClientEvents, ClientToServerEvents>
 
 // Device detection utility
 function detectDeviceType(): 'phone' | 'laptop' | 'tablet' | 'desktop' {
@@ -50,7 +53,7 @@ interface UserPresence {
 interface PresenceContextType {
   userPresence: Record<string, UserPresence>
   isConnected: boolean
-  socket: any
+  socket: PrivoraClientSocket | null
 }
 
 const PresenceContext = createContext<PresenceContextType | undefined>(undefined)
@@ -59,10 +62,11 @@ export function PresenceProvider({ children }: { children: ReactNode }) {
   const { data: session, status } = useSession()
   const [userPresence, setUserPresence] = useState<Record<string, UserPresence>>({})
   const [isConnected, setIsConnected] = useState(false)
-  const [socket, setSocket] = useState<Socket | null>(null)
+  const [socket, setSocket] = useState<PrivoraClientSocket | null>(null)
   const [deviceType, setDeviceType] = useState<'phone' | 'laptop' | 'tablet' | 'desktop'>('desktop')
   const [lastActivity, setLastActivity] = useState<Date>(new Date())
   const heartbeatIntervalRef = useRef<NodeJS.Timeout | null>(null)
+  const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null)
 
   // Initialize device type detection (client-side only)
   useEffect(() => {
@@ -138,9 +142,18 @@ export function PresenceProvider({ children }: { children: ReactNode }) {
     // Only initialize on client side
     if (typeof window === 'undefined') return
 
-    // Initialize socket connection
-    const socketConnection = io(process.env.NEXT_PUBLIC_SOCKET_URL || 'https://privora12-jhpk3ne82-mvogonka-christophes-projects.vercel.app', {
+    // Initialize socket connection. The server only accepts authenticated handshakes: the
+    // session cookie is sent along, and a short-lived token covers socket servers on another
+    // origin. The auth callback runs before every attempt, so reconnects get a fresh token.
+    const socketConnection: PrivoraClientSocket = io(process.env.NEXT_PUBLIC_SOCKET_URL || 'https://privora12-jhpk3ne82-mvogonka-christophes-projects.vercel.app', {
       path: '/api/socket',
+      withCredentials: true,
+      auth: (callback) => {
+        fetch('/api/socket/token')
+          .then(response => (response.ok ? response.json() : null))
+          .then(data => callback(data?.token ? { token: data.token } : {}))
+          .catch(() => callback({}))
+      }
     })
 
     socketConnection.on('connect', () => {
@@ -153,8 +166,19 @@ export function PresenceProvider({ children }: { children: ReactNode }) {
       setIsConnected(false)
     })
 
+    // A refused handshake is not retried by socket.io itself; try again with a new token
+    socketConnection.on('connect_error', (error) => {
+      console.error('Presence: Socket connection refused:', error.message)
+      setIsConnected(false)
+      if (!socketConnection.active && !reconnectTimeoutRef.current) {
+        reconnectTimeoutRef.current = setTimeout(() => {
+          reconnectTimeoutRef.current = null
+          socketConnection.connect()
+        }, 10000)
+      }
+    })
+
     setSocket(socketConnection)
-    setIsConnected(true)
 
     // Immediately fetch presence data when user logs in
     const fetchInitialPresence = async () => {
@@ -188,6 +212,10 @@ export function PresenceProvider({ children }: { children: ReactNode }) {
     // Cleanup on unmount or session change
     return () => {
       clearInterval(presenceInterval)
+      if (reconnectTimeoutRef.current) {
+        clearTimeout(reconnectTimeoutRef.current)
+        reconnectTimeoutRef.current = null
+      }
       setIsConnected(false)
       if (socketConnection) {
         socketConnection.disconnect()
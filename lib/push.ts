@@ -0,0 +1,135 @@
+// Web Push
+//
+// Browsers subscribe with the VAPID public key and the public/push-sw.js service worker, and
+// register the subscription through /api/notifications/push. Sending needs VAPID_PUBLIC_KEY,
+// VAPID_PRIVATE_KEY and VAPID_SUBJECT (a mailto: or https: URL identifying the sender); generate
+// the key pair once with `npx web-push generate-vapid-keys`. Without them the push channel is off.
+//
+// A subscription the push service reports as gone (404 or 410) is deleted.
+
+import webpush, { WebPushError } from 'web-push'
+import { getPrismaClient } from './prisma'
+import { createNetworkError, createValidationError } from './error-handling'
+
+const PUSH_TTL_SECONDS = 24 * 60 * 60 // How long the push service holds a message for an offline browser
+
+export interface PushPayload {
+  title: string
+  body: string
+  url?: string | null
+  tag?: string // Replaces an earlier notification with the same tag in the browser
+}
+
+export interface PushSubscriptionInput {
+  endpoint: string
+  keys: { p256dh: string; auth: string }
+}
+
+interface StoredSubscription {
+  id: string
+  endpoint: string
+  p256dh: string
+  auth: string
+}
+
+let vapidConfigured = false
+
+export function getVapidPublicKey(): string | null {
+  return process.env.VAPID_PUBLIC_KEY || null
+}
+
+export function isPushEnabled(): boolean {
+  return Boolean(process.env.VAPID_PUBLIC_KEY && process.env.VAPID_PRIVATE_KEY && process.env.VAPID_SUBJECT)
+}
+
+function configureVapid() {
+  if (vapidConfigured) return
+  webpush.setVapidDetails(
+    process.env.VAPID_SUBJECT as string,
+    process.env.VAPID_PUBLIC_KEY as string,
+    process.env.VAPID_PRIVATE_KEY as string
+  )
+  vapidConfigured = true
+}
+
+export function parsePushSubscription(value: unknown): PushSubscriptionInput {
+  const input = value as Partial<PushSubscriptionInput> | null
+  if (
+    !input ||
+    typeof input.endpoint !== 'string' ||
+    !input.endpoint.startsWith('https://') ||
+    typeof input.keys?.p256dh !== 'string' ||
+    typeof input.keys?.auth !== 'string'
+  ) {
+    throw createValidationError('A push subscription with an https endpoint and p256dh and auth keys is required')
+  }
+  return { endpoint: input.endpoint, keys: { p256dh: input.keys.p256dh, auth: input.keys.auth } }
+}
+
+/**
+ * Store a browser's subscription for a user. A browser subscribing again, possibly after
+ * someone else signed in on it, takes the subscription over.
+ */
+export async function savePushSubscription(userId: string, input: PushSubscriptionInput, userAgent?: string | null) {
+  const prisma = await getPrismaClient()
+  const data = { userId, p256dh: input.keys.p256dh, auth: input.keys.auth, userAgent: userAgent || null }
+  return prisma.pushSubscription.upsert({
+    where: { endpoint: input.endpoint },
+    create: { endpoint: input.endpoint, ...data },
+    update: data
+  })
+}
+
+export async function removePushSubscription(userId: string, endpoint: string): Promise<number> {
+  const prisma = await getPrismaClient()
+  const { count } = await prisma.pushSubscription.deleteMany({ where: { userId, endpoint } })
+  return count
+}
+
+export async function countPushSubscriptions(userId: string): Promise<number> {
+  const prisma = await getPrismaClient()
+  return prisma.pushSubscription.count({ where: { userId } })
+}
+
+/**
+ * Push a notification to every browser the user subscribed. Succeeds when at least one push
+ * service accepted it.
+ */
+export async function sendPushToUser(userId: string, payload: PushPayload): Promise<{ sent: number; removed: number }> {
+  configureVapid()
+  const prisma = await getPrismaClient()
+  const subscriptions: StoredSubscription[] = await prisma.pushSubscription.findMany({
+    where: { userId },
+    select: { id: true, endpoint: true, p256dh: true, auth: true }
+  })
+
+  const body = JSON.stringify(payload)
+  let sent = 0
+  let removed = 0
+  let lastError: unknown = null
+
+  for (const subscription of subscriptions) {
+    try {
+      await webpush.sendNotification(
+        { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+        body,
+        { TTL: PUSH_TTL_SECONDS }
+      )
+      sent++
+      await prisma.pushSubscription.update({ where: { id: subscription.id }, data: { lastUsedAt: new Date() } })
+    } catch (error) {
+      if (error instanceof WebPushError && (error.statusCode === 404 || error.statusCode === 410)) {
+        await prisma.pushSubscription.delete({ where: { id: subscription.id } }).catch(() => undefined)
+        removed++
+      } else {
+        lastError = error
+      }
+    }
+  }
+
+  if (sent === 0) {
+    const reason = lastError instanceof Error ? lastError.message : 'No push subscription is active'
+    throw createNetworkError(`Push notification was not accepted: ${reason}`)
+  }
+  return { sent, removed }
+}
@@ -0,0 +1,106 @@
+// Retry scheduling
+//
+// Failed deliveries (lib/deliveries.ts) and notification sends (lib/notifications.ts) are retried
+// with increasing delays. A failed row records when its next attempt is due in nextRetryAt, and
+// one timer per process and kind runs the due ones at the earliest such time. Timers are lost on
+// a restart; each kind has an admin endpoint that runs its due retries and restarts the timer.
+
+const RETRY_BASE_DELAY_MS = 60 * 1000 // 1, 4, 16... minutes after each failed attempt
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000
+const RETRY_BATCH_SIZE = 50
+
+export type RetryOutcome = 'succeeded' | 'failed' | 'pending'
+
+export interface RetryRun {
+  attempted: number
+  succeeded: number
+  failed: number
+}
+
+// The Prisma model retried rows live in; it needs status and nextRetryAt columns
+interface RetryTable {
+  findMany(args: object): Promise<{ id: string }[]>
+  findFirst(args: object): Promise<{ nextRetryAt: Date } | null>
+  updateMany(args: object): Promise<{ count: number }>
+}
+
+export interface RetrySchedule {
+  // Run the due retries after delayMs, unless a run is already planned sooner
+  schedule(delayMs: number): void
+  // Retry the failed rows whose next attempt is due, then plan a run for the next one
+  processDue(): Promise<RetryRun>
+}
+
+/**
+ * How long to wait before the next attempt after the given number of attempts
+ */
+export function retryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 4 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY_MS)
+}
+
+/**
+ * Retries for the FAILED rows of one table. Each due row is claimed before `attempt` runs, so
+ * instances processing retries at the same time do not attempt a row twice.
+ */
+export function createRetrySchedule(
+  description: string,
+  table: () => Promise<RetryTable>,
+  attempt: (id: string) => Promise<RetryOutcome>
+): RetrySchedule {
+  let timer: ReturnType<typeof setTimeout> | null = null
+  let timerAt = 0
+
+  function schedule(delayMs: number): void {
+    const at = Date.now() + delayMs
+    if (timer && timerAt <= at) return
+    if (timer) clearTimeout(timer)
+
+    timerAt = at
+    timer = setTimeout(() => {
+      timer = null
+      processDue().catch(error => console.error(`${description} retry run failed:`, error))
+    }, delayMs)
+    timer.unref?.()
+  }
+
+  async function processDue(): Promise<RetryRun> {
+    const rows = await table()
+    const result = { attempted: 0, succeeded: 0, failed: 0 }
+
+    const due = await rows.findMany({
+      where: { status: 'FAILED', nextRetryAt: { lte: new Date() } },
+      select: { id: true },
+      orderBy: { nextRetryAt: 'asc' },
+      take: RETRY_BATCH_SIZE
+    })
+
+    for (const { id } of due) {
+      const { count } = await rows.updateMany({
+        where: { id, status: 'FAILED', nextRetryAt: { lte: new Date() } },
+        data: { nextRetryAt: null }
+      })
+      if (count === 0) continue
+
+      result.attempted++
+      try {
+        const outcome = await attempt(id)
+        if (outcome === 'succeeded') result.succeeded++
+        else if (outcome === 'failed') result.failed++
+      } catch (error) {
+        result.failed++
+        console.error(`Failed to retry ${description.toLowerCase()}:`, id, error)
+      }
+    }
+
+    const next = await rows.findFirst({
+      where: { status: 'FAILED', nextRetryAt: { not: null } },
+      select: { nextRetryAt: true },
+      orderBy: { nextRetryAt: 'asc' }
+    })
+    if (next) schedule(Math.max(next.nextRetryAt.getTime() - Date.now(), 0))
+
+    return result
+  }
+
+  return { schedule, processDue }
+}
@@ -0,0 +1,37 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+// Captures the search SQL; the database side of matching is covered by the query text
+const db = vi.hoisted(() => ({ queries: [] as { sql: string; values: unknown[] }[] }))
+
+vi.mock('./prisma', () => ({
+  getPrismaClient: async () => ({
+    $queryRaw: async (strings: TemplateStringsArray, ...values: unknown[]) => {
+      db.queries.push({ sql: strings.join('?'), values })
+      return []
+    }
+  })
+}))
+
+import { searchFiles } from './search'
+
+describe('searchFiles share visibility', () => {
+  beforeEach(() => {
+    db.queries = []
+  })
+
+  it('matches shares by email ignoring case, like checkFileAccess', async () => {
+    await searchFiles({ id: 'user-1', email: ' Alice@Example.COM ' }, 'report')
+
+    const [{ sql, values }] = db.queries
+    expect(sql).toContain('lower(s."sharedWithEmail") = ?')
+    expect(values).toContain('alice@example.com')
+    expect(values).not.toContain(' Alice@Example.COM ')
+  })
+
+  it('leaves out shares whose access limit is used up', async () => {
+    await searchFiles({ id: 'user-1', email: 'alice@example.com' }, 'report', { scope: 'received' })
+
+    const [{ sql }] = db.queries
+    expect(sql).toContain('(coalesce(s."maxAccessCount", 0) = 0 OR s."accessCount" < s."maxAccessCount")')
+  })
+})
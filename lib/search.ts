@@ -0,0 +1,323 @@
+// Full-text search
+//
+// File.searchVector is a PostgreSQL tsvector over each file's name, tags and extracted text,
+// kept current by database triggers whenever a file is renamed or its FileTag or FileContent
+// rows change (see the add_full_text_search migration). This module fills FileContent from the
+// stored bytes (lib/text-extraction.ts) in the background after uploads, and runs ranked,
+// highlighted searches limited to files the caller owns or can open through a share.
+//
+// Encrypted files are never extracted, so only their names and tags are searchable.
+// Password-protected shares are left out: unlocking one is remembered per browser, not per user.
+// Otherwise shares count as in checkFileAccess: emails match ignoring case, and shares whose
+// access limit is used up are left out.
+
+import { getPrismaClient } from './prisma'
+import { openStoredObject, StoredObjectRecord } from './storage'
+import { detectFormat, extractText, MAX_EXTRACTION_INPUT_BYTES } from './text-extraction'
+import { createValidationError } from './error-handling'
+import { createBackgroundQueue } from './background-queue'
+import { normalizeShareEmail } from './permissions'
+
+const MAX_QUERY_TERMS = 8
+const REINDEX_BATCH_SIZE = 50
+// Control characters mark highlights in ts_headline output; they cannot occur in extracted text
+const HIGHLIGHT_START = '\u0002'
+const HIGHLIGHT_END = '\u0003'
+const HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "`
+
+export type SearchScope = 'all' | 'owned' | 'received'
+
+export interface IndexableFile extends StoredObjectRecord {
+  id: string
+  name: string
+  type: string
+  size: number
+  encrypted: boolean
+}
+
+const indexableSelect = {
+  id: true,
+  name: true,
+  type: true,
+  size: true,
+  encrypted: true,
+  url: true,
+  storageKey: true,
+  storageProvider: true
+}
+
+export interface SearchOptions {
+  scope?: SearchScope
+  limit?: number
+  offset?: number
+}
+
+export interface SearchResult {
+  fileId: string
+  name: string
+  type: string
+  size: number
+  createdAt: Date
+  owned: boolean
+  shareId: string | null // Direct share that grants a received file, if any
+  folderId: string | null
+  owner: { name: string | null; email: string }
+  rank: number
+  // HTML-escaped snippets with matches wrapped in <mark>; content is null without a match in the text
+  highlights: { name: string; content: string | null }
+}
+
+/**
+ * Turn free text into a tsquery: every word must match, the last one as a prefix so results
+ * appear while the user is still typing. Returns null when no searchable word is left.
+ */
+export function buildSearchQuery(input: string): string | null {
+  const terms = input.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []
+  const unique = [...new Set(terms)].slice(0, MAX_QUERY_TERMS)
+  if (unique.length === 0) {
+    return null
+  }
+  return unique.map((term, index) => index === unique.length - 1 ? `${term}:*` : term).join(' & ')
+}
+
+async function readContent(file: IndexableFile): Promise<Buffer> {
+  const { stream } = await openStoredObject(file)
+  const chunks: Buffer[] = []
+  let length = 0
+  for await (const chunk of stream) {
+    length += chunk.length
+    if (length > MAX_EXTRACTION_INPUT_BYTES) {
+      stream.destroy()
+      throw new Error('File too large for text extraction')
+    }
+    chunks.push(Buffer.from(chunk))
+  }
+  return Buffer.concat(chunks)
+}
+
+/**
+ * Extract the text of a file's current content into FileContent, replacing what an earlier
+ * version left. Returns whether any text was stored.
+ */
+export async function extractFileContent(file: IndexableFile): Promise<boolean> {
+  const prisma = await getPrismaClient()
+  const format = detectFormat(file.type, file.name)
+
+  const extracted = format && !file.encrypted && file.size <= MAX_EXTRACTION_INPUT_BYTES
+    ? extractText(await readContent(file), format)
+    : null
+
+  if (!extracted) {
+    await prisma.fileContent.deleteMany({ where: { fileId: file.id } })
+    return false
+  }
+
+  await prisma.fileContent.upsert({
+    where: { fileId: file.id },
+    create: { fileId: file.id, text: extracted.text, truncated: extracted.truncated },
+    update: { text: extracted.text, truncated: extracted.truncated, extractedAt: new Date() }
+  })
+  return true
+}
+
+async function extractQueuedFile(fileId: string): Promise<void> {
+  const prisma = await getPrismaClient()
+  const file: IndexableFile | null = await prisma.file.findUnique({ where: { id: fileId }, select: indexableSelect })
+  if (file) {
+    await extractFileContent(file)
+  }
+}
+
+// Background queue: file ids waiting for text extraction
+const queue = createBackgroundQueue('extract text for file', extractQueuedFile)
+
+/**
+ * Queue extraction of new or changed content without waiting for it. Like tagging this is
+ * best effort: a failure is logged and never fails the upload; the reindex backfill picks the
+ * file up later.
+ */
+export function scheduleTextExtraction(fileId: string): void {
+  // Queued even while older content is being extracted, so the text stored last is current
+  queue.requeue(fileId)
+}
+
+/**
+ * Give a copied file the extracted text of its source
+ */
+export async function copyFileContent(fromFileId: string, toFileId: string): Promise<void> {
+  try {
+    const prisma = await getPrismaClient()
+    const content = await prisma.fileContent.findUnique({ where: { fileId: fromFileId } })
+    if (content) {
+      await prisma.fileContent.create({
+        data: { fileId: toFileId, text: content.text, truncated: content.truncated }
+      })
+    }
+  } catch (error) {
+    console.error('Failed to copy extracted text to file:', toFileId, error)
+  }
+}
+
+/**
+ * Backfill: extract text for every unencrypted file, or one user's files
+ */
+export async function reindexFileContents(options: { userId?: string } = {}): Promise<{
+  indexed: number
+  skipped: number
+  failed: number
+}> {
+  const prisma = await getPrismaClient()
+  let indexed = 0
+  let skipped = 0
+  let failed = 0
+  let cursor: string | undefined
+
+  while (true) {
+    const files: IndexableFile[] = await prisma.file.findMany({
+      where: { encrypted: false, ...(options.userId && { userId: options.userId }) },
+      select: indexableSelect,
+      orderBy: { id: 'asc' },
+      take: REINDEX_BATCH_SIZE,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 })
+    })
+    if (files.length === 0) break
+
+    for (const file of files) {
+      try {
+        if (await extractFileContent(file)) {
+          indexed++
+        } else {
+          skipped++
+        }
+      } catch (error) {
+        console.error('Failed to reindex file:', file.id, error)
+        failed++
+      }
+    }
+    cursor = files[files.length - 1].id
+  }
+
+  return { indexed, skipped, failed }
+}
+
+function renderHighlight(headline: string): string {
+  return headline
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(new RegExp(HIGHLIGHT_START, 'g'), '<mark>')
+    .replace(new RegExp(HIGHLIGHT_END, 'g'), '</mark>')
+}
+
+interface SearchRow {
+  id: string
+  name: string
+  type: string
+  size: number
+  createdAt: Date
+  owned: boolean
+  shareId: string | null
+  folderId: string | null
+  ownerName: string | null
+  ownerEmail: string
+  rank: number
+  total: bigint
+  nameHeadline: string
+  contentHeadline: string | null
+}
+
+/**
+ * Ranked search over the files a user owns and the files shared with them directly, through
+ * a group or through a shared folder
+ */
+export async function searchFiles(
+  user: { id: string; email: string },
+  query: string,
+  options: SearchOptions = {}
+): Promise<{ results: SearchResult[]; total: number }> {
+  const tsquery = buildSearchQuery(query)
+  if (!tsquery) {
+    throw createValidationError('Search query must contain at least one letter or digit')
+  }
+
+  const scope = options.scope || 'all'
+  const includeOwned = scope !== 'received'
+  const includeReceived = scope !== 'owned'
+  const limit = Math.min(Math.max(options.limit || 20, 1), 100)
+  const offset = Math.max(options.offset || 0, 0)
+
+  const prisma = await getPrismaClient()
+  const rows: SearchRow[] = await prisma.$queryRaw`
+    WITH RECURSIVE member_groups AS (
+      SELECT "A" AS id FROM "_GroupMembers" WHERE "B" = ${user.id}
+    ),
+    shared_folders AS (
+      SELECT fs."folderId" AS id
+      FROM "FolderShare" fs
+      WHERE fs."revoked" = false
+        AND (fs."expiresAt" IS NULL OR fs."expiresAt" > now())
+        AND (fs."userId" = ${user.id} OR fs."groupId" IN (SELECT id FROM member_groups))
+      UNION
+      SELECT child.id FROM "Folder" child JOIN shared_folders parent ON child."parentId" = parent.id
+    ),
+    matches AS (
+      SELECT
+        f.id, f.name, f.type, f.size, f."createdAt", f."userId", f."folderId",
+        q.query,
+        ts_rank_cd(f."searchVector", q.query) AS rank,
+        f."userId" = ${user.id} AS owned,
+        (
+          SELECT s.id FROM "FileShare" s
+          WHERE s."fileId" = f.id
+            AND s."revoked" = false
+            AND s."password" IS NULL
+            AND (s."expiresAt" IS NULL OR s."expiresAt" > now())
+            AND (coalesce(s."maxAccessCount", 0) = 0 OR s."accessCount" < s."maxAccessCount")
+            AND (s."userId" = ${user.id} OR lower(s."sharedWithEmail") = ${normalizeShareEmail(user.email)} OR s."groupId" IN (SELECT id FROM member_groups))
+          ORDER BY s."createdAt" DESC
+          LIMIT 1
+        ) AS "shareId"
+      FROM "File" f, (SELECT to_tsquery('english', ${tsquery}) AS query) q
+      WHERE f."searchVector" @@ q.query
+        AND f."deletedAt" IS NULL
+    ),
+    visible AS (
+      SELECT m.*, COUNT(*) OVER () AS total
+      FROM matches m
+      WHERE (${includeOwned} AND m.owned)
+         OR (${includeReceived} AND NOT m.owned AND (m."shareId" IS NOT NULL OR m."folderId" IN (SELECT id FROM shared_folders)))
+      ORDER BY m.rank DESC, m."createdAt" DESC
+      LIMIT ${limit} OFFSET ${offset}
+    )
+    SELECT
+      v.id, v.name, v.type, v.size, v."createdAt", v.owned, v."shareId", v."folderId", v.rank::float8 AS rank, v.total,
+      u.name AS "ownerName", u.email AS "ownerEmail",
+      ts_headline('english', v.name, v.query, ${HEADLINE_OPTIONS}) AS "nameHeadline",
+      ts_headline('english', coalesce(c."text", ''), v.query, ${HEADLINE_OPTIONS}) AS "contentHeadline"
+    FROM visible v
+    JOIN "User" u ON u.id = v."userId"
+    LEFT JOIN "FileContent" c ON c."fileId" = v.id
+    ORDER BY v.rank DESC, v."createdAt" DESC
+  `
+
+  return {
+    total: rows.length > 0 ? Number(rows[0].total) : 0,
+    results: rows.map(row => ({
+      fileId: row.id,
+      name: row.name,
+      type: row.type,
+      size: row.size,
+      createdAt: row.createdAt,
+      owned: row.owned,
+      shareId: row.owned ? null : row.shareId,
+      folderId: row.folderId,
+      owner: { name: row.ownerName, email: row.ownerEmail },
+      rank: row.rank,
+      highlights: {
+        name: renderHighlight(row.nameHeadline),
+        content: row.contentHeadline?.includes(HIGHLIGHT_START) ? renderHighlight(row.contentHeadline) : null
+      }
+    }))
+  }
+}
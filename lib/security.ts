@@ -1,5 +1,6 @@
 import path from 'path'
 import { createValidationError, createAuthorizationError } from './error-handling'
+import { getSharedStore } from './shared-store'
 
 // Path sanitization utilities
 export class PathSanitizer {
@@ -206,35 +207,24 @@ export class InputValidator {
   }
 }
 
-// Rate limiting utilities
+// Rate limiting utilities. Counters live in the shared store, so limits hold across instances
 export class RateLimiter {
-  private static limits = new Map<string, { count: number; resetTime: number }>()
-
   /**
    * Checks if request is within rate limits
    */
-  static checkLimit(
+  static async checkLimit(
     identifier: string,
     maxRequests: number = 100,
     windowMs: number = 15 * 60 * 1000 // 15 minutes
-  ): boolean {
-    const now = Date.now()
-    const key = `${identifier}:${Math.floor(now / windowMs)}`
-
-    const current = this.limits.get(key) || { count: 0, resetTime: now + windowMs }
-
-    if (now > current.resetTime) {
-      current.count = 0
-      current.resetTime = now + windowMs
+  ): Promise<boolean> {
+    try {
+      const { count } = await getSharedStore().increment(`ratelimit:${windowMs}:${identifier}`, windowMs)
+      return count <= maxRequests
+    } catch (error) {
+      // An unreachable store should not take the API down with it
+      console.error('Rate limit check failed, allowing request:', error)
+      return true
     }
-
-    if (current.count >= maxRequests) {
-      return false
-    }
-
-    current.count++
-    this.limits.set(key, current)
-    return true
   }
 
   /**
@@ -245,12 +235,12 @@ export class RateLimiter {
     windowMs: number = 15 * 60 * 1000,
     identifierFn?: (request: Request) => string
   ) {
-    return (request: Request) => {
+    return async (request: Request) => {
       const identifier = identifierFn
         ? identifierFn(request)
         : request.headers.get('x-forwarded-for') || 'anonymous'
 
-      if (!this.checkLimit(identifier, maxRequests, windowMs)) {
+      if (!(await this.checkLimit(identifier, maxRequests, windowMs))) {
         throw createValidationError('Rate limit exceeded. Please try again later.')
       }
     }
@@ -0,0 +1,211 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import bcrypt from 'bcryptjs'
+
+interface StoredShare {
+  id: string
+  revoked: boolean
+  accessCount: number
+  lastAccessedAt: Date | null
+  failedPasswordAttempts: number
+  passwordLockedUntil: Date | null
+}
+
+// An in-memory FileShare table supporting the conditional updates share links use
+const db = vi.hoisted(() => ({ shares: [] as StoredShare[] }))
+
+vi.mock('./prisma', () => {
+  const fileShare = {
+    updateMany: async ({ where, data }: {
+      where: { id: string; revoked: boolean; accessCount?: { lt: number } }
+      data: { accessCount: { increment: number }; lastAccessedAt: Date }
+    }) => {
+      const matched = db.shares.filter(share =>
+        share.id === where.id &&
+        share.revoked === where.revoked &&
+        (!where.accessCount || share.accessCount < where.accessCount.lt)
+      )
+      for (const share of matched) {
+        share.accessCount += data.accessCount.increment
+        share.lastAccessedAt = data.lastAccessedAt
+      }
+      return { count: matched.length }
+    },
+    update: async ({ where, data }: {
+      where: { id: string }
+      data: { failedPasswordAttempts: number | { increment: number }; passwordLockedUntil?: Date | null }
+    }) => {
+      const share = db.shares.find(share => share.id === where.id)
+      if (!share) throw new Error('Record to update not found')
+      share.failedPasswordAttempts = typeof data.failedPasswordAttempts === 'number'
+        ? data.failedPasswordAttempts
+        : share.failedPasswordAttempts + data.failedPasswordAttempts.increment
+      if (data.passwordLockedUntil !== undefined) share.passwordLockedUntil = data.passwordLockedUntil
+      return { ...share }
+    }
+  }
+  return { getPrismaClient: async () => ({ fileShare }) }
+})
+
+import {
+  attemptSharePassword,
+  claimShareAccess,
+  getShareUnlockCookieName,
+  getShareUnavailableReason,
+  isShareUnlocked,
+  issueShareUnlockToken,
+  MAX_SHARE_PASSWORD_ATTEMPTS,
+  PublicShareRecord,
+  SHARE_UNLOCK_HEADER,
+  verifyShareUnlockToken
+} from './share-links'
+
+function publicShare(overrides: Partial<PublicShareRecord> = {}): PublicShareRecord {
+  return {
+    id: 'share-1',
+    shareType: 'PUBLIC',
+    password: null,
+    expiresAt: null,
+    maxAccessCount: null,
+    accessCount: 0,
+    revoked: false,
+    ...overrides
+  }
+}
+
+function storedShare(overrides: Partial<StoredShare> = {}): StoredShare {
+  return {
+    id: 'share-1',
+    revoked: false,
+    accessCount: 0,
+    lastAccessedAt: null,
+    failedPasswordAttempts: 0,
+    passwordLockedUntil: null,
+    ...overrides
+  }
+}
+
+function unlockRequest(cookies: Record<string, string>, headers: Record<string, string> = {}) {
+  return {
+    cookies: { get: (name: string) => (name in cookies ? { value: cookies[name] } : undefined) },
+    headers: new Headers(headers)
+  }
+}
+
+describe('share unlock tokens', () => {
+  beforeEach(() => {
+    vi.stubEnv('NEXTAUTH_SECRET', 'test-secret')
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllEnvs()
+  })
+
+  it('unlock the share and password they were issued for', () => {
+    const token = issueShareUnlockToken('share-1', 'hash-1')
+
+    expect(verifyShareUnlockToken('share-1', 'hash-1', token)).toBe(true)
+    expect(verifyShareUnlockToken('share-2', 'hash-1', token)).toBe(false)
+    // Changing the password invalidates outstanding unlocks
+    expect(verifyShareUnlockToken('share-1', 'hash-2', token)).toBe(false)
+  })
+
+  it('are refused when tampered with or missing', () => {
+    const [expires, signature] = issueShareUnlockToken('share-1', 'hash-1').split('.')
+
+    expect(verifyShareUnlockToken('share-1', 'hash-1', `${Number(expires) + 3600}.${signature}`)).toBe(false)
+    expect(verifyShareUnlockToken('share-1', 'hash-1', `${expires}.${signature.slice(1)}x`)).toBe(false)
+    expect(verifyShareUnlockToken('share-1', 'hash-1', expires)).toBe(false)
+    expect(verifyShareUnlockToken('share-1', 'hash-1', null)).toBe(false)
+  })
+
+  it('expire', () => {
+    vi.useFakeTimers()
+    const token = issueShareUnlockToken('share-1', 'hash-1', 60)
+
+    vi.advanceTimersByTime(61 * 1000)
+
+    expect(verifyShareUnlockToken('share-1', 'hash-1', token)).toBe(false)
+  })
+})
+
+describe('public share access limits', () => {
+  beforeEach(() => {
+    db.shares = [storedShare()]
+  })
+
+  it('counts accesses up to maxAccessCount, then refuses them', async () => {
+    const share = publicShare({ maxAccessCount: 2 })
+
+    expect(await claimShareAccess(share)).toBe(true)
+    expect(await claimShareAccess(share)).toBe(true)
+    expect(await claimShareAccess(share)).toBe(false)
+    expect(db.shares[0].accessCount).toBe(2)
+  })
+
+  it('refuses access to a revoked share', async () => {
+    db.shares[0].revoked = true
+
+    expect(await claimShareAccess(publicShare())).toBe(false)
+  })
+
+  it('explains why a share can no longer be used', () => {
+    expect(getShareUnavailableReason(publicShare())).toBeNull()
+    expect(getShareUnavailableReason(publicShare({ revoked: true }))).toBe('This link has been revoked')
+    expect(getShareUnavailableReason(publicShare({ expiresAt: new Date(Date.now() - 1000) }))).toBe('This link has expired')
+    expect(getShareUnavailableReason(publicShare({ maxAccessCount: 3, accessCount: 3 }))).toBe(
+      'This link has reached its access limit'
+    )
+  })
+})
+
+describe('share passwords', () => {
+  // A cheap cost factor keeps the tests fast; compare reads the cost from the hash
+  const passwordHash = bcrypt.hashSync('correct horse', 4)
+  const protectedShare = () => ({ id: 'share-1', password: passwordHash, passwordLockedUntil: db.shares[0].passwordLockedUntil })
+
+  beforeEach(() => {
+    db.shares = [storedShare()]
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('locks the share after repeated wrong passwords, even against the right one', async () => {
+    for (let attempt = 1; attempt < MAX_SHARE_PASSWORD_ATTEMPTS; attempt++) {
+      expect(await attemptSharePassword(protectedShare(), 'wrong')).toBe(false)
+    }
+    expect(db.shares[0].passwordLockedUntil).toBeNull()
+
+    expect(await attemptSharePassword(protectedShare(), 'wrong')).toBe(false)
+
+    expect(db.shares[0].passwordLockedUntil!.getTime()).toBeGreaterThan(Date.now())
+    await expect(attemptSharePassword(protectedShare(), 'correct horse')).rejects.toMatchObject({ statusCode: 429 })
+  })
+
+  it('resets the failure count on a correct password', async () => {
+    for (let attempt = 1; attempt < MAX_SHARE_PASSWORD_ATTEMPTS; attempt++) {
+      await attemptSharePassword(protectedShare(), 'wrong')
+    }
+
+    expect(await attemptSharePassword(protectedShare(), 'correct horse')).toBe(true)
+    expect(db.shares[0].failedPasswordAttempts).toBe(0)
+
+    expect(await attemptSharePassword(protectedShare(), 'wrong')).toBe(false)
+    expect(db.shares[0].passwordLockedUntil).toBeNull()
+  })
+
+  it('accepts an unlock from the cookie or the unlock header', () => {
+    vi.stubEnv('NEXTAUTH_SECRET', 'test-secret')
+    const share = { id: 'share-1', password: passwordHash }
+    const token = issueShareUnlockToken(share.id, passwordHash)
+
+    expect(isShareUnlocked(share, unlockRequest({}))).toBe(false)
+    expect(isShareUnlocked(share, unlockRequest({ [getShareUnlockCookieName(share.id)]: token }))).toBe(true)
+    expect(isShareUnlocked(share, unlockRequest({}, { [SHARE_UNLOCK_HEADER]: token }))).toBe(true)
+    // An unlock for another share opens nothing
+    expect(isShareUnlocked(share, unlockRequest({ [getShareUnlockCookieName(share.id)]: issueShareUnlockToken('share-2', passwordHash) }))).toBe(false)
+    expect(isShareUnlocked({ id: 'share-1', password: null }, unlockRequest({}))).toBe(true)
+  })
+})
@@ -0,0 +1,243 @@
+// Public share links and share passwords
+//
+// A PUBLIC FileShare carries an unguessable token and is served to anyone holding /s/[token].
+// Any share may carry a bcrypt-hashed password. A correct password earns a short-lived unlock
+// token (HMAC over the share id, expiry and password hash) kept in an httpOnly cookie, so
+// changing the password invalidates outstanding unlocks. Repeated wrong passwords lock the
+// share's password prompt for a while, whoever is guessing.
+
+import crypto from 'crypto'
+import bcrypt from 'bcryptjs'
+import { getPrismaClient } from './prisma'
+import { requiresPassphrase, isEndToEndEncrypted, WrappedKeyRecord } from './key-management'
+import { createInternalError, createRateLimitError, createValidationError } from './error-handling'
+
+export const SHARE_TOKEN_BYTES = 32
+export const SHARE_UNLOCK_TTL_SECONDS = 30 * 60 // 30 minutes
+export const SHARE_UNLOCK_HEADER = 'x-share-unlock'
+export const MIN_SHARE_PASSWORD_LENGTH = 6
+export const MAX_SHARE_PASSWORD_ATTEMPTS = 5
+export const SHARE_PASSWORD_LOCKOUT_MS = 15 * 60 * 1000 // 15 minutes
+const BCRYPT_ROUNDS = 10
+
+// Types a browser may render inline without running script in our origin
+const INLINE_PREVIEW_TYPES = [/^image\/(?!svg)/, /^video\//, /^audio\//, /^application\/pdf$/, /^text\/plain$/]
+
+export interface PublicShareRecord {
+  id: string
+  shareType: string
+  password: string | null
+  expiresAt: Date | null
+  maxAccessCount: number | null
+  accessCount: number
+  revoked: boolean
+}
+
+/**
+ * Generate an unguessable public link token
+ */
+export function generateShareToken(): string {
+  return crypto.randomBytes(SHARE_TOKEN_BYTES).toString('base64url')
+}
+
+export function isValidShareToken(token: unknown): token is string {
+  return typeof token === 'string' && /^[A-Za-z0-9_-]{43}$/.test(token)
+}
+
+/**
+ * Build the public URL for a share token
+ */
+export function buildShareLinkUrl(token: string, origin?: string): string {
+  const base = (process.env.APP_URL || process.env.NEXTAUTH_URL || origin || '').replace(/\/$/, '')
+  return `${base}/s/${token}`
+}
+
+/**
+ * Hash a share password for storage
+ */
+export async function hashSharePassword(password: unknown): Promise<string> {
+  if (typeof password !== 'string' || password.length < MIN_SHARE_PASSWORD_LENGTH) {
+    throw createValidationError(`Share password must be at least ${MIN_SHARE_PASSWORD_LENGTH} characters`)
+  }
+  if (password.length > 128) {
+    throw createValidationError('Share password must be at most 128 characters')
+  }
+  return bcrypt.hash(password, BCRYPT_ROUNDS)
+}
+
+/**
+ * Hash an optional share password from a request; empty values mean no password
+ */
+export async function hashOptionalSharePassword(password: unknown): Promise<string | null> {
+  return password ? hashSharePassword(password) : null
+}
+
+/**
+ * Check a password attempt against a stored share password hash
+ */
+export async function verifySharePassword(password: string, passwordHash: string): Promise<boolean> {
+  return bcrypt.compare(password, passwordHash)
+}
+
+/**
+ * Check a password attempt with per-share throttling. After MAX_SHARE_PASSWORD_ATTEMPTS
+ * consecutive failures the share rejects attempts until the lockout passes.
+ */
+export async function attemptSharePassword(
+  share: { id: string; password: string | null; passwordLockedUntil?: Date | null },
+  password: string
+): Promise<boolean> {
+  if (!share.password) {
+    return true
+  }
+  if (share.passwordLockedUntil && new Date(share.passwordLockedUntil) > new Date()) {
+    throw createRateLimitError('Too many incorrect passwords. Please try again later.')
+  }
+
+  const prisma = await getPrismaClient()
+  if (await verifySharePassword(password, share.password)) {
+    await prisma.fileShare.update({
+      where: { id: share.id },
+      data: { failedPasswordAttempts: 0, passwordLockedUntil: null }
+    })
+    return true
+  }
+
+  const updated = await prisma.fileShare.update({
+    where: { id: share.id },
+    data: { failedPasswordAttempts: { increment: 1 } },
+    select: { failedPasswordAttempts: true }
+  })
+  if (updated.failedPasswordAttempts >= MAX_SHARE_PASSWORD_ATTEMPTS) {
+    await prisma.fileShare.update({
+      where: { id: share.id },
+      data: { failedPasswordAttempts: 0, passwordLockedUntil: new Date(Date.now() + SHARE_PASSWORD_LOCKOUT_MS) }
+    })
+  }
+  return false
+}
+
+function getUnlockSecret(): string {
+  const secret = process.env.NEXTAUTH_SECRET
+  if (!secret) {
+    throw createInternalError('NEXTAUTH_SECRET must be set to unlock password-protected shares')
+  }
+  return secret
+}
+
+function signUnlock(shareId: string, expires: number, passwordHash: string): string {
+  return crypto.createHmac('sha256', getUnlockSecret())
+    .update(`share-unlock\n${shareId}\n${expires}\n${passwordHash}`)
+    .digest('base64url')
+}
+
+/**
+ * Issue an unlock token after a correct password
+ */
+export function issueShareUnlockToken(shareId: string, passwordHash: string, ttlSeconds: number = SHARE_UNLOCK_TTL_SECONDS): string {
+  const expires = Math.floor(Date.now() / 1000) + ttlSeconds
+  return `${expires}.${signUnlock(shareId, expires, passwordHash)}`
+}
+
+/**
+ * Verify an unlock token for a share; tokens die with their expiry or a password change
+ */
+export function verifyShareUnlockToken(shareId: string, passwordHash: string, token: string | null | undefined): boolean {
+  if (!token) {
+    return false
+  }
+  const [expiresPart, signature] = token.split('.')
+  const expires = Number(expiresPart)
+  if (!signature || !Number.isInteger(expires) || expires * 1000 < Date.now()) {
+    return false
+  }
+  const expected = Buffer.from(signUnlock(shareId, expires, passwordHash))
+  const provided = Buffer.from(signature)
+  return provided.length === expected.length && crypto.timingSafeEqual(provided, expected)
+}
+
+export function getShareUnlockCookieName(shareId: string): string {
+  return `share_unlock_${shareId}`
+}
+
+export interface UnlockCarrier {
+  cookies: { get(name: string): { value: string } | undefined }
+  headers: Headers
+}
+
+/**
+ * Whether a request carries a valid unlock for a share, in its cookie or the x-share-unlock header
+ */
+export function isShareUnlocked(share: { id: string; password: string | null }, request: UnlockCarrier): boolean {
+  if (!share.password) {
+    return true
+  }
+  return verifyShareUnlockToken(share.id, share.password, request.cookies.get(getShareUnlockCookieName(share.id))?.value) ||
+    verifyShareUnlockToken(share.id, share.password, request.headers.get(SHARE_UNLOCK_HEADER))
+}
+
+/**
+ * Why a share can no longer be used, or null while it is still valid
+ */
+export function getShareUnavailableReason(share: PublicShareRecord): string | null {
+  if (share.revoked) {
+    return 'This link has been revoked'
+  }
+  if (share.expiresAt && new Date(share.expiresAt) <= new Date()) {
+    return 'This link has expired'
+  }
+  if (share.maxAccessCount && share.accessCount >= share.maxAccessCount) {
+    return 'This link has reached its access limit'
+  }
+  return null
+}
+
+/**
+ * Whether the server can serve a file's plaintext without a user-held secret
+ */
+export function isServerReadable(file: WrappedKeyRecord & { encrypted: boolean }): boolean {
+  if (!file.encrypted) {
+    return true
+  }
+  return !requiresPassphrase(file) && !isEndToEndEncrypted(file) && !!(file.wrappedKey || file.encryptionKey)
+}
+
+export function isInlinePreviewable(contentType: string): boolean {
+  return INLINE_PREVIEW_TYPES.some(pattern => pattern.test(contentType))
+}
+
+/**
+ * Find the PUBLIC share for a link token, with its file
+ */
+export async function findPublicShare(token: string) {
+  if (!isValidShareToken(token)) {
+    return null
+  }
+  const prisma = await getPrismaClient()
+  const share = await prisma.fileShare.findUnique({
+    where: { token },
+    include: {
+      file: true,
+      creator: { select: { name: true } }
+    }
+  })
+  // Links to trashed files stop working until the file is restored
+  return share?.shareType === 'PUBLIC' && !share.file.deletedAt ? share : null
+}
+
+/**
+ * Count one content access against maxAccessCount; false once the limit is reached.
+ * The limit is checked in the UPDATE itself so concurrent requests cannot overshoot it.
+ */
+export async function claimShareAccess(share: PublicShareRecord): Promise<boolean> {
+  const prisma = await getPrismaClient()
+  const claim = await prisma.fileShare.updateMany({
+    where: {
+      id: share.id,
+      revoked: false,
+      ...(share.maxAccessCount ? { accessCount: { lt: share.maxAccessCount } } : {})
+    },
+    data: { accessCount: { increment: 1 }, lastAccessedAt: new Date() }
+  })
+  return claim.count > 0
+}
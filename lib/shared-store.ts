@@ -0,0 +1,216 @@
+// Shared state
+//
+// State every app instance has to agree on (Socket.IO rooms, which users have a socket open
+// and rate-limit counters) is kept in Redis when REDIS_URL is set, so several instances behave
+// as one. Without REDIS_URL it stays in this process's memory, which is all a
+// single node needs. Callers use the same store either way.
+
+import Redis from 'ioredis'
+
+const KEY_PREFIX = process.env.REDIS_KEY_PREFIX || 'privora:'
+
+export interface WindowCount {
+  count: number
+  resetAt: number // epoch ms at which the window ends
+}
+
+export interface SharedStore {
+  // Whether other instances see what this store holds
+  readonly shared: boolean
+  // Count a hit in a fixed window that starts with the key's first hit
+  increment(key: string, windowMs: number): Promise<WindowCount>
+  get(key: string): Promise<string | null>
+  set(key: string, value: string, ttlMs?: number): Promise<void>
+  delete(key: string): Promise<void>
+  hashSet(key: string, field: string, value: string): Promise<void>
+  hashDelete(key: string, field: string): Promise<number>
+  hashGetAll(key: string): Promise<Record<string, string>>
+  setAdd(key: string, member: string): Promise<void>
+  setRemove(key: string, member: string): Promise<void>
+  setMembers(key: string): Promise<string[]>
+}
+
+function createRedisClient(url: string, name: string, keyPrefix?: string): Redis {
+  const client = new Redis(url, {
+    // Fail commands quickly while Redis is unreachable instead of queueing them
+    maxRetriesPerRequest: 1,
+    connectionName: `privora-${name}`,
+    keyPrefix
+  })
+  client.on('error', (error) => {
+    console.error(`Redis (${name}) error:`, error.message)
+  })
+  return client
+}
+
+class RedisStore implements SharedStore {
+  readonly shared = true
+
+  constructor(private client: Redis) {}
+
+  async increment(key: string, windowMs: number): Promise<WindowCount> {
+    const results = await this.client
+      .multi()
+      .set(key, 0, 'PX', windowMs, 'NX')
+      .incr(key)
+      .pttl(key)
+      .exec()
+    const count = Number(results?.[1]?.[1] ?? 0)
+    const ttl = Number(results?.[2]?.[1] ?? windowMs)
+    return { count, resetAt: Date.now() + (ttl > 0 ? ttl : windowMs) }
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.client.get(key)
+  }
+
+  async set(key: string, value: string, ttlMs?: number): Promise<void> {
+    if (ttlMs) {
+      await this.client.set(key, value, 'PX', ttlMs)
+    } else {
+      await this.client.set(key, value)
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.del(key)
+  }
+
+  async hashSet(key: string, field: string, value: string): Promise<void> {
+    await this.client.hset(key, field, value)
+  }
+
+  async hashDelete(key: string, field: string): Promise<number> {
+    await this.client.hdel(key, field)
+    return this.client.hlen(key)
+  }
+
+  async hashGetAll(key: string): Promise<Record<string, string>> {
+    return this.client.hgetall(key)
+  }
+
+  async setAdd(key: string, member: string): Promise<void> {
+    await this.client.sadd(key, member)
+  }
+
+  async setRemove(key: string, member: string): Promise<void> {
+    await this.client.srem(key, member)
+  }
+
+  async setMembers(key: string): Promise<string[]> {
+    return this.client.smembers(key)
+  }
+}
+
+class MemoryStore implements SharedStore {
+  readonly shared = false
+  private values = new Map<string, { value: string; expiresAt: number | null }>()
+  private hashes = new Map<string, Map<string, string>>()
+  private sets = new Map<string, Set<string>>()
+
+  constructor() {
+    // Drop expired keys (mostly rate-limit windows) so the map does not grow without bound
+    setInterval(() => {
+      const now = Date.now()
+      for (const [key, entry] of this.values) {
+        if (entry.expiresAt !== null && entry.expiresAt <= now) this.values.delete(key)
+      }
+    }, 60 * 1000).unref()
+  }
+
+  private live(key: string) {
+    const entry = this.values.get(key)
+    if (entry && entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      this.values.delete(key)
+      return undefined
+    }
+    return entry
+  }
+
+  async increment(key: string, windowMs: number): Promise<WindowCount> {
+    const entry = this.live(key) || { value: '0', expiresAt: Date.now() + windowMs }
+    entry.value = String(Number(entry.value) + 1)
+    this.values.set(key, entry)
+    return { count: Number(entry.value), resetAt: entry.expiresAt ?? Date.now() + windowMs }
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.live(key)?.value ?? null
+  }
+
+  async set(key: string, value: string, ttlMs?: number): Promise<void> {
+    this.values.set(key, { value, expiresAt: ttlMs ? Date.now() + ttlMs : null })
+  }
+
+  async delete(key: string): Promise<void> {
+    this.values.delete(key)
+    this.hashes.delete(key)
+    this.sets.delete(key)
+  }
+
+  async hashSet(key: string, field: string, value: string): Promise<void> {
+    const hash = this.hashes.get(key) || new Map<string, string>()
+    hash.set(field, value)
+    this.hashes.set(key, hash)
+  }
+
+  async hashDelete(key: string, field: string): Promise<number> {
+    const hash = this.hashes.get(key)
+    if (!hash) return 0
+    hash.delete(field)
+    if (hash.size === 0) this.hashes.delete(key)
+    return hash.size
+  }
+
+  async hashGetAll(key: string): Promise<Record<string, string>> {
+    return Object.fromEntries(this.hashes.get(key) || [])
+  }
+
+  async setAdd(key: string, member: string): Promise<void> {
+    const set = this.sets.get(key) || new Set<string>()
+    set.add(member)
+    this.sets.set(key, set)
+  }
+
+  async setRemove(key: string, member: string): Promise<void> {
+    const set = this.sets.get(key)
+    if (!set) return
+    set.delete(member)
+    if (set.size === 0) this.sets.delete(key)
+  }
+
+  async setMembers(key: string): Promise<string[]> {
+    return Array.from(this.sets.get(key) || [])
+  }
+}
+
+// Kept on globalThis so hot reloads in development reuse one connection
+const globalForStore = globalThis as unknown as { sharedStore?: SharedStore }
+
+/**
+ * The store for state shared between instances: Redis when REDIS_URL is set, otherwise this
+ * process's memory
+ */
+export function getSharedStore(): SharedStore {
+  if (!globalForStore.sharedStore) {
+    if (process.env.REDIS_URL) {
+      globalForStore.sharedStore = new RedisStore(createRedisClient(process.env.REDIS_URL, 'store', KEY_PREFIX))
+    } else {
+      console.warn('REDIS_URL not set, shared state is kept in memory (single instance only)')
+      globalForStore.sharedStore = new MemoryStore()
+    }
+  }
+  return globalForStore.sharedStore
+}
+
+/**
+ * A publisher and subscriber connection pair for the Socket.IO Redis adapter, or null when
+ * Redis is not configured and sockets only need to reach this instance
+ */
+export function createAdapterClients(): { pubClient: Redis; subClient: Redis } | null {
+  if (!process.env.REDIS_URL) return null
+  return {
+    pubClient: createRedisClient(process.env.REDIS_URL, 'socket-pub'),
+    subClient: createRedisClient(process.env.REDIS_URL, 'socket-sub')
+  }
+}
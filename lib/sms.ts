@@ -0,0 +1,102 @@
+// SMS
+//
+// Text messages go through the provider named by SMS_PROVIDER: "twilio" (TWILIO_ACCOUNT_SID,
+// TWILIO_AUTH_TOKEN and TWILIO_FROM_NUMBER) or "fake", which sends nothing and keeps the
+// messages in memory for local development. Without SMS_PROVIDER the SMS channel is off.
+
+import crypto from 'crypto'
+import { createInternalError, createNetworkError } from './error-handling'
+
+export type SmsProviderName = 'twilio' | 'fake'
+
+export interface SmsMessage {
+  to: string // E.164
+  body: string
+}
+
+export interface SmsProvider {
+  readonly name: SmsProviderName
+  // Returns the provider's ID for the message; throws when it was not accepted
+  send(message: SmsMessage): Promise<string>
+}
+
+export interface FakeSms extends SmsMessage {
+  id: string
+  sentAt: Date
+}
+
+const FAKE_OUTBOX_SIZE = 100
+
+export class FakeSmsProvider implements SmsProvider {
+  readonly name = 'fake'
+  readonly outbox: FakeSms[] = []
+
+  async send(message: SmsMessage): Promise<string> {
+    const sms = { ...message, id: `fake_${crypto.randomUUID()}`, sentAt: new Date() }
+    this.outbox.push(sms)
+    if (this.outbox.length > FAKE_OUTBOX_SIZE) this.outbox.shift()
+    console.log(`SMS to ${message.to} (not sent, SMS_PROVIDER=fake): ${message.body}`)
+    return sms.id
+  }
+}
+
+export class TwilioSmsProvider implements SmsProvider {
+  readonly name = 'twilio'
+  private accountSid: string
+  private authToken: string
+  private from: string
+
+  constructor() {
+    const { TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM_NUMBER } = process.env
+    if (!TWILIO_ACCOUNT_SID || !TWILIO_AUTH_TOKEN || !TWILIO_FROM_NUMBER) {
+      throw createInternalError('TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_FROM_NUMBER are required')
+    }
+    this.accountSid = TWILIO_ACCOUNT_SID
+    this.authToken = TWILIO_AUTH_TOKEN
+    this.from = TWILIO_FROM_NUMBER
+  }
+
+  async send(message: SmsMessage): Promise<string> {
+    const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${this.accountSid}/Messages.json`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${this.accountSid}:${this.authToken}`).toString('base64')}`,
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body: new URLSearchParams({ To: message.to, From: this.from, Body: message.body })
+    })
+    const result: { sid?: string; message?: string } = await response.json().catch(() => ({}))
+    if (!response.ok || !result.sid) {
+      throw createNetworkError(`Twilio rejected the message: ${result.message || response.status}`)
+    }
+    return result.sid
+  }
+}
+
+let provider: SmsProvider | null = null
+
+export function isSmsEnabled(): boolean {
+  return Boolean(process.env.SMS_PROVIDER?.trim())
+}
+
+/**
+ * The configured SMS provider, or null when SMS is off
+ */
+export function getSmsProvider(): SmsProvider | null {
+  const configured = process.env.SMS_PROVIDER?.trim().toLowerCase()
+  if (!configured) return null
+  if (!provider || provider.name !== configured) {
+    if (configured === 'twilio') {
+      provider = new TwilioSmsProvider()
+    } else if (configured === 'fake') {
+      provider = new FakeSmsProvider()
+    } else {
+      throw createInternalError(`Unknown SMS_PROVIDER: ${configured}`)
+    }
+  }
+  return provider
+}
+
+export function isValidPhoneNumber(value: string): boolean {
+  return /^\+[1-9]\d{6,14}$/.test(value)
+}
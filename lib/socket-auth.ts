@@ -0,0 +1,96 @@
+// Socket.IO authentication
+//
+// Sockets authenticate during the handshake with a NextAuth JWT: the session cookie when the
+// socket server shares the app's origin, or a short-lived token from GET /api/socket/token sent
+// as `auth.token` when the cookie does not reach it. Sockets without a valid token are refused.
+// The verified user is bound to the socket; nothing the browser sends afterwards can change it.
+
+import type { IncomingHttpHeaders } from 'http'
+import { decode, encode, JWT } from 'next-auth/jwt'
+import { getPrismaClient } from './prisma'
+
+export const SOCKET_TOKEN_MAX_AGE = 5 * 60 // seconds; the token only has to outlive the handshake
+const SESSION_COOKIE = 'next-auth.session-token'
+
+export interface SocketIdentity {
+  userId: string
+  email: string
+  role: string
+}
+
+function getSecret(): string {
+  if (!process.env.NEXTAUTH_SECRET) {
+    throw new Error('NEXTAUTH_SECRET is required but not set')
+  }
+  return process.env.NEXTAUTH_SECRET
+}
+
+/**
+ * Issue a handshake token for a signed-in user, in the same format as the session token
+ */
+export async function createSocketToken(user: { id: string; email: string; role: string }): Promise<string> {
+  return encode({
+    token: { sub: user.id, email: user.email, role: user.role, purpose: 'socket' },
+    secret: getSecret(),
+    maxAge: SOCKET_TOKEN_MAX_AGE
+  })
+}
+
+/**
+ * The NextAuth session token from a Cookie header: secure or plain cookie name, joined back
+ * together when NextAuth split a large session into numbered chunks
+ */
+function readSessionCookie(header: string | undefined): string | null {
+  if (!header) return null
+
+  const cookies = new Map<string, string>()
+  for (const part of header.split(';')) {
+    const separator = part.indexOf('=')
+    if (separator === -1) continue
+    try {
+      cookies.set(part.slice(0, separator).trim(), decodeURIComponent(part.slice(separator + 1).trim()))
+    } catch {
+      // Malformed values cannot be a session token
+    }
+  }
+
+  for (const name of [`__Secure-${SESSION_COOKIE}`, SESSION_COOKIE]) {
+    const whole = cookies.get(name)
+    if (whole) return whole
+    const chunks: string[] = []
+    for (let index = 0; cookies.has(`${name}.${index}`); index++) {
+      chunks.push(cookies.get(`${name}.${index}`) as string)
+    }
+    if (chunks.length > 0) return chunks.join('')
+  }
+  return null
+}
+
+/**
+ * Verify a Socket.IO handshake and resolve the user it belongs to, or null when it carries no
+ * valid, unexpired token for an existing account
+ */
+export async function authenticateHandshake(handshake: {
+  auth: Record<string, unknown>
+  headers: IncomingHttpHeaders
+}): Promise<SocketIdentity | null> {
+  const explicit = handshake.auth?.token
+  const raw = typeof explicit === 'string' && explicit ? explicit : readSessionCookie(handshake.headers.cookie)
+  if (!raw) return null
+
+  let token: JWT | null
+  try {
+    token = await decode({ token: raw, secret: getSecret() })
+  } catch {
+    return null
+  }
+  if (!token?.sub) return null
+
+  // The account may have been removed since the token was issued
+  const prisma = await getPrismaClient()
+  const user: { id: string; email: string; role: string } | null = await prisma.user.findUnique({
+    where: { id: token.sub },
+    select: { id: true, email: true, role: true }
+  })
+  return user ? { userId: user.id, email: user.email, role: user.role } : null
+}
@@ -0,0 +1,170 @@
+// Socket.IO events
+//
+// Every event the server and browsers exchange, with its payload, shared by lib/socket.ts and
+// lib/presence-context.tsx. Each connected socket joins its user's room; events about a user's
+// shares, transfers, deliveries and groups reach only that room, through emitToUser. Events about
+// a file go to the file's room, which a socket joins with subscribe-file after an access check
+// and which is re-checked for every event. Nothing is broadcast to all connected users.
+
+export interface FileReceivedEvent {
+  shareId: string
+  fileId: string
+  fileName: string
+  fileSize: number
+  fileType: string
+  senderId: string
+  senderEmail: string | null
+  senderName: string | null
+  sharedAt: string
+  permissions: string[] | string
+  expiresAt?: string
+  encrypted: boolean
+  deliveryStatus: 'delivered'
+  deliveredAt?: string
+}
+
+export interface FileSharedEvent {
+  shareId?: string
+  fileId: string
+  fileName: string
+  senderId: string
+  senderEmail?: string | null
+  receiverEmail: string
+  receiverId?: string
+  permissions: string[] | string
+  expiresAt?: string
+  sharedAt: string
+  shareType?: string
+  deliveryStatus?: string
+}
+
+export interface FolderSharedEvent {
+  folderId: string
+  folderName: string
+  senderId: string
+  senderName?: string | null
+  permissions: string[]
+}
+
+export interface TransferReceivedEvent {
+  transferId: string
+  title: string
+  senderEmail?: string | null
+  senderName?: string | null
+  totalFiles: number
+  sentAt: string
+}
+
+export interface FileRequestUploadEvent {
+  fileRequestId: string
+  title: string
+  fileId: string
+  fileName: string
+  uploaderName: string | null
+  uploaderEmail: string | null
+}
+
+export interface FileQuarantinedEvent {
+  fileId: string
+  fileName: string
+  signature: string
+}
+
+export interface FileVersionCreatedEvent {
+  fileId: string
+  fileName: string
+  versionId: string
+  versionNumber: number
+  createdBy: string
+  createdByName?: string | null
+  createdAt: string
+}
+
+export interface FileRolledBackEvent {
+  fileId: string
+  fileName: string
+  fromVersion: number
+  toVersion: number
+  rolledBackBy: string
+  rolledBackByName?: string | null
+  rolledBackAt: string
+}
+
+export interface FileActivityEvent {
+  fileId: string
+  userId: string // Set by the server from the sender's socket
+  email: string
+  action: 'accessed' | 'edited'
+  at: string
+}
+
+export interface DeliveryStatusEvent {
+  deliveryId: string
+  fileId: string
+  shareId?: string
+  recipientEmail: string
+  status: 'pending' | 'sent' | 'delivered' | 'viewed' | 'downloaded' | 'failed'
+  attempts: number
+  failureReason?: string
+  timestamp: string
+}
+
+export interface GroupCreatedEvent {
+  groupId: string
+  groupName: string
+  creatorId: string
+  creatorName?: string | null
+  createdAt: string
+}
+
+export interface InvitationsSentEvent {
+  emailsCount: number
+  successCount: number
+  failCount: number
+  sentAt: string
+}
+
+export interface ConnectionRequestEvent {
+  fromUserId: string // Set by the server from the sender's socket
+  fromEmail: string
+  message?: string
+  at: string
+}
+
+export interface ServerToClientEvents {
+  'registration-success': (data: { message: string }) => void
+  'file-received': (data: FileReceivedEvent) => void
+  'file-shared': (data: FileSharedEvent) => void
+  'folder-shared': (data: FolderSharedEvent) => void
+  'transfer-received': (data: TransferReceivedEvent) => void
+  'file-request-upload': (data: FileRequestUploadEvent) => void
+  'file-quarantined': (data: FileQuarantinedEvent) => void
+  'file-version-created': (data: FileVersionCreatedEvent) => void
+  'file-rolled-back': (data: FileRolledBackEvent) => void
+  'file-activity': (data: FileActivityEvent) => void
+  'delivery-status-update': (data: DeliveryStatusEvent) => void
+  'group-created': (data: GroupCreatedEvent) => void
+  'invitations-sent': (data: InvitationsSentEvent) => void
+  'connection-request': (data: ConnectionRequestEvent) => void
+  'connection-accepted': (data: ConnectionRequestEvent) => void
+  'share-success': (data: { shareId: string }) => void
+  'share-failed': (data: { shareId?: string; reason: string }) => void
+}
+
+export type SubscribeResult = { ok: true } | { ok: false; error: string }
+
+export interface ClientToServerEvents {
+  ping: (ack: () => void) => void
+  // Join or leave a file's room; joining needs VIEW access to the file
+  'subscribe-file': (fileId: string, ack?: (result: SubscribeResult) => void) => void
+  'unsubscribe-file': (fileId: string) => void
+  // Tell others watching a file (its room) that the sender opened or edited it
+  'file-activity': (data: { fileId: string; action: 'accessed' | 'edited' }) => void
+  // Deliver one of the sender's own shares to its recipient's connected devices
+  'share-file': (data: { shareId: string }) => void
+  'request-connection': (data: { targetUserId: string; message?: string }) => void
+  'accept-connection': (data: { requesterId: string }) => void
+}
+
+export type ServerEventName = keyof ServerToClientEvents
+export type ServerEventPayload<E extends ServerEventName> = Parameters<ServerToClientEvents[E]>[0]
@@ -1,403 +1,383 @@
+import { randomUUID } from 'crypto'
 import { Server as NetServer } from 'http'
 import { NextApiResponse } from 'next'
-import { Server as ServerIO } from 'socket.io'
+import { Server as ServerIO, Socket } from 'socket.io'
+import { createAdapter } from '@socket.io/redis-adapter'
 import { getPrismaClient } from './prisma'
+import { createAdapterClients, getSharedStore } from './shared-store'
+import { authenticateHandshake, SocketIdentity } from './socket-auth'
+import { checkFileAccess, Permission } from './permissions'
+import { attemptDelivery, retryRecipientDeliveries, trackDelivery } from './deliveries'
+import { createNetworkError } from './error-handling'
+import {
+  ClientToServerEvents,
+  ServerEventName,
+  ServerEventPayload,
+  ServerToClientEvents
+} from './socket-events'
 
 export type NextApiResponseServerIo = NextApiResponse & {
   socket: any & {
     server: NetServer & {
-      io: ServerIO | undefined
+      io: PrivoraServer | undefined
     }
   }
 }
 
-// Store connected users with their IP addresses and socket IDs
+interface SocketData {
+  user: SocketIdentity
+}
+
+type PrivoraServer = ServerIO<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData>
+type PrivoraSocket = Socket<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData>
+
+// Connected users with their IP addresses and socket IDs, across all instances
 interface ConnectedUser {
   userId: string
   email: string
   socketId: string
+  instanceId: string
   ipAddress: string
   connectedAt: Date
   lastActivity: Date
 }
 
-const connectedUsers = new Map<string, ConnectedUser[]>()
+interface ShareToDeliver {
+  id: string
+  fileId: string
+  userId: string | null
+  sharedWithEmail: string | null
+  expiresAt: Date | null
+  user: { email: string } | null
+}
 
-let io: ServerIO | null = null
+// The presence registry lives in the shared store (see lib/shared-store.ts). Each entry names
+// the instance holding the socket, and instances refresh a heartbeat key; entries of an instance
+// whose heartbeat expired (it crashed or was stopped) are ignored and cleaned up on read.
+const INSTANCE_ID = randomUUID()
+const INSTANCE_TTL_MS = 30 * 1000
+const PRESENCE_USERS_KEY = 'presence:users'
+const presenceKey = (userId: string) => `presence:user:${userId}`
+const instanceKey = (instanceId: string) => `presence:instance:${instanceId}`
 
-// Helper function to check for pending deliveries
-async function checkPendingDeliveries(userId: string, socket: any) {
-  try {
-    const prisma = await getPrismaClient()
-
-    // Find pending file shares for this user
-    const pendingShares = await prisma.fileShare.findMany({
-      where: {
-        sharedWithEmail: {
-          equals: await getUserEmail(userId)
-        },
-        status: 'pending',
-        revoked: false,
-        OR: [
-          { expiresAt: null },
-          { expiresAt: { gt: new Date() } }
-        ]
-      },
-      include: {
-        file: true
-      }
-    })
+let io: PrivoraServer | null = null
 
-    for (const share of pendingShares) {
-      console.log('Delivering pending file:', share.id, 'to user:', userId)
+// Every socket joins its user's room; file rooms are joined on request after an access check
+const userRoom = (userId: string) => `user:${userId}`
+const fileRoom = (fileId: string) => `file:${fileId}`
 
-      // Emit file-received event to this specific socket
-      socket.emit('file-received', {
-        shareId: share.id,
-        fileId: share.fileId,
-        fileName: share.file.originalName || share.file.name,
-        fileSize: share.file.size,
-        fileType: share.file.type,
-        senderEmail: share.createdBy,
-        senderName: share.createdBy,
-        sharedAt: share.createdAt.toISOString(),
-        permissions: share.permissions,
-        expiresAt: share.expiresAt?.toISOString(),
-        encrypted: share.file.encrypted,
-        deliveryStatus: 'delivered'
-      })
+function startInstanceHeartbeat() {
+  const store = getSharedStore()
+  if (!store.shared) return
 
-      // Update delivery status
-      await updateDeliveryStatus(share.id, 'delivered')
-    }
-  } catch (error) {
-    console.error('Error checking pending deliveries:', error)
+  const beat = () => {
+    store.set(instanceKey(INSTANCE_ID), new Date().toISOString(), INSTANCE_TTL_MS)
+      .catch(error => console.error('Presence heartbeat failed:', error))
   }
+  beat()
+  setInterval(beat, INSTANCE_TTL_MS / 3).unref()
 }
 
-// Helper function to get user email
-async function getUserEmail(userId: string): Promise<string> {
-  const prisma = await getPrismaClient()
-  const user = await prisma.user.findUnique({
-    where: { id: userId },
-    select: { email: true }
-  })
-  return user?.email || ''
+async function registerConnection(connection: ConnectedUser) {
+  const store = getSharedStore()
+  await store.hashSet(presenceKey(connection.userId), connection.socketId, JSON.stringify(connection))
+  await store.setAdd(PRESENCE_USERS_KEY, connection.userId)
 }
 
-// Helper function to update delivery status
-async function updateDeliveryStatus(shareId: string, status: string) {
-  try {
-    const prisma = await getPrismaClient()
-    await prisma.fileShare.update({
-      where: { id: shareId },
-      data: {
-        status,
-        updatedAt: new Date()
-      }
-    })
-  } catch (error) {
-    console.error('Error updating delivery status:', error)
+async function unregisterConnection(userId: string, socketId: string) {
+  const store = getSharedStore()
+  const remaining = await store.hashDelete(presenceKey(userId), socketId)
+  if (remaining === 0) {
+    await store.setRemove(PRESENCE_USERS_KEY, userId)
   }
 }
 
-// Helper function to get connected sockets for a user
-function getUserSockets(userId: string): ConnectedUser[] {
-  return connectedUsers.get(userId) || []
-}
-
-// Helper function to emit to specific user sockets
-function emitToUserSockets(userId: string, event: string, data: any) {
-  const userSockets = getUserSockets(userId)
-  userSockets.forEach(userSocket => {
-    const socket = io?.sockets.sockets.get(userSocket.socketId)
-    if (socket) {
-      socket.emit(event, data)
-    }
-  })
-}
+function registerSocketHandlers(socket: PrivoraSocket) {
+  const { userId, email } = socket.data.user
 
-export const initSocket = (httpServer: NetServer): ServerIO => {
-  io = new ServerIO(httpServer, {
-    path: '/api/socket',
-    cors: {
-      origin: process.env.NEXTAUTH_URL || 'https://privora12-jhpk3ne82-mvogonka-christophes-projects.vercel.app',
-      methods: ['GET', 'POST'],
-    },
+  socket.on('ping', (ack) => {
+    if (typeof ack === 'function') ack()
   })
 
-  io.on('connection', async (socket) => {
-    console.log('Socket connected:', socket.id)
-
-    // Extract client IP address
-    const clientIP = socket.handshake.address || 'unknown'
-    console.log('Client IP:', clientIP)
-
-    // Handle user authentication and IP tracking
-    socket.on('register-user', async (data: { userId: string; email: string }) => {
-      try {
-        const { userId, email } = data
-        console.log('Registering user:', userId, email, 'from IP:', clientIP)
-
-        // Check if user exists in database
-        const prisma = await getPrismaClient()
-        const userExists = await prisma.user.findUnique({
-          where: { id: userId },
-          select: { id: true, email: true }
-        })
-
-        if (!userExists) {
-          console.warn('User not found in database:', userId)
-          socket.emit('registration-failed', { reason: 'User not found' })
-          return
-        }
-
-        // Track user connection
-        const userConnections = connectedUsers.get(userId) || []
-        const existingConnection = userConnections.find(conn => conn.socketId === socket.id)
-
-        if (!existingConnection) {
-          const newConnection: ConnectedUser = {
-            userId,
-            email,
-            socketId: socket.id,
-            ipAddress: clientIP,
-            connectedAt: new Date(),
-            lastActivity: new Date()
-          }
-          userConnections.push(newConnection)
-          connectedUsers.set(userId, userConnections)
-
-          console.log('User registered successfully:', userId, 'Total connections:', userConnections.length)
-          socket.emit('registration-success', { message: 'Connected successfully' })
-
-          // Check for pending deliveries
-          await checkPendingDeliveries(userId, socket)
-        }
-      } catch (error) {
-        console.error('Error registering user:', error)
-        socket.emit('registration-failed', { reason: 'Internal error' })
+  // File rooms: VIEW access is checked on joining and again before every event (see emitToFile)
+  socket.on('subscribe-file', async (fileId, ack) => {
+    try {
+      const access = await checkFileAccess(userId, String(fileId), [Permission.VIEW])
+      if (!access.hasAccess) {
+        ack?.({ ok: false, error: access.reason || 'Access denied' })
+        return
       }
-    })
+      await socket.join(fileRoom(fileId))
+      ack?.({ ok: true })
+    } catch (error) {
+      console.error('Error subscribing to file:', fileId, error)
+      ack?.({ ok: false, error: 'Internal error' })
+    }
+  })
 
-    // Handle user online/offline status
-    socket.on('user-online', (data) => {
-      console.log('User online:', data)
-      socket.broadcast.emit('user-status-changed', {
-        ...data,
-        isOnline: true,
-      })
-    })
+  socket.on('unsubscribe-file', async (fileId) => {
+    await socket.leave(fileRoom(String(fileId)))
+  })
 
-    socket.on('user-offline', (data) => {
-      console.log('User offline:', data)
-      socket.broadcast.emit('user-status-changed', {
-        ...data,
-        isOnline: false,
-      })
-    })
+  // Activity is relayed with the sender's verified identity, only within a room it has joined
+  socket.on('file-activity', async (data) => {
+    if (!data || !socket.rooms.has(fileRoom(data.fileId)) || !['accessed', 'edited'].includes(data.action)) return
+    await emitToFile(data.fileId, 'file-activity', {
+      fileId: data.fileId,
+      userId,
+      email,
+      action: data.action,
+      at: new Date().toISOString()
+    }, { except: socket.id })
+  })
 
-    socket.on('user-away', (data) => {
-      console.log('User away:', data)
-      socket.broadcast.emit('user-status-changed', {
-        ...data,
-        isOnline: false,
+  // Deliver one of the sender's own shares to the recipient's connected devices
+  socket.on('share-file', async (data) => {
+    try {
+      const prisma = await getPrismaClient()
+      const share: ShareToDeliver | null = await prisma.fileShare.findFirst({
+        where: { id: data?.shareId, createdBy: userId, revoked: false, file: { deletedAt: null } },
+        select: { id: true, fileId: true, userId: true, sharedWithEmail: true, expiresAt: true, user: { select: { email: true } } }
       })
-    })
 
-    socket.on('user-active', (data) => {
-      console.log('User active:', data)
-      socket.broadcast.emit('user-status-changed', {
-        ...data,
-        isOnline: true,
-      })
-    })
-
-    // Handle file sharing notifications with targeted delivery
-    socket.on('share-file', async (data) => {
-      console.log('File shared:', data)
-
-      try {
-        const prisma = await getPrismaClient()
-
-        // Find the recipient user
-        const recipient = await prisma.user.findFirst({
-          where: { email: data.receiverEmail }
-        })
-
-        if (!recipient) {
-          console.warn('Recipient not found:', data.receiverEmail)
-          socket.emit('share-failed', { reason: 'Recipient not found' })
-          return
-        }
-
-        // Get recipient's connected sockets
-        const recipientSockets = getUserSockets(recipient.id)
-
-        if (recipientSockets.length > 0) {
-          // Deliver to all recipient's connected devices
-          recipientSockets.forEach(userSocket => {
-            const targetSocket = io?.sockets.sockets.get(userSocket.socketId)
-            if (targetSocket) {
-              console.log('Delivering file to socket:', userSocket.socketId, 'IP:', userSocket.ipAddress)
-              targetSocket.emit('file-received', {
-                ...data,
-                deliveryStatus: 'delivered',
-                deliveredAt: new Date().toISOString()
-              })
-            }
-          })
-
-          // Update delivery status
-          await updateDeliveryStatus(data.shareId, 'delivered')
-        } else {
-          // No active connections - mark as pending
-          console.log('No active connections for recipient, marking as pending')
-          await updateDeliveryStatus(data.shareId, 'pending')
-        }
-
-        // Notify sender of successful share
-        socket.emit('share-success', { shareId: data.shareId })
-
-      } catch (error) {
-        console.error('Error handling file share:', error)
-        socket.emit('share-failed', { reason: 'Internal error' })
+      if (!share || !share.userId) {
+        console.warn('Share not found for sender:', data?.shareId, userId)
+        socket.emit('share-failed', { shareId: data?.shareId, reason: 'Share not found' })
+        return
       }
-    })
-
-    // Handle advanced sharing events (legacy support)
-    socket.on('file-shared', (data) => {
-      console.log('Legacy file shared event:', data)
-      socket.broadcast.emit('file-shared', data)
-    })
-
-    socket.on('file-accessed', (data) => {
-      console.log('File accessed:', data)
-      socket.broadcast.emit('file-accessed', data)
-    })
-
-    socket.on('file-edited', (data) => {
-      console.log('File edited:', data)
-      socket.broadcast.emit('file-edited', data)
-    })
-
-    socket.on('permission-changed', (data) => {
-      console.log('Permission changed:', data)
-      socket.broadcast.emit('permission-changed', data)
-    })
 
-    socket.on('file-version-created', (data) => {
-      console.log('File version created:', data)
-      socket.broadcast.emit('file-version-created', data)
-    })
-
-    socket.on('file-rolled-back', (data) => {
-      console.log('File rolled back:', data)
-      socket.broadcast.emit('file-rolled-back', data)
-    })
+      // Recipients without a connected device get it when they connect (see retryRecipientDeliveries)
+      const delivery = await trackDelivery({
+        shareId: share.id,
+        fileId: share.fileId,
+        senderId: userId,
+        recipientId: share.userId,
+        recipientEmail: share.user?.email || share.sharedWithEmail || '',
+        expiresAt: share.expiresAt
+      })
+      await attemptDelivery(delivery.id)
 
-    socket.on('group-created', (data) => {
-      console.log('Group created:', data)
-      socket.broadcast.emit('group-created', data)
-    })
+      // Notify sender of successful share
+      socket.emit('share-success', { shareId: share.id })
+    } catch (error) {
+      console.error('Error handling file share:', error)
+      socket.emit('share-failed', { shareId: data?.shareId, reason: 'Internal error' })
+    }
+  })
 
-    socket.on('group-member-added', (data) => {
-      console.log('Group member added:', data)
-      socket.broadcast.emit('group-member-added', data)
+  // Connection requests go to the one user they are addressed to, from the verified sender
+  socket.on('request-connection', (data) => {
+    if (!data?.targetUserId || data.targetUserId === userId) return
+    emitToUser(data.targetUserId, 'connection-request', {
+      fromUserId: userId,
+      fromEmail: email,
+      message: typeof data.message === 'string' ? data.message.slice(0, 500) : undefined,
+      at: new Date().toISOString()
     })
+  })
 
-    // Handle LAN file delivery events
-    socket.on('lan-file-delivery', (data) => {
-      console.log('LAN file delivery initiated:', data)
-      socket.broadcast.emit('lan-file-delivery', data)
+  socket.on('accept-connection', (data) => {
+    if (!data?.requesterId || data.requesterId === userId) return
+    emitToUser(data.requesterId, 'connection-accepted', {
+      fromUserId: userId,
+      fromEmail: email,
+      at: new Date().toISOString()
     })
+  })
 
-    socket.on('lan-delivery-status-update', (data) => {
-      console.log('LAN delivery status update:', data)
-      socket.broadcast.emit('lan-delivery-status-update', data)
-    })
+  socket.on('disconnect', async () => {
+    console.log('Socket disconnected:', socket.id)
 
-    socket.on('lan-delivery-retry', (data) => {
-      console.log('LAN delivery retry:', data)
-      socket.broadcast.emit('lan-delivery-retry', data)
-    })
+    // Remove this socket from the user's connections
+    try {
+      await unregisterConnection(userId, socket.id)
+    } catch (error) {
+      console.error('Error removing socket from presence registry:', socket.id, error)
+    }
+  })
+}
 
-    socket.on('lan-delivery-completed', (data) => {
-      console.log('LAN delivery completed:', data)
-      socket.broadcast.emit('lan-delivery-completed', data)
-    })
+export const initSocket = (httpServer: NetServer): PrivoraServer => {
+  io = new ServerIO<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData>(httpServer, {
+    path: '/api/socket',
+    cors: {
+      origin: process.env.NEXTAUTH_URL || 'https://privora12-jhpk3ne82-mvogonka-christophes-projects.vercel.app',
+      methods: ['GET', 'POST'],
+      credentials: true,
+    },
+  })
 
-    socket.on('lan-delivery-failed', (data) => {
-      console.log('LAN delivery failed:', data)
-      socket.broadcast.emit('lan-delivery-failed', data)
-    })
+  // With Redis configured, rooms span every instance: an emit on one reaches sockets on all
+  const adapterClients = createAdapterClients()
+  if (adapterClients) {
+    io.adapter(createAdapter(adapterClients.pubClient, adapterClients.subClient))
+    console.log('Socket.IO using the Redis adapter')
+  }
+  startInstanceHeartbeat()
+
+  // Only authenticated sockets connect; the verified user is bound to the socket (see lib/socket-auth.ts)
+  io.use(async (socket, next) => {
+    try {
+      const identity = await authenticateHandshake(socket.handshake)
+      if (!identity) {
+        console.warn('Rejected unauthenticated socket from IP:', socket.handshake.address)
+        return next(new Error('Unauthorized'))
+      }
+      socket.data.user = identity
+      next()
+    } catch (error) {
+      console.error('Socket authentication failed:', error)
+      next(new Error('Authentication failed'))
+    }
+  })
 
-    // Handle connection requests
-    socket.on('request-connection', (data) => {
-      console.log('Connection requested:', data)
-      socket.broadcast.emit('connection-request', data)
-    })
+  io.on('connection', async (socket) => {
+    const { userId, email } = socket.data.user
+    console.log('Socket connected:', socket.id)
 
-    socket.on('accept-connection', (data) => {
-      console.log('Connection accepted:', data)
-      socket.broadcast.emit('connection-accepted', data)
-    })
+    // Extract client IP address
+    const clientIP = socket.handshake.address || 'unknown'
+    console.log('Registering user:', userId, email, 'from IP:', clientIP)
+
+    socket.join(userRoom(userId))
+
+    registerSocketHandlers(socket)
+
+    // Track user connection
+    try {
+      await registerConnection({
+        userId,
+        email,
+        socketId: socket.id,
+        instanceId: INSTANCE_ID,
+        ipAddress: clientIP,
+        connectedAt: new Date(),
+        lastActivity: new Date()
+      })
+      console.log('User registered successfully:', userId)
+    } catch (error) {
+      console.error('Error adding socket to presence registry:', socket.id, error)
+    }
+    socket.emit('registration-success', { message: 'Connected successfully' })
 
-    socket.on('disconnect', () => {
-      console.log('Socket disconnected:', socket.id)
-
-      // Remove user from connected users
-      for (const [userId, userSockets] of connectedUsers.entries()) {
-        const filteredSockets = userSockets.filter(conn => conn.socketId !== socket.id)
-        if (filteredSockets.length === 0) {
-          connectedUsers.delete(userId)
-        } else {
-          connectedUsers.set(userId, filteredSockets)
-        }
-      }
+    // Deliver what was sent to this user while they had no device connected
+    retryRecipientDeliveries(userId).catch(error => {
+      console.error('Error checking pending deliveries:', error)
     })
   })
 
   return io
 }
 
-// Function to emit events from server-side API routes
-export const emitSocketEvent = (event: string, data: any) => {
-  if (io) {
-    console.log('Emitting socket event:', event, data)
-    io.emit(event, data)
+/**
+ * Send an event to every connected device of one user, on any instance. The only way private
+ * events leave the server; resolves to whether the user had a connected device, and throws when
+ * the socket server is not running in this process or the presence registry cannot be read.
+ */
+export const sendToUser = async <E extends ServerEventName>(
+  userId: string,
+  event: E,
+  data: ServerEventPayload<E>
+): Promise<boolean> => {
+  if (!io) {
+    throw createNetworkError(`Socket.io not initialized, cannot emit event: ${event}`)
+  }
+
+  // Emitting to an empty room is a no-op, so the registry only decides the return value
+  io.to(userRoom(userId)).emit(event, ...([data] as Parameters<ServerToClientEvents[E]>))
+  const connected = (await getUserConnections(userId)).length > 0
+  if (connected) {
+    console.log('Emitted to user:', userId, event)
   } else {
-    console.warn('Socket.io not initialized, cannot emit event:', event)
+    console.warn('No active sockets found for user:', userId)
   }
+  return connected
 }
 
-// Function to emit events to specific user
-export const emitToUser = (userId: string, event: string, data: any) => {
-  const userSockets = getUserSockets(userId)
-  let emitted = false
-
-  userSockets.forEach(userSocket => {
-    const socket = io?.sockets.sockets.get(userSocket.socketId)
-    if (socket) {
-      console.log('Emitting to user socket:', userSocket.socketId, event, data)
-      socket.emit(event, data)
-      emitted = true
-    }
-  })
+/**
+ * sendToUser for best-effort events: a failure is logged and resolves to false
+ */
+export const emitToUser = async <E extends ServerEventName>(
+  userId: string,
+  event: E,
+  data: ServerEventPayload<E>
+): Promise<boolean> => {
+  try {
+    return await sendToUser(userId, event, data)
+  } catch (error) {
+    console.error('Failed to emit to user:', userId, event, error)
+    return false
+  }
+}
 
-  if (!emitted) {
-    console.warn('No active sockets found for user:', userId)
+/**
+ * Send an event to the sockets watching a file. Each user in the room is checked for VIEW
+ * access first; sockets of users who lost it are removed from the room instead.
+ */
+export const emitToFile = async <E extends ServerEventName>(
+  fileId: string,
+  event: E,
+  data: ServerEventPayload<E>,
+  options: { except?: string } = {}
+): Promise<void> => {
+  if (!io) {
+    console.warn('Socket.io not initialized, cannot emit event:', event)
+    return
   }
 
-  return emitted
+  try {
+    const sockets = await io.in(fileRoom(fileId)).fetchSockets()
+    const allowed = new Map<string, boolean>()
+    for (const socket of sockets) {
+      if (socket.id === options.except) continue
+      const { userId } = socket.data.user
+      if (!allowed.has(userId)) {
+        allowed.set(userId, (await checkFileAccess(userId, fileId, [Permission.VIEW])).hasAccess)
+      }
+      if (allowed.get(userId)) {
+        socket.emit(event, ...([data] as Parameters<ServerToClientEvents[E]>))
+      } else {
+        socket.leave(fileRoom(fileId))
+      }
+    }
+  } catch (error) {
+    console.error('Failed to emit file event:', event, fileId, error)
+  }
 }
 
-// Function to get connected users count
-export const getConnectedUsersCount = () => {
-  return connectedUsers.size
+/**
+ * The users with at least one socket open on a live instance
+ */
+export const getConnectedUsersCount = async (): Promise<number> => {
+  const userIds = await getSharedStore().setMembers(PRESENCE_USERS_KEY)
+  let count = 0
+  for (const userId of userIds) {
+    if ((await getUserConnections(userId)).length > 0) count++
+  }
+  return count
 }
 
-// Function to get user connection info
-export const getUserConnections = (userId: string) => {
-  return connectedUsers.get(userId) || []
-}
\ No newline at end of file
+/**
+ * A user's open sockets on live instances; entries left behind by stopped instances are removed
+ */
+export const getUserConnections = async (userId: string): Promise<ConnectedUser[]> => {
+  const store = getSharedStore()
+  const entries = await store.hashGetAll(presenceKey(userId))
+  const instances = new Map<string, boolean>()
+  const connections: ConnectedUser[] = []
+
+  for (const [socketId, raw] of Object.entries(entries)) {
+    const entry = JSON.parse(raw) as ConnectedUser
+    if (!instances.has(entry.instanceId)) {
+      const alive = entry.instanceId === INSTANCE_ID || (await store.get(instanceKey(entry.instanceId))) !== null
+      instances.set(entry.instanceId, alive)
+    }
+
+    if (instances.get(entry.instanceId)) {
+      connections.push({ ...entry, connectedAt: new Date(entry.connectedAt), lastActivity: new Date(entry.lastActivity) })
+    } else {
+      await unregisterConnection(userId, socketId)
+    }
+  }
+  return connections
+}
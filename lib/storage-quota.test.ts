@@ -0,0 +1,153 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+interface StoredQuota {
+  userId: string
+  limitBytes: bigint | null
+  usedBytes: bigint
+}
+
+interface StoredBlob {
+  url: string
+  storageKey: string | null
+  size: number
+}
+
+interface StoredFile extends StoredBlob {
+  id: string
+  userId: string
+  versions: StoredBlob[]
+}
+
+type Counter = bigint | { increment?: bigint; decrement?: bigint }
+
+// In-memory User, StorageQuota and File tables supporting the queries quotas are kept with
+const db = vi.hoisted(() => ({
+  users: [] as { id: string; role: string }[],
+  quotas: [] as StoredQuota[],
+  files: [] as StoredFile[]
+}))
+
+vi.mock('./prisma', () => {
+  const quotaMatches = (quota: StoredQuota, where: { userId: string; usedBytes?: { lte?: bigint; lt?: bigint } }) =>
+    quota.userId === where.userId &&
+    (where.usedBytes?.lte === undefined || quota.usedBytes <= where.usedBytes.lte) &&
+    (where.usedBytes?.lt === undefined || quota.usedBytes < where.usedBytes.lt)
+
+  const prisma = {
+    user: {
+      findUnique: async ({ where }: { where: { id: string } }) => db.users.find(user => user.id === where.id) ?? null
+    },
+    storageQuota: {
+      findUnique: async ({ where }: { where: { userId: string } }) =>
+        db.quotas.find(quota => quota.userId === where.userId) ?? null,
+      upsert: async ({ where, create, update }: {
+        where: { userId: string }
+        create: { userId: string; usedBytes: bigint }
+        update: { usedBytes?: bigint }
+      }) => {
+        const existing = db.quotas.find(quota => quota.userId === where.userId)
+        if (existing) return Object.assign(existing, update)
+        const created = { limitBytes: null, ...create }
+        db.quotas.push(created)
+        return created
+      },
+      // Applied synchronously, like a single UPDATE statement
+      updateMany: async ({ where, data }: { where: { userId: string }; data: { usedBytes: Counter } }) => {
+        const matched = db.quotas.filter(quota => quotaMatches(quota, where))
+        for (const quota of matched) {
+          const change = data.usedBytes
+          quota.usedBytes = typeof change === 'bigint'
+            ? change
+            : quota.usedBytes + (change.increment ?? BigInt(0)) - (change.decrement ?? BigInt(0))
+        }
+        return { count: matched.length }
+      }
+    },
+    file: {
+      findMany: async ({ where, take, cursor, skip = 0 }: {
+        where: { userId: string }
+        take: number
+        cursor?: { id: string }
+        skip?: number
+      }) =>
+        db.files
+          .filter(file => file.userId === where.userId && (!cursor || file.id >= cursor.id))
+          .sort((a, b) => a.id.localeCompare(b.id))
+          .slice(skip, skip + take)
+    }
+  }
+  return { getPrismaClient: async () => prisma }
+})
+
+import { getStorageQuota, recalculateStorageUsage, releaseStorage, reserveStorage } from './storage-quota'
+
+const MB = 1024 * 1024
+const GB = 1024 * MB
+
+describe('storage quota reservations', () => {
+  beforeEach(() => {
+    db.users = [{ id: 'user-1', role: 'user' }]
+    db.quotas = [{ userId: 'user-1', limitBytes: BigInt(100 * MB), usedBytes: BigInt(0) }]
+    db.files = []
+  })
+
+  it('reserves space up to the limit and refuses more', async () => {
+    await reserveStorage('user-1', 60 * MB)
+    await reserveStorage('user-1', 40 * MB)
+
+    await expect(reserveStorage('user-1', 1)).rejects.toThrow('Storage quota exceeded')
+    expect((await getStorageQuota('user-1')).usedBytes).toBe(100 * MB)
+  })
+
+  it('does not let concurrent reservations overshoot the limit', async () => {
+    const results = await Promise.allSettled([
+      reserveStorage('user-1', 60 * MB),
+      reserveStorage('user-1', 60 * MB)
+    ])
+
+    expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected'])
+    expect(db.quotas[0].usedBytes).toBe(BigInt(60 * MB))
+  })
+
+  it('gives space back on release, never below zero', async () => {
+    await reserveStorage('user-1', 30 * MB)
+    await releaseStorage('user-1', 10 * MB)
+    expect(db.quotas[0].usedBytes).toBe(BigInt(20 * MB))
+
+    await releaseStorage('user-1', 50 * MB)
+    expect(db.quotas[0].usedBytes).toBe(BigInt(0))
+  })
+
+  it('starts a new user at their role default, counting the files they already have', async () => {
+    db.users.push({ id: 'admin-1', role: 'admin' })
+    db.files = [{ id: 'file-1', userId: 'admin-1', url: '/a', storageKey: 'a', size: 5 * MB, versions: [] }]
+
+    const quota = await getStorageQuota('admin-1')
+
+    expect(quota).toMatchObject({ limitBytes: 50 * GB, usedBytes: 5 * MB, isCustomLimit: false })
+  })
+})
+
+describe('recalculateStorageUsage', () => {
+  beforeEach(() => {
+    db.users = [{ id: 'user-1', role: 'user' }]
+    db.quotas = [{ userId: 'user-1', limitBytes: null, usedBytes: BigInt(999) }]
+  })
+
+  it('charges content once per file and reports deduplicated content once', async () => {
+    const shared = { url: '/blobs/shared', storageKey: 'blobs/shared', size: 10 * MB }
+    db.files = [
+      // A rollback points the file and an old version at the same blob
+      { id: 'file-1', userId: 'user-1', ...shared, versions: [shared, { url: '/v1', storageKey: 'v1', size: 3 * MB }] },
+      // Identical content uploaded again as another file
+      { id: 'file-2', userId: 'user-1', ...shared, versions: [] },
+      { id: 'file-3', userId: 'user-2', url: '/other', storageKey: 'other', size: 50 * MB, versions: [] }
+    ]
+
+    const quota = await recalculateStorageUsage('user-1')
+
+    expect(quota.usedBytes).toBe(23 * MB)
+    expect(quota.physicalBytes).toBe(13 * MB)
+    expect(db.quotas[0].usedBytes).toBe(BigInt(23 * MB))
+  })
+})
@@ -0,0 +1,281 @@
+// Per-user storage quotas
+//
+// Every stored File and FileVersion blob counts against its file owner's quota, including
+// versions uploaded by EDIT collaborators. Quotas charge logical usage: content is counted once
+// per file, but two files with identical content both count even though deduplication stores the
+// bytes once (see lib/blob-store.ts). Physical usage, the distinct content a user holds, is
+// reported alongside and summed by the database on request. Logical usage is kept as a counter
+// on StorageQuota that is reserved before a blob is written and released when blobs are deleted;
+// recalculateStorageUsage rebuilds it from the rows. Limits default by role and can be
+// overridden per user.
+
+import { getPrismaClient } from './prisma'
+import { createNotFoundError, createQuotaExceededError, createValidationError } from './error-handling'
+
+const GB = 1024 * 1024 * 1024
+
+export const ROLE_DEFAULT_QUOTAS: Record<string, number> = {
+  user: 5 * GB,
+  admin: 50 * GB
+}
+
+const MAX_QUOTA_BYTES = 100 * 1024 * GB // 100TB
+const RECALCULATE_BATCH_SIZE = 200
+
+export interface StorageQuotaInfo {
+  userId: string
+  role: string
+  limitBytes: number
+  usedBytes: number
+  availableBytes: number
+  isCustomLimit: boolean
+  physicalBytes?: number // Only present when usage was measured from the rows
+}
+
+export interface StorageUsage {
+  logicalBytes: number
+  physicalBytes: number
+}
+
+interface QuotaRow {
+  limitBytes: bigint | null
+  usedBytes: bigint
+}
+
+interface BlobRow {
+  url: string
+  storageKey?: string | null
+  size: number
+}
+
+function blobLocation(blob: BlobRow): string {
+  return blob.storageKey || blob.url
+}
+
+/**
+ * The quota for a role when the user has no override
+ */
+export function getRoleDefaultQuota(role: string | null | undefined): number {
+  return ROLE_DEFAULT_QUOTAS[role || 'user'] ?? ROLE_DEFAULT_QUOTAS.user
+}
+
+/**
+ * Resolve a loaded quota record against the user's role default
+ */
+export function toQuotaInfo(userId: string, role: string, quota: QuotaRow): StorageQuotaInfo {
+  const limitBytes = quota.limitBytes !== null ? Number(quota.limitBytes) : getRoleDefaultQuota(role)
+  const usedBytes = Number(quota.usedBytes)
+  return {
+    userId,
+    role,
+    limitBytes,
+    usedBytes,
+    availableBytes: Math.max(limitBytes - usedBytes, 0),
+    isCustomLimit: quota.limitBytes !== null
+  }
+}
+
+/**
+ * Measure a user's usage from their files and versions. A rollback or an unchanged re-upload
+ * points the file and a version at the same blob, so logically content counts once per file;
+ * physically once per user.
+ */
+export async function measureStorageUsage(userId: string): Promise<StorageUsage> {
+  const prisma = await getPrismaClient()
+  const seen = new Set<string>()
+  const usage: StorageUsage = { logicalBytes: 0, physicalBytes: 0 }
+  let cursor: string | undefined
+
+  while (true) {
+    const files = await prisma.file.findMany({
+      where: { userId },
+      select: {
+        id: true,
+        url: true,
+        storageKey: true,
+        size: true,
+        versions: { select: { url: true, storageKey: true, size: true } }
+      },
+      orderBy: { id: 'asc' },
+      take: RECALCULATE_BATCH_SIZE,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {})
+    })
+
+    for (const file of files) {
+      const inFile = new Set<string>()
+      for (const blob of [file, ...file.versions] as BlobRow[]) {
+        const location = blobLocation(blob)
+        if (!inFile.has(location)) {
+          inFile.add(location)
+          usage.logicalBytes += blob.size
+        }
+        if (!seen.has(location)) {
+          seen.add(location)
+          usage.physicalBytes += blob.size
+        }
+      }
+    }
+
+    if (files.length < RECALCULATE_BATCH_SIZE) {
+      return usage
+    }
+    cursor = files[files.length - 1].id
+  }
+}
+
+/**
+ * The distinct content a user's files and versions hold, summed by the database. Rows count by
+ * storage location like in measureStorageUsage, so deduplicated content counts once.
+ */
+export async function getPhysicalStorageUsage(userId: string): Promise<number> {
+  const prisma = await getPrismaClient()
+  const rows: { physicalBytes: bigint | null }[] = await prisma.$queryRaw`
+    SELECT SUM("size")::bigint AS "physicalBytes"
+    FROM (
+      SELECT COALESCE(NULLIF(f."storageKey", ''), f."url") AS "location", f."size"
+      FROM "File" f
+      WHERE f."userId" = ${userId}
+      UNION
+      SELECT COALESCE(NULLIF(v."storageKey", ''), v."url"), v."size"
+      FROM "FileVersion" v
+      JOIN "File" f ON f."id" = v."fileId"
+      WHERE f."userId" = ${userId}
+    ) blobs
+  `
+  return Number(rows[0]?.physicalBytes ?? 0)
+}
+
+async function getUserRole(userId: string): Promise<string> {
+  const prisma = await getPrismaClient()
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { role: true } })
+  if (!user) {
+    throw createNotFoundError('User')
+  }
+  return user.role
+}
+
+/**
+ * Load a user's quota record, creating it from measured usage on first use
+ */
+async function ensureQuotaRecord(userId: string): Promise<QuotaRow> {
+  const prisma = await getPrismaClient()
+  const existing = await prisma.storageQuota.findUnique({ where: { userId } })
+  if (existing) {
+    return existing
+  }
+
+  const { logicalBytes } = await measureStorageUsage(userId)
+  return prisma.storageQuota.upsert({
+    where: { userId },
+    create: { userId, usedBytes: BigInt(logicalBytes) },
+    update: {}
+  })
+}
+
+/**
+ * Current limit and usage for a user
+ */
+export async function getStorageQuota(userId: string): Promise<StorageQuotaInfo> {
+  const role = await getUserRole(userId)
+  return toQuotaInfo(userId, role, await ensureQuotaRecord(userId))
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= GB) {
+    return `${(bytes / GB).toFixed(2)}GB`
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(2)}MB`
+}
+
+/**
+ * Fail early when a user clearly has no room for an upload; nothing is reserved
+ */
+export async function assertStorageAvailable(userId: string, bytes: number): Promise<void> {
+  const quota = await getStorageQuota(userId)
+  if (bytes > quota.availableBytes) {
+    throw createQuotaExceededError(
+      `Storage quota exceeded: ${formatBytes(bytes)} needed, ${formatBytes(quota.availableBytes)} of ${formatBytes(quota.limitBytes)} available`
+    )
+  }
+}
+
+/**
+ * Reserve space before writing a blob. The limit is checked inside the UPDATE so concurrent
+ * uploads cannot overshoot it. Release the reservation if the write fails.
+ */
+export async function reserveStorage(userId: string, bytes: number): Promise<void> {
+  if (bytes <= 0) {
+    return
+  }
+
+  const quota = await getStorageQuota(userId)
+  const prisma = await getPrismaClient()
+  const claim = await prisma.storageQuota.updateMany({
+    where: { userId, usedBytes: { lte: BigInt(quota.limitBytes - bytes) } },
+    data: { usedBytes: { increment: BigInt(bytes) } }
+  })
+
+  if (claim.count === 0) {
+    throw createQuotaExceededError(
+      `Storage quota exceeded: ${formatBytes(bytes)} needed, ${formatBytes(quota.availableBytes)} of ${formatBytes(quota.limitBytes)} available`
+    )
+  }
+}
+
+/**
+ * Give back space after blobs are deleted or a reserved write failed
+ */
+export async function releaseStorage(userId: string, bytes: number): Promise<void> {
+  if (bytes <= 0) {
+    return
+  }
+
+  try {
+    const prisma = await getPrismaClient()
+    await prisma.storageQuota.updateMany({
+      where: { userId },
+      data: { usedBytes: { decrement: BigInt(bytes) } }
+    })
+    // Counters never go negative, even if they drifted before a recalculation
+    await prisma.storageQuota.updateMany({
+      where: { userId, usedBytes: { lt: BigInt(0) } },
+      data: { usedBytes: BigInt(0) }
+    })
+  } catch (error) {
+    console.error('Failed to release storage quota:', userId, bytes, error)
+  }
+}
+
+/**
+ * Rebuild a user's usage counter from their File and FileVersion rows
+ */
+export async function recalculateStorageUsage(userId: string): Promise<StorageQuotaInfo> {
+  const role = await getUserRole(userId)
+  const usage = await measureStorageUsage(userId)
+  const usedBytes = BigInt(usage.logicalBytes)
+  const prisma = await getPrismaClient()
+  const quota = await prisma.storageQuota.upsert({
+    where: { userId },
+    create: { userId, usedBytes },
+    update: { usedBytes }
+  })
+  return { ...toQuotaInfo(userId, role, quota), physicalBytes: usage.physicalBytes }
+}
+
+/**
+ * Override a user's limit, or pass null to return to their role default
+ */
+export async function setStorageQuotaLimit(userId: string, limitBytes: number | null): Promise<StorageQuotaInfo> {
+  if (limitBytes !== null && (!Number.isSafeInteger(limitBytes) || limitBytes < 0 || limitBytes > MAX_QUOTA_BYTES)) {
+    throw createValidationError('Quota must be a whole number of bytes between 0 and 100TB')
+  }
+
+  const role = await getUserRole(userId)
+  await ensureQuotaRecord(userId)
+  const prisma = await getPrismaClient()
+  const quota = await prisma.storageQuota.update({
+    where: { userId },
+    data: { limitBytes: limitBytes === null ? null : BigInt(limitBytes) }
+  })
+  return toQuotaInfo(userId, role, quota)
+}
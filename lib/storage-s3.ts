@@ -0,0 +1,358 @@
+// S3-compatible storage provider (AWS S3, MinIO, Cloudflare R2, ...)
+//
+// Speaks the S3 REST API directly with AWS Signature Version 4, so no SDK is needed.
+// Configuration:
+//   S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY   required
+//   S3_REGION          default us-east-1
+//   S3_ENDPOINT        e.g. http://localhost:9000 for MinIO; defaults to AWS
+//   S3_FORCE_PATH_STYLE  "true" for bucket-in-path URLs (default when S3_ENDPOINT is set)
+//
+// Uploads are buffered one part at a time: bodies up to one part are sent with a single PUT,
+// larger ones as a multipart upload, so memory use stays bounded for any file size.
+
+import crypto from 'crypto'
+import { Readable } from 'stream'
+import type { ReadableStream as NodeReadableStream } from 'stream/web'
+import { createInternalError, createNotFoundError, createStorageError } from './error-handling'
+import {
+  clampPresignExpiry,
+  StorageGetResult,
+  StorageObjectInfo,
+  StoragePresignOptions,
+  StorageProvider,
+  StoragePutOptions,
+  StorageRange
+} from './storage'
+
+const PART_SIZE = 8 * 1024 * 1024 // S3 requires at least 5MB for all but the last part
+const EMPTY_PAYLOAD_HASH = crypto.createHash('sha256').update('').digest('hex')
+const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD'
+
+interface S3Config {
+  bucket: string
+  region: string
+  accessKeyId: string
+  secretAccessKey: string
+  endpoint: URL
+  pathStyle: boolean
+}
+
+interface SignedRequest {
+  method: string
+  key: string
+  query?: Record<string, string>
+  headers?: Record<string, string>
+  body?: Buffer
+}
+
+function loadConfig(): S3Config {
+  const { S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env
+  if (!S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+    throw createInternalError('S3 storage requires S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY')
+  }
+
+  const region = process.env.S3_REGION || 'us-east-1'
+  const endpoint = new URL(process.env.S3_ENDPOINT || `https://s3.${region}.amazonaws.com`)
+  const pathStyle = process.env.S3_FORCE_PATH_STYLE
+    ? process.env.S3_FORCE_PATH_STYLE === 'true'
+    : !!process.env.S3_ENDPOINT
+
+  return { bucket: S3_BUCKET, region, accessKeyId: S3_ACCESS_KEY_ID, secretAccessKey: S3_SECRET_ACCESS_KEY, endpoint, pathStyle }
+}
+
+// RFC 3986 encoding as required by SigV4 canonical requests
+function uriEncode(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`)
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex')
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return crypto.createHmac('sha256', key).update(data).digest()
+}
+
+function xmlValue(xml: string, tag: string): string | undefined {
+  return xml.match(new RegExp(`<${tag}>([^<]*)</${tag}>`))?.[1]
+}
+
+export class S3StorageProvider implements StorageProvider {
+  readonly name = 's3' as const
+  private readonly config: S3Config
+
+  constructor(config: S3Config = loadConfig()) {
+    this.config = config
+  }
+
+  private objectUrl(key: string): URL {
+    const { endpoint, bucket, pathStyle } = this.config
+    const encodedKey = key.split('/').map(uriEncode).join('/')
+    const basePath = endpoint.pathname.replace(/\/$/, '')
+    const url = new URL(endpoint.toString())
+    if (pathStyle) {
+      url.pathname = `${basePath}/${uriEncode(bucket)}/${encodedKey}`
+    } else {
+      url.hostname = `${bucket}.${endpoint.hostname}`
+      url.pathname = `${basePath}/${encodedKey}`
+    }
+    return url
+  }
+
+  private signingKey(date: string): Buffer {
+    const dateKey = hmac(`AWS4${this.config.secretAccessKey}`, date)
+    const regionKey = hmac(dateKey, this.config.region)
+    const serviceKey = hmac(regionKey, 's3')
+    return hmac(serviceKey, 'aws4_request')
+  }
+
+  private canonicalQuery(query: Record<string, string>): string {
+    return Object.keys(query)
+      .sort()
+      .map(name => `${uriEncode(name)}=${uriEncode(query[name])}`)
+      .join('&')
+  }
+
+  private sign(
+    method: string,
+    url: URL,
+    query: Record<string, string>,
+    headers: Record<string, string>,
+    payloadHash: string,
+    amzDate: string
+  ): { signature: string; signedHeaders: string; scope: string } {
+    const date = amzDate.slice(0, 8)
+    const scope = `${date}/${this.config.region}/s3/aws4_request`
+    const names = Object.keys(headers).map(name => name.toLowerCase()).sort()
+    const lowerHeaders = Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]))
+    const signedHeaders = names.join(';')
+
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      this.canonicalQuery(query),
+      names.map(name => `${name}:${String(lowerHeaders[name]).trim().replace(/\s+/g, ' ')}\n`).join(''),
+      signedHeaders,
+      payloadHash
+    ].join('\n')
+
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n')
+    const signature = crypto.createHmac('sha256', this.signingKey(date)).update(stringToSign).digest('hex')
+    return { signature, signedHeaders, scope }
+  }
+
+  private async request({ method, key, query = {}, headers = {}, body }: SignedRequest): Promise<Response> {
+    const url = this.objectUrl(key)
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '')
+    const payloadHash = body ? sha256Hex(body) : EMPTY_PAYLOAD_HASH
+
+    const signedHeaders: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+      ...headers
+    }
+    const { signature, signedHeaders: signedHeaderNames, scope } = this.sign(method, url, query, signedHeaders, payloadHash, amzDate)
+
+    const queryString = this.canonicalQuery(query)
+    const requestUrl = queryString ? `${url.toString()}?${queryString}` : url.toString()
+    // fetch derives Host (and Content-Length) itself
+    const sendHeaders = Object.fromEntries(Object.entries(signedHeaders).filter(([name]) => name !== 'host'))
+
+    return fetch(requestUrl, {
+      method,
+      headers: {
+        ...sendHeaders,
+        Authorization: `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, SignedHeaders=${signedHeaderNames}, Signature=${signature}`
+      },
+      body: body ? new Uint8Array(body) : undefined
+    })
+  }
+
+  private async ensureOk(response: Response, action: string): Promise<Response> {
+    if (response.ok) {
+      return response
+    }
+    const text = await response.text().catch(() => '')
+    if (response.status === 404) {
+      throw createNotFoundError('Stored file')
+    }
+    const code = xmlValue(text, 'Code')
+    const message = xmlValue(text, 'Message')
+    throw createStorageError(`S3 ${action} failed: ${response.status}${code ? ` ${code}` : ''}${message ? ` - ${message}` : ''}`)
+  }
+
+  private async putSingle(key: string, body: Buffer, contentType: string): Promise<void> {
+    await this.ensureOk(await this.request({
+      method: 'PUT',
+      key,
+      headers: { 'content-type': contentType },
+      body
+    }), 'upload')
+  }
+
+  private async putMultipart(key: string, parts: AsyncIterable<Buffer>, contentType: string): Promise<void> {
+    const created = await this.ensureOk(await this.request({
+      method: 'POST',
+      key,
+      query: { uploads: '' },
+      headers: { 'content-type': contentType }
+    }), 'create multipart upload')
+    const uploadId = xmlValue(await created.text(), 'UploadId')
+    if (!uploadId) {
+      throw createStorageError('S3 did not return a multipart upload ID')
+    }
+
+    const uploaded: { partNumber: number; etag: string }[] = []
+    try {
+      for await (const part of parts) {
+        const partNumber = uploaded.length + 1
+        const response = await this.ensureOk(await this.request({
+          method: 'PUT',
+          key,
+          query: { partNumber: partNumber.toString(), uploadId },
+          body: part
+        }), `upload part ${partNumber}`)
+        uploaded.push({ partNumber, etag: response.headers.get('etag') || '' })
+      }
+
+      const manifest = `<CompleteMultipartUpload>${uploaded
+        .map(p => `<Part><PartNumber>${p.partNumber}</PartNumber><ETag>${p.etag}</ETag></Part>`)
+        .join('')}</CompleteMultipartUpload>`
+      const completed = await this.ensureOk(await this.request({
+        method: 'POST',
+        key,
+        query: { uploadId },
+        headers: { 'content-type': 'application/xml' },
+        body: Buffer.from(manifest)
+      }), 'complete multipart upload')
+
+      // CompleteMultipartUpload can report errors with a 200 status
+      const result = await completed.text()
+      if (result.includes('<Error>')) {
+        throw createStorageError(`S3 complete multipart upload failed: ${xmlValue(result, 'Code') || 'unknown error'}`)
+      }
+    } catch (error) {
+      await this.request({ method: 'DELETE', key, query: { uploadId } }).catch(() => undefined)
+      throw error
+    }
+  }
+
+  async put(key: string, body: Readable | Buffer, options: StoragePutOptions = {}): Promise<StorageObjectInfo> {
+    const contentType = options.contentType || 'application/octet-stream'
+    const parts = partsOf(Buffer.isBuffer(body) ? Readable.from([body]) : body)
+
+    // Peek at the first two parts to choose between a single PUT and a multipart upload
+    const first = await parts.next()
+    const second = first.done ? first : await parts.next()
+
+    if (second.done) {
+      await this.putSingle(key, first.done ? Buffer.alloc(0) : first.value, contentType)
+    } else {
+      await this.putMultipart(key, (async function* () {
+        yield first.value as Buffer
+        yield second.value
+        yield* parts
+      })(), contentType)
+    }
+
+    const info = await this.stat(key)
+    if (!info) {
+      throw createStorageError('Uploaded object is missing from S3')
+    }
+    return info
+  }
+
+  async get(key: string, options: { range?: StorageRange } = {}): Promise<StorageGetResult> {
+    const headers: Record<string, string> = {}
+    if (options.range) {
+      headers['range'] = `bytes=${options.range.start}-${options.range.end ?? ''}`
+    }
+
+    const response = await this.ensureOk(await this.request({ method: 'GET', key, headers }), 'download')
+    if (!response.body) {
+      throw createStorageError('S3 returned an empty body')
+    }
+
+    const size = Number(response.headers.get('content-length'))
+    const contentRange = response.headers.get('content-range')?.match(/bytes (\d+)-(\d+)\/(\d+)/)
+    return {
+      stream: Readable.fromWeb(response.body as unknown as NodeReadableStream),
+      size,
+      totalSize: contentRange ? Number(contentRange[3]) : size,
+      contentType: response.headers.get('content-type') || undefined,
+      range: response.status === 206 && contentRange
+        ? { start: Number(contentRange[1]), end: Number(contentRange[2]) }
+        : undefined
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.request({ method: 'DELETE', key })
+    if (!response.ok && response.status !== 404) {
+      await this.ensureOk(response, 'delete')
+    }
+  }
+
+  async stat(key: string): Promise<StorageObjectInfo | null> {
+    const response = await this.request({ method: 'HEAD', key })
+    if (response.status === 404) {
+      return null
+    }
+    await this.ensureOk(response, 'stat')
+
+    const lastModified = response.headers.get('last-modified')
+    return {
+      key,
+      url: this.objectUrl(key).toString(),
+      size: Number(response.headers.get('content-length')),
+      contentType: response.headers.get('content-type') || undefined,
+      etag: response.headers.get('etag') || undefined,
+      lastModified: lastModified ? new Date(lastModified) : undefined
+    }
+  }
+
+  async presign(key: string, options: StoragePresignOptions = {}): Promise<string> {
+    const method = options.method || 'GET'
+    const url = this.objectUrl(key)
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '')
+    const scope = `${amzDate.slice(0, 8)}/${this.config.region}/s3/aws4_request`
+
+    const query: Record<string, string> = {
+      'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+      'X-Amz-Credential': `${this.config.accessKeyId}/${scope}`,
+      'X-Amz-Date': amzDate,
+      'X-Amz-Expires': clampPresignExpiry(options.expiresIn).toString(),
+      'X-Amz-SignedHeaders': 'host'
+    }
+    const { signature } = this.sign(method, url, query, { host: url.host }, UNSIGNED_PAYLOAD, amzDate)
+
+    return `${url.toString()}?${this.canonicalQuery({ ...query, 'X-Amz-Signature': signature })}`
+  }
+}
+
+/**
+ * Re-chunk a stream into PART_SIZE buffers (the last one may be smaller)
+ */
+async function* partsOf(stream: Readable): AsyncGenerator<Buffer> {
+  let chunks: Buffer[] = []
+  let length = 0
+  for await (const chunk of stream) {
+    let data = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk)
+    while (length + data.length >= PART_SIZE) {
+      const take = PART_SIZE - length
+      chunks.push(data.subarray(0, take))
+      yield Buffer.concat(chunks)
+      data = data.subarray(take)
+      chunks = []
+      length = 0
+    }
+    if (data.length > 0) {
+      chunks.push(data)
+      length += data.length
+    }
+  }
+  if (length > 0) {
+    yield Buffer.concat(chunks)
+  }
+}
@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { LOCAL_URL_PREFIX, LocalStorageProvider, verifyLocalSignature } from './storage'
+
+async function presign(key: string, expiresIn?: number) {
+  const url = new URL(await new LocalStorageProvider().presign(key, { method: 'GET', expiresIn }), 'http://localhost')
+  return {
+    path: url.pathname,
+    expires: url.searchParams.get('expires'),
+    signature: url.searchParams.get('signature')
+  }
+}
+
+describe('presigned local storage URLs', () => {
+  beforeEach(() => {
+    vi.stubEnv('STORAGE_SIGNING_SECRET', 'test-signing-secret')
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllEnvs()
+  })
+
+  it('verify for the key they were signed for', async () => {
+    const { path, expires, signature } = await presign('files/user-1/report.pdf')
+
+    expect(path).toBe(`${LOCAL_URL_PREFIX}files/user-1/report.pdf`)
+    expect(verifyLocalSignature('files/user-1/report.pdf', expires, signature)).toBe(true)
+  })
+
+  it('do not verify for another key, a changed expiry or another secret', async () => {
+    const { expires, signature } = await presign('files/user-1/report.pdf')
+
+    expect(verifyLocalSignature('files/user-2/report.pdf', expires, signature)).toBe(false)
+    expect(verifyLocalSignature('files/user-1/report.pdf', String(Number(expires) + 3600), signature)).toBe(false)
+    expect(verifyLocalSignature('files/user-1/report.pdf', expires, null)).toBe(false)
+    expect(verifyLocalSignature('files/user-1/report.pdf', expires, 'not-hex')).toBe(false)
+
+    vi.stubEnv('STORAGE_SIGNING_SECRET', 'another-secret')
+    expect(verifyLocalSignature('files/user-1/report.pdf', expires, signature)).toBe(false)
+  })
+
+  it('stop verifying once they expire', async () => {
+    vi.useFakeTimers()
+    const { expires, signature } = await presign('files/user-1/report.pdf', 60)
+
+    vi.advanceTimersByTime(59 * 1000)
+    expect(verifyLocalSignature('files/user-1/report.pdf', expires, signature)).toBe(true)
+    vi.advanceTimersByTime(2 * 1000)
+    expect(verifyLocalSignature('files/user-1/report.pdf', expires, signature)).toBe(false)
+  })
+
+  it('are refused for keys outside the storage root and for uploads', async () => {
+    await expect(presign('../secrets.txt')).rejects.toThrow('Invalid storage key')
+    await expect(new LocalStorageProvider().presign('files/a.txt', { method: 'PUT' })).rejects.toThrow(
+      'Presigned uploads are not supported'
+    )
+  })
+})
@@ -0,0 +1,385 @@
+// Pluggable blob storage
+//
+// Every file route reads and writes blobs through a StorageProvider selected by STORAGE_PROVIDER:
+//   local  - files under LOCAL_STORAGE_DIR (default storage/uploads), served by /api/files/download/local
+//   s3     - any S3-compatible service (AWS S3, MinIO, R2...), see lib/storage-s3.ts
+//   vercel - Vercel Blob (public blobs addressed by URL)
+// Without STORAGE_PROVIDER, Vercel Blob is used when BLOB_READ_WRITE_TOKEN is set, otherwise local disk.
+//
+// Rows record the provider and key they were written with (storageProvider/storageKey), so changing
+// the configured provider never strands existing files. Rows written before that are resolved from url.
+
+import crypto from 'crypto'
+import { createReadStream, createWriteStream } from 'fs'
+import fs from 'fs/promises'
+import path from 'path'
+import { Readable } from 'stream'
+import { pipeline } from 'stream/promises'
+import type { ReadableStream as NodeReadableStream } from 'stream/web'
+import { createInternalError, createNotFoundError, createStorageError, createValidationError } from './error-handling'
+
+export type StorageProviderName = 'local' | 's3' | 'vercel'
+
+export const LOCAL_URL_PREFIX = '/api/files/download/local/'
+const DEFAULT_PRESIGN_EXPIRY_SECONDS = 15 * 60
+const MAX_PRESIGN_EXPIRY_SECONDS = 7 * 24 * 60 * 60
+
+export interface StorageObjectInfo {
+  key: string
+  url: string
+  size: number
+  contentType?: string
+  etag?: string
+  lastModified?: Date
+}
+
+export interface StoragePutOptions {
+  contentType?: string
+}
+
+export interface StorageRange {
+  start: number
+  end?: number // inclusive; defaults to the last byte
+}
+
+export interface StorageGetResult {
+  stream: Readable
+  size: number // bytes in this response
+  totalSize: number // bytes in the whole object
+  contentType?: string
+  range?: { start: number; end: number }
+}
+
+export interface StoragePresignOptions {
+  method?: 'GET' | 'PUT'
+  expiresIn?: number // seconds
+  contentType?: string
+}
+
+export interface StorageProvider {
+  readonly name: StorageProviderName
+  put(key: string, body: Readable | Buffer, options?: StoragePutOptions): Promise<StorageObjectInfo>
+  get(key: string, options?: { range?: StorageRange }): Promise<StorageGetResult>
+  delete(key: string): Promise<void>
+  stat(key: string): Promise<StorageObjectInfo | null>
+  presign(key: string, options?: StoragePresignOptions): Promise<string>
+}
+
+/**
+ * Any row that points at a stored blob (File, FileVersion)
+ */
+export interface StoredObjectRecord {
+  url: string
+  storageKey?: string | null
+  storageProvider?: string | null
+}
+
+export interface StoredObjectRef {
+  provider: StorageProviderName
+  key: string
+}
+
+/**
+ * Resolve an inclusive byte range against an object size
+ */
+export function resolveRange(range: StorageRange | undefined, totalSize: number): { start: number; end: number } | undefined {
+  if (!range) {
+    return undefined
+  }
+  const end = Math.min(range.end ?? totalSize - 1, totalSize - 1)
+  if (range.start < 0 || range.start > end) {
+    throw createValidationError('Requested range is not satisfiable')
+  }
+  return { start: range.start, end }
+}
+
+export function clampPresignExpiry(expiresIn?: number): number {
+  return Math.min(Math.max(Math.floor(expiresIn ?? DEFAULT_PRESIGN_EXPIRY_SECONDS), 1), MAX_PRESIGN_EXPIRY_SECONDS)
+}
+
+function getSigningSecret(): string {
+  const secret = process.env.STORAGE_SIGNING_SECRET || process.env.NEXTAUTH_SECRET
+  if (!secret) {
+    throw createInternalError('STORAGE_SIGNING_SECRET or NEXTAUTH_SECRET must be set to presign local storage URLs')
+  }
+  return secret
+}
+
+function signLocalUrl(key: string, expires: number): string {
+  return crypto.createHmac('sha256', getSigningSecret()).update(`GET\n${key}\n${expires}`).digest('hex')
+}
+
+/**
+ * Verify a presigned local storage URL's expiry and signature
+ */
+export function verifyLocalSignature(key: string, expires: string | null, signature: string | null): boolean {
+  const expiresAt = Number(expires)
+  if (!signature || !Number.isInteger(expiresAt) || expiresAt * 1000 < Date.now()) {
+    return false
+  }
+  const expected = Buffer.from(signLocalUrl(key, expiresAt), 'hex')
+  const provided = Buffer.from(signature, 'hex')
+  return provided.length === expected.length && crypto.timingSafeEqual(provided, expected)
+}
+
+/**
+ * Local filesystem storage. Keys are paths relative to the storage root.
+ */
+export class LocalStorageProvider implements StorageProvider {
+  readonly name = 'local' as const
+  private readonly root: string
+
+  constructor(root: string = process.env.LOCAL_STORAGE_DIR || path.join('storage', 'uploads')) {
+    this.root = path.resolve(process.cwd(), root)
+  }
+
+  private resolvePath(key: string): string {
+    const resolved = path.resolve(this.root, key)
+    if (!key || resolved === this.root || !resolved.startsWith(this.root + path.sep)) {
+      throw createValidationError('Invalid storage key')
+    }
+    return resolved
+  }
+
+  private urlFor(key: string): string {
+    return `${LOCAL_URL_PREFIX}${key.split('/').map(encodeURIComponent).join('/')}`
+  }
+
+  async put(key: string, body: Readable | Buffer, options: StoragePutOptions = {}): Promise<StorageObjectInfo> {
+    const target = this.resolvePath(key)
+    const tempPath = `${target}.${crypto.randomUUID()}.tmp`
+    await fs.mkdir(path.dirname(target), { recursive: true, mode: 0o755 })
+
+    try {
+      // Write to a temporary file first so readers never see a partial blob
+      await pipeline(Buffer.isBuffer(body) ? Readable.from([body]) : body, createWriteStream(tempPath, { mode: 0o644 }))
+      await fs.rename(tempPath, target)
+    } catch (error) {
+      await fs.rm(tempPath, { force: true })
+      throw error
+    }
+
+    const stats = await fs.stat(target)
+    return { key, url: this.urlFor(key), size: stats.size, contentType: options.contentType, lastModified: stats.mtime }
+  }
+
+  async get(key: string, options: { range?: StorageRange } = {}): Promise<StorageGetResult> {
+    const filePath = this.resolvePath(key)
+    const info = await this.stat(key)
+    if (!info) {
+      throw createNotFoundError('Stored file')
+    }
+
+    const range = resolveRange(options.range, info.size)
+    return {
+      stream: createReadStream(filePath, range),
+      size: range ? range.end - range.start + 1 : info.size,
+      totalSize: info.size,
+      range
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolvePath(key), { force: true })
+  }
+
+  async stat(key: string): Promise<StorageObjectInfo | null> {
+    try {
+      const stats = await fs.stat(this.resolvePath(key))
+      return stats.isFile() ? { key, url: this.urlFor(key), size: stats.size, lastModified: stats.mtime } : null
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null
+      }
+      throw error
+    }
+  }
+
+  async presign(key: string, options: StoragePresignOptions = {}): Promise<string> {
+    if (options.method === 'PUT') {
+      throw createStorageError('Presigned uploads are not supported by local storage')
+    }
+    this.resolvePath(key)
+    const expires = Math.floor(Date.now() / 1000) + clampPresignExpiry(options.expiresIn)
+    return `${this.urlFor(key)}?expires=${expires}&signature=${signLocalUrl(key, expires)}`
+  }
+}
+
+/**
+ * Vercel Blob storage. Blobs are public and addressed by URL, which is also used as the key.
+ */
+export class VercelBlobStorageProvider implements StorageProvider {
+  readonly name = 'vercel' as const
+
+  async put(key: string, body: Readable | Buffer, options: StoragePutOptions = {}): Promise<StorageObjectInfo> {
+    const { put } = await import('@vercel/blob')
+    const blob = await put(key, body, {
+      access: 'public',
+      contentType: options.contentType || 'application/octet-stream'
+    })
+    const info = await this.stat(blob.url)
+    return { key: blob.url, url: blob.url, size: info?.size ?? 0, contentType: blob.contentType }
+  }
+
+  async get(key: string, options: { range?: StorageRange } = {}): Promise<StorageGetResult> {
+    const headers: Record<string, string> = {}
+    if (options.range) {
+      headers['Range'] = `bytes=${options.range.start}-${options.range.end ?? ''}`
+    }
+
+    const response = await fetch(key, { headers })
+    if (response.status === 404) {
+      throw createNotFoundError('Stored file')
+    }
+    if (!response.ok || !response.body) {
+      throw createStorageError(`Failed to fetch file from storage: ${response.status} ${response.statusText}`)
+    }
+
+    const size = Number(response.headers.get('content-length'))
+    const contentRange = response.headers.get('content-range')?.match(/bytes (\d+)-(\d+)\/(\d+)/)
+    return {
+      stream: Readable.fromWeb(response.body as unknown as NodeReadableStream),
+      size,
+      totalSize: contentRange ? Number(contentRange[3]) : size,
+      contentType: response.headers.get('content-type') || undefined,
+      range: response.status === 206 && contentRange
+        ? { start: Number(contentRange[1]), end: Number(contentRange[2]) }
+        : undefined
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const { del } = await import('@vercel/blob')
+    await del(key)
+  }
+
+  async stat(key: string): Promise<StorageObjectInfo | null> {
+    const { head, BlobNotFoundError } = await import('@vercel/blob')
+    try {
+      const blob = await head(key)
+      return { key, url: blob.url, size: blob.size, contentType: blob.contentType, lastModified: blob.uploadedAt }
+    } catch (error) {
+      if (error instanceof BlobNotFoundError) {
+        return null
+      }
+      throw error
+    }
+  }
+
+  async presign(key: string, options: StoragePresignOptions = {}): Promise<string> {
+    if (options.method === 'PUT') {
+      throw createStorageError('Presigned uploads are not supported by Vercel Blob storage')
+    }
+    // Public blob URLs do not expire
+    return key
+  }
+}
+
+const providers = new Map<StorageProviderName, StorageProvider>()
+
+/**
+ * The provider new blobs are written to
+ */
+export function getConfiguredProviderName(): StorageProviderName {
+  const configured = process.env.STORAGE_PROVIDER?.trim().toLowerCase()
+  if (!configured) {
+    return process.env.BLOB_READ_WRITE_TOKEN ? 'vercel' : 'local'
+  }
+  if (configured !== 'local' && configured !== 's3' && configured !== 'vercel') {
+    throw createInternalError(`Unknown STORAGE_PROVIDER: ${configured}`)
+  }
+  return configured
+}
+
+/**
+ * Get a storage provider by name, defaulting to the configured one
+ */
+export async function getStorageProvider(name: StorageProviderName = getConfiguredProviderName()): Promise<StorageProvider> {
+  let provider = providers.get(name)
+  if (!provider) {
+    if (name === 's3') {
+      const { S3StorageProvider } = await import('./storage-s3')
+      provider = new S3StorageProvider()
+    } else if (name === 'vercel') {
+      provider = new VercelBlobStorageProvider()
+    } else {
+      provider = new LocalStorageProvider()
+    }
+    providers.set(name, provider)
+  }
+  return provider
+}
+
+/**
+ * Build a unique storage key for a new blob
+ */
+export function buildStorageKey(userId: string, fileName: string, prefix: string = 'files'): string {
+  const ext = path.extname(fileName).replace(/[^A-Za-z0-9.]/g, '').slice(0, 16)
+  const safeUserId = userId.replace(/[^A-Za-z0-9_-]/g, '')
+  return `${prefix}/${safeUserId}/${Date.now()}-${crypto.randomUUID()}${ext}`
+}
+
+/**
+ * Work out where a row's blob lives. Rows written before storage providers were recorded
+ * are recognised from their URL: local download URLs or Vercel Blob URLs.
+ */
+export function resolveStoredObject(record: StoredObjectRecord): StoredObjectRef {
+  if (record.storageKey) {
+    return {
+      provider: (record.storageProvider as StorageProviderName) || getConfiguredProviderName(),
+      key: record.storageKey
+    }
+  }
+
+  if (record.url.startsWith(LOCAL_URL_PREFIX)) {
+    const key = record.url.slice(LOCAL_URL_PREFIX.length).split('/').map(decodeURIComponent).join('/')
+    return { provider: 'local', key }
+  }
+
+  if (/^https?:\/\//.test(record.url)) {
+    return { provider: 'vercel', key: record.url }
+  }
+
+  throw createStorageError('File has no resolvable storage location')
+}
+
+/**
+ * Store a new blob with the configured provider; returns the fields to persist on the row
+ */
+export async function storeObject(
+  key: string,
+  body: Readable | Buffer,
+  options: StoragePutOptions = {}
+): Promise<{ url: string; storageKey: string; storageProvider: StorageProviderName; size: number }> {
+  const provider = await getStorageProvider()
+  const info = await provider.put(key, body, options)
+  return { url: info.url, storageKey: info.key, storageProvider: provider.name, size: info.size }
+}
+
+/**
+ * Open a row's blob for reading, optionally a byte range of it
+ */
+export async function openStoredObject(record: StoredObjectRecord, range?: StorageRange): Promise<StorageGetResult> {
+  const { provider, key } = resolveStoredObject(record)
+  return (await getStorageProvider(provider)).get(key, { range })
+}
+
+/**
+ * Remove a row's blob. Failures are logged so a missing blob never blocks deleting the row.
+ */
+export async function deleteStoredObject(record: StoredObjectRecord): Promise<void> {
+  try {
+    const { provider, key } = resolveStoredObject(record)
+    await (await getStorageProvider(provider)).delete(key)
+  } catch (error) {
+    console.error('Failed to remove stored blob:', record.storageKey || record.url, error)
+  }
+}
+
+/**
+ * Presign a short-lived download URL for a row's blob
+ */
+export async function presignStoredObject(record: StoredObjectRecord, expiresIn?: number): Promise<string> {
+  const { provider, key } = resolveStoredObject(record)
+  return (await getStorageProvider(provider)).presign(key, { method: 'GET', expiresIn })
+}
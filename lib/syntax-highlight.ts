@@ -0,0 +1,208 @@
+// Lightweight syntax highlighting for the file viewer
+//
+// A single-pass scanner that recognises comments, strings, numbers and keywords for common
+// languages, and tags in markup. It does not parse: the goal is readable source in the viewer,
+// not exact grammar. Output is a token list rendered as text, so file content is never
+// interpreted as HTML.
+
+export type TokenType = 'plain' | 'keyword' | 'string' | 'comment' | 'number' | 'tag'
+
+export interface Token {
+  type: TokenType
+  text: string
+}
+
+interface LanguageRules {
+  lineComments: string[]
+  blockComments: [string, string][]
+  quotes: string[]
+  keywords: Set<string>
+  markup?: boolean
+}
+
+const C_LIKE_KEYWORDS = [
+  'if', 'else', 'for', 'while', 'do', 'switch', 'case', 'default', 'break', 'continue', 'return',
+  'try', 'catch', 'finally', 'throw', 'new', 'class', 'extends', 'implements', 'interface',
+  'public', 'private', 'protected', 'static', 'final', 'const', 'void', 'null', 'true', 'false',
+  'this', 'super', 'import', 'package', 'enum', 'struct', 'int', 'long', 'float', 'double',
+  'char', 'bool', 'boolean', 'string', 'var', 'let', 'function', 'async', 'await', 'yield'
+]
+
+const LANGUAGES: Record<string, LanguageRules> = {
+  javascript: {
+    lineComments: ['//'],
+    blockComments: [['/*', '*/']],
+    quotes: ['"', "'", '`'],
+    keywords: new Set([
+      ...C_LIKE_KEYWORDS, 'export', 'from', 'as', 'typeof', 'instanceof', 'in', 'of', 'delete',
+      'undefined', 'type', 'namespace', 'declare', 'readonly', 'keyof', 'any', 'unknown', 'never',
+      'number', 'satisfies'
+    ])
+  },
+  clike: {
+    lineComments: ['//'],
+    blockComments: [['/*', '*/']],
+    quotes: ['"', "'"],
+    keywords: new Set([
+      ...C_LIKE_KEYWORDS, 'func', 'go', 'defer', 'chan', 'map', 'range', 'fn', 'mut', 'impl',
+      'trait', 'pub', 'use', 'mod', 'match', 'loop', 'where', 'self', 'Self', 'fun', 'val', 'object',
+      'when', 'using', 'namespace', 'override', 'virtual', 'unsigned', 'sizeof', 'typedef',
+      'include', 'define', 'echo', 'nil'
+    ])
+  },
+  python: {
+    lineComments: ['#'],
+    blockComments: [],
+    quotes: ['"', "'"],
+    keywords: new Set([
+      'def', 'class', 'if', 'elif', 'else', 'for', 'while', 'return', 'import', 'from', 'as',
+      'try', 'except', 'finally', 'raise', 'with', 'yield', 'lambda', 'pass', 'break',
+      'continue', 'and', 'or', 'not', 'in', 'is', 'None', 'True', 'False', 'global', 'nonlocal',
+      'async', 'await', 'self', 'end', 'module', 'require', 'unless', 'then', 'nil', 'do'
+    ])
+  },
+  shell: {
+    lineComments: ['#'],
+    blockComments: [],
+    quotes: ['"', "'"],
+    keywords: new Set([
+      'if', 'then', 'else', 'elif', 'fi', 'for', 'while', 'do', 'done', 'case', 'esac', 'in',
+      'function', 'return', 'export', 'local', 'echo', 'exit', 'true', 'false', 'null'
+    ])
+  },
+  sql: {
+    lineComments: ['--'],
+    blockComments: [['/*', '*/']],
+    quotes: ["'", '"'],
+    keywords: new Set([
+      'select', 'from', 'where', 'insert', 'into', 'values', 'update', 'set', 'delete', 'create',
+      'table', 'alter', 'drop', 'index', 'join', 'left', 'right', 'inner', 'outer', 'on', 'and',
+      'or', 'not', 'null', 'as', 'group', 'by', 'order', 'having', 'limit', 'offset', 'union',
+      'distinct', 'primary', 'key', 'references', 'default', 'begin', 'commit', 'with'
+    ])
+  },
+  css: {
+    lineComments: [],
+    blockComments: [['/*', '*/']],
+    quotes: ['"', "'"],
+    keywords: new Set(['important', 'media', 'import', 'keyframes', 'from', 'to', 'supports'])
+  },
+  markup: {
+    lineComments: [],
+    blockComments: [['<!--', '-->']],
+    quotes: ['"', "'"],
+    keywords: new Set(),
+    markup: true
+  }
+}
+
+const EXTENSION_LANGUAGES: Record<string, string> = {
+  js: 'javascript', jsx: 'javascript', mjs: 'javascript', cjs: 'javascript', ts: 'javascript',
+  tsx: 'javascript', json: 'javascript',
+  c: 'clike', h: 'clike', cpp: 'clike', hpp: 'clike', cs: 'clike', java: 'clike', kt: 'clike',
+  go: 'clike', rs: 'clike', php: 'clike',
+  py: 'python', rb: 'python',
+  sh: 'shell', yml: 'shell', yaml: 'shell', toml: 'shell', ini: 'shell',
+  sql: 'sql',
+  css: 'css', scss: 'css',
+  html: 'markup', htm: 'markup', xml: 'markup', svg: 'markup'
+}
+
+/**
+ * Highlighting rules for a file name, or null when it is not recognised as source code
+ */
+export function detectLanguage(fileName: string): string | null {
+  const extension = fileName.toLowerCase().split('.').pop() || ''
+  return EXTENSION_LANGUAGES[extension] ?? null
+}
+
+/**
+ * Split source into tokens; joining their text gives back the input unchanged
+ */
+export function highlightCode(source: string, language: string | null): Token[] {
+  const rules = language ? LANGUAGES[language] : undefined
+  if (!rules) {
+    return [{ type: 'plain', text: source }]
+  }
+
+  const tokens: Token[] = []
+  const push = (type: TokenType, text: string) => {
+    const last = tokens[tokens.length - 1]
+    if (last && last.type === type) {
+      last.text += text
+    } else {
+      tokens.push({ type, text })
+    }
+  }
+
+  let i = 0
+  while (i < source.length) {
+    const rest = source.slice(i, i + 4)
+
+    const block = rules.blockComments.find(([start]) => rest.startsWith(start))
+    if (block) {
+      const end = source.indexOf(block[1], i + block[0].length)
+      const stop = end === -1 ? source.length : end + block[1].length
+      push('comment', source.slice(i, stop))
+      i = stop
+      continue
+    }
+
+    if (rules.lineComments.some(marker => rest.startsWith(marker))) {
+      const end = source.indexOf('\n', i)
+      const stop = end === -1 ? source.length : end
+      push('comment', source.slice(i, stop))
+      i = stop
+      continue
+    }
+
+    const char = source[i]
+
+    if (rules.markup && char === '<' && /[A-Za-z/!?]/.test(source[i + 1] || '')) {
+      const end = source.indexOf('>', i)
+      const stop = end === -1 ? source.length : end + 1
+      const tag = source.slice(i, stop)
+      // Attribute values inside the tag are shown as strings
+      for (const part of tag.split(/("[^"]*"|'[^']*')/)) {
+        if (part) push(/^["']/.test(part) ? 'string' : 'tag', part)
+      }
+      i = stop
+      continue
+    }
+
+    if (rules.quotes.includes(char) && !rules.markup) {
+      let j = i + 1
+      while (j < source.length && source[j] !== char) {
+        if (source[j] === '\\') j++
+        // Only template literals run over line ends
+        if (source[j] === '\n' && char !== '`') break
+        j++
+      }
+      const stop = Math.min(j + 1, source.length)
+      push('string', source.slice(i, stop))
+      i = stop
+      continue
+    }
+
+    const number = /^(?:0x[0-9a-fA-F]+|\d+(?:\.\d+)?(?:e[+-]?\d+)?)/.exec(source.slice(i, i + 64))
+    if (number && !/[\w$]/.test(source[i - 1] || '')) {
+      push('number', number[0])
+      i += number[0].length
+      continue
+    }
+
+    const word = /^[A-Za-z_$][\w$]*/.exec(source.slice(i, i + 128))
+    if (word) {
+      const text = word[0]
+      const keyword = rules.keywords.has(text) || (language === 'sql' && rules.keywords.has(text.toLowerCase()))
+      push(keyword && !rules.markup ? 'keyword' : 'plain', text)
+      i += text.length
+      continue
+    }
+
+    push('plain', char)
+    i++
+  }
+
+  return tokens
+}
@@ -0,0 +1,469 @@
+// Text extraction for search
+//
+// Pulls plain text out of uploaded files without external services or native tools:
+// PDF content streams are decoded and their text operators read, DOCX and XLSX are unzipped
+// with zlib and their XML parts scanned, and text formats are decoded as UTF-8. Extraction is
+// best effort: scanned PDFs, fonts with custom encodings and exotic containers yield little or
+// nothing, and that is fine for a search index.
+
+import { inflateRawSync, inflateSync } from 'zlib'
+
+export const MAX_EXTRACTION_INPUT_BYTES = 25 * 1024 * 1024 // 25MB
+export const MAX_EXTRACTED_TEXT_LENGTH = 200_000
+const MAX_INFLATED_BYTES = 64 * 1024 * 1024
+
+export type ExtractableFormat = 'text' | 'html' | 'pdf' | 'docx' | 'xlsx'
+
+export interface ExtractedText {
+  text: string
+  truncated: boolean
+}
+
+const DOCX_MIME = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+const TEXT_MIME_TYPES = [
+  'application/json',
+  'application/xml',
+  'application/javascript',
+  'application/x-javascript',
+  'application/x-sh',
+  'application/x-yaml',
+  'application/sql'
+]
+const TEXT_EXTENSIONS = [
+  'txt', 'md', 'markdown', 'csv', 'tsv', 'json', 'xml', 'log', 'yml', 'yaml', 'ini', 'conf', 'cfg',
+  'toml', 'sql', 'sh', 'js', 'jsx', 'ts', 'tsx', 'py', 'rb', 'go', 'rs', 'java', 'kt', 'c', 'h',
+  'cpp', 'hpp', 'cs', 'php', 'css', 'scss', 'svg', 'tex', 'rtf'
+]
+
+/**
+ * Work out which extractor applies to a file, or null when its text cannot be read
+ */
+export function detectFormat(mimeType: string, fileName: string): ExtractableFormat | null {
+  const type = (mimeType || '').toLowerCase().split(';')[0].trim()
+  const extension = fileName.toLowerCase().split('.').pop() || ''
+
+  if (type === 'application/pdf' || extension === 'pdf') return 'pdf'
+  if (type === DOCX_MIME || extension === 'docx') return 'docx'
+  if (type === XLSX_MIME || extension === 'xlsx') return 'xlsx'
+  if (type === 'text/html' || extension === 'html' || extension === 'htm') return 'html'
+  if (type.startsWith('text/') || TEXT_MIME_TYPES.includes(type) || TEXT_EXTENSIONS.includes(extension)) return 'text'
+  return null
+}
+
+/**
+ * Extract searchable text from file content. Returns null when the content is not in the
+ * expected format or holds no text.
+ */
+export function extractText(content: Buffer, format: ExtractableFormat): ExtractedText | null {
+  let raw: string | null
+  switch (format) {
+    case 'pdf':
+      raw = extractPdfText(content)
+      break
+    case 'docx':
+      raw = extractDocxText(content)
+      break
+    case 'xlsx':
+      raw = extractXlsxText(content)
+      break
+    case 'html':
+      raw = decodeTextContent(content)
+      raw = raw && decodeXmlEntities(raw.replace(/<(script|style)\b[\s\S]*?<\/\1>/gi, ' ').replace(/<[^>]+>/g, ' '))
+      break
+    default:
+      raw = decodeTextContent(content)
+  }
+
+  const text = raw ? normalizeText(raw) : ''
+  if (!text) {
+    return null
+  }
+  return text.length > MAX_EXTRACTED_TEXT_LENGTH
+    ? { text: text.slice(0, MAX_EXTRACTED_TEXT_LENGTH), truncated: true }
+    : { text, truncated: false }
+}
+
+function normalizeText(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F\uFFFD]/g, ' ')
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ ?\n ?/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+// UTF-8 text; content with NUL bytes near the start is treated as binary
+function decodeTextContent(content: Buffer): string | null {
+  if (content.subarray(0, 8000).includes(0)) {
+    return null
+  }
+  return content.toString('utf8').replace(/^\uFEFF/, '')
+}
+
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos|nbsp);/gi, (entity, code: string) => {
+    const lower = code.toLowerCase()
+    if (lower.startsWith('#x')) return safeFromCodePoint(parseInt(lower.slice(2), 16))
+    if (lower.startsWith('#')) return safeFromCodePoint(parseInt(lower.slice(1), 10))
+    return { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'", nbsp: ' ' }[lower] ?? entity
+  })
+}
+
+function safeFromCodePoint(code: number): string {
+  return Number.isInteger(code) && code > 0 && code <= 0x10FFFF ? String.fromCodePoint(code) : ' '
+}
+
+// ZIP (DOCX, XLSX)
+
+/**
+ * Read the entries of a ZIP archive whose names pass the filter. Stored and deflated entries
+ * are supported; ZIP64 and encrypted archives are not.
+ */
+function readZipEntries(archive: Buffer, wanted: (name: string) => boolean): Map<string, Buffer> {
+  const entries = new Map<string, Buffer>()
+
+  // The end of central directory record sits in the last 64KB + 22 bytes
+  let eocd = -1
+  for (let i = archive.length - 22; i >= Math.max(0, archive.length - 65557); i--) {
+    if (archive.readUInt32LE(i) === 0x06054b50) {
+      eocd = i
+      break
+    }
+  }
+  if (eocd < 0) {
+    return entries
+  }
+
+  const entryCount = archive.readUInt16LE(eocd + 10)
+  let offset = archive.readUInt32LE(eocd + 16)
+  let inflatedTotal = 0
+
+  for (let i = 0; i < entryCount && offset + 46 <= archive.length; i++) {
+    if (archive.readUInt32LE(offset) !== 0x02014b50) break
+
+    const flags = archive.readUInt16LE(offset + 8)
+    const method = archive.readUInt16LE(offset + 10)
+    const compressedSize = archive.readUInt32LE(offset + 20)
+    const nameLength = archive.readUInt16LE(offset + 28)
+    const extraLength = archive.readUInt16LE(offset + 30)
+    const commentLength = archive.readUInt16LE(offset + 32)
+    const localOffset = archive.readUInt32LE(offset + 42)
+    const name = archive.toString('utf8', offset + 46, offset + 46 + nameLength)
+    offset += 46 + nameLength + extraLength + commentLength
+
+    if (!wanted(name) || (flags & 0x1) || compressedSize === 0xFFFFFFFF || localOffset + 30 > archive.length) {
+      continue
+    }
+    if (archive.readUInt32LE(localOffset) !== 0x04034b50) continue
+
+    const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26) + archive.readUInt16LE(localOffset + 28)
+    const data = archive.subarray(dataStart, dataStart + compressedSize)
+    try {
+      const content = method === 0
+        ? data
+        : method === 8
+          ? inflateRawSync(data, { maxOutputLength: MAX_INFLATED_BYTES - inflatedTotal })
+          : null
+      if (content) {
+        inflatedTotal += content.length
+        entries.set(name, content)
+      }
+    } catch {
+      // Corrupt or oversized entry; extract what the rest of the archive offers
+    }
+  }
+
+  return entries
+}
+
+// Sort "sheet10.xml" after "sheet2.xml"
+function byTrailingNumber(a: string, b: string): number {
+  const number = (name: string) => parseInt(name.match(/(\d+)\.xml$/)?.[1] || '0')
+  return number(a) - number(b) || a.localeCompare(b)
+}
+
+function extractDocxText(archive: Buffer): string | null {
+  const parts = readZipEntries(archive, name => /^word\/(document|header\d*|footer\d*|footnotes|endnotes)\.xml$/.test(name))
+  const document = parts.get('word/document.xml')
+  if (!document) {
+    return null
+  }
+
+  // Body first, then headers, footers and notes
+  const names = ['word/document.xml', ...[...parts.keys()].filter(name => name !== 'word/document.xml').sort(byTrailingNumber)]
+  return names.map(name => {
+    const xml = (parts.get(name) as Buffer).toString('utf8')
+    let text = ''
+    for (const match of xml.matchAll(/<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:(tab|br|cr)\/>|<\/w:p>/g)) {
+      if (match[1] !== undefined) {
+        text += decodeXmlEntities(match[1])
+      } else {
+        text += match[2] === 'tab' ? '\t' : '\n'
+      }
+    }
+    return text
+  }).join('\n\n')
+}
+
+function extractXlsxText(archive: Buffer): string | null {
+  const parts = readZipEntries(archive, name => name === 'xl/sharedStrings.xml' || /^xl\/worksheets\/sheet\d+\.xml$/.test(name))
+
+  const sharedStrings: string[] = []
+  const stringsXml = parts.get('xl/sharedStrings.xml')?.toString('utf8') || ''
+  for (const item of stringsXml.matchAll(/<si>([\s\S]*?)<\/si>/g)) {
+    sharedStrings.push(readXmlTexts(item[1]))
+  }
+
+  const sheets = [...parts.keys()].filter(name => name.startsWith('xl/worksheets/')).sort(byTrailingNumber)
+  if (sheets.length === 0) {
+    return null
+  }
+
+  return sheets.map(name => {
+    const xml = (parts.get(name) as Buffer).toString('utf8')
+    const rows: string[] = []
+    for (const row of xml.matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g)) {
+      const cells: string[] = []
+      for (const cell of row[1].matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+        const type = cell[1].match(/\bt="(\w+)"/)?.[1]
+        const body = cell[2] || ''
+        const value = body.match(/<v>([^<]*)<\/v>/)?.[1]
+        if (type === 's' && value !== undefined) {
+          cells.push(sharedStrings[parseInt(value)] ?? '')
+        } else if (type === 'inlineStr') {
+          cells.push(readXmlTexts(body))
+        } else if (value !== undefined) {
+          cells.push(decodeXmlEntities(value))
+        }
+      }
+      if (cells.some(cell => cell)) {
+        rows.push(cells.join('\t'))
+      }
+    }
+    return rows.join('\n')
+  }).join('\n\n')
+}
+
+// Concatenated <t> elements, as in shared strings with rich text runs
+function readXmlTexts(xml: string): string {
+  let text = ''
+  for (const match of xml.matchAll(/<t(?:\s[^>]*)?>([^<]*)<\/t>/g)) {
+    text += decodeXmlEntities(match[1])
+  }
+  return text
+}
+
+// PDF
+
+function extractPdfText(content: Buffer): string | null {
+  if (content.subarray(0, 1024).indexOf('%PDF') < 0) {
+    return null
+  }
+
+  const source = content.toString('latin1')
+  const pieces: string[] = []
+  let inflatedTotal = 0
+  let position = 0
+
+  while (true) {
+    const keyword = source.indexOf('stream', position)
+    if (keyword < 0) break
+    position = keyword + 6
+    if (source.startsWith('end', keyword - 3)) continue
+
+    // Stream data starts after the end-of-line following the keyword
+    let dataStart = keyword + 6
+    if (source[dataStart] === '\r') dataStart++
+    if (source[dataStart] === '\n') dataStart++
+    const dataEnd = source.indexOf('endstream', dataStart)
+    if (dataEnd < 0) break
+    position = dataEnd + 9
+
+    const dictionary = source.slice(Math.max(0, source.lastIndexOf('obj', keyword)), keyword)
+    if (/\/Subtype\s*\/Image|\/Type\s*\/(XRef|Metadata)/.test(dictionary)) continue
+
+    const filters = dictionary.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/)?.[1] || ''
+    const names = filters.match(/\/\w+/g) || []
+    let data: Buffer = content.subarray(dataStart, dataEnd)
+    if (names.some(name => name !== '/FlateDecode')) continue
+    if (names.length > 0) {
+      try {
+        data = inflateSync(data, { maxOutputLength: MAX_INFLATED_BYTES - inflatedTotal })
+        inflatedTotal += data.length
+      } catch {
+        continue
+      }
+    }
+
+    const stream = data.toString('latin1')
+    if (/\bBT\b/.test(stream)) {
+      pieces.push(readContentStream(stream))
+    }
+  }
+
+  return pieces.join('\n')
+}
+
+/**
+ * Collect the strings shown by text operators (Tj, TJ, ' and ") in a page content stream,
+ * starting new lines where the text position moves down
+ */
+function readContentStream(stream: string): string {
+  const lines: string[] = []
+  let line = ''
+  let operands: (string | number)[] = []
+
+  const breakLine = () => {
+    if (line.trim()) lines.push(line)
+    line = ''
+  }
+  const show = (text: string) => {
+    line += text
+  }
+
+  let i = 0
+  while (i < stream.length) {
+    const ch = stream[i]
+
+    if (ch === '(') {
+      const [text, next] = readLiteralString(stream, i)
+      operands.push(text)
+      i = next
+    } else if (ch === '<' && stream[i + 1] !== '<') {
+      const end = stream.indexOf('>', i)
+      if (end < 0) break
+      operands.push(decodeHexString(stream.slice(i + 1, end)))
+      i = end + 1
+    } else if (ch === '[') {
+      // TJ arrays mix strings with kerning; a large gap stands for a space
+      let text = ''
+      i++
+      while (i < stream.length && stream[i] !== ']') {
+        if (stream[i] === '(') {
+          const [part, next] = readLiteralString(stream, i)
+          text += part
+          i = next
+        } else if (stream[i] === '<') {
+          const end = stream.indexOf('>', i)
+          if (end < 0) break
+          text += decodeHexString(stream.slice(i + 1, end))
+          i = end + 1
+        } else {
+          const number = stream.slice(i).match(/^-?\d*\.?\d+/)
+          if (number) {
+            if (parseFloat(number[0]) < -200) text += ' '
+            i += number[0].length
+          } else {
+            i++
+          }
+        }
+      }
+      operands.push(text)
+      i++
+    } else if (ch === '%') {
+      const end = stream.indexOf('\n', i)
+      i = end < 0 ? stream.length : end + 1
+    } else if (/[-+.\d]/.test(ch)) {
+      const number = stream.slice(i).match(/^[-+]?\d*\.?\d+/)
+      if (number) {
+        operands.push(parseFloat(number[0]))
+        i += number[0].length
+      } else {
+        i++
+      }
+    } else if (/[A-Za-z'"*]/.test(ch)) {
+      const operator = stream.slice(i).match(/^[A-Za-z'"*]+/)?.[0] || ch
+      i += operator.length
+      const strings = operands.filter((operand): operand is string => typeof operand === 'string')
+
+      switch (operator) {
+        case 'Tj':
+        case 'TJ':
+          show(strings.join(''))
+          break
+        case "'":
+        case '"':
+          breakLine()
+          show(strings.join(''))
+          break
+        case 'Td':
+        case 'TD': {
+          const ty = operands[operands.length - 1]
+          if (typeof ty === 'number' && ty !== 0) {
+            breakLine()
+          } else if (line && !/\s$/.test(line)) {
+            line += ' '
+          }
+          break
+        }
+        case 'T*':
+        case 'ET':
+          breakLine()
+          break
+        case 'Tm':
+          breakLine()
+          break
+      }
+      operands = []
+    } else {
+      i++
+    }
+  }
+
+  breakLine()
+  return lines.join('\n')
+}
+
+// A (...) string starting at `start`; returns the decoded text and the index after it
+function readLiteralString(stream: string, start: number): [string, number] {
+  let depth = 0
+  let bytes = ''
+  let i = start
+  for (; i < stream.length; i++) {
+    const ch = stream[i]
+    if (ch === '\\') {
+      const next = stream[++i]
+      const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f', '(': '(', ')': ')', '\\': '\\' }
+      if (next in escapes) {
+        bytes += escapes[next]
+      } else if (/[0-7]/.test(next)) {
+        const octal = stream.slice(i, i + 3).match(/^[0-7]{1,3}/)?.[0] as string
+        bytes += String.fromCharCode(parseInt(octal, 8) & 0xFF)
+        i += octal.length - 1
+      } else if (next === '\r' && stream[i + 1] === '\n') {
+        i++
+      }
+      // Any other escaped character, including a line continuation, is dropped
+      continue
+    }
+    if (ch === '(') {
+      depth++
+      if (depth === 1) continue
+    } else if (ch === ')') {
+      depth--
+      if (depth === 0) break
+    }
+    bytes += ch
+  }
+  return [decodePdfString(bytes), i + 1]
+}
+
+function decodeHexString(hex: string): string {
+  const digits = hex.replace(/[^0-9a-fA-F]/g, '')
+  let bytes = ''
+  for (let i = 0; i < digits.length; i += 2) {
+    bytes += String.fromCharCode(parseInt(digits.slice(i, i + 2).padEnd(2, '0'), 16))
+  }
+  return decodePdfString(bytes)
+}
+
+// PDF text strings are PDFDocEncoding (close to Latin-1) or UTF-16BE with a byte order mark
+function decodePdfString(bytes: string): string {
+  if (bytes.startsWith('\u00FE\u00FF')) {
+    const utf16 = Buffer.from(bytes.slice(2, 2 + ((bytes.length - 2) & ~1)), 'latin1')
+    return utf16.swap16().toString('utf16le')
+  }
+  return bytes
+}
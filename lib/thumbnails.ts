@@ -0,0 +1,360 @@
+// Thumbnails
+//
+// Every file gets a small set of WebP thumbnails (THUMBNAIL_SIZES, longest edge in pixels) of its
+// current content, stored with the configured storage provider next to the file's blob and served
+// by /api/files/[id]/thumbnail. Images are resized with sharp; the first page of a PDF is rendered
+// with pdftoppm (poppler) and a video's poster frame is taken with ffmpeg. When those tools are not
+// installed (PDFTOPPM_PATH / FFMPEG_PATH) such files are skipped.
+//
+// Generation runs in the background through an in-process queue, one file at a time, after
+// uploads and new versions. File.thumbnailStatus records the outcome; files left PENDING by a
+// restart, or FAILED, are picked up by the admin backfill.
+//
+// Encrypted files the server can decrypt get thumbnails encrypted with the file's own data key.
+// Passphrase-protected and end-to-end encrypted files are skipped: the server cannot read them.
+
+import { execFile } from 'child_process'
+import { createWriteStream } from 'fs'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { Readable } from 'stream'
+import { pipeline } from 'stream/promises'
+import { promisify } from 'util'
+import { getPrismaClient } from './prisma'
+import {
+  buildStorageKey,
+  deleteStoredObject,
+  openStoredObject,
+  resolveStoredObject,
+  storeObject,
+  StoredObjectRecord
+} from './storage'
+import { encryptBuffer, openStoredFileDecryptStream, EnvelopeSecret } from './encryption'
+import { resolveFileSecret, WrappedKeyRecord } from './key-management'
+import { isServerReadable } from './share-links'
+import { createBackgroundQueue } from './background-queue'
+
+export const THUMBNAIL_SIZES = [128, 256, 512]
+export const DEFAULT_THUMBNAIL_SIZE = 256
+export const MAX_THUMBNAIL_SOURCE_BYTES = 200 * 1024 * 1024 // 200MB
+const RENDER_SIZE = 1024 // PDF pages and video frames are rendered at this size, then resized
+const TOOL_TIMEOUT_MS = 60 * 1000
+const BACKFILL_BATCH_SIZE = 20
+
+const execFileAsync = promisify(execFile)
+
+export type ThumbnailStatus = 'PENDING' | 'READY' | 'SKIPPED' | 'FAILED'
+
+type SourceKind = 'image' | 'pdf' | 'video'
+
+export interface ThumbnailSourceFile extends StoredObjectRecord, WrappedKeyRecord {
+  id: string
+  userId: string
+  type: string
+  size: number
+  encrypted: boolean
+}
+
+export interface StoredThumbnail extends StoredObjectRecord {
+  id: string
+  size: number
+  encrypted: boolean
+}
+
+interface ThumbnailData extends StoredObjectRecord {
+  size: number
+  width: number
+  height: number
+  byteSize: number
+  encrypted: boolean
+}
+
+const sourceFileSelect = {
+  id: true,
+  userId: true,
+  type: true,
+  size: true,
+  encrypted: true,
+  url: true,
+  storageKey: true,
+  storageProvider: true,
+  wrappedKey: true,
+  encryptionKey: true
+}
+
+/**
+ * Which renderer produces a file's thumbnail, or null when it has none. SVG is left out:
+ * rasterising untrusted markup on the server is not worth a thumbnail.
+ */
+export function getThumbnailSourceKind(type: string): SourceKind | null {
+  const mimeType = (type || '').toLowerCase().split(';')[0].trim()
+  if (mimeType.startsWith('image/') && mimeType !== 'image/svg+xml') return 'image'
+  if (mimeType === 'application/pdf') return 'pdf'
+  if (mimeType.startsWith('video/')) return 'video'
+  return null
+}
+
+/**
+ * The standard size to serve for a requested size: the smallest that is at least as large,
+ * or the largest available
+ */
+export function resolveThumbnailSize(requested: number): number {
+  return THUMBNAIL_SIZES.find(size => size >= requested) ?? THUMBNAIL_SIZES[THUMBNAIL_SIZES.length - 1]
+}
+
+// Background queue: file ids waiting for generation
+const queue = createBackgroundQueue('generate thumbnails for file', fileId => generateThumbnails(fileId))
+
+/**
+ * Queue thumbnail generation for a file without waiting for it. A file already queued or
+ * being processed is not queued twice.
+ */
+export function scheduleThumbnails(fileId: string): void {
+  queue.schedule(fileId)
+}
+
+/**
+ * Drop a file's thumbnails after its content changed and queue new ones. Best effort like
+ * tagging: a failure is logged and never fails the upload.
+ */
+export async function invalidateThumbnails(fileId: string): Promise<void> {
+  try {
+    await deleteThumbnails(fileId)
+    const prisma = await getPrismaClient()
+    await prisma.file.update({ where: { id: fileId }, data: { thumbnailStatus: 'PENDING' } })
+    // Queued even while the old content is being processed; that run discards its result
+    queue.requeue(fileId)
+  } catch (error) {
+    console.error('Failed to invalidate thumbnails for file:', fileId, error)
+  }
+}
+
+/**
+ * Remove a file's thumbnail rows and blobs; call before deleting the file, whose rows
+ * would otherwise cascade and leave the blobs behind
+ */
+export async function deleteThumbnails(fileId: string): Promise<void> {
+  const prisma = await getPrismaClient()
+  const thumbnails: StoredThumbnail[] = await prisma.fileThumbnail.findMany({
+    where: { fileId },
+    select: { id: true, size: true, encrypted: true, url: true, storageKey: true, storageProvider: true }
+  })
+  if (thumbnails.length === 0) return
+
+  await prisma.fileThumbnail.deleteMany({ where: { id: { in: thumbnails.map(thumbnail => thumbnail.id) } } })
+  for (const thumbnail of thumbnails) {
+    await deleteStoredObject(thumbnail)
+  }
+}
+
+async function writeSourceFile(file: ThumbnailSourceFile, secret: EnvelopeSecret | null, target: string): Promise<void> {
+  const { stream } = await openStoredObject(file)
+  const plaintext = secret ? await openStoredFileDecryptStream(stream, secret) : stream
+  let length = 0
+  const limited = Readable.from((async function* () {
+    for await (const chunk of plaintext) {
+      length += chunk.length
+      if (length > MAX_THUMBNAIL_SOURCE_BYTES) {
+        plaintext.destroy()
+        throw new Error('File too large for thumbnail generation')
+      }
+      yield chunk
+    }
+  })())
+  await pipeline(limited, createWriteStream(target))
+}
+
+async function runTool(command: string, args: string[]): Promise<void> {
+  await execFileAsync(command, args, { timeout: TOOL_TIMEOUT_MS, maxBuffer: 1024 * 1024 })
+}
+
+function isMissingTool(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT'
+}
+
+/**
+ * Render the source into an image sharp can read: the file itself for images, the first
+ * page for PDFs, a frame one second in (or the first frame of short clips) for videos
+ */
+async function renderSourceImage(kind: SourceKind, source: string, workDir: string): Promise<string> {
+  if (kind === 'image') {
+    return source
+  }
+
+  if (kind === 'pdf') {
+    const prefix = path.join(workDir, 'page')
+    await runTool(process.env.PDFTOPPM_PATH || 'pdftoppm', [
+      '-png', '-f', '1', '-l', '1', '-singlefile', '-scale-to', String(RENDER_SIZE), source, prefix
+    ])
+    return `${prefix}.png`
+  }
+
+  const frame = path.join(workDir, 'frame.png')
+  const ffmpeg = process.env.FFMPEG_PATH || 'ffmpeg'
+  const grab = (offset: string) => runTool(ffmpeg, [
+    '-hide_banner', '-loglevel', 'error', '-ss', offset, '-i', source,
+    '-frames:v', '1', '-vf', `scale='min(${RENDER_SIZE},iw)':-2`, '-y', frame
+  ])
+  await grab('1')
+  if (!(await fs.stat(frame).catch(() => null))?.size) {
+    await grab('0')
+  }
+  return frame
+}
+
+async function saveThumbnails(
+  file: ThumbnailSourceFile,
+  image: string,
+  secret: EnvelopeSecret | null
+): Promise<boolean> {
+  const { default: sharp } = await import('sharp')
+  const prisma = await getPrismaClient()
+  const stored: ThumbnailData[] = []
+
+  try {
+    for (const size of THUMBNAIL_SIZES) {
+      const { data, info } = await sharp(image, { failOn: 'none', limitInputPixels: 100_000_000 })
+        .rotate() // Apply EXIF orientation
+        .resize(size, size, { fit: 'inside', withoutEnlargement: true })
+        .webp({ quality: 80 })
+        .toBuffer({ resolveWithObject: true })
+
+      const body = secret ? await encryptBuffer(data, secret) : data
+      const location = await storeObject(buildStorageKey(file.userId, `${size}.webp`, 'thumbnails'), body, {
+        contentType: secret ? 'application/octet-stream' : 'image/webp'
+      })
+      stored.push({
+        size,
+        width: info.width,
+        height: info.height,
+        byteSize: location.size,
+        url: location.url,
+        storageProvider: location.storageProvider,
+        storageKey: location.storageKey,
+        encrypted: !!secret
+      })
+    }
+
+    // The content may have changed while rendering; thumbnails of replaced content are dropped
+    // and the status left to the run queued by invalidateThumbnails
+    const current = await prisma.file.findUnique({ where: { id: file.id }, select: sourceFileSelect })
+    if (!current || resolveStoredObject(current).key !== resolveStoredObject(file).key) {
+      for (const thumbnail of stored) {
+        await deleteStoredObject(thumbnail)
+      }
+      return false
+    }
+
+    await deleteThumbnails(file.id)
+    await prisma.$transaction([
+      prisma.fileThumbnail.createMany({
+        data: stored.map(thumbnail => ({ fileId: file.id, ...thumbnail }))
+      }),
+      prisma.file.update({ where: { id: file.id }, data: { thumbnailStatus: 'READY' } })
+    ])
+    return true
+  } catch (error) {
+    for (const thumbnail of stored) {
+      await deleteStoredObject(thumbnail)
+    }
+    throw error
+  }
+}
+
+/**
+ * Generate and store thumbnails for a file's current content, recording the outcome in
+ * File.thumbnailStatus. Returns the new status.
+ */
+export async function generateThumbnails(fileId: string): Promise<ThumbnailStatus> {
+  const prisma = await getPrismaClient()
+  const file: ThumbnailSourceFile | null = await prisma.file.findUnique({
+    where: { id: fileId },
+    select: sourceFileSelect
+  })
+  if (!file) {
+    return 'SKIPPED'
+  }
+
+  const setStatus = async (status: ThumbnailStatus) => {
+    await prisma.file.update({ where: { id: fileId }, data: { thumbnailStatus: status } })
+    return status
+  }
+
+  const kind = getThumbnailSourceKind(file.type)
+  if (!kind || file.size > MAX_THUMBNAIL_SOURCE_BYTES || !isServerReadable(file)) {
+    return setStatus('SKIPPED')
+  }
+
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'privora-thumbnail-'))
+  try {
+    const secret = file.encrypted ? await resolveFileSecret(file) : null
+    const source = path.join(workDir, 'source')
+    await writeSourceFile(file, secret, source)
+    const image = await renderSourceImage(kind, source, workDir)
+    return await saveThumbnails(file, image, secret) ? 'READY' : 'PENDING'
+  } catch (error) {
+    if (isMissingTool(error)) {
+      console.warn(`Thumbnail renderer for ${kind} files is not installed; skipping file:`, fileId)
+      return setStatus('SKIPPED')
+    }
+    console.error('Thumbnail generation failed for file:', fileId, error)
+    return setStatus('FAILED')
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true })
+  }
+}
+
+/**
+ * Open a stored thumbnail as WebP bytes, decrypting it with the file's key when needed
+ */
+export async function readThumbnail(
+  thumbnail: StoredThumbnail,
+  file: WrappedKeyRecord
+): Promise<Readable> {
+  const { stream } = await openStoredObject(thumbnail)
+  if (!thumbnail.encrypted) {
+    return stream
+  }
+  try {
+    return await openStoredFileDecryptStream(stream, await resolveFileSecret(file))
+  } catch (error) {
+    stream.destroy()
+    throw error
+  }
+}
+
+/**
+ * Backfill: generate thumbnails for files still PENDING (or FAILED, with retryFailed),
+ * optionally for one user
+ */
+export async function backfillThumbnails(options: { userId?: string; retryFailed?: boolean } = {}): Promise<
+  Record<ThumbnailStatus, number>
+> {
+  const prisma = await getPrismaClient()
+  const counts: Record<ThumbnailStatus, number> = { PENDING: 0, READY: 0, SKIPPED: 0, FAILED: 0 }
+  const statuses: ThumbnailStatus[] = options.retryFailed ? ['PENDING', 'FAILED'] : ['PENDING']
+  let cursor: string | undefined
+
+  // Processed files leave the filtered set, so paging continues after the last id seen
+  while (true) {
+    const files: { id: string }[] = await prisma.file.findMany({
+      where: {
+        thumbnailStatus: { in: statuses },
+        ...(options.userId && { userId: options.userId }),
+        ...(cursor && { id: { gt: cursor } })
+      },
+      select: { id: true },
+      orderBy: { id: 'asc' },
+      take: BACKFILL_BATCH_SIZE
+    })
+    if (files.length === 0) break
+
+    for (const file of files) {
+      counts[await generateThumbnails(file.id)]++
+    }
+    cursor = files[files.length - 1].id
+  }
+
+  return counts
+}
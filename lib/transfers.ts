@@ -0,0 +1,360 @@
+// Transfers
+//
+// A transfer sends several files to one or more recipients at once, with one title, message,
+// expiry and set of permissions. Access still runs through FileShare: creating a transfer adds a
+// USER share per file and recipient, tagged with transferId, so checkFileAccess, downloads and
+// revocation work as they do for single shares. Recipients see the files as one bundle on the
+// receive page and can download everything they may download as a single ZIP export.
+
+import { getPrismaClient } from './prisma'
+import { InputValidator } from './security'
+import { parseSharePermissions, Permission } from './permissions'
+import { isEndToEndEncrypted, isValidPublicKeyWrap } from './key-management'
+import { planZipExport, ExportPlan } from './zip-export'
+import { getScanBlockReason } from './malware-scan'
+import { createAuthorizationError, createConflictError, createNotFoundError, createValidationError } from './error-handling'
+
+export const MAX_TRANSFER_FILES = 500
+export const MAX_TRANSFER_RECIPIENTS = 50
+export const MAX_TRANSFER_LIFETIME_DAYS = 365
+const MAX_TITLE_LENGTH = 200
+const MAX_MESSAGE_LENGTH = 2000
+const TRANSFER_PERMISSIONS = [Permission.VIEW, Permission.DOWNLOAD]
+
+export interface TransferInput {
+  title: string
+  message: string | null
+  fileIds: string[]
+  recipients: string[]
+  permissions: Permission[]
+  expiresAt: Date | null
+  wrappedKeys: Record<string, Record<string, string>> // fileId -> recipient email -> wrapped key
+}
+
+export interface TransferRecipient {
+  id: string
+  email: string
+  name: string | null
+}
+
+export interface TransferFile {
+  id: string
+  name: string
+  size: number
+  type: string
+}
+
+interface TransferShareRow {
+  sharedWithEmail: string | null
+  downloadCount: number
+  file: { id: string; name: string; originalName: string | null; size: number; type: string; deletedAt: Date | null }
+}
+
+interface TransferRow {
+  id: string
+  title: string
+  message: string | null
+  userId: string
+  permissions: string
+  expiresAt: Date | null
+  revoked: boolean
+  createdAt: Date
+  updatedAt: Date
+  shares: TransferShareRow[]
+}
+
+interface RecipientShareRow extends TransferShareRow {
+  id: string
+  userId: string | null
+  revoked: boolean
+}
+
+/**
+ * Validate the body of a new transfer. File ownership and recipients are checked by createTransfer.
+ */
+export function parseTransferInput(body: Record<string, unknown>): TransferInput {
+  const title = InputValidator.sanitizeString(body.title, MAX_TITLE_LENGTH)
+  if (!title) {
+    throw createValidationError('A title is required')
+  }
+  const message = InputValidator.sanitizeString(body.message, MAX_MESSAGE_LENGTH) || null
+
+  if (!Array.isArray(body.fileIds) || body.fileIds.length === 0 || body.fileIds.some(id => typeof id !== 'string')) {
+    throw createValidationError('fileIds must be a non-empty list of file ids')
+  }
+  const fileIds = [...new Set(body.fileIds as string[])]
+  if (fileIds.length > MAX_TRANSFER_FILES) {
+    throw createValidationError(`A transfer can hold at most ${MAX_TRANSFER_FILES} files`)
+  }
+
+  if (!Array.isArray(body.recipients) || body.recipients.length === 0 || body.recipients.some(email => typeof email !== 'string')) {
+    throw createValidationError('recipients must be a non-empty list of email addresses')
+  }
+  const recipients = [...new Set((body.recipients as string[]).map(email => email.trim().toLowerCase()))]
+  if (recipients.length > MAX_TRANSFER_RECIPIENTS) {
+    throw createValidationError(`A transfer can go to at most ${MAX_TRANSFER_RECIPIENTS} recipients`)
+  }
+  const invalid = recipients.find(email => !InputValidator.validateEmail(email))
+  if (invalid) {
+    throw createValidationError(`"${invalid}" is not a valid email address`)
+  }
+
+  // Recipients can always view what they were sent; DOWNLOAD is on unless switched off
+  let permissions = TRANSFER_PERMISSIONS
+  if (body.permissions !== undefined) {
+    if (!Array.isArray(body.permissions) || body.permissions.some(perm => !TRANSFER_PERMISSIONS.includes(perm as Permission))) {
+      throw createValidationError('permissions may only contain VIEW and DOWNLOAD')
+    }
+    permissions = TRANSFER_PERMISSIONS.filter(perm => perm === Permission.VIEW || (body.permissions as string[]).includes(perm))
+  }
+
+  let expiresAt: Date | null = null
+  if (body.expiresAt) {
+    expiresAt = new Date(body.expiresAt as string)
+    const latest = Date.now() + MAX_TRANSFER_LIFETIME_DAYS * 24 * 60 * 60 * 1000
+    if (isNaN(expiresAt.getTime()) || expiresAt.getTime() <= Date.now() || expiresAt.getTime() > latest) {
+      throw createValidationError(`Expiry must be a future date within ${MAX_TRANSFER_LIFETIME_DAYS} days`)
+    }
+  }
+
+  const wrappedKeys = body.wrappedKeys && typeof body.wrappedKeys === 'object'
+    ? body.wrappedKeys as Record<string, Record<string, string>>
+    : {}
+
+  return { title, message, fileIds, recipients, permissions, expiresAt, wrappedKeys }
+}
+
+/**
+ * Create a transfer of the sender's files and a share per file and recipient. Recipients
+ * without an account are returned as unknownRecipients and get nothing; at least one
+ * recipient must have an account.
+ */
+export async function createTransfer(senderId: string, input: TransferInput) {
+  const prisma = await getPrismaClient()
+
+  const files = await prisma.file.findMany({
+    where: { id: { in: input.fileIds }, userId: senderId, deletedAt: null },
+    select: { id: true, name: true, originalName: true, size: true, type: true, wrappedKey: true, scanStatus: true }
+  })
+  if (files.length !== input.fileIds.length) {
+    throw createAuthorizationError('Transfers can only contain your own files')
+  }
+  for (const file of files) {
+    const scanBlock = getScanBlockReason(file)
+    if (scanBlock) {
+      throw createConflictError(`${file.originalName || file.name}: ${scanBlock}`)
+    }
+  }
+
+  const users: TransferRecipient[] = await prisma.user.findMany({
+    where: { email: { in: input.recipients }, id: { not: senderId } },
+    select: { id: true, email: true, name: true }
+  })
+  const found = new Set(users.map(user => user.email.toLowerCase()))
+  const unknownRecipients = input.recipients.filter(email => !found.has(email))
+  if (users.length === 0) {
+    throw createValidationError('None of the recipients has an account')
+  }
+
+  // End-to-end encrypted files need the data key wrapped in the browser for every recipient
+  for (const file of files) {
+    if (!isEndToEndEncrypted(file)) continue
+    const missing = users.find(user => !isValidPublicKeyWrap(input.wrappedKeys[file.id]?.[user.email.toLowerCase()]))
+    if (missing) {
+      throw createValidationError(`Recipient key for ${missing.email} required for end-to-end encrypted file ${file.name}`)
+    }
+  }
+
+  const permissions = JSON.stringify(input.permissions)
+  // One nested write, so the transfer and its shares are created together or not at all
+  const transfer = await prisma.transfer.create({
+    data: {
+      title: input.title,
+      message: input.message,
+      userId: senderId,
+      permissions,
+      expiresAt: input.expiresAt,
+      shares: {
+        createMany: {
+          data: files.flatMap((file: { id: string; wrappedKey: string | null }) => users.map(user => ({
+            fileId: file.id,
+            userId: user.id,
+            sharedWithEmail: user.email.toLowerCase(),
+            shareType: 'USER',
+            permissions,
+            expiresAt: input.expiresAt,
+            wrappedKey: isEndToEndEncrypted(file) ? input.wrappedKeys[file.id][user.email.toLowerCase()] : null,
+            createdBy: senderId
+          })))
+        }
+      }
+    }
+  })
+
+  return {
+    transfer,
+    files: files.map((file: TransferFile & { originalName: string | null }) => ({
+      id: file.id,
+      name: file.originalName || file.name,
+      size: file.size,
+      type: file.type
+    })) as TransferFile[],
+    recipients: users,
+    unknownRecipients
+  }
+}
+
+/**
+ * The sender's transfers, newest first, with their files and recipients
+ */
+export async function listSentTransfers(userId: string) {
+  const prisma = await getPrismaClient()
+  const transfers = await prisma.transfer.findMany({
+    where: { userId },
+    include: {
+      shares: {
+        select: {
+          sharedWithEmail: true,
+          downloadCount: true,
+          file: { select: { id: true, name: true, originalName: true, size: true, type: true, deletedAt: true } }
+        }
+      }
+    },
+    orderBy: { createdAt: 'desc' }
+  })
+  return transfers.map(summarizeSentTransfer)
+}
+
+function summarizeSentTransfer(transfer: TransferRow) {
+  const files = new Map<string, TransferFile>()
+  const recipients = new Map<string, number>()
+  for (const share of transfer.shares) {
+    // Files the sender has trashed since are no longer part of the transfer
+    if (share.file.deletedAt) continue
+    files.set(share.file.id, {
+      id: share.file.id,
+      name: share.file.originalName || share.file.name,
+      size: share.file.size,
+      type: share.file.type
+    })
+    const email = share.sharedWithEmail || ''
+    recipients.set(email, (recipients.get(email) || 0) + share.downloadCount)
+  }
+
+  return {
+    id: transfer.id,
+    title: transfer.title,
+    message: transfer.message,
+    expiresAt: transfer.expiresAt,
+    revoked: transfer.revoked,
+    createdAt: transfer.createdAt,
+    permissions: parseSharePermissions(transfer.permissions),
+    files: Array.from(files.values()),
+    recipients: Array.from(recipients, ([email, downloads]) => ({ email, downloads })),
+    totalSize: Array.from(files.values()).reduce((sum, file) => sum + file.size, 0)
+  }
+}
+
+function isTransferActive(transfer: { revoked: boolean; expiresAt: Date | null }): boolean {
+  return !transfer.revoked && (!transfer.expiresAt || new Date(transfer.expiresAt) > new Date())
+}
+
+/**
+ * A transfer as seen by its sender or one of its recipients. Recipients only see the files
+ * still shared with them; revoked or expired transfers are not found for them.
+ */
+export async function getTransfer(userId: string, userEmail: string | null | undefined, transferId: string) {
+  const prisma = await getPrismaClient()
+  const transfer: (Omit<TransferRow, 'shares'> & { user: TransferRecipient; shares: RecipientShareRow[] }) | null = await prisma.transfer.findUnique({
+    where: { id: transferId },
+    include: {
+      user: { select: { id: true, name: true, email: true } },
+      shares: {
+        select: {
+          id: true,
+          userId: true,
+          sharedWithEmail: true,
+          revoked: true,
+          downloadCount: true,
+          file: { select: { id: true, name: true, originalName: true, size: true, type: true, deletedAt: true } }
+        }
+      }
+    }
+  })
+  if (!transfer) {
+    throw createNotFoundError('Transfer')
+  }
+
+  if (transfer.userId === userId) {
+    return { ...summarizeSentTransfer(transfer), sender: transfer.user, isSender: true }
+  }
+
+  const email = userEmail?.toLowerCase()
+  const shares = transfer.shares.filter(share =>
+    (share.userId === userId || (!!email && share.sharedWithEmail === email)) && !share.revoked && !share.file.deletedAt
+  )
+  if (shares.length === 0 || !isTransferActive(transfer)) {
+    throw createNotFoundError('Transfer')
+  }
+
+  return {
+    id: transfer.id,
+    title: transfer.title,
+    message: transfer.message,
+    permissions: parseSharePermissions(transfer.permissions),
+    expiresAt: transfer.expiresAt,
+    createdAt: transfer.createdAt,
+    sender: transfer.user,
+    isSender: false,
+    files: shares.map(share => ({
+      id: share.file.id,
+      shareId: share.id,
+      name: share.file.originalName || share.file.name,
+      size: share.file.size,
+      type: share.file.type
+    })),
+    totalSize: shares.reduce((sum, share) => sum + share.file.size, 0)
+  }
+}
+
+/**
+ * Revoke a transfer and every share it created. Only the sender may revoke.
+ */
+export async function revokeTransfer(userId: string, transferId: string): Promise<{ revokedShares: number }> {
+  const prisma = await getPrismaClient()
+  const transfer = await prisma.transfer.findUnique({
+    where: { id: transferId },
+    select: { userId: true }
+  })
+  if (!transfer) {
+    throw createNotFoundError('Transfer')
+  }
+  if (transfer.userId !== userId) {
+    throw createAuthorizationError('Only the sender can revoke a transfer')
+  }
+
+  const [, shares] = await prisma.$transaction([
+    prisma.transfer.update({ where: { id: transferId }, data: { revoked: true } }),
+    prisma.fileShare.updateMany({ where: { transferId, revoked: false }, data: { revoked: true } })
+  ])
+  return { revokedShares: shares.count }
+}
+
+/**
+ * Plan the "download all" archive of a transfer for one user: a ZIP export (see
+ * lib/zip-export.ts) of the transfer's files, with the transfer's title in the manifest
+ */
+export async function planTransferArchive(
+  userId: string,
+  userEmail: string | null | undefined,
+  transferId: string,
+  isShareUnlocked: (share: { id: string; password: string | null }) => boolean
+): Promise<ExportPlan & { title: string }> {
+  const transfer = await getTransfer(userId, userEmail, transferId)
+  const plan = await planZipExport(
+    userId,
+    { fileIds: (transfer.files as TransferFile[]).map(file => file.id), keys: {}, key: null },
+    { isShareUnlocked, title: transfer.title }
+  )
+  return { ...plan, title: transfer.title }
+}
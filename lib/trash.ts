@@ -0,0 +1,265 @@
+// Trash
+//
+// Deleting a file moves it to the trash: File.deletedAt is set and the file disappears from
+// listings, search, shares and public links, while its shares, versions and deliveries are kept.
+// Restoring clears deletedAt, which reinstates every share as it was. After the retention window
+// (TRASH_RETENTION_DAYS, default 30) the purge job deletes the row and frees its blobs and quota;
+// until then trashed files still count against their owner's quota.
+
+import { getPrismaClient } from './prisma'
+import { releaseContent, ContentRecord } from './blob-store'
+import { releaseStorage } from './storage-quota'
+import { deleteThumbnails } from './thumbnails'
+import { logAuditEvent, AuditAction, AuditSeverity } from './audit'
+import { createAuthorizationError, createNotFoundError, createValidationError } from './error-handling'
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30
+const MAX_TRASH_BATCH = 100
+const PURGE_BATCH_SIZE = 50
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface TrashedFile {
+  id: string
+  name: string
+  originalName: string | null
+  size: number
+  type: string
+  folderId: string | null
+  deletedAt: Date
+  purgeAt: Date
+}
+
+export interface PurgeResult {
+  fileId: string
+  userId: string
+  name: string
+  size: number
+  removedShares: number
+  removedVersions: number
+  removedDeliveries: number
+  removedBlobs: number
+  freedBytes: number
+}
+
+const trashedFileSelect = {
+  id: true,
+  name: true,
+  originalName: true,
+  size: true,
+  type: true,
+  folderId: true,
+  deletedAt: true
+}
+
+/**
+ * Days a file stays in the trash before it is purged; 0 purges on the next run
+ */
+export function getTrashRetentionDays(): number {
+  const configured = process.env.TRASH_RETENTION_DAYS
+  const days = configured ? Number(configured) : NaN
+  return Number.isFinite(days) && days >= 0 ? days : DEFAULT_TRASH_RETENTION_DAYS
+}
+
+export function getPurgeDate(deletedAt: Date): Date {
+  return new Date(deletedAt.getTime() + getTrashRetentionDays() * DAY_MS)
+}
+
+function withPurgeDate(file: Omit<TrashedFile, 'purgeAt'>): TrashedFile {
+  return { ...file, purgeAt: getPurgeDate(file.deletedAt) }
+}
+
+/**
+ * Validate a list of file ids sent to a trash action
+ */
+export function parseTrashFileIds(input: unknown): string[] {
+  if (!Array.isArray(input) || input.length === 0 || input.some(id => typeof id !== 'string')) {
+    throw createValidationError('fileIds must be a non-empty list of file ids')
+  }
+  if (input.length > MAX_TRASH_BATCH) {
+    throw createValidationError(`At most ${MAX_TRASH_BATCH} files can be handled at once`)
+  }
+  return [...new Set(input as string[])]
+}
+
+/**
+ * Move one of the user's files to the trash
+ */
+export async function trashFile(userId: string, fileId: string): Promise<TrashedFile> {
+  const prisma = await getPrismaClient()
+  const file = await prisma.file.findFirst({
+    where: { id: fileId, deletedAt: null },
+    select: { userId: true }
+  })
+  if (!file) {
+    throw createNotFoundError('File')
+  }
+  // Only the owner may delete; EDIT collaborators can rename but not remove
+  if (file.userId !== userId) {
+    throw createAuthorizationError('Only the file owner can delete this file')
+  }
+
+  const trashed = await prisma.file.update({
+    where: { id: fileId },
+    data: { deletedAt: new Date() },
+    select: trashedFileSelect
+  })
+  return withPurgeDate(trashed)
+}
+
+/**
+ * The user's trashed files, most recently deleted first
+ */
+export async function listTrash(userId: string): Promise<TrashedFile[]> {
+  const prisma = await getPrismaClient()
+  const files: Omit<TrashedFile, 'purgeAt'>[] = await prisma.file.findMany({
+    where: { userId, deletedAt: { not: null } },
+    select: trashedFileSelect,
+    orderBy: { deletedAt: 'desc' }
+  })
+  return files.map(withPurgeDate)
+}
+
+/**
+ * Take files out of the trash. Shares become usable again; files whose folder was deleted
+ * in the meantime come back at the root. Ids that are not the user's trashed files are ignored.
+ */
+export async function restoreFiles(userId: string, fileIds: string[]): Promise<{ id: string; name: string }[]> {
+  const prisma = await getPrismaClient()
+  const files: { id: string; name: string }[] = await prisma.file.findMany({
+    where: { id: { in: fileIds }, userId, deletedAt: { not: null } },
+    select: { id: true, name: true }
+  })
+  if (files.length > 0) {
+    await prisma.file.updateMany({
+      where: { id: { in: files.map(file => file.id) } },
+      data: { deletedAt: null }
+    })
+  }
+  return files
+}
+
+/**
+ * Permanently delete a file: its row with everything that cascades from it, its thumbnails,
+ * and the blobs of its content and versions that nothing else references
+ */
+export async function purgeFile(fileId: string): Promise<PurgeResult | null> {
+  const prisma = await getPrismaClient()
+  const file = await prisma.file.findUnique({
+    where: { id: fileId },
+    include: {
+      versions: { select: { url: true, storageProvider: true, storageKey: true, blobId: true, size: true } },
+      _count: {
+        select: { shares: true, versions: true, deliveries: true }
+      }
+    }
+  })
+  if (!file) {
+    return null
+  }
+
+  // Shares, versions and deliveries cascade with the file row; thumbnail blobs do not
+  await deleteThumbnails(fileId)
+  await prisma.file.delete({ where: { id: fileId } })
+
+  // Versions may share content with the file (rollbacks copy the location), so each distinct
+  // location leaves the owner's quota once. Deduplicated blobs are only deleted when no other
+  // file still references them.
+  const records = [file, ...file.versions] as (ContentRecord & { size: number })[]
+  const blobs = new Map<string, ContentRecord & { size: number }>()
+  for (const record of records) {
+    blobs.set(record.storageKey || record.url, record)
+  }
+  await releaseContent(records)
+
+  let freedBytes = 0
+  for (const record of blobs.values()) {
+    freedBytes += record.size
+  }
+  await releaseStorage(file.userId, freedBytes)
+
+  return {
+    fileId,
+    userId: file.userId,
+    name: file.name,
+    size: file.size,
+    removedShares: file._count.shares,
+    removedVersions: file._count.versions,
+    removedDeliveries: file._count.deliveries,
+    removedBlobs: blobs.size,
+    freedBytes
+  }
+}
+
+/**
+ * Permanently delete some of the user's trashed files ahead of the retention window
+ */
+export async function purgeTrashedFiles(userId: string, fileIds: string[]): Promise<PurgeResult[]> {
+  const prisma = await getPrismaClient()
+  const files: { id: string }[] = await prisma.file.findMany({
+    where: { id: { in: fileIds }, userId, deletedAt: { not: null } },
+    select: { id: true }
+  })
+
+  const results: PurgeResult[] = []
+  for (const file of files) {
+    const result = await purgeFile(file.id)
+    if (result) results.push(result)
+  }
+  return results
+}
+
+/**
+ * Purge job: permanently delete files that have been in the trash longer than the retention
+ * window, optionally only one user's. Each purge is audited against the file's owner.
+ */
+export async function purgeExpiredTrash(options: { userId?: string } = {}): Promise<{
+  purged: number
+  failed: number
+  freedBytes: number
+}> {
+  const prisma = await getPrismaClient()
+  const cutoff = new Date(Date.now() - getTrashRetentionDays() * DAY_MS)
+  let purged = 0
+  let failed = 0
+  let freedBytes = 0
+  let cursor: string | undefined
+
+  // Purged rows leave the filtered set, so paging continues after the last id seen
+  while (true) {
+    const files: { id: string }[] = await prisma.file.findMany({
+      where: {
+        deletedAt: { lte: cutoff },
+        ...(options.userId && { userId: options.userId }),
+        ...(cursor && { id: { gt: cursor } })
+      },
+      select: { id: true },
+      orderBy: { id: 'asc' },
+      take: PURGE_BATCH_SIZE
+    })
+    if (files.length === 0) break
+
+    for (const file of files) {
+      try {
+        const result = await purgeFile(file.id)
+        if (!result) continue
+        purged++
+        freedBytes += result.freedBytes
+
+        await logAuditEvent({
+          userId: result.userId,
+          action: AuditAction.FILE_PURGE,
+          resource: 'file',
+          resourceId: file.id,
+          details: { reason: 'retention_expired', retentionDays: getTrashRetentionDays(), ...result },
+          severity: AuditSeverity.MEDIUM
+        })
+      } catch (error) {
+        console.error('Failed to purge trashed file:', file.id, error)
+        failed++
+      }
+    }
+    cursor = files[files.length - 1].id
+  }
+
+  return { purged, failed, freedBytes }
+}
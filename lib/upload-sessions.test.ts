@@ -0,0 +1,102 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+interface StoredSession {
+  id: string
+  status: string
+  expiresAt: Date
+  updatedAt: Date
+}
+
+type Condition = string | { in?: string[]; lt?: Date }
+type Where = { id?: string; OR?: Where[] } & Record<string, Condition | Where[] | undefined>
+
+// An in-memory UploadSession table supporting the filters the cleanup sweep uses
+const db = vi.hoisted(() => ({ sessions: [] as StoredSession[] }))
+
+vi.mock('./prisma', () => {
+  const matches = (session: StoredSession, where: Where): boolean =>
+    Object.entries(where).every(([field, condition]) => {
+      if (field === 'OR') return (condition as Where[]).some(branch => matches(session, branch))
+      const value = session[field as keyof StoredSession]
+      if (typeof condition === 'string') return value === condition
+      const { in: among, lt } = condition as { in?: string[]; lt?: Date }
+      if (among && !among.includes(value as string)) return false
+      if (lt && !((value as Date) < lt)) return false
+      return true
+    })
+
+  const prisma = {
+    uploadSession: {
+      findMany: async ({ where }: { where: Where }) =>
+        db.sessions.filter(session => matches(session, where)).map(({ id }) => ({ id })),
+      updateMany: async ({ where, data }: { where: Where; data: Partial<StoredSession> }) => {
+        const matched = db.sessions.filter(session => matches(session, where))
+        matched.forEach(session => Object.assign(session, data, { updatedAt: new Date() }))
+        return { count: matched.length }
+      },
+      deleteMany: async ({ where }: { where: Where }) => {
+        const before = db.sessions.length
+        db.sessions = db.sessions.filter(session => !matches(session, where))
+        return { count: before - db.sessions.length }
+      }
+    }
+  }
+  return { getPrismaClient: async () => prisma }
+})
+
+import { cleanupAbandonedUploadSessions, UploadSessionStatus } from './upload-sessions'
+
+const HOUR = 60 * 60 * 1000
+
+function session(id: string, status: UploadSessionStatus, updatedHoursAgo: number, expiresInHours = 24): StoredSession {
+  return {
+    id,
+    status,
+    expiresAt: new Date(Date.now() + expiresInHours * HOUR),
+    updatedAt: new Date(Date.now() - updatedHoursAgo * HOUR)
+  }
+}
+
+describe('cleanupAbandonedUploadSessions', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    db.sessions = []
+  })
+
+  it('expires sessions left finalizing by a process that died, but not running ones', async () => {
+    db.sessions = [
+      session('stuck', UploadSessionStatus.FINALIZING, 3),
+      session('running', UploadSessionStatus.FINALIZING, 0.1)
+    ]
+
+    expect(await cleanupAbandonedUploadSessions()).toBe(1)
+
+    expect(db.sessions.find(s => s.id === 'stuck')?.status).toBe(UploadSessionStatus.EXPIRED)
+    expect(db.sessions.find(s => s.id === 'running')?.status).toBe(UploadSessionStatus.FINALIZING)
+  })
+
+  it('expires uploads past their expiry', async () => {
+    db.sessions = [
+      session('stale', UploadSessionStatus.UPLOADING, 30, -6),
+      session('active', UploadSessionStatus.UPLOADING, 1)
+    ]
+
+    await cleanupAbandonedUploadSessions()
+
+    expect(db.sessions.map(s => [s.id, s.status])).toEqual([
+      ['stale', UploadSessionStatus.EXPIRED],
+      ['active', UploadSessionStatus.UPLOADING]
+    ])
+  })
+
+  it('deletes sessions finished more than a week ago', async () => {
+    db.sessions = [
+      session('old', UploadSessionStatus.COMPLETED, 24 * 8),
+      session('recent', UploadSessionStatus.COMPLETED, 24)
+    ]
+
+    await cleanupAbandonedUploadSessions()
+
+    expect(db.sessions.map(s => s.id)).toEqual(['recent'])
+  })
+})
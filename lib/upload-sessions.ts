@@ -0,0 +1,445 @@
+import { createReadStream } from 'fs'
+import fs from 'fs/promises'
+import path from 'path'
+import crypto from 'crypto'
+import { Readable } from 'stream'
+import { getPrismaClient } from './prisma'
+import { PathSanitizer, ContentSecurity, InputValidator } from './security'
+import { logAuditEvent, AuditAction, AuditSeverity } from './audit'
+import { buildStorageKey } from './storage'
+import { releaseContent, storeContent, StoredContent } from './blob-store'
+import { assertStorageAvailable, reserveStorage, releaseStorage } from './storage-quota'
+import { applyAutoTags } from './file-tags'
+import { scheduleTextExtraction } from './search'
+import { scheduleThumbnails } from './thumbnails'
+import { scheduleScan } from './malware-scan'
+import {
+  createValidationError,
+  createNotFoundError,
+  createConflictError,
+  createStorageError
+} from './error-handling'
+
+export const MAX_CHUNKED_UPLOAD_SIZE = 500 * 1024 * 1024 // 500MB
+export const MAX_CHUNK_SIZE = 10 * 1024 * 1024 // 10MB
+export const UPLOAD_SESSION_TTL_MS = 24 * 60 * 60 * 1000 // 24 hours since last chunk
+const CLEANUP_INTERVAL_MS = 15 * 60 * 1000
+const FINALIZE_TIMEOUT_MS = 60 * 60 * 1000 // A finalize still running after this died with its process
+const FINISHED_SESSION_RETENTION_MS = 7 * 24 * 60 * 60 * 1000
+
+export const CHUNKED_UPLOAD_ALLOWED_TYPES = [
+  'image/*',
+  'video/*',
+  'audio/*',
+  'application/pdf',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'text/*',
+  'application/zip',
+  'application/x-rar-compressed',
+  'application/octet-stream'
+]
+
+export enum UploadSessionStatus {
+  UPLOADING = 'uploading',
+  FINALIZING = 'finalizing',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+  EXPIRED = 'expired'
+}
+
+export interface UploadSessionInit {
+  uploadId: string
+  fileName: string
+  fileSize: number
+  mimeType?: string
+  chunkSize: number
+  totalChunks: number
+  checksum?: string
+}
+
+export interface UploadSessionRecord {
+  id: string
+  uploadId: string
+  userId: string
+  fileName: string
+  fileSize: number
+  mimeType: string
+  chunkSize: number
+  totalChunks: number
+  status: string
+  checksum: string | null
+  fileId: string | null
+  expiresAt: Date
+}
+
+let lastCleanupAt = 0
+
+function getUploadDir(): string {
+  return path.resolve(process.cwd(), 'storage', 'uploads')
+}
+
+function getChunkDir(sessionId: string): string {
+  const chunkRoot = path.join(getUploadDir(), 'chunks')
+  return path.join(chunkRoot, PathSanitizer.sanitizeFilePath(sessionId, chunkRoot))
+}
+
+function getChunkPath(sessionId: string, chunkIndex: number): string {
+  return path.join(getChunkDir(sessionId), `${chunkIndex}.part`)
+}
+
+function expectedChunkLength(session: UploadSessionRecord, chunkIndex: number): number {
+  if (chunkIndex < session.totalChunks - 1) {
+    return session.chunkSize
+  }
+  return session.fileSize - session.chunkSize * (session.totalChunks - 1)
+}
+
+/**
+ * Find an upload session by its client-generated upload ID
+ */
+export async function findUploadSession(userId: string, uploadId: string): Promise<UploadSessionRecord | null> {
+  const prisma = await getPrismaClient()
+  return await prisma.uploadSession.findUnique({
+    where: { userId_uploadId: { userId, uploadId } }
+  })
+}
+
+/**
+ * Return an existing upload session or start a new one after validating its parameters
+ */
+export async function getOrCreateUploadSession(
+  userId: string,
+  init: UploadSessionInit
+): Promise<UploadSessionRecord> {
+  const existing = await findUploadSession(userId, init.uploadId)
+  if (existing) {
+    if (existing.fileSize !== init.fileSize || existing.totalChunks !== init.totalChunks) {
+      throw createConflictError('Upload ID already in use for a different file')
+    }
+    return existing
+  }
+
+  const uploadId = InputValidator.sanitizeString(init.uploadId, 100)
+  if (!/^[A-Za-z0-9_-]+$/.test(uploadId)) {
+    throw createValidationError('Invalid upload ID')
+  }
+
+  const fileName = PathSanitizer.sanitizeFilename(init.fileName)
+  const mimeType = init.mimeType || 'application/octet-stream'
+
+  InputValidator.validateFileSize(init.fileSize, MAX_CHUNKED_UPLOAD_SIZE)
+  if (!ContentSecurity.validateContentType(mimeType, CHUNKED_UPLOAD_ALLOWED_TYPES)) {
+    throw createValidationError(`File type ${mimeType} is not allowed`)
+  }
+
+  if (!Number.isInteger(init.chunkSize) || init.chunkSize <= 0 || init.chunkSize > MAX_CHUNK_SIZE) {
+    throw createValidationError(`Chunk size must be between 1 byte and ${MAX_CHUNK_SIZE / (1024 * 1024)}MB`)
+  }
+
+  if (init.totalChunks !== Math.max(1, Math.ceil(init.fileSize / init.chunkSize))) {
+    throw createValidationError('Total chunks does not match file size and chunk size')
+  }
+
+  if (init.checksum && !/^[a-f0-9]{64}$/i.test(init.checksum)) {
+    throw createValidationError('Checksum must be a hex-encoded SHA-256 digest')
+  }
+
+  // Refuse uploads that cannot fit before any chunks are sent; finalize reserves the space
+  await assertStorageAvailable(userId, init.fileSize)
+
+  const prisma = await getPrismaClient()
+  const session = await prisma.uploadSession.create({
+    data: {
+      uploadId,
+      userId,
+      fileName,
+      fileSize: init.fileSize,
+      mimeType,
+      chunkSize: init.chunkSize,
+      totalChunks: init.totalChunks,
+      checksum: init.checksum?.toLowerCase() || null,
+      expiresAt: new Date(Date.now() + UPLOAD_SESSION_TTL_MS)
+    }
+  })
+
+  await fs.mkdir(getChunkDir(session.id), { recursive: true, mode: 0o755 })
+  return session
+}
+
+/**
+ * List the chunk indexes already stored for a session
+ */
+export async function getUploadedChunks(sessionId: string): Promise<number[]> {
+  try {
+    const entries = await fs.readdir(getChunkDir(sessionId))
+    return entries
+      .filter(entry => /^\d+\.part$/.test(entry))
+      .map(entry => parseInt(entry, 10))
+      .sort((a, b) => a - b)
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return []
+    }
+    throw error
+  }
+}
+
+/**
+ * Verify and persist a single chunk. Chunks are written to a temp file and renamed
+ * so a retried or interrupted request never leaves a partial chunk behind.
+ */
+export async function writeChunk(
+  session: UploadSessionRecord,
+  chunkIndex: number,
+  data: Buffer,
+  checksum?: string
+): Promise<void> {
+  if (session.status !== UploadSessionStatus.UPLOADING) {
+    throw createConflictError(`Upload session is ${session.status}`)
+  }
+
+  if (session.expiresAt < new Date()) {
+    throw createConflictError('Upload session has expired')
+  }
+
+  if (!Number.isInteger(chunkIndex) || chunkIndex < 0 || chunkIndex >= session.totalChunks) {
+    throw createValidationError('Chunk index out of range')
+  }
+
+  if (data.length !== expectedChunkLength(session, chunkIndex)) {
+    throw createValidationError(`Chunk ${chunkIndex} has an unexpected size`)
+  }
+
+  if (checksum) {
+    const actual = crypto.createHash('sha256').update(data).digest('hex')
+    if (actual !== checksum.toLowerCase()) {
+      throw createValidationError(`Checksum mismatch for chunk ${chunkIndex}`)
+    }
+  }
+
+  const chunkDir = getChunkDir(session.id)
+  await fs.mkdir(chunkDir, { recursive: true, mode: 0o755 })
+
+  const chunkPath = getChunkPath(session.id, chunkIndex)
+  const tempPath = `${chunkPath}.${crypto.randomUUID()}.tmp`
+  try {
+    await fs.writeFile(tempPath, data)
+    await fs.rename(tempPath, chunkPath)
+  } catch (error) {
+    await fs.rm(tempPath, { force: true })
+    console.error('Failed to write upload chunk:', error)
+    throw createStorageError('Failed to store chunk')
+  }
+
+  // Sliding expiry: active uploads are never treated as abandoned
+  const prisma = await getPrismaClient()
+  await prisma.uploadSession.update({
+    where: { id: session.id },
+    data: { expiresAt: new Date(Date.now() + UPLOAD_SESSION_TTL_MS) }
+  })
+}
+
+/**
+ * Assemble all chunks into the final blob, verify the checksum and create the File record.
+ * Returns null when another request is already finalizing the session.
+ */
+export async function finalizeUploadSession(session: UploadSessionRecord) {
+  const prisma = await getPrismaClient()
+
+  // Claim the session so concurrent final chunks cannot finalize twice
+  const claim = await prisma.uploadSession.updateMany({
+    where: { id: session.id, status: UploadSessionStatus.UPLOADING },
+    data: { status: UploadSessionStatus.FINALIZING }
+  })
+  if (claim.count === 0) {
+    return null
+  }
+
+  let stored: StoredContent | null = null
+  let reserved = false
+
+  try {
+    const uploadedChunks = await getUploadedChunks(session.id)
+    if (uploadedChunks.length !== session.totalChunks) {
+      throw createValidationError('Upload is missing chunks')
+    }
+
+    await reserveStorage(session.userId, session.fileSize)
+    reserved = true
+
+    const sessionId = session.id
+    const totalChunks = session.totalChunks
+
+    // Chunks are staged on local disk; the assembled blob goes to the configured storage provider
+    async function* assembleChunks() {
+      for (let i = 0; i < totalChunks; i++) {
+        for await (const data of createReadStream(getChunkPath(sessionId, i))) {
+          yield data as Buffer
+        }
+      }
+    }
+
+    stored = await storeContent(
+      buildStorageKey(session.userId, session.fileName),
+      Readable.from(assembleChunks()),
+      { contentType: session.mimeType, dedupe: true }
+    )
+
+    const digest = stored.contentHash
+
+    if (stored.size !== session.fileSize) {
+      throw createValidationError('Assembled file size does not match the declared size')
+    }
+
+    if (session.checksum && session.checksum !== digest) {
+      throw createValidationError('Checksum mismatch for assembled file')
+    }
+
+    const newFile = await prisma.file.create({
+      data: {
+        name: session.fileName,
+        originalName: session.fileName,
+        size: session.fileSize,
+        type: session.mimeType,
+        url: stored.url,
+        storageProvider: stored.storageProvider,
+        storageKey: stored.storageKey,
+        contentHash: stored.contentHash,
+        blobId: stored.blobId,
+        encrypted: false,
+        userId: session.userId
+      }
+    })
+    await applyAutoTags(newFile)
+    scheduleTextExtraction(newFile.id)
+    scheduleThumbnails(newFile.id)
+    scheduleScan(newFile.id)
+
+    // The session may have been discarded meanwhile; the file stands either way
+    await prisma.uploadSession.updateMany({
+      where: { id: session.id },
+      data: { status: UploadSessionStatus.COMPLETED, fileId: newFile.id }
+    })
+
+    await fs.rm(getChunkDir(session.id), { recursive: true, force: true })
+
+    await logAuditEvent({
+      userId: session.userId,
+      action: AuditAction.FILE_UPLOAD,
+      resource: 'file',
+      resourceId: newFile.id,
+      details: {
+        fileName: newFile.name,
+        fileSize: newFile.size,
+        chunked: true,
+        totalChunks: session.totalChunks,
+        sha256: digest
+      },
+      severity: AuditSeverity.LOW
+    })
+
+    return newFile
+  } catch (error) {
+    if (stored) {
+      await releaseContent([stored])
+    }
+    if (reserved) {
+      await releaseStorage(session.userId, session.fileSize)
+    }
+    // A no-op when the session was discarded meanwhile, so the original error is what surfaces
+    await prisma.uploadSession.updateMany({
+      where: { id: session.id, status: UploadSessionStatus.FINALIZING },
+      data: {
+        status: UploadSessionStatus.FAILED,
+        error: error instanceof Error ? error.message : 'Finalize failed'
+      }
+    })
+    throw error
+  }
+}
+
+/**
+ * Discard an upload session and its stored chunks
+ */
+export async function discardUploadSession(userId: string, uploadId: string): Promise<void> {
+  const session = await findUploadSession(userId, uploadId)
+  if (!session) {
+    throw createNotFoundError('Upload session')
+  }
+
+  const prisma = await getPrismaClient()
+  await fs.rm(getChunkDir(session.id), { recursive: true, force: true })
+  await prisma.uploadSession.delete({ where: { id: session.id } })
+}
+
+/**
+ * Remove chunks of sessions that stopped receiving data before their expiry, or whose finalize
+ * never finished because its process died, and delete sessions finished long ago
+ */
+export async function cleanupAbandonedUploadSessions(): Promise<number> {
+  const prisma = await getPrismaClient()
+  const now = Date.now()
+  const abandoned: { id: string }[] = await prisma.uploadSession.findMany({
+    where: {
+      OR: [
+        {
+          status: { in: [UploadSessionStatus.UPLOADING, UploadSessionStatus.FAILED] },
+          expiresAt: { lt: new Date(now) }
+        },
+        {
+          // Quota it reserved stays counted until recalculateStorageUsage rebuilds the counter
+          status: UploadSessionStatus.FINALIZING,
+          updatedAt: { lt: new Date(now - FINALIZE_TIMEOUT_MS) }
+        }
+      ]
+    },
+    select: { id: true }
+  })
+
+  for (const session of abandoned) {
+    try {
+      await fs.rm(getChunkDir(session.id), { recursive: true, force: true })
+      await prisma.uploadSession.updateMany({
+        where: { id: session.id },
+        data: { status: UploadSessionStatus.EXPIRED }
+      })
+    } catch (error) {
+      console.error('Failed to clean up upload session:', session.id, error)
+    }
+  }
+
+  if (abandoned.length > 0) {
+    console.log(`Cleaned up ${abandoned.length} abandoned upload session(s)`)
+  }
+
+  // Finished sessions only hold an upload ID the client will not resume
+  const { count: purged } = await prisma.uploadSession.deleteMany({
+    where: {
+      status: { in: [UploadSessionStatus.COMPLETED, UploadSessionStatus.EXPIRED] },
+      updatedAt: { lt: new Date(now - FINISHED_SESSION_RETENTION_MS) }
+    }
+  })
+  if (purged > 0) {
+    console.log(`Deleted ${purged} finished upload session(s)`)
+  }
+
+  return abandoned.length
+}
+
+/**
+ * Run abandoned-session cleanup at most once per interval; safe to call on every request
+ */
+export function scheduleUploadSessionCleanup(): void {
+  const now = Date.now()
+  if (now - lastCleanupAt < CLEANUP_INTERVAL_MS) {
+    return
+  }
+  lastCleanupAt = now
+
+  cleanupAbandonedUploadSessions().catch(error => {
+    console.error('Upload session cleanup failed:', error)
+  })
+}
@@ -65,6 +65,14 @@ export function useResumableUpload(options: ResumableUploadOptions = {}) {
     return null
   }, [])
 
+  // Hex-encoded SHA-256 digest, verified by the server before a chunk is stored
+  const hashChunk = useCallback(async (chunk: Blob) => {
+    const digest = await crypto.subtle.digest('SHA-256', await chunk.arrayBuffer())
+    return Array.from(new Uint8Array(digest))
+      .map(byte => byte.toString(16).padStart(2, '0'))
+      .join('')
+  }, [])
+
   // Upload a single chunk
   const uploadChunk = useCallback(async (
     fileId: string,
@@ -83,6 +91,9 @@ export function useResumableUpload(options: ResumableUploadOptions = {}) {
     formData.append('totalChunks', totalChunks.toString())
     formData.append('fileName', file.name)
     formData.append('fileSize', file.size.toString())
+    formData.append('fileType', file.type || 'application/octet-stream')
+    formData.append('chunkSize', chunkSize.toString())
+    formData.append('checksum', await hashChunk(chunk))
     formData.append('chunk', chunk)
 
     const abortController = abortControllers.current.get(fileId)
@@ -140,7 +151,7 @@ export function useResumableUpload(options: ResumableUploadOptions = {}) {
       })
       return false
     }
-  }, [chunkSize, maxRetries, onComplete, onError])
+  }, [chunkSize, maxRetries, hashChunk, onComplete, onError])
 
   // Start resumable upload
   const startUpload = useCallback(async (file: File): Promise<string> => {
@@ -260,6 +271,12 @@ export function useResumableUpload(options: ResumableUploadOptions = {}) {
     }
 
     abortControllers.current.delete(fileId)
+
+    // Release the chunks already stored on the server
+    fetch(`/api/files/upload/chunk?fileId=${fileId}`, { method: 'DELETE' }).catch(error => {
+      console.warn('Failed to discard upload session:', error)
+    })
+
     setUploads(prev => {
       const newUploads = new Map(prev)
       newUploads.delete(fileId)
@@ -0,0 +1,249 @@
+// ZIP exports
+//
+// Several files downloaded as one archive. Every file is checked for DOWNLOAD permission on its
+// own, decrypted on the way out (master-wrapped keys server-side, passphrase-protected files only
+// with the key supplied for them) and hashed while it streams. The archive ends with
+// manifest.json, listing each file's path, size and SHA-256 and every file that was left out and
+// why (including files held back by the malware scanner). Each file the user may download gets
+// a DownloadHistory row, completed or failed.
+
+import { createHash } from 'crypto'
+import { Readable, Transform } from 'stream'
+import { getPrismaClient } from './prisma'
+import { checkFileAccess, Permission } from './permissions'
+import { isEndToEndEncrypted, requiresPassphrase, resolveFileSecret } from './key-management'
+import { openStoredFileDecryptStream, EnvelopeSecret } from './encryption'
+import { openStoredObject } from './storage'
+import { isCompressibleType, uniqueEntryName, ZipEntry } from './zip'
+import { getScanBlockReason } from './malware-scan'
+import { createValidationError } from './error-handling'
+
+export const MAX_EXPORT_FILES = 500
+export const MANIFEST_NAME = 'manifest.json'
+
+export interface ExportRequest {
+  fileIds: string[]
+  keys: Record<string, string> // fileId -> decryption key for passphrase-protected files
+  key: string | null // Tried for passphrase-protected files without their own key
+}
+
+export interface ExportedFile {
+  id: string
+  name: string
+  size: number
+  type: string
+}
+
+export interface SkippedExportFile {
+  id: string
+  name: string
+  reason: string
+}
+
+export interface ExportPlan {
+  entries: ZipEntry[]
+  files: ExportedFile[] // Files that will be in the archive
+  skipped: SkippedExportFile[]
+}
+
+interface ManifestFile {
+  path: string
+  fileId: string
+  size: number
+  type: string
+  sha256: string
+}
+
+/**
+ * Validate which files to export and the keys sent for them
+ */
+export function parseExportRequest(input: { fileIds?: unknown; keys?: unknown; key?: unknown }): ExportRequest {
+  const { fileIds, keys, key } = input
+  if (!Array.isArray(fileIds) || fileIds.length === 0 || fileIds.some(id => typeof id !== 'string')) {
+    throw createValidationError('fileIds must be a non-empty list of file ids')
+  }
+  const unique = [...new Set(fileIds as string[])]
+  if (unique.length > MAX_EXPORT_FILES) {
+    throw createValidationError(`At most ${MAX_EXPORT_FILES} files can be exported at once`)
+  }
+
+  if (keys !== undefined && keys !== null &&
+      (typeof keys !== 'object' || Array.isArray(keys) || Object.values(keys).some(value => typeof value !== 'string'))) {
+    throw createValidationError('keys must map file ids to decryption keys')
+  }
+
+  return {
+    fileIds: unique,
+    keys: (keys as Record<string, string>) || {},
+    key: typeof key === 'string' && key ? key : null
+  }
+}
+
+async function recordHistory(
+  userId: string,
+  file: { id: string; name: string; size: number; type: string },
+  result: { status: 'completed' | 'failed'; duration?: number; bytes?: number; error?: string }
+): Promise<void> {
+  try {
+    const prisma = await getPrismaClient()
+    await prisma.downloadHistory.create({
+      data: {
+        userId,
+        fileId: file.id,
+        fileName: file.name,
+        fileSize: result.bytes ?? file.size,
+        fileType: file.type,
+        status: result.status,
+        duration: result.duration ?? null,
+        speed: result.duration && result.bytes ? result.bytes / result.duration : null,
+        error: result.error ?? null
+      }
+    })
+  } catch (error) {
+    // History is informational; a failed write must not break the archive
+    console.error('Failed to record download history:', error)
+  }
+}
+
+/**
+ * Hash and count a file's bytes as they pass into the archive, and record the outcome once
+ * the file has been fully read or has failed
+ */
+function trackExport(
+  source: Readable,
+  userId: string,
+  file: ExportedFile,
+  onComplete: (sha256: string, size: number) => void
+): Readable {
+  const hash = createHash('sha256')
+  const startedAt = Date.now()
+  let bytes = 0
+
+  const tracker = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      hash.update(chunk)
+      bytes += chunk.length
+      callback(null, chunk)
+    },
+    flush(callback) {
+      onComplete(hash.digest('hex'), bytes)
+      recordHistory(userId, file, { status: 'completed', duration: (Date.now() - startedAt) / 1000, bytes })
+        .finally(() => callback())
+    }
+  })
+
+  source.on('error', error => {
+    recordHistory(userId, file, { status: 'failed', bytes, error: error.message })
+    tracker.destroy(error)
+  })
+  return source.pipe(tracker)
+}
+
+/**
+ * Plan a ZIP export of files for a user. Files without DOWNLOAD permission, end-to-end
+ * encrypted files (only the browser can decrypt them) and passphrase-protected files without
+ * a working key are left out and listed in the manifest. Entries open their blob only when the
+ * archive reaches them, so the archive streams in constant memory.
+ */
+export async function planZipExport(
+  userId: string,
+  request: ExportRequest,
+  options: {
+    isShareUnlocked?: (share: { id: string; password: string | null }) => boolean
+    title?: string // Recorded in the manifest
+  } = {}
+): Promise<ExportPlan> {
+  const prisma = await getPrismaClient()
+  const entries: ZipEntry[] = []
+  const files: ExportedFile[] = []
+  const skipped: SkippedExportFile[] = []
+  const manifestFiles: ManifestFile[] = []
+  const usedNames = new Set<string>([MANIFEST_NAME])
+
+  const skip = async (file: { id: string; name: string; size: number; type: string }, reason: string) => {
+    skipped.push({ id: file.id, name: file.name, reason })
+    await recordHistory(userId, file, { status: 'failed', error: reason })
+  }
+
+  for (const fileId of request.fileIds) {
+    const access = await checkFileAccess(userId, fileId, [Permission.DOWNLOAD], { isShareUnlocked: options.isShareUnlocked })
+    const record = access.permissions.length > 0 ? await prisma.file.findUnique({ where: { id: fileId } }) : null
+    if (!record || !access.hasAccess) {
+      // Names are only reported for files the user can at least see
+      skipped.push({ id: fileId, name: record ? record.originalName || record.name : fileId, reason: access.reason || 'File not found' })
+      continue
+    }
+
+    const file: ExportedFile = { id: record.id, name: record.originalName || record.name, size: record.size, type: record.type }
+
+    const scanBlock = getScanBlockReason(record)
+    if (scanBlock) {
+      await skip(file, scanBlock)
+      continue
+    }
+
+    let secret: EnvelopeSecret | null = null
+    if (record.encrypted) {
+      if (isEndToEndEncrypted(record)) {
+        await skip(file, 'End-to-end encrypted; download it on its own to decrypt it in the browser')
+        continue
+      }
+      const key = request.keys[fileId] || request.key
+      if (!key && (requiresPassphrase(record) || (!record.wrappedKey && !record.encryptionKey))) {
+        await skip(file, 'Decryption key required')
+        continue
+      }
+      try {
+        secret = await resolveFileSecret(record, key)
+      } catch {
+        await skip(file, 'Incorrect decryption key')
+        continue
+      }
+    }
+
+    const path = uniqueEntryName(file.name, usedNames)
+    files.push(file)
+    entries.push({
+      name: path,
+      modifiedAt: record.updatedAt,
+      compress: isCompressibleType(record.type),
+      open: async () => {
+        let source: Readable
+        try {
+          const stored = await openStoredObject(record)
+          source = stored.stream
+          if (secret) {
+            try {
+              // The key is verified against the envelope header before anything is written
+              source = await openStoredFileDecryptStream(stored.stream, secret)
+            } catch (error) {
+              stored.stream.destroy()
+              throw error
+            }
+          }
+        } catch (error) {
+          console.error('Failed to open file for export:', fileId, error)
+          await skip(file, secret ? 'Incorrect decryption key' : 'File could not be read')
+          return null
+        }
+        return trackExport(source, userId, file, (sha256, size) => {
+          manifestFiles.push({ path, fileId, size, type: file.type, sha256 })
+        })
+      }
+    })
+  }
+
+  // Last entry: by the time the archive reaches it, every file above has been hashed
+  entries.push({
+    name: MANIFEST_NAME,
+    open: async () => Buffer.from(JSON.stringify({
+      ...(options.title && { title: options.title }),
+      createdAt: new Date().toISOString(),
+      algorithm: 'sha256',
+      files: manifestFiles,
+      skipped
+    }, null, 2), 'utf8')
+  })
+
+  return { entries, files, skipped }
+}
@@ -0,0 +1,13 @@
+import { describe, expect, it } from 'vitest'
+import { crc32 } from './zip'
+
+describe('crc32', () => {
+  it('matches the standard check value', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926)
+  })
+
+  it('continues across chunks', () => {
+    const data = Buffer.from('The quick brown fox jumps over the lazy dog')
+    expect(crc32(data.subarray(10), crc32(data.subarray(0, 10)))).toBe(0x414fa339)
+  })
+})
@@ -0,0 +1,256 @@
+// Streaming ZIP archives
+//
+// Entries are written one after another as their sources are read, so an archive of any size
+// needs memory for one chunk at a time. Sizes and CRCs follow each entry in a data descriptor;
+// ZIP64 records are added once offsets or the entry count outgrow the classic format. Single
+// entries must stay below 4GB, which the upload limit guarantees.
+
+import { Readable } from 'stream'
+import zlib from 'zlib'
+
+export interface ZipEntry {
+  name: string // Path inside the archive, "/"-separated
+  modifiedAt?: Date
+  compress?: boolean // Deflate the entry; defaults to true
+  open: () => Promise<Readable | Buffer | null> // null leaves the entry out
+}
+
+interface CentralRecord {
+  name: Buffer
+  method: number
+  time: number
+  date: number
+  crc: number
+  compressedSize: number
+  size: number
+  offset: number
+}
+
+const UINT32_MAX = 0xffffffff
+const UINT16_MAX = 0xffff
+const FLAG_DATA_DESCRIPTOR = 0x0008
+const FLAG_UTF8 = 0x0800
+const METHOD_STORE = 0
+const METHOD_DEFLATE = 8
+const VERSION_DEFAULT = 20
+const VERSION_ZIP64 = 45
+
+// Types that are already compressed gain nothing from deflate
+const COMPRESSED_TYPES = [/^image\/(?!svg|bmp|tiff)/, /^video\//, /^audio\/(?!wav|x-wav)/, /zip|compressed|gzip|x-7z|x-rar|x-bzip/]
+
+export function isCompressibleType(contentType: string): boolean {
+  return !COMPRESSED_TYPES.some(pattern => pattern.test(contentType))
+}
+
+/**
+ * Make an entry name safe and unique within an archive. Leading slashes and ".." segments are
+ * dropped so extraction stays inside the target directory; repeats get " (2)", " (3)", ...
+ */
+export function uniqueEntryName(name: string, used: Set<string>): string {
+  const segments = name.replace(/\\/g, '/').split('/').filter(segment => segment && segment !== '.' && segment !== '..')
+  const safe = segments.join('/') || 'file'
+
+  let candidate = safe
+  const dot = safe.lastIndexOf('.')
+  const hasExtension = dot > safe.lastIndexOf('/') + 1
+  const base = hasExtension ? safe.slice(0, dot) : safe
+  const extension = hasExtension ? safe.slice(dot) : ''
+  for (let copy = 2; used.has(candidate.toLowerCase()); copy++) {
+    candidate = `${base} (${copy})${extension}`
+  }
+  used.add(candidate.toLowerCase())
+  return candidate
+}
+
+// zlib.crc32 only exists from Node 20.15, later than the runtime .nvmrc pins
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+/**
+ * CRC-32 (IEEE) of a chunk, continuing from the CRC of the data before it
+ */
+export function crc32(data: Uint8Array, previous: number = 0): number {
+  let crc = ~previous >>> 0
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return ~crc >>> 0
+}
+
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getFullYear(), 1980)
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  }
+}
+
+function localHeader(name: Buffer, method: number, time: number, date: number): Buffer {
+  const header = Buffer.alloc(30)
+  header.writeUInt32LE(0x04034b50, 0)
+  header.writeUInt16LE(VERSION_DEFAULT, 4)
+  header.writeUInt16LE(FLAG_DATA_DESCRIPTOR | FLAG_UTF8, 6)
+  header.writeUInt16LE(method, 8)
+  header.writeUInt16LE(time, 10)
+  header.writeUInt16LE(date, 12)
+  // CRC and sizes follow in the data descriptor
+  header.writeUInt16LE(name.length, 26)
+  header.writeUInt16LE(0, 28)
+  return Buffer.concat([header, name])
+}
+
+function dataDescriptor(crc: number, compressedSize: number, size: number): Buffer {
+  const descriptor = Buffer.alloc(16)
+  descriptor.writeUInt32LE(0x08074b50, 0)
+  descriptor.writeUInt32LE(crc, 4)
+  descriptor.writeUInt32LE(compressedSize, 8)
+  descriptor.writeUInt32LE(size, 12)
+  return descriptor
+}
+
+function centralHeader(record: CentralRecord): Buffer {
+  const zip64 = record.offset >= UINT32_MAX
+  // The only ZIP64 field a central header can need here is the local header offset
+  const extra = zip64 ? Buffer.alloc(12) : Buffer.alloc(0)
+  if (zip64) {
+    extra.writeUInt16LE(0x0001, 0)
+    extra.writeUInt16LE(8, 2)
+    extra.writeBigUInt64LE(BigInt(record.offset), 4)
+  }
+
+  const header = Buffer.alloc(46)
+  header.writeUInt32LE(0x02014b50, 0)
+  header.writeUInt16LE(zip64 ? VERSION_ZIP64 : VERSION_DEFAULT, 4)
+  header.writeUInt16LE(zip64 ? VERSION_ZIP64 : VERSION_DEFAULT, 6)
+  header.writeUInt16LE(FLAG_DATA_DESCRIPTOR | FLAG_UTF8, 8)
+  header.writeUInt16LE(record.method, 10)
+  header.writeUInt16LE(record.time, 12)
+  header.writeUInt16LE(record.date, 14)
+  header.writeUInt32LE(record.crc, 16)
+  header.writeUInt32LE(record.compressedSize, 20)
+  header.writeUInt32LE(record.size, 24)
+  header.writeUInt16LE(record.name.length, 28)
+  header.writeUInt16LE(extra.length, 30)
+  header.writeUInt32LE(zip64 ? UINT32_MAX : record.offset, 42)
+  return Buffer.concat([header, record.name, extra])
+}
+
+function endOfCentralDirectory(entries: number, directorySize: number, directoryOffset: number): Buffer {
+  const zip64 = entries >= UINT16_MAX || directorySize >= UINT32_MAX || directoryOffset >= UINT32_MAX
+  const parts: Buffer[] = []
+
+  if (zip64) {
+    const record = Buffer.alloc(56)
+    record.writeUInt32LE(0x06064b50, 0)
+    record.writeBigUInt64LE(BigInt(44), 4)
+    record.writeUInt16LE(VERSION_ZIP64, 12)
+    record.writeUInt16LE(VERSION_ZIP64, 14)
+    record.writeBigUInt64LE(BigInt(entries), 24)
+    record.writeBigUInt64LE(BigInt(entries), 32)
+    record.writeBigUInt64LE(BigInt(directorySize), 40)
+    record.writeBigUInt64LE(BigInt(directoryOffset), 48)
+
+    const locator = Buffer.alloc(20)
+    locator.writeUInt32LE(0x07064b50, 0)
+    locator.writeBigUInt64LE(BigInt(directoryOffset + directorySize), 8)
+    locator.writeUInt32LE(1, 16)
+    parts.push(record, locator)
+  }
+
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(zip64 ? UINT16_MAX : entries, 8)
+  end.writeUInt16LE(zip64 ? UINT16_MAX : entries, 10)
+  end.writeUInt32LE(zip64 ? UINT32_MAX : directorySize, 12)
+  end.writeUInt32LE(zip64 ? UINT32_MAX : directoryOffset, 16)
+  parts.push(end)
+  return Buffer.concat(parts)
+}
+
+async function* readSource(source: Readable | Buffer): AsyncGenerator<Buffer> {
+  if (Buffer.isBuffer(source)) {
+    yield source
+    return
+  }
+  for await (const chunk of source) {
+    yield Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk)
+  }
+}
+
+/**
+ * Stream a ZIP archive of the given entries. Each entry is opened only when the archive
+ * reaches it, so pass a lazy iterable to avoid holding more than one source open. Entries are
+ * opened before their header is written, so one that cannot be opened can still be left out.
+ */
+export function createZipStream(entries: Iterable<ZipEntry> | AsyncIterable<ZipEntry>): Readable {
+  async function* generate() {
+    const records: CentralRecord[] = []
+    let offset = 0
+
+    for await (const entry of entries) {
+      const source = await entry.open()
+      if (source === null) continue
+
+      const name = Buffer.from(entry.name, 'utf8')
+      const method = entry.compress === false ? METHOD_STORE : METHOD_DEFLATE
+      const { time, date } = toDosDateTime(entry.modifiedAt || new Date())
+      const header = localHeader(name, method, time, date)
+      const headerOffset = offset
+      yield header
+      offset += header.length
+
+      let crc = 0
+      let size = 0
+      let compressedSize = 0
+
+      if (method === METHOD_STORE) {
+        for await (const chunk of readSource(source)) {
+          crc = crc32(chunk, crc)
+          size += chunk.length
+          compressedSize += chunk.length
+          offset += chunk.length
+          yield chunk
+        }
+      } else {
+        const deflate = zlib.createDeflateRaw()
+        const input = Readable.from(readSource(source))
+        input.on('data', (chunk: Buffer) => {
+          crc = crc32(chunk, crc)
+          size += chunk.length
+        })
+        input.on('error', error => deflate.destroy(error))
+        input.pipe(deflate)
+        for await (const chunk of deflate) {
+          compressedSize += chunk.length
+          offset += chunk.length
+          yield chunk as Buffer
+        }
+      }
+
+      const descriptor = dataDescriptor(crc >>> 0, compressedSize, size)
+      yield descriptor
+      offset += descriptor.length
+      records.push({ name, method, time, date, crc: crc >>> 0, compressedSize, size, offset: headerOffset })
+    }
+
+    const directoryOffset = offset
+    let directorySize = 0
+    for (const record of records) {
+      const header = centralHeader(record)
+      directorySize += header.length
+      yield header
+    }
+    yield endOfCentralDirectory(records.length, directorySize, directoryOffset)
+  }
+
+  return Readable.from(generate())
+}
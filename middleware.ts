@@ -19,11 +19,20 @@ export default withAuth(
           pathname.startsWith("/api/auth") ||
           pathname.startsWith("/_next") ||
           pathname.startsWith("/favicon.ico") ||
-          pathname.startsWith("/public")
+          pathname.startsWith("/public") ||
+          pathname.startsWith("/s/") ||
+          pathname.startsWith("/api/s/") ||
+          pathname.startsWith("/r/") ||
+          pathname.startsWith("/api/r/")
         ) {
           return true
         }
 
+        // Presigned local storage URLs carry their own signature, checked by the route
+        if (pathname.startsWith("/api/files/download/local/") && req.nextUrl.searchParams.has("signature")) {
+          return true
+        }
+
         // Require authentication for all other routes
         return !!token
       },
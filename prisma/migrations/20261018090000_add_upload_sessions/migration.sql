@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "UploadSession" (
+    "id" TEXT NOT NULL,
+    "uploadId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "fileSize" INTEGER NOT NULL,
+    "mimeType" TEXT NOT NULL DEFAULT 'application/octet-stream',
+    "chunkSize" INTEGER NOT NULL,
+    "totalChunks" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'uploading',
+    "checksum" TEXT,
+    "fileId" TEXT,
+    "error" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "UploadSession_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "UploadSession_userId_idx" ON "UploadSession"("userId");
+
+-- CreateIndex
+CREATE INDEX "UploadSession_status_idx" ON "UploadSession"("status");
+
+-- CreateIndex
+CREATE INDEX "UploadSession_expiresAt_idx" ON "UploadSession"("expiresAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UploadSession_userId_uploadId_key" ON "UploadSession"("userId", "uploadId");
+
+-- AddForeignKey
+ALTER TABLE "UploadSession" ADD CONSTRAINT "UploadSession_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
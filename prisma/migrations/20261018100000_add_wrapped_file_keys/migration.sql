@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "File" ADD COLUMN     "keyId" TEXT,
+ADD COLUMN     "wrappedKey" TEXT;
+
+-- CreateIndex
+CREATE INDEX "File_keyId_idx" ON "File"("keyId");
+
+-- Existing plaintext "encryptionKey" values are wrapped by the key migration
+-- (POST /api/admin/keys with {"action":"migrate"}) once FILE_MASTER_KEYS is configured.
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "encryptedPrivateKey" TEXT,
+ADD COLUMN     "keyPairCreatedAt" TIMESTAMP(3),
+ADD COLUMN     "publicKey" TEXT;
+
+-- AlterTable
+ALTER TABLE "FileShare" ADD COLUMN     "wrappedKey" TEXT;
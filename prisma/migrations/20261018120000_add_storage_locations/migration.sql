@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "File" ADD COLUMN     "storageKey" TEXT,
+ADD COLUMN     "storageProvider" TEXT;
+
+-- AlterTable
+ALTER TABLE "FileVersion" ADD COLUMN     "storageKey" TEXT,
+ADD COLUMN     "storageProvider" TEXT;
+
+-- Existing rows keep a null location and are resolved from "url" (local download URL or Vercel Blob URL).
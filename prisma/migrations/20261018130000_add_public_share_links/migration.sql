@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "FileShare" ADD COLUMN     "token" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FileShare_token_key" ON "FileShare"("token");
+
+-- AlterTable: public link visitors are not signed in
+ALTER TABLE "FileAccessLog" ALTER COLUMN "userId" DROP NOT NULL;
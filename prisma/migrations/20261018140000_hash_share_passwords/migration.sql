@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "FileShare" ADD COLUMN     "failedPasswordAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "passwordLockedUntil" TIMESTAMP(3);
+
+-- Hash share passwords that were stored in plaintext. pgcrypto's bf hashes use the $2a$
+-- bcrypt format that bcryptjs verifies.
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+UPDATE "FileShare" SET "password" = NULL WHERE "password" = '';
+
+UPDATE "FileShare"
+SET "password" = crypt("password", gen_salt('bf', 10))
+WHERE "password" IS NOT NULL AND "password" NOT LIKE '$2%';
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "StorageQuota" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "limitBytes" BIGINT,
+    "usedBytes" BIGINT NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "StorageQuota_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StorageQuota_userId_key" ON "StorageQuota"("userId");
+
+-- AddForeignKey
+ALTER TABLE "StorageQuota" ADD CONSTRAINT "StorageQuota_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE "StoredBlob" (
+    "id" TEXT NOT NULL,
+    "sha256" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "url" TEXT NOT NULL,
+    "storageProvider" TEXT NOT NULL,
+    "storageKey" TEXT NOT NULL,
+    "refCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "StoredBlob_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "File" ADD COLUMN "contentHash" TEXT,
+ADD COLUMN "blobId" TEXT;
+
+-- AlterTable
+ALTER TABLE "FileVersion" ADD COLUMN "contentHash" TEXT,
+ADD COLUMN "blobId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StoredBlob_sha256_key" ON "StoredBlob"("sha256");
+
+-- CreateIndex
+CREATE INDEX "File_blobId_idx" ON "File"("blobId");
+
+-- CreateIndex
+CREATE INDEX "FileVersion_blobId_idx" ON "FileVersion"("blobId");
+
+-- AddForeignKey
+ALTER TABLE "File" ADD CONSTRAINT "File_blobId_fkey" FOREIGN KEY ("blobId") REFERENCES "StoredBlob"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FileVersion" ADD CONSTRAINT "FileVersion_blobId_fkey" FOREIGN KEY ("blobId") REFERENCES "StoredBlob"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
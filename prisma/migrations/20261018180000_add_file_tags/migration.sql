@@ -0,0 +1,22 @@
+-- CreateEnum
+CREATE TYPE "TagSource" AS ENUM ('AUTO', 'USER');
+
+-- CreateTable
+CREATE TABLE "FileTag" (
+    "id" TEXT NOT NULL,
+    "fileId" TEXT NOT NULL,
+    "tag" TEXT NOT NULL,
+    "source" "TagSource" NOT NULL DEFAULT 'AUTO',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "FileTag_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FileTag_fileId_tag_key" ON "FileTag"("fileId", "tag");
+
+-- CreateIndex
+CREATE INDEX "FileTag_tag_idx" ON "FileTag"("tag");
+
+-- AddForeignKey
+ALTER TABLE "FileTag" ADD CONSTRAINT "FileTag_fileId_fkey" FOREIGN KEY ("fileId") REFERENCES "File"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,65 @@
+-- CreateTable
+CREATE TABLE "FileContent" (
+    "fileId" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "truncated" BOOLEAN NOT NULL DEFAULT false,
+    "extractedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "FileContent_pkey" PRIMARY KEY ("fileId")
+);
+
+-- AddForeignKey
+ALTER TABLE "FileContent" ADD CONSTRAINT "FileContent_fileId_fkey" FOREIGN KEY ("fileId") REFERENCES "File"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AlterTable
+ALTER TABLE "File" ADD COLUMN "searchVector" tsvector;
+
+-- CreateIndex
+CREATE INDEX "File_searchVector_idx" ON "File" USING GIN ("searchVector");
+
+-- Search document for one file: name (weight A), tags (B) and extracted text (C).
+-- Punctuation in names and tags is split so "q3_report.pdf" matches "q3" and "report".
+CREATE FUNCTION file_search_vector(file_id TEXT, file_name TEXT, original_name TEXT) RETURNS tsvector AS $$
+  SELECT
+    setweight(to_tsvector('english', regexp_replace(concat_ws(' ', file_name, original_name), '[._/-]+', ' ', 'g')), 'A') ||
+    setweight(to_tsvector('english', coalesce((SELECT string_agg(replace("tag", '-', ' '), ' ') FROM "FileTag" WHERE "fileId" = file_id), '')), 'B') ||
+    setweight(to_tsvector('english', coalesce((SELECT "text" FROM "FileContent" WHERE "fileId" = file_id), '')), 'C')
+$$ LANGUAGE sql STABLE;
+
+-- Renames and new files recompute their own vector
+CREATE FUNCTION file_search_vector_update() RETURNS trigger AS $$
+BEGIN
+  NEW."searchVector" := file_search_vector(NEW."id", NEW."name", NEW."originalName");
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "File_searchVector_update"
+  BEFORE INSERT OR UPDATE OF "name", "originalName" ON "File"
+  FOR EACH ROW EXECUTE FUNCTION file_search_vector_update();
+
+-- Tag and content changes refresh the vector of the file they belong to
+CREATE FUNCTION file_search_vector_refresh() RETURNS trigger AS $$
+DECLARE
+  target_id TEXT;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    target_id := OLD."fileId";
+  ELSE
+    target_id := NEW."fileId";
+  END IF;
+  UPDATE "File" SET "searchVector" = file_search_vector("id", "name", "originalName") WHERE "id" = target_id;
+  RETURN NULL;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "FileTag_searchVector_refresh"
+  AFTER INSERT OR UPDATE OR DELETE ON "FileTag"
+  FOR EACH ROW EXECUTE FUNCTION file_search_vector_refresh();
+
+CREATE TRIGGER "FileContent_searchVector_refresh"
+  AFTER INSERT OR UPDATE OR DELETE ON "FileContent"
+  FOR EACH ROW EXECUTE FUNCTION file_search_vector_refresh();
+
+-- Backfill existing files
+UPDATE "File" SET "searchVector" = file_search_vector("id", "name", "originalName");
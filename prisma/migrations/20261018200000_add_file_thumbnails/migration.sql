@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "ThumbnailStatus" AS ENUM ('PENDING', 'READY', 'SKIPPED', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "File" ADD COLUMN "thumbnailStatus" "ThumbnailStatus" NOT NULL DEFAULT 'PENDING';
+
+-- CreateTable
+CREATE TABLE "FileThumbnail" (
+    "id" TEXT NOT NULL,
+    "fileId" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "width" INTEGER NOT NULL,
+    "height" INTEGER NOT NULL,
+    "byteSize" INTEGER NOT NULL,
+    "url" TEXT NOT NULL,
+    "storageProvider" TEXT,
+    "storageKey" TEXT,
+    "encrypted" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "FileThumbnail_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FileThumbnail_fileId_size_key" ON "FileThumbnail"("fileId", "size");
+
+-- AddForeignKey
+ALTER TABLE "FileThumbnail" ADD CONSTRAINT "FileThumbnail_fileId_fkey" FOREIGN KEY ("fileId") REFERENCES "File"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,48 @@
+-- CreateTable
+CREATE TABLE "FileRequest" (
+    "id" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "message" TEXT,
+    "userId" TEXT NOT NULL,
+    "folderId" TEXT,
+    "maxFileSize" INTEGER,
+    "allowedTypes" TEXT[],
+    "password" TEXT,
+    "failedPasswordAttempts" INTEGER NOT NULL DEFAULT 0,
+    "passwordLockedUntil" TIMESTAMP(3),
+    "expiresAt" TIMESTAMP(3),
+    "maxUploads" INTEGER,
+    "uploadCount" INTEGER NOT NULL DEFAULT 0,
+    "revoked" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "FileRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "File" ADD COLUMN "fileRequestId" TEXT,
+ADD COLUMN "uploaderName" TEXT,
+ADD COLUMN "uploaderEmail" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FileRequest_token_key" ON "FileRequest"("token");
+
+-- CreateIndex
+CREATE INDEX "FileRequest_userId_idx" ON "FileRequest"("userId");
+
+-- CreateIndex
+CREATE INDEX "FileRequest_folderId_idx" ON "FileRequest"("folderId");
+
+-- CreateIndex
+CREATE INDEX "File_fileRequestId_idx" ON "File"("fileRequestId");
+
+-- AddForeignKey
+ALTER TABLE "File" ADD CONSTRAINT "File_fileRequestId_fkey" FOREIGN KEY ("fileRequestId") REFERENCES "FileRequest"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FileRequest" ADD CONSTRAINT "FileRequest_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FileRequest" ADD CONSTRAINT "FileRequest_folderId_fkey" FOREIGN KEY ("folderId") REFERENCES "Folder"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "Transfer" (
+    "id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "message" TEXT,
+    "userId" TEXT NOT NULL,
+    "permissions" TEXT NOT NULL DEFAULT '[]',
+    "expiresAt" TIMESTAMP(3),
+    "revoked" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Transfer_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "FileShare" ADD COLUMN "transferId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Transfer_userId_idx" ON "Transfer"("userId");
+
+-- CreateIndex
+CREATE INDEX "FileShare_transferId_idx" ON "FileShare"("transferId");
+
+-- AddForeignKey
+ALTER TABLE "Transfer" ADD CONSTRAINT "Transfer_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FileShare" ADD CONSTRAINT "FileShare_transferId_fkey" FOREIGN KEY ("transferId") REFERENCES "Transfer"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,10 @@
+-- CreateEnum
+CREATE TYPE "ScanStatus" AS ENUM ('PENDING', 'CLEAN', 'INFECTED', 'ERROR');
+
+-- AlterTable
+ALTER TABLE "File" ADD COLUMN "scanStatus" "ScanStatus" NOT NULL DEFAULT 'PENDING',
+ADD COLUMN "scanResult" TEXT,
+ADD COLUMN "scannedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "File_scanStatus_idx" ON "File"("scanStatus");
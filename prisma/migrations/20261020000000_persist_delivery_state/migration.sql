@@ -0,0 +1,25 @@
+-- AlterEnum
+ALTER TYPE "DeliveryStatus" RENAME VALUE 'READ' TO 'VIEWED';
+ALTER TYPE "DeliveryStatus" ADD VALUE 'SENT' BEFORE 'DELIVERED';
+ALTER TYPE "DeliveryStatus" ADD VALUE 'DOWNLOADED' AFTER 'VIEWED';
+
+-- AlterTable
+ALTER TABLE "FileDelivery" ADD COLUMN "sentAt" TIMESTAMP(3),
+ADD COLUMN "downloadedAt" TIMESTAMP(3),
+ADD COLUMN "failedAt" TIMESTAMP(3),
+ADD COLUMN "failureReason" TEXT,
+ADD COLUMN "lastAttemptAt" TIMESTAMP(3),
+ADD COLUMN "nextRetryAt" TIMESTAMP(3),
+ADD COLUMN "shareId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "FileDelivery_nextRetryAt_idx" ON "FileDelivery"("nextRetryAt");
+
+-- CreateIndex
+CREATE INDEX "FileDelivery_createdAt_idx" ON "FileDelivery"("createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FileDelivery_shareId_recipientId_key" ON "FileDelivery"("shareId", "recipientId");
+
+-- AddForeignKey
+ALTER TABLE "FileDelivery" ADD CONSTRAINT "FileDelivery_shareId_fkey" FOREIGN KEY ("shareId") REFERENCES "FileShare"("id") ON DELETE CASCADE ON UPDATE CASCADE;
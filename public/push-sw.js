@@ -0,0 +1,30 @@
+// Service worker for Web Push notifications (see lib/push.ts)
+
+self.addEventListener('push', (event) => {
+  let data = {}
+  try {
+    data = event.data ? event.data.json() : {}
+  } catch {
+    data = { title: 'Privora12', body: event.data ? event.data.text() : '' }
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(data.title || 'Privora12', {
+      body: data.body || '',
+      tag: data.tag,
+      data: { url: data.url || '/' }
+    })
+  )
+})
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close()
+  const url = (event.notification.data && event.notification.data.url) || '/'
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const existing = windows.find((client) => client.url === url)
+      return existing ? existing.focus() : self.clients.openWindow(url)
+    })
+  )
+})